@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { checkOrderAddresses } from "./addresses";
+
+const address = (overrides: Record<string, unknown> = {}) => ({
+  label: "Office",
+  name: "Asha Rao",
+  line1: "12 Park Street",
+  city: "Mumbai",
+  state: "27",
+  pincode: "400001",
+  phone: "9876543210",
+  ...overrides,
+});
+
+const order = (overrides: Record<string, unknown> = {}) => ({
+  deliveryState: "27",
+  shippingAddress: address(),
+  billingAddress: address(),
+  ...overrides,
+});
+
+describe("checkOrderAddresses", () => {
+  it("accepts addresses whose PIN codes are in their states", () => {
+    expect(checkOrderAddresses(order({ billingAddress: address({ state: "04", pincode: "160017" }) }))).toBeNull();
+  });
+
+  it("accepts a PIN code outside the known sorting districts", () => {
+    expect(checkOrderAddresses(order({ shippingAddress: address({ pincode: "899999" }) }))).toBeNull();
+  });
+
+  it("refuses a PIN code from another state", () => {
+    expect(checkOrderAddresses(order({ shippingAddress: address({ state: "07" }), deliveryState: "07" }))).toBe(
+      "The shipping address is wrong: PIN code 400001 is in Maharashtra, not Delhi; please update your address book and place the order again"
+    );
+    expect(checkOrderAddresses(order({ billingAddress: address({ pincode: "110001" }) }))).toMatch(/^The billing address is wrong/);
+  });
+
+  it("refuses missing or malformed addresses", () => {
+    expect(checkOrderAddresses(order({ shippingAddress: undefined }))).toMatch(/shipping address is missing/);
+    expect(checkOrderAddresses(order({ billingAddress: address({ pincode: "40001" }) }))).toMatch(/no valid PIN code/);
+    expect(checkOrderAddresses(order({ billingAddress: address({ state: "99" }) }))).toMatch(/no valid state/);
+  });
+
+  it("refuses a delivery state the shipping address doesn't have", () => {
+    expect(checkOrderAddresses(order({ deliveryState: "07" }))).toMatch(/delivery state doesn't match/);
+  });
+});
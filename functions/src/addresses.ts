@@ -0,0 +1,35 @@
+import { DocumentData } from "firebase-admin/firestore";
+import { getPincodeStateError, PINCODE_PATTERN } from "./shared/pincodes";
+import { GST_STATE_CODES } from "./shared/tax";
+
+// Same layout as formatAddress in src/lib/address-service.ts
+export const formatAddress = (address: DocumentData): string =>
+  [
+    address.name,
+    address.line1,
+    address.line2,
+    `${address.city}, ${GST_STATE_CODES[address.state] || address.state} - ${address.pincode}`,
+    `Phone: ${address.phone}`,
+  ].filter(Boolean).join(", ");
+
+const checkAddress = (kind: string, address: DocumentData | undefined): string | null => {
+  if (!address) return `The ${kind} address is missing`;
+  if (!GST_STATE_CODES[address.state]) return `The ${kind} address has no valid state`;
+  if (typeof address.pincode !== "string" || !PINCODE_PATTERN.test(address.pincode)) {
+    return `The ${kind} address has no valid PIN code`;
+  }
+  const mismatch = getPincodeStateError(address.pincode, address.state);
+  return mismatch && `The ${kind} address is wrong: ${mismatch}`;
+};
+
+// The order's copies of the addresses, which the browser wrote. The shipping
+// state is the place of supply for buyers without a GSTIN, so it must agree
+// with both the PIN code and the order's deliveryState before we charge GST on it.
+export const checkOrderAddresses = (orderData: DocumentData): string | null => {
+  const error = checkAddress("shipping", orderData.shippingAddress) || checkAddress("billing", orderData.billingAddress);
+  if (error) return `${error}; please update your address book and place the order again`;
+  if (orderData.deliveryState !== orderData.shippingAddress.state) {
+    return "The delivery state doesn't match the shipping address; please place the order again";
+  }
+  return null;
+};
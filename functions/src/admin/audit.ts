@@ -0,0 +1,33 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+
+// Same shape as the browser's audit entries (src/lib/audit-service.ts), for
+// admin actions that only the functions can perform
+export interface AdminAuditEntry {
+  actorUid: string;
+  actorEmail: string;
+  action: string;
+  targetType: "admin" | "invite" | "order" | "reconciliation";
+  targetId: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  note?: string;
+}
+
+// For writing the entry in the same transaction as the change it records
+export const adminAuditData = (entry: AdminAuditEntry) => ({
+  ...entry,
+  before: entry.before ?? null,
+  after: entry.after ?? null,
+  note: entry.note || "",
+  createdAt: Timestamp.now(),
+});
+
+// The change itself has already happened, so a failed write is logged
+// rather than thrown
+export const recordAdminAudit = async (entry: AdminAuditEntry) => {
+  try {
+    await getFirestore().collection("auditLog").add(adminAuditData(entry));
+  } catch (error) {
+    console.error("❌ Failed to write audit entry:", entry.action, entry.targetId, error);
+  }
+};
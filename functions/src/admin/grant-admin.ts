@@ -0,0 +1,44 @@
+// Grants an admin role (or with --revoke, removes admin access) from the command
+// line. Used to bootstrap the first owner, after which admins are managed in the portal.
+//
+//   npm --prefix functions run admin:grant -- owner@example.com
+//   npm --prefix functions run admin:grant -- someone@example.com --role finance
+//   npm --prefix functions run admin:grant -- someone@example.com --revoke
+//
+// Uses application default credentials, or the emulator when FIREBASE_AUTH_EMULATOR_HOST is set.
+import { initializeApp } from "firebase-admin/app";
+import { setAdminRoleForEmail } from "./index";
+import { recordAdminAudit } from "./audit";
+import { AdminRole, ADMIN_ROLES, isAdminRole } from "./roles";
+
+const run = async (email: string, role: AdminRole | null) => {
+  initializeApp();
+  const user = await setAdminRoleForEmail(email, role, "admin:grant");
+  await recordAdminAudit({
+    actorUid: "",
+    actorEmail: "admin:grant",
+    action: role ? "admin.role_change" : "admin.remove",
+    targetType: "admin",
+    targetId: user.uid,
+    before: { email: user.email, role: user.customClaims?.role || null },
+    after: role ? { email: user.email, role } : null,
+    note: "Command line",
+  });
+  console.log(`✅ ${user.email} (${user.uid}) ${role ? `is now an admin with the ${role} role` : "is no longer an admin"}`);
+  console.log("ℹ️ The change applies after they sign in again.");
+};
+
+const args = process.argv.slice(2);
+const email = args.find((arg, index) => !arg.startsWith("--") && args[index - 1] !== "--role");
+const roleIndex = args.indexOf("--role");
+const role = roleIndex >= 0 ? args[roleIndex + 1] : "owner";
+
+if (!email || !isAdminRole(role)) {
+  console.error(`❌ Usage: admin:grant -- <email> [--role ${ADMIN_ROLES.join("|")}] [--revoke]`);
+  process.exit(1);
+}
+
+run(email, args.includes("--revoke") ? null : role).catch(error => {
+  console.error("❌ Could not update admin claim:", error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+import { onCall, HttpsError, CallableRequest } from "firebase-functions/v2/https";
+import { DecodedIdToken, getAuth, UserRecord } from "firebase-admin/auth";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { AdminRole, canManageAdmins, isAdminRole } from "./roles";
+import { recordAdminAudit } from "./audit";
+
+// Admin identity is the `admin` custom claim on the Firebase Auth token, and
+// the `role` claim decides what the admin may do. firestore.rules and
+// storage.rules check the same claims. The admins/{uid} collection is the
+// portal's list of admins and is kept in step with the claims here.
+//
+// Admin access also needs a second factor (./mfa.ts). Passing it adds the
+// `mfaAuthTime` and `mfaExpiresAt` claims, so the signed ID token itself
+// carries the admin session. The session is tied to the sign-in it was
+// verified for (`auth_time`) and lasts ADMIN_SESSION_HOURS.
+export const ADMIN_SESSION_HOURS = 24;
+
+export const adminSessionClaims = (authTime: number) => ({
+  mfaAuthTime: authTime,
+  mfaExpiresAt: Math.floor(Date.now() / 1000) + ADMIN_SESSION_HOURS * 60 * 60,
+});
+
+export const hasAdminSession = (token: DecodedIdToken): boolean =>
+  token.mfaAuthTime === token.auth_time
+  && typeof token.mfaExpiresAt === "number"
+  && token.mfaExpiresAt * 1000 > Date.now();
+
+// Admin claim only, for the second factor callables themselves
+export const requireAdminSignIn = (request: CallableRequest<unknown>) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please log in to the admin portal");
+  }
+  if (request.auth.token.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return request.auth;
+};
+
+export const requireAdmin = (request: CallableRequest<unknown>, allowed?: (role: unknown) => boolean) => {
+  const auth = requireAdminSignIn(request);
+  if (!hasAdminSession(auth.token)) {
+    throw new HttpsError("unauthenticated", "Verify your authenticator code to continue");
+  }
+  if (allowed && !allowed(auth.token.role)) {
+    throw new HttpsError("permission-denied", "Your admin role does not allow this");
+  }
+  return auth;
+};
+
+// Passing null removes admin access. Merges into the existing claims so
+// unrelated claims aren't dropped.
+export const setAdminRoleForUser = async (
+  user: UserRecord,
+  role: AdminRole | null,
+  actorEmail: string
+): Promise<void> => {
+  const auth = getAuth();
+  const claims = { ...(user.customClaims || {}) };
+
+  if (role) {
+    claims.admin = true;
+    claims.role = role;
+  } else {
+    delete claims.admin;
+    delete claims.role;
+    delete claims.mfaAuthTime;
+    delete claims.mfaExpiresAt;
+  }
+
+  await auth.setCustomUserClaims(user.uid, claims);
+
+  const adminRef = getFirestore().collection("admins").doc(user.uid);
+  if (role) {
+    const existing = await adminRef.get();
+    await adminRef.set({
+      uid: user.uid,
+      email: (user.email || "").toLowerCase(),
+      role,
+      updatedAt: Timestamp.now(),
+      updatedBy: actorEmail,
+      ...(existing.exists ? {} : { addedBy: actorEmail, addedAt: Timestamp.now() }),
+    }, { merge: true });
+  } else {
+    // A returning admin enrolls a new authenticator
+    await Promise.all([
+      adminRef.delete(),
+      getFirestore().collection("adminMfa").doc(user.uid).delete(),
+    ]);
+  }
+
+  // The current ID token keeps the old claims for up to an hour; revoking
+  // forces a fresh sign-in so a removal or downgrade takes effect at once
+  const downgraded = user.customClaims?.admin === true && user.customClaims?.role !== role;
+  if (!role || downgraded) {
+    await auth.revokeRefreshTokens(user.uid);
+  }
+};
+
+export const setAdminRoleForEmail = async (email: string, role: AdminRole | null, actorEmail: string) => {
+  const user = await getAuth().getUserByEmail(email.trim().toLowerCase());
+  await setAdminRoleForUser(user, role, actorEmail);
+  return user;
+};
+
+// Changes an existing admin's role or removes them. New admins join through
+// an invitation (./invites.ts), which also checks their email is verified.
+export const setAdminAccess = onCall<{ email: string; role: AdminRole | null }>(async (request) => {
+  const caller = requireAdmin(request, canManageAdmins);
+
+  const { email, role } = request.data || {};
+  if (!email || (role !== null && !isAdminRole(role))) {
+    throw new HttpsError("invalid-argument", "Missing email or invalid role");
+  }
+
+  // Stops the last owner from locking everyone out by accident
+  if (email.trim().toLowerCase() === caller.token.email?.toLowerCase()) {
+    throw new HttpsError("failed-precondition", "You cannot change your own admin access");
+  }
+
+  const user = await getAuth().getUserByEmail(email.trim().toLowerCase()).catch((error) => {
+    if ((error as { code?: string }).code === "auth/user-not-found") {
+      throw new HttpsError("not-found", "No account exists for this email");
+    }
+    console.error("❌ Failed to look up admin account:", error);
+    throw new HttpsError("internal", "Could not update admin access");
+  });
+
+  if (role && user.customClaims?.admin !== true) {
+    throw new HttpsError("failed-precondition", "This account isn't an admin. Send them an invitation instead.");
+  }
+
+  try {
+    await setAdminRoleForUser(user, role, caller.token.email || caller.uid);
+    console.log(`✅ Admin access for ${user.email} set to ${role || "none"} by ${caller.token.email}`);
+
+    await recordAdminAudit({
+      actorUid: caller.uid,
+      actorEmail: caller.token.email || "",
+      action: role ? "admin.role_change" : "admin.remove",
+      targetType: "admin",
+      targetId: user.uid,
+      before: { email: user.email, role: user.customClaims?.role || null },
+      after: role ? { email: user.email, role } : null,
+    });
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Failed to update admin access:", error);
+    throw new HttpsError("internal", "Could not update admin access");
+  }
+});
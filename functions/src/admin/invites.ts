@@ -0,0 +1,175 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { mailConfig } from "../config";
+import { sendMail } from "../mail/transport";
+import { adminInviteEmail } from "../mail/templates";
+import { requireAdmin, setAdminRoleForUser } from "./index";
+import { canManageAdmins, isAdminRole, ROLE_LABELS } from "./roles";
+import { recordAdminAudit } from "./audit";
+
+// adminInvites/{inviteId}: the link carries `<inviteId>.<token>` and only a
+// hash of the token is stored, so reading the collection can't forge a link.
+export const ADMIN_INVITE_TTL_DAYS = 7;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const tokenMatches = (token: string, expectedHash: string) => {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(expectedHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const inviteAdmin = onCall<{ email: string; role: string }>(async (request) => {
+  const caller = requireAdmin(request, canManageAdmins);
+  const db = getFirestore();
+
+  const email = (request.data?.email || "").trim().toLowerCase();
+  const role = request.data?.role;
+  if (!EMAIL_PATTERN.test(email) || !isAdminRole(role)) {
+    throw new HttpsError("invalid-argument", "Enter a valid email address and role");
+  }
+
+  const existingAdmin = await db.collection("admins").where("email", "==", email).limit(1).get();
+  if (!existingAdmin.empty) {
+    throw new HttpsError("already-exists", "This email is already an admin user");
+  }
+
+  // A new invitation replaces any earlier one still waiting for this email
+  const earlier = await db.collection("adminInvites")
+    .where("email", "==", email)
+    .where("status", "==", "pending")
+    .get();
+
+  const token = randomBytes(24).toString("hex");
+  const inviteRef = db.collection("adminInvites").doc();
+  const expiresAt = new Date(Date.now() + ADMIN_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const invitedBy = caller.token.email || caller.uid;
+
+  const batch = db.batch();
+  earlier.docs.forEach(invite => batch.update(invite.ref, { status: "revoked", revokedAt: Timestamp.now() }));
+  batch.set(inviteRef, {
+    email,
+    role,
+    tokenHash: hashToken(token),
+    status: "pending",
+    invitedBy,
+    createdAt: Timestamp.now(),
+    expiresAt: Timestamp.fromDate(expiresAt),
+  });
+  await batch.commit();
+
+  const inviteUrl = `${mailConfig.appUrl}/admin?invite=${inviteRef.id}.${token}`;
+  const mail = await sendMail({ to: email, ...adminInviteEmail(inviteUrl, ROLE_LABELS[role], invitedBy, expiresAt) });
+
+  console.log(`✅ Admin invite ${inviteRef.id} for ${email} (${role}) created by ${invitedBy}`);
+  await recordAdminAudit({
+    actorUid: caller.uid,
+    actorEmail: caller.token.email || "",
+    action: "admin.invite",
+    targetType: "invite",
+    targetId: inviteRef.id,
+    after: { email, role, status: "pending" },
+  });
+  return { success: true, inviteId: inviteRef.id, emailed: mail.success };
+});
+
+// Called from /admin?invite=... once the invitee has signed in with the
+// invited address. The invite is consumed before the claim is set and put
+// back if that fails, so it can never be used twice.
+export const acceptAdminInvite = onCall<{ invite: string }>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please sign in to accept the invitation");
+  }
+
+  // The invite is bound to an address, so the caller must have proved they own it
+  if (request.auth.token.email_verified !== true) {
+    throw new HttpsError("failed-precondition", "Verify your email address before accepting the invitation");
+  }
+
+  const [inviteId, token] = (request.data?.invite || "").split(".");
+  if (!inviteId || !token) {
+    throw new HttpsError("invalid-argument", "This invitation link is incomplete");
+  }
+
+  const db = getFirestore();
+  const inviteRef = db.collection("adminInvites").doc(inviteId);
+  const callerEmail = (request.auth.token.email || "").toLowerCase();
+
+  const invite = await db.runTransaction(async (transaction) => {
+    const inviteDoc = await transaction.get(inviteRef);
+    const data = inviteDoc.data();
+
+    if (!data || !tokenMatches(token, data.tokenHash)) {
+      throw new HttpsError("not-found", "This invitation link is not valid");
+    }
+    if (data.status !== "pending") {
+      throw new HttpsError("failed-precondition", `This invitation has already been ${data.status}`);
+    }
+    if (data.expiresAt.toMillis() < Date.now()) {
+      transaction.update(inviteRef, { status: "expired" });
+      return null;
+    }
+    if (data.email !== callerEmail) {
+      throw new HttpsError("permission-denied", `This invitation was sent to ${data.email}. Sign in with that address.`);
+    }
+
+    transaction.update(inviteRef, { status: "accepted", acceptedAt: Timestamp.now(), acceptedBy: request.auth!.uid });
+    return data;
+  });
+
+  if (!invite) {
+    throw new HttpsError("deadline-exceeded", "This invitation has expired. Ask an owner to send a new one.");
+  }
+
+  try {
+    const user = await getAuth().getUser(request.auth.uid);
+    await setAdminRoleForUser(user, invite.role, invite.invitedBy);
+    await db.collection("admins").doc(user.uid).update({ lastLogin: Timestamp.now() });
+  } catch (error) {
+    console.error("❌ Failed to grant admin access for invite:", inviteId, error);
+    await inviteRef.update({ status: "pending", acceptedAt: null, acceptedBy: null });
+    throw new HttpsError("internal", "Could not accept the invitation, please try again");
+  }
+
+  console.log(`✅ Admin invite ${inviteId} accepted by ${callerEmail}`);
+  await recordAdminAudit({
+    actorUid: request.auth.uid,
+    actorEmail: callerEmail,
+    action: "admin.invite_accept",
+    targetType: "admin",
+    targetId: request.auth.uid,
+    before: { role: null },
+    after: { email: callerEmail, role: invite.role },
+    note: `Invitation ${inviteId} from ${invite.invitedBy}`,
+  });
+  return { success: true, role: invite.role };
+});
+
+export const revokeAdminInvite = onCall<{ inviteId: string }>(async (request) => {
+  const caller = requireAdmin(request, canManageAdmins);
+
+  const inviteRef = getFirestore().collection("adminInvites").doc(request.data?.inviteId || "-");
+  const inviteDoc = await inviteRef.get();
+  if (!inviteDoc.exists) {
+    throw new HttpsError("not-found", "Invitation not found");
+  }
+  if (inviteDoc.data()!.status !== "pending") {
+    throw new HttpsError("failed-precondition", "Only pending invitations can be revoked");
+  }
+
+  await inviteRef.update({ status: "revoked", revokedAt: Timestamp.now() });
+  await recordAdminAudit({
+    actorUid: caller.uid,
+    actorEmail: caller.token.email || "",
+    action: "admin.invite_revoke",
+    targetType: "invite",
+    targetId: inviteRef.id,
+    before: { email: inviteDoc.data()!.email, status: "pending" },
+    after: { email: inviteDoc.data()!.email, status: "revoked" },
+  });
+  return { success: true };
+});
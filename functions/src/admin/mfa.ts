@@ -0,0 +1,203 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getAuth } from "firebase-admin/auth";
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { createHash, randomBytes } from "crypto";
+import { adminSessionClaims, requireAdmin, requireAdminSignIn } from "./index";
+import { canManageAdmins } from "./roles";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import { recordAdminAudit } from "./audit";
+
+// adminMfa/{uid} holds each admin's TOTP secret and hashed recovery codes.
+// firestore.rules gives the browser no access to it; everything goes
+// through these callables.
+const TOTP_ISSUER = "Micro UV Printers";
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const mfaRef = (uid: string) => getFirestore().collection("adminMfa").doc(uid);
+
+// Adds the session claims to the caller's token. The browser has to refresh
+// its ID token to pick them up.
+const startAdminSession = async (uid: string, authTime: number) => {
+  const auth = getAuth();
+  const user = await auth.getUser(uid);
+  await auth.setCustomUserClaims(uid, { ...(user.customClaims || {}), ...adminSessionClaims(authTime) });
+};
+
+type VerifyResult =
+  | { ok: true; recoveryCodesRemaining: number }
+  | { ok: false; reason: "invalid" | "locked"; lockedUntil?: Date };
+
+export const getAdminMfaStatus = onCall(async (request) => {
+  const caller = requireAdminSignIn(request);
+  const data = (await mfaRef(caller.uid).get()).data();
+
+  return {
+    enrolled: data?.enabled === true,
+    recoveryCodesRemaining: data?.recoveryCodeHashes?.length || 0,
+  };
+});
+
+// Step one of enrollment: a fresh secret for the authenticator app. It only
+// becomes active once confirmTotpEnrollment sees a valid code from it.
+export const startTotpEnrollment = onCall(async (request) => {
+  const caller = requireAdminSignIn(request);
+  const ref = mfaRef(caller.uid);
+
+  if ((await ref.get()).data()?.enabled) {
+    throw new HttpsError("failed-precondition", "Two-factor authentication is already set up");
+  }
+
+  const secret = generateTotpSecret();
+  await ref.set({ pendingSecret: secret, enabled: false, updatedAt: Timestamp.now() }, { merge: true });
+
+  return {
+    secret,
+    otpauthUrl: totpUri(secret, caller.token.email || caller.uid, TOTP_ISSUER),
+  };
+});
+
+export const confirmTotpEnrollment = onCall<{ code: string }>(async (request) => {
+  const caller = requireAdminSignIn(request);
+  const ref = mfaRef(caller.uid);
+  const data = (await ref.get()).data();
+
+  if (!data?.pendingSecret || data.enabled) {
+    throw new HttpsError("failed-precondition", "Start the authenticator setup first");
+  }
+
+  const step = verifyTotp(data.pendingSecret, request.data?.code || "");
+  if (step === null) {
+    throw new HttpsError("invalid-argument", "That code is not valid. Check the time on your phone and try again.");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await ref.set({
+    secret: data.pendingSecret,
+    pendingSecret: FieldValue.delete(),
+    enabled: true,
+    lastUsedStep: step,
+    recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    failedAttempts: 0,
+    enabledAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  }, { merge: true });
+
+  await getFirestore().collection("admins").doc(caller.uid).set({ mfaEnabled: true }, { merge: true });
+  await startAdminSession(caller.uid, caller.token.auth_time);
+
+  console.log("✅ Two-factor authentication enabled for:", caller.token.email);
+  return { success: true, recoveryCodes };
+});
+
+// Checks an authenticator code, or a one-time recovery code, for the current
+// sign-in. Runs in a transaction so the same code can't be used twice.
+export const verifyAdminSecondFactor = onCall<{ code?: string; recoveryCode?: string }>(async (request) => {
+  const caller = requireAdminSignIn(request);
+  const ref = mfaRef(caller.uid);
+  const { code, recoveryCode } = request.data || {};
+
+  if (!code && !recoveryCode) {
+    throw new HttpsError("invalid-argument", "Enter your authenticator code");
+  }
+
+  const result = await getFirestore().runTransaction<VerifyResult>(async (transaction) => {
+    const data = (await transaction.get(ref)).data();
+    if (!data?.enabled) {
+      throw new HttpsError("failed-precondition", "Two-factor authentication is not set up");
+    }
+
+    if (data.lockedUntil && data.lockedUntil.toMillis() > Date.now()) {
+      return { ok: false, reason: "locked", lockedUntil: data.lockedUntil.toDate() };
+    }
+
+    const recoveryCodeHashes: string[] = data.recoveryCodeHashes || [];
+    const recoveryHash = recoveryCode ? hashRecoveryCode(recoveryCode) : null;
+    const step = code ? verifyTotp(data.secret, code, data.lastUsedStep ?? -1) : null;
+
+    if (step !== null) {
+      transaction.update(ref, { lastUsedStep: step, failedAttempts: 0, lockedUntil: null });
+      return { ok: true, recoveryCodesRemaining: recoveryCodeHashes.length };
+    }
+
+    if (recoveryHash && recoveryCodeHashes.includes(recoveryHash)) {
+      const remaining = recoveryCodeHashes.filter(hash => hash !== recoveryHash);
+      transaction.update(ref, { recoveryCodeHashes: remaining, failedAttempts: 0, lockedUntil: null });
+      return { ok: true, recoveryCodesRemaining: remaining.length };
+    }
+
+    const failedAttempts = (data.failedAttempts || 0) + 1;
+    if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+      transaction.update(ref, { failedAttempts: 0, lockedUntil: Timestamp.fromDate(lockedUntil) });
+      return { ok: false, reason: "locked", lockedUntil };
+    }
+
+    transaction.update(ref, { failedAttempts });
+    return { ok: false, reason: "invalid" };
+  });
+
+  if (!result.ok) {
+    console.log(`ℹ️ Second factor rejected for ${caller.token.email} (${result.reason})`);
+    if (result.reason === "locked") {
+      throw new HttpsError("resource-exhausted", `Too many attempts. Try again after ${result.lockedUntil!.toLocaleTimeString("en-IN")}.`);
+    }
+    throw new HttpsError("invalid-argument", recoveryCode ? "That recovery code is not valid" : "That code is not valid");
+  }
+
+  await startAdminSession(caller.uid, caller.token.auth_time);
+  return { success: true, recoveryCodesRemaining: result.recoveryCodesRemaining };
+});
+
+// For an admin who lost their phone and recovery codes: they enroll again at
+// their next sign-in. Ends their current session straight away.
+export const resetAdminMfa = onCall<{ email: string }>(async (request) => {
+  const caller = requireAdmin(request, canManageAdmins);
+  const email = (request.data?.email || "").trim().toLowerCase();
+
+  if (!email) {
+    throw new HttpsError("invalid-argument", "Missing email");
+  }
+  if (email === caller.token.email?.toLowerCase()) {
+    throw new HttpsError("failed-precondition", "You cannot reset your own two-factor authentication");
+  }
+
+  const auth = getAuth();
+  let user;
+  try {
+    user = await auth.getUserByEmail(email);
+  } catch {
+    throw new HttpsError("not-found", "No account exists for this email");
+  }
+
+  const claims = { ...(user.customClaims || {}) };
+  delete claims.mfaAuthTime;
+  delete claims.mfaExpiresAt;
+
+  await mfaRef(user.uid).delete();
+  await getFirestore().collection("admins").doc(user.uid).set({ mfaEnabled: false }, { merge: true });
+  await auth.setCustomUserClaims(user.uid, claims);
+  await auth.revokeRefreshTokens(user.uid);
+
+  console.log(`✅ Two-factor authentication reset for ${email} by ${caller.token.email}`);
+  await recordAdminAudit({
+    actorUid: caller.uid,
+    actorEmail: caller.token.email || "",
+    action: "admin.mfa_reset",
+    targetType: "admin",
+    targetId: user.uid,
+    before: { email, mfaEnabled: true },
+    after: { email, mfaEnabled: false },
+  });
+  return { success: true };
+});
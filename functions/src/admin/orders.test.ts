@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { listDocuments, readDocument, resetFirestore, seedDocument } from "../testing/firestore";
+import { updateOrderStatus, updatePaymentStatus } from "./orders";
+
+vi.mock("firebase-admin/firestore", () => import("../testing/firestore"));
+
+const asAdmin = <T>(role: string, data: T) => ({
+  auth: {
+    uid: "admin_1",
+    token: { admin: true, role, email: "admin@example.com", auth_time: 1000, mfaAuthTime: 1000, mfaExpiresAt: Date.now() / 1000 + 3600 },
+  },
+  data,
+}) as unknown as CallableRequest<T>;
+
+beforeEach(() => {
+  resetFirestore();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  seedDocument("orders/o1", { userId: "user_1", status: "pending_payment", paymentStatus: "pending", totalAmount: 1180 });
+});
+
+describe("updatePaymentStatus", () => {
+  const setPaymentStatus = (paymentStatus: string, role = "finance") =>
+    updatePaymentStatus.run(asAdmin(role, { orderId: "o1", paymentStatus, note: "Customer called" }));
+
+  it("marks an unpaid order failed with its history and audit entry", async () => {
+    await setPaymentStatus("failed");
+
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("failed");
+    expect(listDocuments("orders/o1/events")[0].data).toMatchObject({ from: "pending", to: "failed", source: "admin" });
+    expect(listDocuments("auditLog")[0].data).toMatchObject({ action: "order.payment_status", after: { paymentStatus: "failed" } });
+  });
+
+  it.each(["paid", "refunded", "partial_refund"])("refuses to set %s by hand", async (paymentStatus) => {
+    await expect(setPaymentStatus(paymentStatus)).rejects.toMatchObject({ code: "invalid-argument" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+  });
+
+  it("refuses to change the payment status of a paid order", async () => {
+    seedDocument("orders/o1", { userId: "user_1", status: "received", paymentStatus: "paid", razorpayPaymentId: "pay_1" });
+
+    await expect(setPaymentStatus("failed")).rejects.toMatchObject({ code: "failed-precondition" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("paid");
+    expect(listDocuments("auditLog")).toHaveLength(0);
+  });
+
+  it("refuses roles that can't change payments", async () => {
+    await expect(setPaymentStatus("failed", "operations")).rejects.toMatchObject({ code: "permission-denied" });
+  });
+});
+
+describe("updateOrderStatus", () => {
+  beforeEach(() => {
+    seedDocument("orders/o1", { userId: "user_1", status: "processing", paymentStatus: "paid", razorpayPaymentId: "pay_1" });
+  });
+
+  const ship = (shipment?: { carrier: string; awb: string; eta?: string }) =>
+    updateOrderStatus.run(asAdmin("operations", { orderId: "o1", status: "shipped", shipment }));
+
+  it("stores the shipment it builds from the courier and AWB", async () => {
+    await ship({ carrier: "delhivery", awb: " 1234 567 890 ", eta: "2026-10-25" });
+
+    expect(readDocument("orders/o1")).toMatchObject({
+      status: "shipped",
+      shipment: {
+        carrier: "delhivery",
+        carrierLabel: "Delhivery",
+        awb: "1234567890",
+        trackingUrl: "https://www.delhivery.com/track-v2/package/1234567890",
+        eta: "2026-10-25",
+        shippedBy: "admin@example.com",
+      },
+    });
+    expect(listDocuments("orders/o1/events")[0].data.note).toBe("Delhivery AWB 1234567890");
+  });
+
+  it("needs a valid AWB to ship", async () => {
+    await expect(ship()).rejects.toMatchObject({ code: "invalid-argument" });
+    await expect(ship({ carrier: "delhivery", awb: "12" })).rejects.toMatchObject({ code: "invalid-argument" });
+    expect(readDocument("orders/o1")?.status).toBe("processing");
+  });
+});
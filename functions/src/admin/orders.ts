@@ -0,0 +1,208 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { DocumentData, FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { requireAdmin } from "./index";
+import { adminAuditData } from "./audit";
+import { canChangeOrderStatus, canChangePaymentStatus } from "./roles";
+import { orderEventData } from "../orders";
+import { isOrderStatus, PAID_PAYMENT_STATUSES, resolveOrderStatus, validateTransition } from "../shared/order-lifecycle";
+import { findCourier, normalizeAwb, ShipmentInput, validateShipment } from "../shared/couriers";
+
+// Admins change an order's status and payment status only through these, never by
+// writing the order (firestore.rules). The transition is checked against the
+// lifecycle, and the order, its history and the audit entry are written together.
+//
+// Admins may only move an unpaid order between these payment statuses. "paid"
+// comes from a verified or reconciled Razorpay payment (markOrderPaid), which
+// also issues the invoice; "refunded" and "partial_refund" only from
+// refundOrderPayment and the refund webhook.
+const MANUAL_PAYMENT_STATUSES = ["pending", "failed"];
+
+const PAID_ORDER_MESSAGE = "This order has been paid, so its payment status only changes through refunds";
+
+const buildShipment = (input: ShipmentInput, shippedBy: string) => {
+  const courier = findCourier(input.carrier)!;
+  const awb = normalizeAwb(input.awb);
+
+  return {
+    carrier: courier.id,
+    carrierLabel: courier.label,
+    awb,
+    ...(courier.trackingUrl ? { trackingUrl: courier.trackingUrl(awb) } : {}),
+    ...(input.eta ? { eta: input.eta } : {}),
+    shippedAt: Timestamp.now(),
+    shippedBy,
+  };
+};
+
+export const updateOrderStatus = onCall<{
+  orderId: string;
+  status: string;
+  paymentStatus?: string;
+  note?: string;
+  shipment?: ShipmentInput; // required when moving to shipped
+}>(async (request) => {
+  const caller = requireAdmin(request, canChangeOrderStatus);
+  const actorEmail = caller.token.email || caller.uid;
+  const { orderId, status, paymentStatus, shipment } = request.data || {};
+  const note = (request.data?.note || "").trim();
+
+  if (!orderId || !isOrderStatus(status)) {
+    throw new HttpsError("invalid-argument", "Missing order ID or status");
+  }
+  if (paymentStatus !== undefined && !canChangePaymentStatus(caller.token.role)) {
+    throw new HttpsError("permission-denied", "Your admin role does not allow changing the payment status");
+  }
+  if (paymentStatus !== undefined && !MANUAL_PAYMENT_STATUSES.includes(paymentStatus)) {
+    throw new HttpsError("invalid-argument", "The payment status can only be set to pending or failed by hand");
+  }
+
+  const shipmentError = shipment ? validateShipment(shipment) : null;
+  if (shipmentError) {
+    throw new HttpsError("invalid-argument", shipmentError);
+  }
+  if (shipment && findCourier(shipment.carrier)?.devOnly && process.env.FUNCTIONS_EMULATOR !== "true") {
+    throw new HttpsError("invalid-argument", "The test courier is only available in development");
+  }
+
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(orderId);
+
+  await db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      throw new HttpsError("not-found", "Order not found");
+    }
+
+    const data = orderDoc.data()!;
+    const currentStatus = resolveOrderStatus(data);
+    const transition = validateTransition(currentStatus, status);
+    if (!transition.valid) {
+      throw new HttpsError("failed-precondition", transition.message || "Illegal status transition");
+    }
+
+    const shipping = status === "shipped" && currentStatus !== "shipped";
+    if (shipping && !shipment) {
+      throw new HttpsError("invalid-argument", "Enter the courier and AWB number to ship this order");
+    }
+
+    const shipmentData = shipping && shipment ? buildShipment(shipment, actorEmail) : null;
+    const paymentChanged = !!paymentStatus && paymentStatus !== data.paymentStatus;
+    if (paymentChanged && PAID_PAYMENT_STATUSES.includes(data.paymentStatus)) {
+      throw new HttpsError("failed-precondition", PAID_ORDER_MESSAGE);
+    }
+
+    transaction.update(orderRef, {
+      status,
+      // Superseded by `status`; dropped whenever an order is touched
+      executionStatus: FieldValue.delete(),
+      executionProgress: FieldValue.delete(),
+      ...(paymentChanged ? { paymentStatus } : {}),
+      ...(shipmentData ? { shipment: shipmentData } : {}),
+      lastUpdated: Timestamp.now(),
+    });
+
+    if (status !== currentStatus) {
+      transaction.set(orderRef.collection("events").doc(), orderEventData({
+        type: "status",
+        from: currentStatus,
+        to: status,
+        actorEmail,
+        source: "admin",
+        note: shipmentData
+          ? [`${shipmentData.carrierLabel} AWB ${shipmentData.awb}`, note].filter(Boolean).join(" - ")
+          : note,
+      }));
+    }
+    if (paymentChanged) {
+      transaction.set(orderRef.collection("events").doc(), orderEventData({
+        type: "payment",
+        from: data.paymentStatus || null,
+        to: paymentStatus!,
+        actorEmail,
+        source: "admin",
+        note,
+      }));
+    }
+
+    if (status !== currentStatus || paymentChanged || shipmentData) {
+      const before: DocumentData = { status: currentStatus };
+      const after: DocumentData = { status };
+      if (paymentChanged) {
+        before.paymentStatus = data.paymentStatus || null;
+        after.paymentStatus = paymentStatus;
+      }
+      if (shipmentData) {
+        Object.assign(after, { carrier: shipmentData.carrierLabel, awb: shipmentData.awb });
+      }
+      transaction.set(db.collection("auditLog").doc(), adminAuditData({
+        actorUid: caller.uid,
+        actorEmail,
+        action: "order.status",
+        targetType: "order",
+        targetId: orderId,
+        before,
+        after,
+        note,
+      }));
+    }
+  });
+
+  console.log("✅ Order status updated:", { orderId, status, paymentStatus });
+  return { success: true };
+});
+
+// Payment-only change for the Payments tab, so finance admins never touch the production status
+export const updatePaymentStatus = onCall<{ orderId: string; paymentStatus: string; note?: string }>(async (request) => {
+  const caller = requireAdmin(request, canChangePaymentStatus);
+  const actorEmail = caller.token.email || caller.uid;
+  const { orderId, paymentStatus } = request.data || {};
+  const note = (request.data?.note || "").trim();
+
+  if (!orderId || !paymentStatus) {
+    throw new HttpsError("invalid-argument", "Missing order ID or payment status");
+  }
+  if (!MANUAL_PAYMENT_STATUSES.includes(paymentStatus)) {
+    throw new HttpsError("invalid-argument", "The payment status can only be set to pending or failed by hand");
+  }
+
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(orderId);
+
+  await db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      throw new HttpsError("not-found", "Order not found");
+    }
+
+    const previous = orderDoc.data()!.paymentStatus || null;
+    if (previous === paymentStatus) {
+      return;
+    }
+    if (PAID_PAYMENT_STATUSES.includes(previous)) {
+      throw new HttpsError("failed-precondition", PAID_ORDER_MESSAGE);
+    }
+
+    transaction.update(orderRef, { paymentStatus, lastUpdated: Timestamp.now() });
+    transaction.set(orderRef.collection("events").doc(), orderEventData({
+      type: "payment",
+      from: previous,
+      to: paymentStatus,
+      actorEmail,
+      source: "admin",
+      note,
+    }));
+    transaction.set(db.collection("auditLog").doc(), adminAuditData({
+      actorUid: caller.uid,
+      actorEmail,
+      action: "order.payment_status",
+      targetType: "order",
+      targetId: orderId,
+      before: { paymentStatus: previous },
+      after: { paymentStatus },
+      note,
+    }));
+  });
+
+  console.log("✅ Payment status updated:", { orderId, paymentStatus });
+  return { success: true };
+});
@@ -0,0 +1,25 @@
+// Server copy of src/lib/admin-roles.ts. Only the role names and the checks the
+// backend needs live here; firestore.rules enforces the rest.
+export type AdminRole = "owner" | "operations" | "finance" | "support";
+
+export const ADMIN_ROLES: AdminRole[] = ["owner", "operations", "finance", "support"];
+
+export const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === "string" && (ADMIN_ROLES as string[]).includes(value);
+
+export const canManageAdmins = (role: unknown) => role === "owner";
+
+export const canChangeOrderStatus = (role: unknown) => role === "owner" || role === "operations";
+
+export const canChangePaymentStatus = (role: unknown) => role === "owner" || role === "finance";
+
+export const canRefund = (role: unknown) => role === "owner" || role === "finance";
+
+export const canReconcile = (role: unknown) => role === "owner" || role === "finance";
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  operations: "Operations",
+  finance: "Finance",
+  support: "Support",
+};
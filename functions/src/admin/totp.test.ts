@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { base32Decode, base32Encode, hotp, verifyTotp } from "./totp";
+
+// The RFC 4226 / RFC 6238 test secret, "12345678901234567890" in ASCII
+const SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("hotp", () => {
+  it("matches the RFC 4226 test values", () => {
+    const expected = ["755224", "287082", "359152", "969429", "338314", "254676", "287922", "162583", "399871", "520489"];
+
+    expect(expected.map((_, counter) => hotp(SECRET, counter))).toEqual(expected);
+  });
+});
+
+describe("verifyTotp", () => {
+  // RFC 6238 appendix B (SHA1), cut to our six digits
+  const vectors: [seconds: number, code: string][] = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ];
+
+  it.each(vectors)("accepts the RFC 6238 code at %i seconds", (seconds, code) => {
+    expect(verifyTotp(SECRET, code, -1, seconds * 1000)).toBe(Math.floor(seconds / 30));
+  });
+
+  it("accepts the codes of the neighbouring steps", () => {
+    const at = 1111111109 * 1000;
+
+    expect(verifyTotp(SECRET, hotp(SECRET, 37037035), -1, at)).toBe(37037035);
+    expect(verifyTotp(SECRET, hotp(SECRET, 37037037), -1, at)).toBe(37037037);
+    expect(verifyTotp(SECRET, hotp(SECRET, 37037038), -1, at)).toBeNull();
+  });
+
+  it("refuses a code from a step that was already used", () => {
+    expect(verifyTotp(SECRET, "081804", 37037036, 1111111109 * 1000)).toBeNull();
+  });
+
+  it("ignores spaces and refuses codes that aren't six digits", () => {
+    expect(verifyTotp(SECRET, "081 804", -1, 1111111109 * 1000)).toBe(37037036);
+    expect(verifyTotp(SECRET, "81804", -1, 1111111109 * 1000)).toBeNull();
+    expect(verifyTotp(SECRET, "", -1, 1111111109 * 1000)).toBeNull();
+  });
+});
+
+describe("base32", () => {
+  it("round-trips the secret", () => {
+    expect(SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(SECRET).toString()).toBe("12345678901234567890");
+  });
+});
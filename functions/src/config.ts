@@ -0,0 +1,43 @@
+// Server-side configuration. Values come from functions/.env (or .env.local when
+// running against the emulators) and never reach the browser bundle.
+
+export const razorpayConfig = {
+  keyId: process.env.RAZORPAY_KEY_ID || "",
+  keySecret: process.env.RAZORPAY_KEY_SECRET || "",
+  // Set in the Razorpay dashboard when registering the webhook URL
+  webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || "",
+  // Point this at a local stub (e.g. http://127.0.0.1:4010/v1) to run the
+  // payment flow without touching the real gateway.
+  apiBase: process.env.RAZORPAY_API_BASE || "https://api.razorpay.com/v1",
+  // Answers API calls in-process (payments/razorpay-mock.ts) instead of
+  // calling Razorpay at all. Only for the emulators and tests.
+  mock: process.env.RAZORPAY_MOCK === "true",
+};
+
+export const assertRazorpayConfigured = () => {
+  if (razorpayConfig.mock) {
+    return;
+  }
+  if (!razorpayConfig.keyId || !razorpayConfig.keySecret) {
+    throw new Error("Razorpay credentials are not configured (RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET)");
+  }
+};
+
+const splitList = (value?: string): string[] =>
+  (value || "").split(",").map(entry => entry.trim()).filter(Boolean);
+
+// Defaults match a local SMTP sink such as MailHog (SMTP on 1025, web UI on 8025)
+export const mailConfig = {
+  host: process.env.SMTP_HOST || "127.0.0.1",
+  port: Number(process.env.SMTP_PORT || 1025),
+  secure: process.env.SMTP_SECURE === "true",
+  user: process.env.SMTP_USER || "",
+  pass: process.env.SMTP_PASS || "",
+  from: process.env.MAIL_FROM || "Micro UV Printers <info@microuvprinters.com>",
+  // Receives a copy of invoices and new order confirmations
+  ownerEmail: process.env.MAIL_OWNER_EMAIL || "",
+  // Blind-copied on every customer email, e.g. an accounts mailbox
+  bcc: splitList(process.env.MAIL_BCC),
+  // Used for links back to the site in email templates
+  appUrl: process.env.APP_URL || "http://localhost:8080",
+};
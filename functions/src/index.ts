@@ -0,0 +1,15 @@
+import { initializeApp } from "firebase-admin/app";
+
+initializeApp();
+
+export { createRazorpayOrder, verifyRazorpayPayment } from "./payments";
+export { razorpayWebhook } from "./payments/webhook";
+export { refundOrderPayment } from "./payments/refunds";
+export { importPaymentReconciliation, resolveReconciliationItem } from "./payments/reconciliation";
+export { sendCreditNoteEmail } from "./mail";
+export { onInvoiceIssued } from "./invoice-delivery";
+export { onOrderStatusChanged } from "./notifications";
+export { setAdminAccess } from "./admin";
+export { updateOrderStatus, updatePaymentStatus } from "./admin/orders";
+export { inviteAdmin, acceptAdminInvite, revokeAdminInvite } from "./admin/invites";
+export { getAdminMfaStatus, startTotpEnrollment, confirmTotpEnrollment, verifyAdminSecondFactor, resetAdminMfa } from "./admin/mfa";
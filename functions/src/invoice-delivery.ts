@@ -0,0 +1,48 @@
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { invoicePdfContent } from "./invoices";
+import { emailInvoice } from "./mail";
+import { renderInvoicePdf } from "./shared/invoice-pdf";
+
+// Runs once markOrderPaid has written invoices/{orderId}, whichever path (callable or
+// webhook) confirmed the payment, so the customer gets the PDF even with the tab closed.
+// Renders the PDF, stores it at invoices/{userId}/{orderId}.pdf and emails it.
+export const onInvoiceIssued = onDocumentCreated("invoices/{orderId}", async (event) => {
+  const invoiceRef = event.data?.ref;
+  const invoice = event.data?.data();
+  const orderId = event.params.orderId;
+
+  if (!invoiceRef || !invoice) {
+    return;
+  }
+
+  const content = invoicePdfContent(invoice);
+  if (!content) {
+    console.log("ℹ️ Invoice has no tax breakdown, leaving the PDF to the customer's browser:", orderId);
+    return;
+  }
+
+  try {
+    console.log("🧾 Rendering invoice PDF:", invoice.invoiceNumber);
+    const pdf = Buffer.from(renderInvoicePdf(content).output("arraybuffer"));
+    const pdfPath = `invoices/${invoice.userId}/${orderId}.pdf`;
+
+    await getStorage().bucket().file(pdfPath).save(pdf, { contentType: "application/pdf" });
+    await invoiceRef.update({ pdfPath });
+    console.log("✅ Invoice PDF stored:", pdfPath);
+
+    // Triggers are delivered at least once; a retry after the email went out doesn't send it again
+    const latest = await invoiceRef.get();
+    if (latest.data()?.emailedAt) {
+      console.log("ℹ️ Invoice already emailed:", invoice.invoiceNumber);
+      return;
+    }
+
+    const result = await emailInvoice(invoiceRef, invoice, pdf);
+    if (!result.success) {
+      console.error("❌ Invoice email failed:", orderId, result.message);
+    }
+  } catch (error) {
+    console.error("❌ Error issuing invoice PDF:", orderId, error);
+  }
+});
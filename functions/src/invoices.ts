@@ -0,0 +1,251 @@
+import { DocumentData, getFirestore, Timestamp, Transaction } from "firebase-admin/firestore";
+import { formatAddress } from "./addresses";
+import { InvoicePdfContent } from "./shared/invoice-pdf";
+import { OrderQuote, quoteOrder } from "./pricing";
+import { getLineLabel } from "./shared/pricing";
+import { calculateTaxFromInclusive, getHsnCode, getPlaceOfSupply, GST_STATE_CODES, TaxBreakdown } from "./shared/tax";
+import {
+  CREDIT_NOTE_SERIES_SUFFIX,
+  DEFAULT_INVOICE_SERIES_PREFIX,
+  formatInvoiceNumber,
+  getFinancialYear,
+  isValidSeriesPrefix,
+} from "./shared/invoice-numbering";
+
+// Takes the next number of the current series (settings/invoicing.seriesPrefix + financial year).
+// It must run inside the transaction that writes the invoice: the counter only moves when the
+// invoice is committed, so numbers can neither repeat nor be skipped. Reads happen before the
+// counter write, so callers must finish their own reads before calling this.
+export const allocateInvoiceNumber = (transaction: Transaction, issuedAt: Date): Promise<string> =>
+  allocateSeriesNumber(transaction, issuedAt, "");
+
+// Credit notes (refunds) run in their own series next to the invoices,
+// e.g. MUV-CN/2026-27/000001, with the same no-gaps guarantee
+export const allocateCreditNoteNumber = (transaction: Transaction, issuedAt: Date): Promise<string> =>
+  allocateSeriesNumber(transaction, issuedAt, CREDIT_NOTE_SERIES_SUFFIX);
+
+const allocateSeriesNumber = async (transaction: Transaction, issuedAt: Date, suffix: string): Promise<string> => {
+  const db = getFirestore();
+
+  const settingsDoc = await transaction.get(db.collection("settings").doc("invoicing"));
+  const configuredPrefix = settingsDoc.exists ? settingsDoc.data()?.seriesPrefix : undefined;
+  const prefix = (isValidSeriesPrefix(configuredPrefix || "")
+    ? configuredPrefix
+    : DEFAULT_INVOICE_SERIES_PREFIX) + suffix;
+  const financialYear = getFinancialYear(issuedAt);
+
+  const counterRef = db.collection("invoiceCounters").doc(`${prefix}_${financialYear}`);
+  const counterDoc = await transaction.get(counterRef);
+  const sequence = (counterDoc.exists ? counterDoc.data()?.lastNumber || 0 : 0) + 1;
+
+  transaction.set(counterRef, {
+    prefix,
+    financialYear,
+    lastNumber: sequence,
+    updatedAt: Timestamp.fromDate(issuedAt),
+  });
+
+  return formatInvoiceNumber(prefix, financialYear, sequence);
+};
+
+// Cart lines carry the catalog name they were ordered under
+export const lineLabel = (line: DocumentData): string =>
+  getLineLabel({ productName: line.productName, productType: line.productType });
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// What an invoice prints for a paid order. The browser wrote the order's
+// taxBreakdown, subtotal and HSN codes, so none of them are used here.
+export interface InvoiceTax {
+  taxBreakdown: TaxBreakdown;
+  lineItems: { name: string; hsnCode: string; quantity: number; price: number; amount: number }[];
+  quotedLines?: OrderQuote["lines"]; // set when the order's own lines were priced again
+}
+
+// Re-quotes the order's lines at the rate cards it was charged at, which comes
+// to the charged amount (paise). Orders placed before the cart, or re-quoted to
+// another amount (a product since deactivated), are invoiced as one line, with
+// GST split out of the charged amount.
+export const quoteInvoiceTax = async (orderId: string, orderData: DocumentData, chargedAmount: number): Promise<InvoiceTax> => {
+  const { quote, message } = await quoteOrder(orderData, orderData.razorpayOrderPricingVersion);
+  if (quote && quote.amount === chargedAmount) {
+    return {
+      taxBreakdown: quote.taxBreakdown,
+      lineItems: quote.lines.map(({ hsnCode, subtotal }, index) => {
+        const line = orderData.lineItems[index];
+        const quantity = line.quantity || 1;
+        return { name: `${lineLabel(line)} Printing (${quantity} units)`, hsnCode, quantity, price: roundCurrency(subtotal / quantity), amount: subtotal };
+      }),
+      quotedLines: quote.lines,
+    };
+  }
+
+  console.error("❌ Invoicing the charged amount, the order no longer quotes to it:", { orderId, chargedAmount, quoted: quote?.amount, message });
+  const lines: DocumentData[] = Array.isArray(orderData.lineItems) && orderData.lineItems.length
+    ? orderData.lineItems
+    : [{ productType: orderData.productType, quantity: orderData.quantity }];
+  const hsnCode = getHsnCode(lines[0].productType);
+  const placeOfSupply = getPlaceOfSupply({ gstNumber: orderData.gstNumber, deliveryState: orderData.deliveryState });
+  const taxBreakdown = calculateTaxFromInclusive(chargedAmount / 100, hsnCode, placeOfSupply);
+
+  return {
+    taxBreakdown,
+    lineItems: [{
+      name: lines.map(line => `${lineLabel(line)} Printing (${line.quantity || 1} units)`).join(", "),
+      hsnCode,
+      quantity: 1,
+      price: taxBreakdown.taxableAmount,
+      amount: taxBreakdown.taxableAmount,
+    }],
+  };
+};
+
+// Snapshot of an order at the moment it is paid. Stored in invoices/{orderId}
+// so later edits to the order never change an issued invoice.
+export const buildInvoiceRecord = (
+  orderId: string,
+  orderData: DocumentData,
+  invoiceNumber: string,
+  razorpayPaymentId: string,
+  tax: InvoiceTax
+): DocumentData => ({
+  invoiceNumber,
+  orderId,
+  userId: orderData.userId,
+  trackingId: orderData.trackingId || "",
+  customerName: orderData.customerName || "",
+  customerEmail: orderData.customerEmail || "",
+  customerAddress: orderData.billingAddress ? formatAddress(orderData.billingAddress) : orderData.deliveryAddress || "",
+  deliveryState: orderData.deliveryState || null,
+  gstNumber: orderData.gstNumber || "",
+  lineItems: tax.lineItems,
+  taxBreakdown: tax.taxBreakdown,
+  subtotal: tax.taxBreakdown.taxableAmount,
+  totalAmount: tax.taxBreakdown.total,
+  status: "paid",
+  pdfPath: null,
+  razorpayPaymentId,
+  createdAt: Timestamp.now(),
+});
+
+// CGST/SGST or IGST amounts, one set per GST rate when an order mixes rates (getTaxLines on the client)
+export const invoiceTaxLines = (tax: DocumentData): [string, number][] => {
+  const byRate = new Map<number, { cgst: number; sgst: number; igst: number }>();
+  for (const split of (tax.rates || [tax]) as DocumentData[]) {
+    const totals = byRate.get(split.rate) || { cgst: 0, sgst: 0, igst: 0 };
+    byRate.set(split.rate, {
+      cgst: roundCurrency(totals.cgst + split.cgst),
+      sgst: roundCurrency(totals.sgst + split.sgst),
+      igst: roundCurrency(totals.igst + split.igst),
+    });
+  }
+
+  return [...byRate.entries()].flatMap(([rate, totals]): [string, number][] => tax.supplyType === "intra"
+    ? [[`CGST (${rate / 2}%)`, totals.cgst], [`SGST (${rate / 2}%)`, totals.sgst]]
+    : [[`IGST (${rate}%)`, totals.igst]]);
+};
+
+// What the PDF prints for invoices/{orderId}. Invoices issued before GST was itemised
+// have no taxBreakdown; the customer's browser renders those (getInvoicePdfUrl).
+export const invoicePdfContent = (invoice: DocumentData): InvoicePdfContent | null => {
+  const tax = invoice.taxBreakdown;
+  if (!tax) {
+    return null;
+  }
+
+  return {
+    number: invoice.invoiceNumber,
+    date: invoice.createdAt?.toDate ? invoice.createdAt.toDate() : new Date(),
+    orderId: invoice.orderId,
+    trackingId: invoice.trackingId || undefined,
+    customerName: invoice.customerName,
+    customerEmail: invoice.customerEmail,
+    customerAddress: invoice.customerAddress,
+    gstNumber: invoice.gstNumber || undefined,
+    lines: (invoice.lineItems || []).map(({ name, hsnCode, quantity, price }: DocumentData) => ({ name, hsnCode, quantity, price })),
+    placeOfSupply: `${GST_STATE_CODES[tax.placeOfSupply] || tax.placeOfSupply} (${tax.placeOfSupply})`,
+    taxableAmount: tax.taxableAmount,
+    taxLines: invoiceTaxLines(tax),
+    total: invoice.totalAmount,
+  };
+};
+
+// GST split of a refund, in proportion to the original invoice. The refund
+// amount is tax-inclusive, like the amount the customer paid.
+const creditNoteTax = (invoice: DocumentData, amount: number): DocumentData | null => {
+  const tax = invoice.taxBreakdown;
+  if (!tax || !invoice.totalAmount) {
+    return null;
+  }
+
+  const ratio = amount / invoice.totalAmount;
+  const taxableAmount = roundCurrency(tax.taxableAmount * ratio);
+  const totalTax = roundCurrency(amount - taxableAmount);
+  const splitTax = (total: number) => {
+    const half = roundCurrency(total / 2);
+    return {
+      cgst: tax.supplyType === "intra" ? half : 0,
+      sgst: tax.supplyType === "intra" ? roundCurrency(total - half) : 0,
+      igst: tax.supplyType === "inter" ? total : 0,
+    };
+  };
+
+  // Mixed-rate invoices refund each rate in the same proportion; the last rate
+  // takes the rounding so the rates add up to the credit note's totals
+  let rates: DocumentData[] | undefined;
+  if (Array.isArray(tax.rates)) {
+    let taxableLeft = taxableAmount;
+    let taxLeft = totalTax;
+    rates = tax.rates.map((rate: DocumentData, index: number) => {
+      const last = index === tax.rates.length - 1;
+      const rateTaxable = last ? taxableLeft : roundCurrency(rate.taxableAmount * ratio);
+      const rateTax = last ? taxLeft : roundCurrency(rate.totalTax * ratio);
+      taxableLeft = roundCurrency(taxableLeft - rateTaxable);
+      taxLeft = roundCurrency(taxLeft - rateTax);
+      return { ...rate, taxableAmount: rateTaxable, ...splitTax(rateTax), totalTax: rateTax };
+    });
+  }
+
+  return {
+    ...tax,
+    taxableAmount,
+    ...splitTax(totalTax),
+    totalTax,
+    total: roundCurrency(amount),
+    ...(rates && { rates }),
+  };
+};
+
+// Snapshot of the credit note issued for a refund, stored on refunds/{refundId}
+// and rendered to PDF by the admin's browser (src/lib/invoice-generator.ts)
+export const buildCreditNote = (invoice: DocumentData, creditNoteNumber: string, amount: number, reason: string): DocumentData => {
+  const lines = invoice.lineItems || [];
+  const [line] = lines;
+  const taxBreakdown = creditNoteTax(invoice, amount);
+  const taxableAmount = taxBreakdown?.taxableAmount ?? roundCurrency(amount);
+
+  return {
+    number: creditNoteNumber,
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: invoice.createdAt || null,
+    customerName: invoice.customerName || "",
+    customerEmail: invoice.customerEmail || "",
+    customerAddress: invoice.customerAddress || "",
+    deliveryState: invoice.deliveryState || null,
+    gstNumber: invoice.gstNumber || "",
+    lineItems: [
+      {
+        name: `Refund against ${lines.length === 1 ? line.name : "invoice " + invoice.invoiceNumber}`,
+        hsnCode: line?.hsnCode || "4911",
+        quantity: 1,
+        price: taxableAmount,
+        amount: taxableAmount,
+      },
+    ],
+    taxBreakdown,
+    totalAmount: roundCurrency(amount),
+    reason,
+    pdfPath: null,
+    issuedAt: Timestamp.now(),
+  };
+};
@@ -0,0 +1,93 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { DocumentData, DocumentReference, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+import { sendMail } from "./transport";
+import { creditNoteEmail, invoiceEmail, orderConfirmationEmail, orderStatusEmail } from "./templates";
+import { requireAdmin } from "../admin";
+import { canRefund } from "../admin/roles";
+
+// Sent once a payment has been verified, by whichever path (callable or webhook) got there first.
+// Failures are logged and never undo the payment.
+export const sendOrderConfirmationEmail = async (orderId: string) => {
+  const orderDoc = await getFirestore().collection("orders").doc(orderId).get();
+  const order = orderDoc.data();
+
+  if (!order?.customerEmail) {
+    console.error("❌ Cannot send confirmation, no customer email on order:", orderId);
+    return { success: false, message: "Order has no customer email" };
+  }
+
+  return sendMail({ to: order.customerEmail, ...orderConfirmationEmail(orderId, order), copyOwner: true });
+};
+
+export const sendOrderStatusEmail = async (orderId: string, order: DocumentData, status: string, note?: string) => {
+  if (!order.customerEmail) {
+    return { success: false, message: "Order has no customer email" };
+  }
+
+  return sendMail({ to: order.customerEmail, ...orderStatusEmail(orderId, order, status, note) });
+};
+
+// Emails a freshly rendered invoice PDF (see onInvoiceIssued) to the customer,
+// with a copy to the owner, and records when it went out
+export const emailInvoice = async (invoiceRef: DocumentReference, invoice: DocumentData, pdf: Buffer) => {
+  const result = await sendMail({
+    to: invoice.customerEmail,
+    ...invoiceEmail(invoice),
+    attachments: [{
+      filename: `Invoice_${String(invoice.invoiceNumber).replace(/\//g, "-")}.pdf`,
+      content: pdf,
+      contentType: "application/pdf",
+    }],
+    copyOwner: true,
+  });
+
+  if (result.success) {
+    await invoiceRef.update({ emailedAt: Timestamp.now() });
+  }
+  return result;
+};
+
+// Emails the credit note PDF for a refund (rendered and stored by the admin's
+// browser, see issueCreditNote in src/lib/invoice-service.ts) to the customer.
+export const sendCreditNoteEmail = onCall<{ refundId: string }>(async (request) => {
+  requireAdmin(request, canRefund);
+
+  const refundRef = getFirestore().collection("refunds").doc(request.data?.refundId || "-");
+  const refundDoc = await refundRef.get();
+  const refund = refundDoc.data();
+
+  if (!refund?.creditNote) {
+    throw new HttpsError("not-found", "Credit note not found");
+  }
+  if (refund.creditNote.emailedAt) {
+    return { success: true, alreadySent: true };
+  }
+  if (!refund.creditNote.pdfPath) {
+    throw new HttpsError("failed-precondition", "The credit note PDF has not been generated yet");
+  }
+  // Only ever attach the credit note's own PDF, never another file in the bucket
+  if (refund.creditNote.pdfPath !== `credit-notes/${refund.userId}/${refundDoc.id}.pdf`) {
+    throw new HttpsError("failed-precondition", "The credit note PDF is not where it should be");
+  }
+
+  const [pdf] = await getStorage().bucket().file(refund.creditNote.pdfPath).download();
+
+  const result = await sendMail({
+    to: refund.creditNote.customerEmail,
+    ...creditNoteEmail(refund.orderId, refund.creditNote),
+    attachments: [{
+      filename: `Credit_Note_${String(refund.creditNote.number).replace(/\//g, "-")}.pdf`,
+      content: pdf,
+      contentType: "application/pdf",
+    }],
+    copyOwner: true,
+  });
+
+  if (!result.success) {
+    throw new HttpsError("unavailable", result.message || "Failed to send credit note email");
+  }
+
+  await refundRef.update({ "creditNote.emailedAt": Timestamp.now() });
+  return { success: true };
+});
@@ -0,0 +1,250 @@
+import { DocumentData } from "firebase-admin/firestore";
+import { mailConfig } from "../config";
+import { invoiceTaxLines, lineLabel } from "../invoices";
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" }).format(amount || 0);
+
+const dashboardUrl = (orderId?: string): string =>
+  `${mailConfig.appUrl}/dashboard${orderId ? `?order=${encodeURIComponent(orderId)}` : ""}`;
+
+// Shared wrapper. Inline styles only, since most mail clients strip <style> blocks.
+const layout = (heading: string, body: string): string => `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background:#1e40af;color:#ffffff;padding:20px 24px;">
+                <div style="font-size:20px;font-weight:bold;">Micro UV Printers</div>
+                <div style="font-size:12px;opacity:0.85;">High Quality UV Printing Solutions</div>
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:24px;">
+                <h1 style="font-size:18px;margin:0 0 16px;">${escapeHtml(heading)}</h1>
+                ${body}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 24px;background:#f9fafb;font-size:12px;color:#6b7280;">
+                123 Print Avenue, Industrial Area, Delhi, India - 110001<br />
+                Phone: +91 98765 43210 | Email: info@microuvprinters.com
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+const button = (href: string, label: string): string =>
+  `<p style="margin:24px 0 0;"><a href="${escapeHtml(href)}" style="background:#1e40af;color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;display:inline-block;">${escapeHtml(label)}</a></p>`;
+
+const detailRows = (rows: [string, string][]): string =>
+  `<table role="presentation" width="100%" cellpadding="6" cellspacing="0" style="font-size:14px;border-collapse:collapse;">${rows
+    .map(([label, value]) => `<tr><td style="color:#6b7280;width:40%;border-bottom:1px solid #e5e7eb;">${escapeHtml(label)}</td><td style="border-bottom:1px solid #e5e7eb;">${escapeHtml(value)}</td></tr>`)
+    .join("")}</table>`;
+
+const gstRows = (tax: DocumentData | null | undefined): [string, string][] =>
+  tax ? invoiceTaxLines(tax).map(([label, amount]) => [label, formatCurrency(amount)]) : [["GST", "Included"]];
+
+export const invoiceEmail = (invoice: DocumentData): RenderedMail => {
+  const taxRows = gstRows(invoice.taxBreakdown);
+
+  const lines = (invoice.lineItems || []) as { name: string; hsnCode: string; quantity: number; amount: number }[];
+  const lineRows = lines
+    .map(item => `<tr><td style="border-bottom:1px solid #e5e7eb;">${escapeHtml(item.name)}<br /><span style="color:#6b7280;font-size:12px;">HSN ${escapeHtml(item.hsnCode)}</span></td><td align="right" style="border-bottom:1px solid #e5e7eb;">${escapeHtml(item.quantity)}</td><td align="right" style="border-bottom:1px solid #e5e7eb;">${escapeHtml(formatCurrency(item.amount))}</td></tr>`)
+    .join("");
+
+  const html = layout(`Invoice ${invoice.invoiceNumber}`, `
+    <p style="font-size:14px;">Dear ${escapeHtml(invoice.customerName)},</p>
+    <p style="font-size:14px;">Thank you for your order. Your tax invoice is attached to this email as a PDF.</p>
+    <table role="presentation" width="100%" cellpadding="6" cellspacing="0" style="font-size:14px;border-collapse:collapse;margin:16px 0;">
+      <tr style="background:#f3f4f6;"><th align="left">Item</th><th align="right">Qty</th><th align="right">Amount</th></tr>
+      ${lineRows}
+    </table>
+    ${detailRows([
+      ["Invoice Number", invoice.invoiceNumber],
+      ["Tracking ID", invoice.trackingId],
+      ["Taxable Value", formatCurrency(invoice.subtotal)],
+      ...taxRows,
+      ["Total Paid", formatCurrency(invoice.totalAmount)],
+    ])}
+    ${button(`${mailConfig.appUrl}/billing`, "View your invoices")}
+  `);
+
+  const text = [
+    `Dear ${invoice.customerName},`,
+    "",
+    `Your invoice ${invoice.invoiceNumber} for ${formatCurrency(invoice.totalAmount)} is attached.`,
+    `Tracking ID: ${invoice.trackingId}`,
+    "",
+    `View your invoices: ${mailConfig.appUrl}/billing`,
+  ].join("\n");
+
+  return { subject: `Invoice ${invoice.invoiceNumber} - Micro UV Printers`, html, text };
+};
+
+// Sent with the credit note PDF once a refund has been issued (payments/refunds.ts)
+export const creditNoteEmail = (orderId: string, creditNote: DocumentData): RenderedMail => {
+  const tax = creditNote.taxBreakdown;
+  const taxRows = gstRows(tax);
+
+  const html = layout(`Credit Note ${creditNote.number}`, `
+    <p style="font-size:14px;">Dear ${escapeHtml(creditNote.customerName)},</p>
+    <p style="font-size:14px;">We have refunded ${escapeHtml(formatCurrency(creditNote.totalAmount))} to your original payment method. It usually reaches your account within 5-7 working days. The GST credit note is attached as a PDF.</p>
+    ${detailRows([
+      ["Credit Note", creditNote.number],
+      ["Against Invoice", creditNote.invoiceNumber],
+      ["Reason", creditNote.reason || "Refund"],
+      ...(tax ? [["Taxable Value", formatCurrency(tax.taxableAmount)] as [string, string]] : []),
+      ...taxRows,
+      ["Total Refunded", formatCurrency(creditNote.totalAmount)],
+    ])}
+    ${button(dashboardUrl(orderId), "View your order")}
+  `);
+
+  const text = [
+    `Dear ${creditNote.customerName},`,
+    "",
+    `We have refunded ${formatCurrency(creditNote.totalAmount)} against invoice ${creditNote.invoiceNumber}.`,
+    `Credit note ${creditNote.number} is attached.`,
+    "",
+    `View your order: ${dashboardUrl(orderId)}`,
+  ].join("\n");
+
+  return { subject: `Credit Note ${creditNote.number} - Micro UV Printers`, html, text };
+};
+
+export const orderConfirmationEmail = (orderId: string, order: DocumentData): RenderedMail => {
+  const html = layout("Order Confirmed", `
+    <p style="font-size:14px;">Dear ${escapeHtml(order.customerName)},</p>
+    <p style="font-size:14px;">We have received your payment and your order is now in our queue. We'll email you as it moves through production.</p>
+    ${detailRows([
+      ["Tracking ID", order.trackingId],
+      ...((order.lineItems?.length ? order.lineItems : [order]) as DocumentData[]).map((line, index, lines): [string, string] => [
+        lines.length > 1 ? `Item ${index + 1}` : "Product",
+        `${lineLabel(line)} × ${line.quantity}`,
+      ]),
+      ["Delivery Address", order.deliveryAddress],
+      ["Amount Paid", formatCurrency(order.totalAmount)],
+      ["Invoice Number", order.invoiceId || "Will follow separately"],
+    ])}
+    ${button(dashboardUrl(orderId), "Track your order")}
+  `);
+
+  const text = [
+    `Dear ${order.customerName},`,
+    "",
+    `We have received your payment of ${formatCurrency(order.totalAmount)} for order ${order.trackingId}.`,
+    `Track your order: ${dashboardUrl(orderId)}`,
+  ].join("\n");
+
+  return { subject: `Order confirmed - ${order.trackingId}`, html, text };
+};
+
+// Customer-facing copy per order status, matching ORDER_STATUS_CONFIG in src/lib/order-status-utils.ts
+export const ORDER_STATUS_MESSAGES: Record<string, { label: string; description: string }> = {
+  received: { label: "Order Received", description: "We have received your order and it's being reviewed." },
+  processing: { label: "Processing", description: "Your order is being designed and printed." },
+  quality_check: { label: "Quality Check", description: "Your prints are being checked and packed." },
+  shipped: { label: "Shipped", description: "Your order has been shipped and is on its way." },
+  delivered: { label: "Delivered", description: "Your order has been delivered successfully." },
+  cancelled: { label: "Cancelled", description: "Your order has been cancelled." },
+};
+
+// ETAs are stored as yyyy-MM-dd
+const formatEta = (eta: string): string =>
+  new Date(`${eta}T00:00:00+05:30`).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+
+export const orderStatusEmail = (
+  orderId: string,
+  order: DocumentData,
+  status: string,
+  note?: string
+): RenderedMail => {
+  const message = ORDER_STATUS_MESSAGES[status] || { label: status, description: `Your order status is now ${status}.` };
+  // Recorded by the admin when the order moved to shipped (src/lib/courier-service.ts)
+  const shipment = status === "shipped" ? order.shipment : null;
+  const shipmentRows: [string, string][] = shipment
+    ? [
+      ["Courier", shipment.carrierLabel],
+      ["AWB Number", shipment.awb],
+      ...(shipment.eta ? [["Expected Delivery", formatEta(shipment.eta)] as [string, string]] : []),
+    ]
+    : [];
+
+  const html = layout(`Order ${message.label}`, `
+    <p style="font-size:14px;">Dear ${escapeHtml(order.customerName)},</p>
+    <p style="font-size:14px;">${escapeHtml(message.description)}</p>
+    ${note ? `<p style="font-size:14px;background:#f9fafb;padding:12px;border-radius:6px;">${escapeHtml(note)}</p>` : ""}
+    ${detailRows([
+      ["Tracking ID", order.trackingId],
+      ["Status", message.label],
+      ...shipmentRows,
+    ])}
+    ${shipment?.trackingUrl ? button(shipment.trackingUrl, `Track with ${shipment.carrierLabel}`) : ""}
+    ${button(dashboardUrl(orderId), "View order")}
+  `);
+
+  const text = [
+    `Dear ${order.customerName},`,
+    "",
+    message.description,
+    ...(note ? ["", note] : []),
+    "",
+    `Tracking ID: ${order.trackingId}`,
+    ...shipmentRows.map(([label, value]) => `${label}: ${value}`),
+    ...(shipment?.trackingUrl ? [`Track with ${shipment.carrierLabel}: ${shipment.trackingUrl}`] : []),
+    `View order: ${dashboardUrl(orderId)}`,
+  ].join("\n");
+
+  return { subject: `${message.label} - ${order.trackingId}`, html, text };
+};
+
+export const adminInviteEmail = (
+  inviteUrl: string,
+  roleLabel: string,
+  invitedBy: string,
+  expiresAt: Date
+): RenderedMail => {
+  const expiry = expiresAt.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+
+  const html = layout("You're invited to the admin portal", `
+    <p style="font-size:14px;">${escapeHtml(invitedBy)} has invited you to help run Micro UV Printers.</p>
+    ${detailRows([
+      ["Role", roleLabel],
+      ["Invitation expires", expiry],
+    ])}
+    <p style="font-size:14px;">Open the link and sign in with this email address. If you don't have an account yet, sign up on the website first, then open the link again.</p>
+    ${button(inviteUrl, "Accept invitation")}
+  `);
+
+  const text = [
+    `${invitedBy} has invited you to the Micro UV Printers admin portal as ${roleLabel}.`,
+    "",
+    `Accept the invitation (expires ${expiry}): ${inviteUrl}`,
+    "",
+    "Sign in with this email address. If you don't have an account yet, sign up on the website first.",
+  ].join("\n");
+
+  return { subject: "Admin invitation - Micro UV Printers", html, text };
+};
@@ -0,0 +1,53 @@
+import nodemailer, { Transporter } from "nodemailer";
+import type { Attachment } from "nodemailer/lib/mailer";
+import { mailConfig } from "../config";
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: Attachment[];
+  // Also send a copy to the configured owner address
+  copyOwner?: boolean;
+}
+
+let transporter: Transporter | null = null;
+
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: mailConfig.host,
+      port: mailConfig.port,
+      secure: mailConfig.secure,
+      ...(mailConfig.user ? { auth: { user: mailConfig.user, pass: mailConfig.pass } } : {}),
+    });
+  }
+  return transporter;
+};
+
+export const sendMail = async (mail: OutgoingMail): Promise<{ success: boolean; messageId?: string; message?: string }> => {
+  const bcc = [
+    ...(mail.copyOwner && mailConfig.ownerEmail ? [mailConfig.ownerEmail] : []),
+    ...mailConfig.bcc,
+  ].filter(address => address !== mail.to);
+
+  try {
+    console.log("📧 Sending email:", { to: mail.to, subject: mail.subject, bcc });
+    const info = await getTransporter().sendMail({
+      from: mailConfig.from,
+      to: mail.to,
+      bcc: bcc.length > 0 ? bcc : undefined,
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+      attachments: mail.attachments,
+    });
+
+    console.log("✅ Email sent:", info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error("❌ Error sending email:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to send email" };
+  }
+};
@@ -0,0 +1,56 @@
+// One-off migration: creates admins/{uid} for every account that already holds
+// the `admin` claim, so admins granted before the Firestore list existed show
+// up in the portal.
+//
+//   npm --prefix functions run migrate:admins -- --dry-run
+//   npm --prefix functions run migrate:admins
+//
+// Uses application default credentials, or the emulators when
+// FIREBASE_AUTH_EMULATOR_HOST and FIRESTORE_EMULATOR_HOST are set.
+import { initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { isAdminRole } from "../admin/roles";
+
+const run = async (dryRun: boolean) => {
+  initializeApp();
+  const db = getFirestore();
+
+  let pageToken: string | undefined;
+  let created = 0;
+
+  do {
+    const page = await getAuth().listUsers(1000, pageToken);
+
+    for (const user of page.users) {
+      if (user.customClaims?.admin !== true) continue;
+
+      const adminRef = db.collection("admins").doc(user.uid);
+      if ((await adminRef.get()).exists) continue;
+
+      const role = isAdminRole(user.customClaims.role) ? user.customClaims.role : null;
+      console.log(`  ${user.email}: ${role || "no role"}`);
+      created++;
+
+      if (dryRun) continue;
+
+      await adminRef.set({
+        uid: user.uid,
+        email: (user.email || "").toLowerCase(),
+        role,
+        addedBy: "migration",
+        addedAt: Timestamp.fromDate(new Date(user.metadata.creationTime)),
+        ...(user.metadata.lastSignInTime ? { lastLogin: Timestamp.fromDate(new Date(user.metadata.lastSignInTime)) } : {}),
+      });
+    }
+
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  console.log(`✅ ${dryRun ? "Would create" : "Created"} ${created} admin records`);
+};
+
+run(process.argv.includes("--dry-run")).catch((error) => {
+  console.error("❌ Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+// One-off migration: creates payments/{razorpayPaymentId} for orders paid (or
+// failed) before payment attempts were recorded, so they show up in the
+// Payments tab. Method and fees are fetched from Razorpay where possible.
+//
+//   npm --prefix functions run migrate:payments -- --dry-run
+//   npm --prefix functions run migrate:payments
+//
+// Uses application default credentials, or the emulator when
+// FIRESTORE_EMULATOR_HOST is set.
+import { initializeApp } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import { applyPaymentRefund, recordPaymentAttempt } from "../payments/attempts";
+import { fetchPayment } from "../payments/razorpay-client";
+
+const run = async (dryRun: boolean) => {
+  initializeApp();
+  const db = getFirestore();
+  const orders = await db.collection("orders").get();
+  let created = 0;
+
+  for (const orderDoc of orders.docs) {
+    const order = orderDoc.data();
+    const attempts = [
+      order.razorpayPaymentId && { razorpayPaymentId: order.razorpayPaymentId as string, status: "captured" as const },
+      order.lastPaymentFailure?.razorpayPaymentId && order.lastPaymentFailure.razorpayPaymentId !== order.razorpayPaymentId && {
+        razorpayPaymentId: order.lastPaymentFailure.razorpayPaymentId as string,
+        status: "failed" as const,
+        failureReason: order.lastPaymentFailure.reason as string,
+      },
+    ].filter(Boolean) as { razorpayPaymentId: string; status: "captured" | "failed"; failureReason?: string }[];
+
+    for (const attempt of attempts) {
+      if ((await db.collection("payments").doc(attempt.razorpayPaymentId).get()).exists) continue;
+
+      console.log(`  ${orderDoc.id}: ${attempt.razorpayPaymentId} (${attempt.status})`);
+      created++;
+
+      if (dryRun) continue;
+
+      const payment = await fetchPayment(attempt.razorpayPaymentId).catch(() => null);
+      await recordPaymentAttempt({
+        orderId: orderDoc.id,
+        razorpayOrderId: order.razorpayOrderId || null,
+        ...attempt,
+        payment,
+      });
+
+      if (attempt.status === "captured" && order.refundedAmount) {
+        await applyPaymentRefund(attempt.razorpayPaymentId, order.refundedAmount, order.paymentStatus === "refunded");
+      }
+    }
+  }
+
+  console.log(`✅ ${dryRun ? "Would create" : "Created"} ${created} payment records`);
+};
+
+run(process.argv.includes("--dry-run")).catch((error) => {
+  console.error("❌ Migration failed:", error);
+  process.exit(1);
+});
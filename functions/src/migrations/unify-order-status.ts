@@ -0,0 +1,61 @@
+// One-off migration: rewrites every order to the unified lifecycle in ../shared/order-lifecycle.ts.
+// Sets `status` to the resolved value and removes `executionStatus`/`executionProgress`.
+//
+//   npm --prefix functions run migrate:order-status -- --dry-run
+//   npm --prefix functions run migrate:order-status
+//
+// Uses application default credentials, or the emulator when FIRESTORE_EMULATOR_HOST is set.
+import { initializeApp } from "firebase-admin/app";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { resolveOrderStatus } from "../shared/order-lifecycle";
+
+const BATCH_SIZE = 400;
+
+const run = async (dryRun: boolean) => {
+  initializeApp();
+  const db = getFirestore();
+
+  const snapshot = await db.collection("orders").get();
+  console.log(`🔄 Checking ${snapshot.size} orders${dryRun ? " (dry run)" : ""}...`);
+
+  let batch = db.batch();
+  let pending = 0;
+  let migrated = 0;
+
+  for (const orderDoc of snapshot.docs) {
+    const data = orderDoc.data();
+    const status = resolveOrderStatus(data);
+    const needsUpdate = data.status !== status || "executionStatus" in data || "executionProgress" in data;
+
+    if (!needsUpdate) continue;
+
+    console.log(`  ${orderDoc.id}: ${data.status} / ${data.executionStatus ?? "-"} -> ${status}`);
+    migrated++;
+
+    if (dryRun) continue;
+
+    batch.update(orderDoc.ref, {
+      status,
+      executionStatus: FieldValue.delete(),
+      executionProgress: FieldValue.delete(),
+    });
+    pending++;
+
+    if (pending === BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  console.log(`✅ ${dryRun ? "Would migrate" : "Migrated"} ${migrated} of ${snapshot.size} orders`);
+};
+
+run(process.argv.includes("--dry-run")).catch((error) => {
+  console.error("❌ Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { sendOrderStatusEmail } from "./mail";
+import { ORDER_STATUS_MESSAGES } from "./mail/templates";
+import { resolveOrderStatus } from "./shared/order-lifecycle";
+
+export interface NotificationPreferences {
+  email: boolean;
+  inApp: boolean;
+}
+
+// Same defaults as src/lib/notification-service.ts: customers opt out, not in
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { email: true, inApp: true };
+
+const getPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  if (!userId) return DEFAULT_NOTIFICATION_PREFERENCES;
+  const userDoc = await getFirestore().collection("users").doc(userId).get();
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(userDoc.data()?.notificationPreferences || {}) };
+};
+
+// Fires on every order write and notifies the customer when `status` moves to one of
+// the customer-facing states. Covers admin edits and the payment backend alike.
+export const onOrderStatusChanged = onDocumentUpdated("orders/{orderId}", async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  const orderId = event.params.orderId;
+
+  if (!before || !after) {
+    return;
+  }
+
+  // Resolved statuses, so rewriting a legacy document doesn't look like a transition
+  const from = resolveOrderStatus(before);
+  const to = resolveOrderStatus(after);
+
+  if (from === to || !ORDER_STATUS_MESSAGES[to]) {
+    return;
+  }
+
+  const db = getFirestore();
+
+  // Triggers are delivered at least once; the event ID guards against notifying twice
+  try {
+    await db.collection("notificationDispatches").doc(event.id).create({
+      orderId,
+      from,
+      to,
+      createdAt: Timestamp.now(),
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === 6) { // ALREADY_EXISTS
+      console.log("ℹ️ Status notification already dispatched:", event.id);
+      return;
+    }
+    throw error;
+  }
+
+  const preferences = await getPreferences(after.userId);
+  const message = ORDER_STATUS_MESSAGES[to];
+
+  console.log("🔔 Order status changed:", { orderId, from, to, preferences });
+
+  if (preferences.inApp) {
+    await db.collection("notifications").add({
+      userId: after.userId,
+      orderId,
+      trackingId: after.trackingId || "",
+      type: "order_status",
+      status: to,
+      title: message.label,
+      message: message.description,
+      read: false,
+      createdAt: Timestamp.now(),
+    });
+  }
+
+  // A freshly paid order already got the order confirmation email
+  const isPaymentConfirmation = from === "pending_payment" && to === "received";
+
+  if (preferences.email && !isPaymentConfirmation) {
+    await sendOrderStatusEmail(orderId, after, to);
+  }
+});
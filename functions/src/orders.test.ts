@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { listDocuments, readDocument, resetFirestore, seedDocument } from "./testing/firestore";
+import { invoicePdfContent } from "./invoices";
+import { markOrderPaid, markOrderPaymentFailed } from "./orders";
+
+vi.mock("firebase-admin/firestore", () => import("./testing/firestore"));
+
+const order = (overrides: Record<string, unknown> = {}) => ({
+  userId: "user_1",
+  status: "pending_payment",
+  paymentStatus: "pending",
+  totalAmount: 1180,
+  razorpayOrderId: "order_1",
+  razorpayOrderAmount: 118000,
+  items: [{ productType: "sticker", productName: "Stickers", quantity: 100, unitPrice: 10, totalPrice: 1000 }],
+  ...overrides,
+});
+
+beforeEach(() => {
+  resetFirestore();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("markOrderPaid", () => {
+  it("marks the order paid and issues the next invoice number", async () => {
+    seedDocument("orders/o1", order());
+
+    const result = await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 118000 });
+
+    expect(result).toMatchObject({ success: true, invoiceId: expect.stringMatching(/^MUV\/\d{4}-\d{2}\/000001$/) });
+    expect(readDocument("orders/o1")).toMatchObject({ paymentStatus: "paid", status: "received", razorpayPaymentId: "pay_1" });
+    expect(readDocument("invoices/o1")).toMatchObject({ invoiceNumber: result.invoiceId, razorpayPaymentId: "pay_1" });
+  });
+
+  it("doesn't pay or invoice an order twice when the confirmation is replayed", async () => {
+    seedDocument("orders/o1", order());
+
+    const first = await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 118000 });
+    const replay = await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 118000 });
+
+    expect(replay).toEqual({ success: true, alreadyPaid: true, invoiceId: first.invoiceId });
+    expect(listDocuments("invoiceCounters")[0].data.lastNumber).toBe(1);
+    expect(listDocuments("orders/o1/events").filter(event => event.data.to === "paid")).toHaveLength(1);
+  });
+
+  it("leaves a refunded order refunded", async () => {
+    seedDocument("orders/o1", order({ paymentStatus: "refunded", razorpayPaymentId: "pay_1", invoiceId: "MUV/2026-27/000001" }));
+
+    const result = await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 118000 });
+
+    expect(result).toMatchObject({ success: true, alreadyPaid: true });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("refunded");
+    expect(readDocument("invoices/o1")).toBeUndefined();
+  });
+
+  it("rejects a payment already attached to another order", async () => {
+    seedDocument("orders/o1", order({ paymentStatus: "paid", razorpayPaymentId: "pay_1" }));
+    seedDocument("orders/o2", order({ razorpayOrderId: "order_2" }));
+
+    const result = await markOrderPaid("o2", { razorpayPaymentId: "pay_1", amount: 118000 });
+
+    expect(result).toMatchObject({ success: false, rejected: true });
+    expect(readDocument("orders/o2")?.paymentStatus).toBe("pending");
+    expect(listDocuments("invoices")).toHaveLength(0);
+  });
+
+  it("rejects a payment for a different amount than the order was charged", async () => {
+    seedDocument("orders/o1", order());
+
+    const result = await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 100 });
+
+    expect(result).toMatchObject({ success: false, rejected: true });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+    expect(listDocuments("invoiceCounters")).toHaveLength(0);
+  });
+});
+
+describe("markOrderPaid invoicing", () => {
+  // 100 stickers at ₹5 shipped within Delhi, charged ₹590. The browser's GST
+  // figures are made up, as a tampered order form could write them.
+  const cartOrder = (overrides: Record<string, unknown> = {}) => order({
+    totalAmount: 590,
+    razorpayOrderAmount: 59000,
+    razorpayOrderPricingVersion: 0,
+    deliveryState: "07",
+    lineItems: [{
+      productId: "sticker",
+      productName: "Stickers & Labels",
+      productType: "sticker",
+      quantity: 100,
+      spec: { width: 50, height: 50, shape: "circle", material: "paper", colours: "cmyk" },
+      hsnCode: "9999",
+      subtotal: 590,
+      taxBreakdown: { hsnCode: "9999", rate: 0, taxableAmount: 590, totalTax: 0, total: 590 },
+    }],
+    subtotal: 590,
+    taxBreakdown: { hsnCode: "9999", rate: 0, supplyType: "intra", placeOfSupply: "07", taxableAmount: 590, cgst: 0, sgst: 0, igst: 0, totalTax: 0, total: 590 },
+    ...overrides,
+  });
+
+  it("invoices the GST it works out from the order's lines, not the browser's", async () => {
+    seedDocument("orders/o1", cartOrder());
+
+    await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 59000 });
+
+    const invoice = readDocument("invoices/o1")!;
+    expect(invoice).toMatchObject({
+      lineItems: [{ name: "Stickers & Labels Printing (100 units)", hsnCode: "4821", quantity: 100, price: 5, amount: 500 }],
+      taxBreakdown: { hsnCode: "4821", rate: 18, supplyType: "intra", taxableAmount: 500, cgst: 45, sgst: 45, igst: 0, total: 590 },
+      subtotal: 500,
+      totalAmount: 590,
+    });
+    expect(invoicePdfContent(invoice)).toMatchObject({ taxableAmount: 500, taxLines: [["CGST (9%)", 45], ["SGST (9%)", 45]], total: 590 });
+  });
+
+  it("stores the invoiced GST on the order", async () => {
+    seedDocument("orders/o1", cartOrder());
+
+    await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 59000 });
+
+    const orderData = readDocument("orders/o1")!;
+    expect(orderData).toMatchObject({ subtotal: 500, totalAmount: 590, taxBreakdown: { hsnCode: "4821", cgst: 45 } });
+    expect(orderData.lineItems[0]).toMatchObject({ productId: "sticker", hsnCode: "4821", subtotal: 500, taxBreakdown: { total: 590 } });
+  });
+
+  it("prices the lines at the rate cards the order was charged at", async () => {
+    seedDocument("settings/pricing", { currentVersion: 2 });
+    seedDocument("pricingVersions/2", { version: 2, rateCards: {} });
+    seedDocument("orders/o1", cartOrder());
+
+    await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 59000 });
+
+    expect(readDocument("invoices/o1")?.lineItems).toHaveLength(1);
+    expect(readDocument("invoices/o1")?.taxBreakdown).toMatchObject({ taxableAmount: 500, total: 590 });
+  });
+
+  it("splits GST out of the charged amount when the lines no longer quote to it", async () => {
+    seedDocument("catalog/p1", { name: "Leaflets", productType: "sticker", hsnCode: "4911", active: true });
+    seedDocument("orders/o1", cartOrder({ deliveryState: "27" }));
+
+    const result = await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 59000 });
+
+    expect(result.success).toBe(true);
+    expect(readDocument("invoices/o1")).toMatchObject({
+      lineItems: [{ name: "Stickers & Labels Printing (100 units)", hsnCode: "4821", quantity: 1, price: 500, amount: 500 }],
+      taxBreakdown: { supplyType: "inter", taxableAmount: 500, igst: 90, total: 590 },
+      totalAmount: 590,
+    });
+    expect(readDocument("orders/o1")?.lineItems[0].hsnCode).toBe("9999");
+  });
+
+  it("invoices an order placed before the cart at the amount charged", async () => {
+    seedDocument("orders/o1", order({ productType: "box", quantity: 100, hsnCode: "9999", taxBreakdown: { taxableAmount: 1, total: 1 } }));
+
+    await markOrderPaid("o1", { razorpayPaymentId: "pay_1", amount: 118000 });
+
+    expect(readDocument("invoices/o1")).toMatchObject({
+      lineItems: [{ hsnCode: "4819", amount: 1000 }],
+      taxBreakdown: { taxableAmount: 1000, cgst: 90, sgst: 90, total: 1180 },
+      totalAmount: 1180,
+    });
+  });
+});
+
+describe("markOrderPaymentFailed", () => {
+  it("records a failed attempt on an unpaid order", async () => {
+    seedDocument("orders/o1", order());
+
+    await markOrderPaymentFailed("o1", { razorpayPaymentId: "pay_1", reason: "Card declined" });
+
+    expect(readDocument("orders/o1")).toMatchObject({
+      paymentStatus: "failed",
+      lastPaymentFailure: { razorpayPaymentId: "pay_1", reason: "Card declined" },
+    });
+    expect(listDocuments("orders/o1/events")).toHaveLength(1);
+  });
+
+  it.each([
+    ["paid", { paymentStatus: "paid", razorpayPaymentId: "pay_2" }],
+    ["refunded", { paymentStatus: "refunded", refundedAmount: 1180, razorpayPaymentId: "pay_2" }],
+    ["partially refunded", { paymentStatus: "partial_refund", refundedAmount: 100, razorpayPaymentId: "pay_2" }],
+    ["holding a payment ID", { paymentStatus: "pending", razorpayPaymentId: "pay_2" }],
+  ])("ignores a late failure on an order that is %s", async (_label, state) => {
+    seedDocument("orders/o1", order(state));
+
+    const result = await markOrderPaymentFailed("o1", { razorpayPaymentId: "pay_1" });
+
+    expect(result).toEqual({ success: true });
+    expect(readDocument("orders/o1")).toMatchObject(state);
+    expect(readDocument("orders/o1")?.lastPaymentFailure).toBeUndefined();
+    expect(listDocuments("orders/o1/events")).toHaveLength(0);
+  });
+});
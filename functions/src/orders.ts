@@ -0,0 +1,230 @@
+import { DocumentData, FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { allocateInvoiceNumber, buildInvoiceRecord, quoteInvoiceTax } from "./invoices";
+import { canTransition, PAID_PAYMENT_STATUSES, resolveOrderStatus } from "./shared/order-lifecycle";
+
+// orders/{orderId}/events: append-only history of status and payment changes.
+// The admin UI writes the same shape from src/lib/order-history-service.ts.
+export interface OrderEvent {
+  type: "status" | "payment";
+  from: string | null;
+  to: string;
+  actorEmail: string | null;
+  source: "admin" | "customer" | "payment";
+  note?: string;
+}
+
+export const orderEventData = (event: OrderEvent) => ({
+  ...event,
+  note: event.note || "",
+  createdAt: Timestamp.now(),
+});
+
+export interface PaymentConfirmation {
+  razorpayPaymentId: string;
+  razorpayOrderId?: string;
+  amount?: number; // paise; when given it must be what the order was charged
+}
+
+// Server-side equivalent of updateOrderAfterPayment in src/lib/invoice-service.ts.
+// Runs in a transaction so a replayed confirmation can never issue a second invoice.
+export const markOrderPaid = async (
+  orderId: string,
+  payment: PaymentConfirmation
+): Promise<{ success: boolean; alreadyPaid?: boolean; rejected?: boolean; invoiceId?: string; message?: string }> => {
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(orderId);
+
+  // `rejected` marks a payment that can never pay this order, so callers don't retry
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+
+    if (!orderDoc.exists) {
+      return { success: false, message: "Order not found" };
+    }
+
+    const orderData = orderDoc.data()!;
+
+    // A refunded order was paid too; it must not be paid (and invoiced) again
+    if (PAID_PAYMENT_STATUSES.includes(orderData.paymentStatus)) {
+      console.log("ℹ️ Order already marked as paid:", orderId);
+      return { success: true, alreadyPaid: true, invoiceId: orderData.invoiceId };
+    }
+
+    // One Razorpay payment pays for one order; a replayed payment ID is refused
+    const otherOrders = await transaction.get(
+      db.collection("orders").where("razorpayPaymentId", "==", payment.razorpayPaymentId).limit(2)
+    );
+    if (otherOrders.docs.some(other => other.id !== orderId)) {
+      console.error("❌ Payment already attached to another order:", payment.razorpayPaymentId);
+      return { success: false, rejected: true, message: "This payment is already attached to another order" };
+    }
+
+    const expectedAmount = orderData.razorpayOrderAmount ?? Math.round(Number(orderData.totalAmount) * 100);
+    if (payment.amount !== undefined && payment.amount !== expectedAmount) {
+      console.error("❌ Payment amount does not match order:", { orderId, amount: payment.amount, expectedAmount });
+      return {
+        success: false,
+        rejected: true,
+        message: `Payment of ₹${(payment.amount / 100).toFixed(2)} doesn't match the order total of ₹${(expectedAmount / 100).toFixed(2)}`,
+      };
+    }
+
+    // Reads the rate cards and catalog outside the transaction; neither is
+    // written by it, and pricingVersions never change once saved
+    const tax = await quoteInvoiceTax(orderId, orderData, expectedAmount);
+    const quotedLines = tax.quotedLines;
+
+    // Orders that already carry a number (issued before sequential numbering) keep it
+    const invoiceId = orderData.invoiceId || (await allocateInvoiceNumber(transaction, new Date()));
+
+    // Payment moves a new order into production. An order an admin already
+    // moved on (or cancelled) keeps its status; the payment is still recorded.
+    const currentStatus = resolveOrderStatus(orderData);
+    const status = canTransition(currentStatus, "received") ? "received" : currentStatus;
+
+    transaction.update(orderRef, {
+      status,
+      paymentStatus: "paid",
+      executionStatus: FieldValue.delete(),
+      executionProgress: FieldValue.delete(),
+      razorpayPaymentId: payment.razorpayPaymentId,
+      ...(payment.razorpayOrderId ? { razorpayOrderId: payment.razorpayOrderId } : {}),
+      paymentCompletedAt: Timestamp.now(),
+      invoiceId,
+      // The browser's GST figures are replaced by the ones invoiced
+      subtotal: tax.taxBreakdown.taxableAmount,
+      taxBreakdown: tax.taxBreakdown,
+      totalAmount: tax.taxBreakdown.total,
+      ...(quotedLines && {
+        lineItems: orderData.lineItems.map((line: DocumentData, index: number) => ({ ...line, ...quotedLines[index] })),
+      }),
+      lastUpdated: Timestamp.now(),
+    });
+
+    const eventsRef = orderRef.collection("events");
+    transaction.set(eventsRef.doc(), orderEventData({
+      type: "payment",
+      from: orderData.paymentStatus || "pending",
+      to: "paid",
+      actorEmail: null,
+      source: "payment",
+      note: `Razorpay payment ${payment.razorpayPaymentId}`,
+    }));
+    if (status !== currentStatus) {
+      transaction.set(eventsRef.doc(), orderEventData({
+        type: "status",
+        from: currentStatus,
+        to: status,
+        actorEmail: null,
+        source: "payment",
+      }));
+    }
+
+    // onInvoiceIssued (invoice-delivery.ts) renders the PDF and emails it
+    transaction.set(
+      db.collection("invoices").doc(orderId),
+      buildInvoiceRecord(orderId, orderData, invoiceId, payment.razorpayPaymentId, tax)
+    );
+
+    return { success: true, invoiceId };
+  });
+};
+
+// Records a failed attempt. An order that has ever been paid (including one
+// since refunded) is never downgraded, since Razorpay may deliver or replay
+// payment.failed for an earlier attempt after a later one succeeded.
+export const markOrderPaymentFailed = async (
+  orderId: string,
+  failure: { razorpayPaymentId: string; reason?: string }
+): Promise<{ success: boolean; message?: string }> => {
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(orderId);
+
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+
+    if (!orderDoc.exists) {
+      return { success: false, message: "Order not found" };
+    }
+
+    const orderData = orderDoc.data()!;
+    const previousPaymentStatus = orderData.paymentStatus;
+
+    if (PAID_PAYMENT_STATUSES.includes(previousPaymentStatus) || orderData.razorpayPaymentId) {
+      console.log("ℹ️ Ignoring failure for already paid order:", orderId);
+      return { success: true };
+    }
+
+    transaction.update(orderRef, {
+      paymentStatus: "failed",
+      lastPaymentFailure: {
+        razorpayPaymentId: failure.razorpayPaymentId,
+        reason: failure.reason || "Payment failed",
+        at: Timestamp.now(),
+      },
+      lastUpdated: Timestamp.now(),
+    });
+
+    transaction.set(orderRef.collection("events").doc(), orderEventData({
+      type: "payment",
+      from: previousPaymentStatus || "pending",
+      to: "failed",
+      actorEmail: null,
+      source: "payment",
+      note: failure.reason || "Payment failed",
+    }));
+
+    return { success: true };
+  });
+};
+
+// Applies the refunded total reported by Razorpay. The value is absolute rather
+// than incremental so replaying the same refund event is harmless.
+export const applyOrderRefund = async (
+  orderId: string,
+  refund: { amountRefunded: number; amountPaid: number; razorpayRefundId?: string }
+): Promise<{ success: boolean; message?: string }> => {
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(orderId);
+  const orderDoc = await orderRef.get();
+
+  if (!orderDoc.exists) {
+    return { success: false, message: "Order not found" };
+  }
+
+  const paymentStatus = refund.amountRefunded >= refund.amountPaid ? "refunded" : "partial_refund";
+  const previous = orderDoc.data()!;
+
+  await orderRef.update({
+    paymentStatus,
+    refundedAmount: refund.amountRefunded / 100,
+    lastUpdated: Timestamp.now(),
+  });
+
+  if (previous.paymentStatus !== paymentStatus || previous.refundedAmount !== refund.amountRefunded / 100) {
+    await orderRef.collection("events").add(orderEventData({
+      type: "payment",
+      from: previous.paymentStatus || null,
+      to: paymentStatus,
+      actorEmail: null,
+      source: "payment",
+      note: `Refunded ₹${(refund.amountRefunded / 100).toFixed(2)} in total`,
+    }));
+  }
+
+  // Refunds issued from the admin portal (payments/refunds.ts) may still be pending at Razorpay
+  if (refund.razorpayRefundId) {
+    const issued = await db.collection("refunds").where("razorpayRefundId", "==", refund.razorpayRefundId).get();
+    await Promise.all(issued.docs.map(refundDoc => refundDoc.ref.update({ status: "processed" })));
+  }
+
+  const invoiceRef = db.collection("invoices").doc(orderId);
+  if ((await invoiceRef.get()).exists) {
+    await invoiceRef.update({
+      status: paymentStatus === "refunded" ? "refunded" : "partially_refunded",
+      refundedAmount: refund.amountRefunded / 100,
+    });
+  }
+
+  return { success: true };
+};
@@ -0,0 +1,94 @@
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { RazorpayPayment } from "./razorpay-client";
+
+// payments/{razorpayPaymentId}: one document per payment attempt, keyed by the
+// Razorpay payment ID so the checkout callback and the webhook update the same
+// record. Attempts are numbered per order from orders/{orderId}.paymentAttempts.
+export interface PaymentAttemptUpdate {
+  orderId: string;
+  razorpayPaymentId: string;
+  razorpayOrderId?: string | null;
+  status: "authorized" | "captured" | "failed" | "refunded";
+  // Missing when only the checkout callback was seen and Razorpay couldn't be reached
+  payment?: RazorpayPayment | null;
+  failureReason?: string | null;
+}
+
+const toRupees = (paise?: number | null) => (paise == null ? null : paise / 100);
+
+// "HDFC", "paytm", "user@okaxis" or "Visa •••• 1111", depending on the method
+const describeMethod = (payment: RazorpayPayment): string | null => {
+  if (payment.card?.last4) {
+    return `${payment.card.network || "Card"} •••• ${payment.card.last4}`;
+  }
+  return payment.vpa || payment.bank || payment.wallet || null;
+};
+
+export const recordPaymentAttempt = async (update: PaymentAttemptUpdate): Promise<void> => {
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(update.orderId);
+  const paymentRef = db.collection("payments").doc(update.razorpayPaymentId);
+  const { payment } = update;
+
+  await db.runTransaction(async (transaction) => {
+    const [orderDoc, paymentDoc] = await Promise.all([transaction.get(orderRef), transaction.get(paymentRef)]);
+    if (!orderDoc.exists) {
+      return;
+    }
+
+    const order = orderDoc.data()!;
+    const existing = paymentDoc.data();
+
+    // A failure can be delivered after the capture of the same payment; never downgrade it
+    const status = existing?.status === "captured" && update.status === "failed" ? existing.status : update.status;
+
+    // Fields Razorpay reported win over what we had; anything unknown keeps its old value
+    const details = {
+      orderId: update.orderId,
+      userId: order.userId || null,
+      customerName: order.customerName || "",
+      customerEmail: order.customerEmail || "",
+      razorpayPaymentId: update.razorpayPaymentId,
+      razorpayOrderId: update.razorpayOrderId || payment?.order_id || existing?.razorpayOrderId || null,
+      amount: toRupees(payment?.amount) ?? existing?.amount ?? order.totalAmount ?? 0,
+      currency: payment?.currency || existing?.currency || "INR",
+      method: payment?.method || existing?.method || null,
+      methodDetail: (payment && describeMethod(payment)) || existing?.methodDetail || null,
+      fee: toRupees(payment?.fee) ?? existing?.fee ?? null,
+      feeTax: toRupees(payment?.tax) ?? existing?.feeTax ?? null,
+      status,
+      failureReason: status === "failed"
+        ? update.failureReason || payment?.error_description || existing?.failureReason || "Payment failed"
+        : null,
+      errorCode: status === "failed" ? payment?.error_code || existing?.errorCode || null : null,
+      updatedAt: Timestamp.now(),
+    };
+
+    if (existing) {
+      transaction.update(paymentRef, details);
+      return;
+    }
+
+    const attemptNumber = (order.paymentAttempts || 0) + 1;
+    transaction.set(paymentRef, {
+      ...details,
+      attemptNumber,
+      createdAt: payment?.created_at ? Timestamp.fromMillis(payment.created_at * 1000) : Timestamp.now(),
+    });
+    transaction.update(orderRef, { paymentAttempts: FieldValue.increment(1) });
+  });
+};
+
+// Keeps the captured attempt in step with the order's refunded total
+export const applyPaymentRefund = async (razorpayPaymentId: string, refundedAmount: number, fullyRefunded: boolean) => {
+  const paymentRef = getFirestore().collection("payments").doc(razorpayPaymentId);
+  if (!(await paymentRef.get()).exists) {
+    return;
+  }
+
+  await paymentRef.update({
+    refundedAmount,
+    status: fullyRefunded ? "refunded" : "captured",
+    updatedAt: Timestamp.now(),
+  });
+};
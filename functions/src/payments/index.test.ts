@@ -0,0 +1,74 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { readDocument, resetFirestore, seedDocument } from "../testing/firestore";
+import { razorpayConfig } from "../config";
+import { createRazorpayOrder } from "./index";
+
+vi.mock("firebase-admin/firestore", () => import("../testing/firestore"));
+vi.mock("../mail", () => ({ sendOrderConfirmationEmail: vi.fn() }));
+
+const address = (overrides: Record<string, unknown> = {}) => ({
+  label: "Office",
+  name: "Asha Rao",
+  line1: "12 Park Street",
+  city: "Mumbai",
+  state: "27",
+  pincode: "400001",
+  phone: "9876543210",
+  ...overrides,
+});
+
+// ₹500 of stickers shipped to Maharashtra, so ₹90 IGST
+const order = (overrides: Record<string, unknown> = {}) => ({
+  userId: "user_1",
+  status: "pending_payment",
+  paymentStatus: "pending",
+  totalAmount: 590,
+  deliveryState: "27",
+  shippingAddress: address(),
+  billingAddress: address(),
+  lineItems: [{
+    productId: "sticker",
+    productName: "Stickers & Labels",
+    productType: "sticker",
+    quantity: 100,
+    spec: { width: 50, height: 50, shape: "circle", material: "paper", colours: "cmyk" },
+  }],
+  ...overrides,
+});
+
+const pay = () =>
+  createRazorpayOrder.run({ auth: { uid: "user_1", token: {} }, data: { orderId: "o1" } } as unknown as CallableRequest<{ orderId: string }>);
+
+beforeAll(() => {
+  razorpayConfig.mock = true;
+});
+
+beforeEach(() => {
+  resetFirestore();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("createRazorpayOrder", () => {
+  it("creates a Razorpay order for the quoted amount", async () => {
+    seedDocument("orders/o1", order());
+
+    expect(await pay()).toMatchObject({ amount: 59000, currency: "INR" });
+    expect(readDocument("orders/o1")?.razorpayOrderAmount).toBe(59000);
+  });
+
+  it("refuses to charge an order shipped to a PIN code in another state", async () => {
+    // Taxed as CGST + SGST in Delhi, though the PIN code is in Maharashtra
+    seedDocument("orders/o1", order({ deliveryState: "07", shippingAddress: address({ state: "07" }) }));
+
+    await expect(pay()).rejects.toMatchObject({ code: "failed-precondition", message: expect.stringMatching(/PIN code 400001 is in Maharashtra, not Delhi/) });
+    expect(readDocument("orders/o1")?.razorpayOrderId).toBeUndefined();
+  });
+
+  it("refuses a delivery state that isn't the shipping address's", async () => {
+    seedDocument("orders/o1", order({ deliveryState: "07" }));
+
+    await expect(pay()).rejects.toMatchObject({ code: "failed-precondition" });
+  });
+});
@@ -0,0 +1,186 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { checkOrderAddresses } from "../addresses";
+import { razorpayConfig } from "../config";
+import { markOrderPaid } from "../orders";
+import { quoteOrder } from "../pricing";
+import { sendOrderConfirmationEmail } from "../mail";
+import { createOrder, fetchPayment, RazorpayApiError } from "./razorpay-client";
+import { recordPaymentAttempt } from "./attempts";
+import { verifyPaymentSignature } from "./signature";
+
+const loadOwnedOrder = async (orderId: string, uid: string) => {
+  const orderRef = getFirestore().collection("orders").doc(orderId);
+  const orderDoc = await orderRef.get();
+
+  if (!orderDoc.exists) {
+    throw new HttpsError("not-found", "Order not found");
+  }
+
+  const orderData = orderDoc.data()!;
+  if (orderData.userId !== uid) {
+    throw new HttpsError("permission-denied", "This order belongs to another user");
+  }
+
+  return { orderRef, orderData };
+};
+
+export const createRazorpayOrder = onCall<{ orderId: string }>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please log in to pay for an order");
+  }
+
+  const { orderId } = request.data || {};
+  if (!orderId) {
+    throw new HttpsError("invalid-argument", "Missing order ID");
+  }
+
+  const { orderRef, orderData } = await loadOwnedOrder(orderId, request.auth.uid);
+
+  if (orderData.paymentStatus === "paid") {
+    throw new HttpsError("failed-precondition", "This order has already been paid");
+  }
+
+  // The customer's browser priced the order, so the total is recomputed from the
+  // current rate cards and must match before anything is charged
+  const amount = Math.round(Number(orderData.totalAmount) * 100);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new HttpsError("failed-precondition", "Order has an invalid amount");
+  }
+
+  const addressError = checkOrderAddresses(orderData);
+  if (addressError) {
+    throw new HttpsError("failed-precondition", addressError);
+  }
+
+  const { quote, message } = await quoteOrder(orderData);
+  if (!quote) {
+    throw new HttpsError("failed-precondition", message || "This order can't be priced");
+  }
+  if (quote.amount !== amount) {
+    console.error("❌ Order total does not match rate cards:", { orderId, stored: amount, expected: quote.amount });
+    throw new HttpsError("failed-precondition", "Our prices have changed since this order was placed; please place it again");
+  }
+
+  // Razorpay allows several payment attempts against one order, so reuse it
+  // as long as the amount hasn't changed since it was created.
+  if (orderData.razorpayOrderId && orderData.razorpayOrderAmount === amount) {
+    console.log("ℹ️ Reusing Razorpay order:", orderData.razorpayOrderId);
+    return {
+      razorpayOrderId: orderData.razorpayOrderId,
+      amount,
+      currency: "INR",
+      keyId: razorpayConfig.keyId,
+    };
+  }
+
+  const orderRequest = {
+    amount,
+    currency: "INR",
+    receipt: `receipt_${orderId}`,
+    notes: {
+      customer_name: orderData.customerName || "",
+      customer_email: orderData.customerEmail || "",
+      internal_order_id: orderId,
+    },
+  };
+
+  try {
+    console.log("📦 Creating Razorpay order:", orderRequest);
+    const razorpayOrder = await createOrder(orderRequest);
+
+    await orderRef.update({
+      razorpayOrderId: razorpayOrder.id,
+      razorpayOrderAmount: razorpayOrder.amount,
+      // markOrderPaid invoices the order at the rate cards it was charged at
+      razorpayOrderPricingVersion: quote.pricingVersion,
+      lastUpdated: Timestamp.now(),
+    });
+
+    console.log("✅ Razorpay order created:", razorpayOrder.id);
+    return {
+      razorpayOrderId: razorpayOrder.id,
+      amount: razorpayOrder.amount,
+      currency: razorpayOrder.currency,
+      keyId: razorpayConfig.keyId,
+    };
+  } catch (error) {
+    console.error("❌ Error creating Razorpay order:", error);
+    if (error instanceof RazorpayApiError) {
+      throw new HttpsError("unavailable", error.message);
+    }
+    throw new HttpsError("internal", "Failed to create payment order");
+  }
+});
+
+export const verifyRazorpayPayment = onCall<{
+  orderId: string;
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}>(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Please log in to confirm a payment");
+  }
+
+  const { orderId, razorpayOrderId, razorpayPaymentId, razorpaySignature } = request.data || {};
+  if (!orderId || !razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
+    throw new HttpsError("invalid-argument", "Missing payment confirmation details");
+  }
+
+  const { orderData } = await loadOwnedOrder(orderId, request.auth.uid);
+
+  if (orderData.razorpayOrderId !== razorpayOrderId) {
+    console.error("❌ Razorpay order mismatch:", { orderId, expected: orderData.razorpayOrderId, received: razorpayOrderId });
+    throw new HttpsError("failed-precondition", "Payment does not belong to this order");
+  }
+
+  if (!verifyPaymentSignature(razorpayOrderId, razorpayPaymentId, razorpaySignature)) {
+    console.error("❌ Invalid Razorpay signature for order:", orderId);
+    throw new HttpsError("permission-denied", "Payment signature verification failed");
+  }
+
+  // A valid signature only proves the payment happened, not that it paid for this
+  // order, so the payment itself is checked with Razorpay before the order is paid
+  const payment = await fetchPayment(razorpayPaymentId).catch((error) => {
+    console.error("❌ Could not fetch Razorpay payment:", razorpayPaymentId, error);
+    throw new HttpsError("unavailable", "Could not confirm the payment with Razorpay, please try again");
+  });
+
+  if (payment.order_id !== razorpayOrderId || payment.amount !== orderData.razorpayOrderAmount || payment.status !== "captured") {
+    console.error("❌ Razorpay payment does not match order:", {
+      orderId,
+      razorpayPaymentId,
+      paymentOrderId: payment.order_id,
+      amount: payment.amount,
+      expectedAmount: orderData.razorpayOrderAmount,
+      status: payment.status,
+    });
+    throw new HttpsError("failed-precondition", "Payment does not match this order");
+  }
+
+  const result = await markOrderPaid(orderId, { razorpayPaymentId, razorpayOrderId, amount: payment.amount });
+  if (!result.success) {
+    throw new HttpsError(result.rejected ? "failed-precondition" : "internal", result.message || "Failed to update order");
+  }
+
+  if (!result.alreadyPaid) {
+    await sendOrderConfirmationEmail(orderId);
+  }
+
+  // Method and fees come from Razorpay; the payment.captured webhook fills them in if this fails
+  try {
+    await recordPaymentAttempt({
+      orderId,
+      razorpayPaymentId,
+      razorpayOrderId,
+      status: "captured",
+      payment,
+    });
+  } catch (error) {
+    console.error("❌ Failed to record payment attempt:", razorpayPaymentId, error);
+  }
+
+  console.log("✅ Payment verified for order:", orderId);
+  return { success: true, invoiceId: result.invoiceId };
+});
@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { razorpayConfig } from "../config";
+import { createOrder, createRefund, fetchOrder, fetchPayment, RazorpayApiError } from "./razorpay-client";
+import { mockCapturePayment } from "./razorpay-mock";
+
+// Runs the client against the in-process gateway (RAZORPAY_MOCK=true)
+describe("Razorpay client with the mock gateway", () => {
+  beforeAll(() => {
+    razorpayConfig.mock = true;
+  });
+
+  const paidOrder = async (amount: number) => {
+    const order = await createOrder({ amount, currency: "INR", receipt: "order_1", notes: { internal_order_id: "order_1" } });
+    const payment = mockCapturePayment(order.id);
+    return { order, paymentId: String(payment.id) };
+  };
+
+  it("creates an order and fetches it back", async () => {
+    const order = await createOrder({ amount: 59000, currency: "INR", receipt: "order_1" });
+
+    expect(order.status).toBe("created");
+    expect(await fetchOrder(order.id)).toMatchObject({ id: order.id, amount: 59000, amount_due: 59000 });
+  });
+
+  it("fetches a captured payment with its order and amount", async () => {
+    const { order, paymentId } = await paidOrder(59000);
+
+    expect(await fetchPayment(paymentId)).toMatchObject({
+      id: paymentId,
+      order_id: order.id,
+      amount: 59000,
+      status: "captured",
+    });
+    expect(await fetchOrder(order.id)).toMatchObject({ status: "paid", amount_paid: 59000, amount_due: 0 });
+  });
+
+  it("rejects a payment ID it never issued", async () => {
+    await expect(fetchPayment("pay_unknown")).rejects.toBeInstanceOf(RazorpayApiError);
+  });
+
+  it("refunds part and then the rest of a payment", async () => {
+    const { paymentId } = await paidOrder(59000);
+
+    const partial = await createRefund(paymentId, { amount: 20000, receipt: "refund_1" });
+    expect(partial).toMatchObject({ payment_id: paymentId, amount: 20000, receipt: "refund_1", status: "processed" });
+    expect(await fetchPayment(paymentId)).toMatchObject({ amount_refunded: 20000, status: "captured" });
+
+    await createRefund(paymentId, { amount: 39000, receipt: "refund_2" });
+    expect(await fetchPayment(paymentId)).toMatchObject({ amount_refunded: 59000, status: "refunded" });
+  });
+
+  it("refuses to refund more than was captured", async () => {
+    const { paymentId } = await paidOrder(59000);
+    await createRefund(paymentId, { amount: 50000 });
+
+    await expect(createRefund(paymentId, { amount: 10000 })).rejects.toMatchObject({ statusCode: 400 });
+    expect(await fetchPayment(paymentId)).toMatchObject({ amount_refunded: 50000 });
+  });
+
+  it("refuses an empty refund", async () => {
+    const { paymentId } = await paidOrder(59000);
+
+    await expect(createRefund(paymentId, { amount: 0 })).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
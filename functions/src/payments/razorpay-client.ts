@@ -0,0 +1,128 @@
+import { razorpayConfig, assertRazorpayConfigured } from "../config";
+import { mockRazorpayRequest, RazorpayMockError } from "./razorpay-mock";
+
+export interface RazorpayOrderRequest {
+  amount: number; // in paise
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayOrder {
+  id: string;
+  entity: "order";
+  amount: number;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  receipt: string;
+  status: "created" | "attempted" | "paid";
+  notes?: Record<string, string>;
+  created_at: number;
+}
+
+// Amounts are in paise. `fee` and `tax` are only set once the payment is captured;
+// Razorpay's fee already includes its GST (`tax`).
+export interface RazorpayPayment {
+  id: string;
+  entity: "payment";
+  amount: number;
+  currency: string;
+  status: "created" | "authorized" | "captured" | "refunded" | "failed";
+  order_id?: string;
+  method?: "card" | "upi" | "netbanking" | "wallet" | "emi" | "cardless_emi" | "paylater" | string;
+  amount_refunded?: number;
+  fee?: number | null;
+  tax?: number | null;
+  bank?: string | null;
+  wallet?: string | null;
+  vpa?: string | null;
+  card?: { network?: string; last4?: string; type?: string } | null;
+  error_code?: string | null;
+  error_description?: string | null;
+  error_reason?: string | null;
+  // Razorpay sends an empty array instead of an object when there are no notes
+  notes?: Record<string, string> | [];
+  created_at?: number;
+}
+
+export interface RazorpayRefundRequest {
+  amount: number; // in paise
+  receipt?: string;
+  notes?: Record<string, string>;
+}
+
+export interface RazorpayRefund {
+  id: string;
+  entity: "refund";
+  amount: number;
+  currency: string;
+  payment_id: string;
+  receipt: string | null;
+  notes?: Record<string, string>;
+  status: "pending" | "processed" | "failed";
+  created_at: number;
+}
+
+export class RazorpayApiError extends Error {
+  constructor(message: string, public statusCode: number, public code?: string) {
+    super(message);
+    this.name = "RazorpayApiError";
+  }
+}
+
+// Minimal REST client for the Razorpay API. We talk to the HTTP API directly
+// so the base URL can be swapped for a local stub in development.
+export const razorpayRequest = async <T>(method: "GET" | "POST", path: string, body?: unknown): Promise<T> => {
+  assertRazorpayConfigured();
+
+  if (razorpayConfig.mock) {
+    try {
+      return mockRazorpayRequest(method, path, body) as T;
+    } catch (error) {
+      const mockError = error as RazorpayMockError;
+      throw new RazorpayApiError(mockError.message, mockError.statusCode, mockError.code);
+    }
+  }
+
+  const credentials = Buffer.from(`${razorpayConfig.keyId}:${razorpayConfig.keySecret}`).toString("base64");
+  const response = await fetch(`${razorpayConfig.apiBase}${path}`, {
+    method,
+    headers: {
+      "Authorization": `Basic ${credentials}`,
+      "Content-Type": "application/json",
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const error = (payload as { error?: { code?: string; description?: string } }).error;
+    throw new RazorpayApiError(
+      error?.description || `Razorpay request failed with status ${response.status}`,
+      response.status,
+      error?.code
+    );
+  }
+
+  return payload as T;
+};
+
+export const createOrder = (request: RazorpayOrderRequest): Promise<RazorpayOrder> => {
+  return razorpayRequest<RazorpayOrder>("POST", "/orders", request);
+};
+
+export const fetchOrder = (razorpayOrderId: string): Promise<RazorpayOrder> => {
+  return razorpayRequest<RazorpayOrder>("GET", `/orders/${razorpayOrderId}`);
+};
+
+export const fetchPayment = (razorpayPaymentId: string): Promise<RazorpayPayment> => {
+  return razorpayRequest<RazorpayPayment>("GET", `/payments/${razorpayPaymentId}`);
+};
+
+// Full or partial refund of a captured payment. `receipt` must be unique per
+// refund, which stops a retried request from refunding twice.
+export const createRefund = (razorpayPaymentId: string, request: RazorpayRefundRequest): Promise<RazorpayRefund> => {
+  return razorpayRequest<RazorpayRefund>("POST", `/payments/${razorpayPaymentId}/refund`, { ...request, speed: "normal" });
+};
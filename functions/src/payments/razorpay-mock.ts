@@ -0,0 +1,119 @@
+import { randomBytes } from "crypto";
+
+// In-process stand-in for the Razorpay endpoints we call, used when
+// RAZORPAY_MOCK=true. It keeps what it creates in memory so follow-up calls
+// (fetching an order it created, refunding a payment) behave like the real API.
+const mockId = (prefix: string) => `${prefix}_mock${randomBytes(7).toString("hex")}`;
+
+const orders = new Map<string, Record<string, unknown>>();
+const payments = new Map<string, Record<string, unknown>>();
+
+export class RazorpayMockError extends Error {
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "RazorpayMockError";
+  }
+}
+
+export const mockRazorpayRequest = (method: "GET" | "POST", path: string, body?: unknown): unknown => {
+  const payload = (body || {}) as Record<string, unknown>;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (method === "POST" && path === "/orders") {
+    const order = {
+      id: mockId("order"),
+      entity: "order",
+      amount: payload.amount,
+      amount_paid: 0,
+      amount_due: payload.amount,
+      currency: payload.currency || "INR",
+      receipt: payload.receipt,
+      status: "created",
+      notes: payload.notes || {},
+      created_at: now,
+    };
+    orders.set(order.id, order);
+    return order;
+  }
+
+  const orderMatch = path.match(/^\/orders\/([^/]+)$/);
+  if (method === "GET" && orderMatch) {
+    const order = orders.get(orderMatch[1]);
+    if (!order) {
+      throw new RazorpayMockError("The id provided does not exist", 400, "BAD_REQUEST_ERROR");
+    }
+    return order;
+  }
+
+  const paymentMatch = path.match(/^\/payments\/([^/]+)$/);
+  if (method === "GET" && paymentMatch) {
+    const payment = payments.get(paymentMatch[1]);
+    if (!payment) {
+      throw new RazorpayMockError("The id provided does not exist", 400, "BAD_REQUEST_ERROR");
+    }
+    return payment;
+  }
+
+  const refundMatch = path.match(/^\/payments\/([^/]+)\/refund$/);
+  if (method === "POST" && refundMatch) {
+    const paymentId = refundMatch[1];
+    const amount = Number(payload.amount);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new RazorpayMockError("The amount must be atleast INR 1.00", 400, "BAD_REQUEST_ERROR");
+    }
+
+    // Payments captured through mockCapturePayment can't be refunded beyond what was paid
+    const payment = payments.get(paymentId);
+    if (payment) {
+      const refunded = Number(payment.amount_refunded) + amount;
+      if (refunded > Number(payment.amount)) {
+        throw new RazorpayMockError("The refund amount provided is greater than amount captured", 400, "BAD_REQUEST_ERROR");
+      }
+      payment.amount_refunded = refunded;
+      payment.status = refunded === payment.amount ? "refunded" : "captured";
+    }
+
+    return {
+      id: mockId("rfnd"),
+      entity: "refund",
+      amount,
+      currency: "INR",
+      payment_id: paymentId,
+      receipt: payload.receipt || null,
+      notes: payload.notes || {},
+      status: "processed",
+      speed_processed: "normal",
+      created_at: now,
+    };
+  }
+
+  throw new RazorpayMockError(`Mock gateway does not handle ${method} ${path}`, 404, "NOT_FOUND");
+};
+
+// What Checkout would do for a customer paying a mock order: a captured payment
+// for the order's amount (or `amount`, to simulate a mismatch). For tests and
+// emulator runs; the signature still has to be made with the key secret.
+export const mockCapturePayment = (razorpayOrderId: string, amount?: number): Record<string, unknown> => {
+  const order = orders.get(razorpayOrderId);
+  if (!order) {
+    throw new RazorpayMockError("The id provided does not exist", 400, "BAD_REQUEST_ERROR");
+  }
+
+  const payment = {
+    id: mockId("pay"),
+    entity: "payment",
+    amount: amount ?? order.amount,
+    currency: order.currency,
+    status: "captured",
+    order_id: order.id,
+    method: "upi",
+    amount_refunded: 0,
+    fee: 0,
+    tax: 0,
+    notes: order.notes,
+    created_at: Math.floor(Date.now() / 1000),
+  };
+  payments.set(payment.id, payment);
+  Object.assign(order, { status: "paid", amount_paid: payment.amount, amount_due: 0 });
+  return payment;
+};
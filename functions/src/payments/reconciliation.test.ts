@@ -0,0 +1,149 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { listDocuments, readDocument, resetFirestore, seedDocument } from "../testing/firestore";
+import { razorpayConfig } from "../config";
+import { createOrder } from "./razorpay-client";
+import { mockCapturePayment } from "./razorpay-mock";
+import { importPaymentReconciliation, ReconciliationRow, resolveReconciliationItem } from "./reconciliation";
+
+vi.mock("firebase-admin/firestore", () => import("../testing/firestore"));
+vi.mock("../mail", () => ({ sendOrderConfirmationEmail: vi.fn() }));
+
+const asAdmin = <T>(data: T, role = "finance") => ({
+  auth: {
+    uid: "admin_1",
+    token: { admin: true, role, email: "finance@example.com", auth_time: 1000, mfaAuthTime: 1000, mfaExpiresAt: Date.now() / 1000 + 3600 },
+  },
+  data,
+}) as unknown as CallableRequest<T>;
+
+const importRows = (rows: ReconciliationRow[]) =>
+  importPaymentReconciliation.run(asAdmin({ fileName: "payments.csv", rows }));
+
+const resolve = (data: { runId: string; paymentId: string; action: "mark_paid" | "dismiss"; orderId?: string; note?: string }) =>
+  resolveReconciliationItem.run(asAdmin(data));
+
+const pendingOrder = (razorpayOrderId: string) => ({
+  userId: "user_1",
+  status: "pending_payment",
+  paymentStatus: "pending",
+  totalAmount: 1180,
+  razorpayOrderId,
+  razorpayOrderAmount: 118000,
+});
+
+beforeAll(() => {
+  razorpayConfig.mock = true;
+});
+
+beforeEach(() => {
+  resetFirestore();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("importPaymentReconciliation", () => {
+  it("stores only the payments that don't match their order", async () => {
+    seedDocument("orders/matched", { ...pendingOrder("order_a"), paymentStatus: "paid", razorpayPaymentId: "pay_a" });
+    seedDocument("orders/unpaid", pendingOrder("order_b"));
+    seedDocument("orders/attempted", pendingOrder("order_c"));
+    seedDocument("payments/pay_c", { orderId: "attempted", status: "authorized" });
+    seedDocument("orders/undercharged", { ...pendingOrder("order_d"), paymentStatus: "paid", razorpayPaymentId: "pay_d", totalAmount: 2000 });
+
+    const result = await importRows([
+      { paymentId: "pay_a", razorpayOrderId: "order_a", amount: 1180, status: "captured" },
+      { paymentId: "pay_b", razorpayOrderId: "order_b", amount: 1180, status: "captured" },
+      { paymentId: "pay_c", amount: 1180, status: "captured" },
+      { paymentId: "pay_d", razorpayOrderId: "order_d", amount: 1180 },
+      { paymentId: "pay_e", razorpayOrderId: "order_a", amount: 1180, status: "captured" },
+      { paymentId: "pay_f", razorpayOrderId: "order_x", amount: 500, status: "captured" },
+      { paymentId: "pay_g", razorpayOrderId: "order_b", amount: 1180, status: "failed" },
+    ]);
+
+    expect(result).toMatchObject({
+      rowCount: 7,
+      checkedCount: 6,
+      skippedCount: 1,
+      matchedCount: 1,
+      openCount: 5,
+      mismatchCounts: { gateway_paid_db_pending: 2, amount_mismatch: 1, orphan: 2 },
+    });
+
+    const items = Object.fromEntries(listDocuments(`reconciliations/${result.runId}/items`).map(item => [item.id, item.data]));
+    expect(Object.keys(items).sort()).toEqual(["pay_b", "pay_c", "pay_d", "pay_e", "pay_f"]);
+    expect(items.pay_b).toMatchObject({ type: "gateway_paid_db_pending", orderId: "unpaid", status: "open" });
+    expect(items.pay_c).toMatchObject({ type: "gateway_paid_db_pending", orderId: "attempted" });
+    expect(items.pay_d).toMatchObject({ type: "amount_mismatch", orderId: "undercharged", gatewayAmount: 1180, orderAmount: 2000 });
+    expect(items.pay_e).toMatchObject({ type: "orphan", orderId: "matched" });
+    expect(items.pay_f).toMatchObject({ type: "orphan", orderId: null });
+    expect(listDocuments("auditLog")[0].data).toMatchObject({ action: "payment.reconcile_import", targetId: result.runId });
+  });
+
+  it("refuses rows without a Razorpay payment ID", async () => {
+    await expect(importRows([{ paymentId: "order_1", amount: 10 }])).rejects.toMatchObject({ code: "invalid-argument" });
+  });
+
+  it("refuses roles that can't reconcile", async () => {
+    await expect(importPaymentReconciliation.run(asAdmin({ fileName: "payments.csv", rows: [] }, "operations")))
+      .rejects.toMatchObject({ code: "permission-denied" });
+  });
+});
+
+describe("resolveReconciliationItem", () => {
+  let runId: string;
+  let paymentId: string;
+
+  // A captured payment that never reached the order, as the import leaves it
+  const importMissedPayment = async (capturedAmount?: number) => {
+    const razorpayOrder = await createOrder({ amount: 118000, currency: "INR", receipt: "o1" });
+    paymentId = String(mockCapturePayment(razorpayOrder.id, capturedAmount).id);
+    seedDocument("orders/o1", pendingOrder(razorpayOrder.id));
+
+    ({ runId } = await importRows([
+      { paymentId, razorpayOrderId: razorpayOrder.id, amount: (capturedAmount ?? 118000) / 100, status: "captured" },
+    ]));
+  };
+
+  it("marks the order paid once Razorpay confirms the payment", async () => {
+    await importMissedPayment();
+
+    await resolve({ runId, paymentId, action: "mark_paid" });
+
+    expect(readDocument("orders/o1")).toMatchObject({ paymentStatus: "paid", razorpayPaymentId: paymentId });
+    expect(readDocument("invoices/o1")).toBeDefined();
+    expect(readDocument(`reconciliations/${runId}/items/${paymentId}`)).toMatchObject({ status: "resolved", resolution: { action: "mark_paid", orderId: "o1" } });
+    expect(readDocument(`reconciliations/${runId}`)?.openCount).toBe(0);
+    expect(readDocument(`payments/${paymentId}`)).toMatchObject({ orderId: "o1", status: "captured" });
+  });
+
+  it("resolves an item only once", async () => {
+    await importMissedPayment();
+    await resolve({ runId, paymentId, action: "dismiss", note: "Paid by bank transfer" });
+
+    await expect(resolve({ runId, paymentId, action: "mark_paid" })).rejects.toMatchObject({ code: "failed-precondition" });
+    expect(readDocument(`reconciliations/${runId}`)?.openCount).toBe(0);
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+  });
+
+  it("doesn't mark an order paid by a payment for another amount", async () => {
+    await importMissedPayment(100000);
+
+    await expect(resolve({ runId, paymentId, action: "mark_paid" })).rejects.toMatchObject({ code: "failed-precondition" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+    expect(readDocument(`reconciliations/${runId}`)?.openCount).toBe(1);
+  });
+
+  it("doesn't trust a payment the gateway never issued", async () => {
+    seedDocument("orders/o1", pendingOrder("order_1"));
+    ({ runId } = await importRows([{ paymentId: "pay_forged", razorpayOrderId: "order_1", amount: 1180, status: "captured" }]));
+
+    await expect(resolve({ runId, paymentId: "pay_forged", action: "mark_paid" })).rejects.toMatchObject({ code: "unavailable" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+  });
+
+  it("needs a note to dismiss a mismatch", async () => {
+    await importMissedPayment();
+
+    await expect(resolve({ runId, paymentId, action: "dismiss" })).rejects.toMatchObject({ code: "invalid-argument" });
+  });
+});
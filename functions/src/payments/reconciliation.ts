@@ -0,0 +1,292 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { DocumentData, FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { requireAdmin } from "../admin";
+import { recordAdminAudit } from "../admin/audit";
+import { canReconcile } from "../admin/roles";
+import { sendOrderConfirmationEmail } from "../mail";
+import { markOrderPaid } from "../orders";
+import { recordPaymentAttempt } from "./attempts";
+import { fetchPayment, RazorpayPayment } from "./razorpay-client";
+
+// reconciliations/{runId}: one import of a Razorpay payments or settlement
+// export. Only the rows that don't match an order are stored, as
+// reconciliations/{runId}/items/{razorpayPaymentId}, until an admin resolves them.
+export interface ReconciliationRow {
+  paymentId: string;
+  razorpayOrderId?: string | null;
+  amount: number; // rupees, as in the dashboard exports
+  status?: string | null; // empty for settlement rows, which are settled by definition
+  method?: string | null;
+  createdAt?: string | null;
+}
+
+export type MismatchType = "gateway_paid_db_pending" | "amount_mismatch" | "orphan";
+
+const MAX_ROWS = 5000;
+const GATEWAY_PAID_STATUSES = ["captured", "refunded", "settled"];
+const ORDER_PAID_STATUSES = ["paid", "partial_refund", "refunded"];
+
+const toPaise = (amount: unknown) => Math.round(Number(amount || 0) * 100);
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, index * size + size));
+
+// Firestore `in` queries take at most 30 values
+const findOrdersBy = async (field: string, values: string[]) => {
+  const orders = new Map<string, { id: string; data: DocumentData }>();
+  const db = getFirestore();
+
+  for (const values30 of chunk([...new Set(values)], 30)) {
+    const snapshot = await db.collection("orders").where(field, "in", values30).get();
+    snapshot.docs.forEach(orderDoc => orders.set(orderDoc.data()[field], { id: orderDoc.id, data: orderDoc.data() }));
+  }
+  return orders;
+};
+
+const classify = (
+  row: ReconciliationRow,
+  order: { id: string; data: DocumentData } | undefined
+): { type: MismatchType; detail: string } | null => {
+  if (!order) {
+    return { type: "orphan", detail: "No order found for this payment" };
+  }
+  if (order.data.razorpayPaymentId && order.data.razorpayPaymentId !== row.paymentId) {
+    return { type: "orphan", detail: `Order was paid by ${order.data.razorpayPaymentId}; this looks like a second payment` };
+  }
+  if (!ORDER_PAID_STATUSES.includes(order.data.paymentStatus)) {
+    return { type: "gateway_paid_db_pending", detail: `Razorpay shows the payment but the order is "${order.data.paymentStatus || "pending"}"` };
+  }
+  if (toPaise(order.data.totalAmount) !== toPaise(row.amount)) {
+    return { type: "amount_mismatch", detail: `Razorpay ₹${Number(row.amount).toFixed(2)}, order ₹${Number(order.data.totalAmount || 0).toFixed(2)}` };
+  }
+  return null;
+};
+
+export const importPaymentReconciliation = onCall<{ fileName: string; rows: ReconciliationRow[] }>(async (request) => {
+  const caller = requireAdmin(request, canReconcile);
+  const actorEmail = caller.token.email || caller.uid;
+  const rows = Array.isArray(request.data?.rows) ? request.data.rows : [];
+
+  if (rows.length === 0 || rows.length > MAX_ROWS) {
+    throw new HttpsError("invalid-argument", `The file must contain between 1 and ${MAX_ROWS} payments`);
+  }
+  if (rows.some(row => typeof row?.paymentId !== "string" || !row.paymentId.startsWith("pay_") || !Number.isFinite(Number(row.amount)))) {
+    throw new HttpsError("invalid-argument", "Every row needs a Razorpay payment ID and an amount");
+  }
+
+  // Settlement reports can list a payment more than once; the last row wins
+  const uniqueRows = [...new Map(rows.map(row => [row.paymentId, row])).values()];
+  const paidRows = uniqueRows.filter(row => !row.status || GATEWAY_PAID_STATUSES.includes(row.status.toLowerCase()));
+
+  console.log("🔄 Reconciling Razorpay export:", { fileName: request.data.fileName, rows: rows.length, paid: paidRows.length });
+
+  const db = getFirestore();
+  const byPaymentId = await findOrdersBy("razorpayPaymentId", paidRows.map(row => row.paymentId));
+
+  // Payments never recorded on an order: try the attempt log, then the Razorpay order ID
+  const unresolved = paidRows.filter(row => !byPaymentId.has(row.paymentId));
+  const attemptDocs = unresolved.length
+    ? await db.getAll(...unresolved.map(row => db.collection("payments").doc(row.paymentId)))
+    : [];
+  const attemptOrderIds = new Map(attemptDocs.filter(d => d.exists).map(d => [d.id, d.data()!.orderId as string]));
+  const attemptOrders = attemptOrderIds.size
+    ? await db.getAll(...[...new Set(attemptOrderIds.values())].map(orderId => db.collection("orders").doc(orderId)))
+    : [];
+  const ordersById = new Map(attemptOrders.filter(d => d.exists).map(d => [d.id, { id: d.id, data: d.data()! }]));
+  const byRazorpayOrderId = await findOrdersBy(
+    "razorpayOrderId",
+    unresolved.map(row => row.razorpayOrderId).filter((id): id is string => !!id)
+  );
+
+  const runRef = db.collection("reconciliations").doc();
+  const mismatchCounts: Record<MismatchType, number> = { gateway_paid_db_pending: 0, amount_mismatch: 0, orphan: 0 };
+  const items: DocumentData[] = [];
+
+  for (const row of paidRows) {
+    const attemptOrderId = attemptOrderIds.get(row.paymentId);
+    const order = byPaymentId.get(row.paymentId)
+      || (attemptOrderId ? ordersById.get(attemptOrderId) : undefined)
+      || (row.razorpayOrderId ? byRazorpayOrderId.get(row.razorpayOrderId) : undefined);
+
+    const mismatch = classify(row, order);
+    if (!mismatch) continue;
+
+    mismatchCounts[mismatch.type]++;
+    items.push({
+      ...mismatch,
+      paymentId: row.paymentId,
+      razorpayOrderId: row.razorpayOrderId || null,
+      gatewayAmount: toPaise(row.amount) / 100,
+      gatewayStatus: row.status || "settled",
+      method: row.method || null,
+      paidAt: row.createdAt || null,
+      orderId: order?.id || null,
+      orderAmount: order ? Number(order.data.totalAmount || 0) : null,
+      orderPaymentStatus: order ? order.data.paymentStatus || "pending" : null,
+      status: "open",
+      resolution: null,
+    });
+  }
+
+  const summary = {
+    rowCount: rows.length,
+    checkedCount: paidRows.length,
+    skippedCount: rows.length - paidRows.length,
+    matchedCount: paidRows.length - items.length,
+    mismatchCounts,
+    openCount: items.length,
+  };
+
+  await runRef.set({
+    fileName: String(request.data.fileName || "razorpay.csv").slice(0, 200),
+    importedBy: actorEmail,
+    importedByUid: caller.uid,
+    createdAt: Timestamp.now(),
+    ...summary,
+  });
+  for (const itemsChunk of chunk(items, 400)) {
+    const batch = db.batch();
+    itemsChunk.forEach(item => batch.set(runRef.collection("items").doc(item.paymentId), item));
+    await batch.commit();
+  }
+
+  await recordAdminAudit({
+    actorUid: caller.uid,
+    actorEmail,
+    action: "payment.reconcile_import",
+    targetType: "reconciliation",
+    targetId: runRef.id,
+    after: summary,
+    note: request.data.fileName,
+  });
+
+  console.log("✅ Reconciliation imported:", runRef.id, summary);
+  return { success: true, runId: runRef.id, ...summary };
+});
+
+export const resolveReconciliationItem = onCall<{
+  runId: string;
+  paymentId: string;
+  action: "mark_paid" | "dismiss";
+  orderId?: string;
+  note?: string;
+}>(async (request) => {
+  const caller = requireAdmin(request, canReconcile);
+  const actorEmail = caller.token.email || caller.uid;
+  const { runId, paymentId, action } = request.data || {};
+  const note = (request.data?.note || "").trim();
+
+  if (!runId || !paymentId || !["mark_paid", "dismiss"].includes(action)) {
+    throw new HttpsError("invalid-argument", "Missing reconciliation item or action");
+  }
+  if (action === "dismiss" && !note) {
+    throw new HttpsError("invalid-argument", "Explain why the mismatch can be ignored");
+  }
+
+  const db = getFirestore();
+  const runRef = db.collection("reconciliations").doc(runId);
+  const itemRef = runRef.collection("items").doc(paymentId);
+  const itemDoc = await itemRef.get();
+  const item = itemDoc.data();
+
+  if (!item) {
+    throw new HttpsError("not-found", "Reconciliation item not found");
+  }
+  if (item.status === "resolved") {
+    throw new HttpsError("failed-precondition", "This mismatch has already been resolved");
+  }
+
+  let orderId: string | null = null;
+  let payment: RazorpayPayment | null = null;
+  let newlyPaid = false;
+
+  if (action === "mark_paid") {
+    if (item.type === "amount_mismatch") {
+      throw new HttpsError("failed-precondition", "Amount differences can only be resolved with a note");
+    }
+
+    // An orphan payment is linked to the order the admin names
+    orderId = item.type === "orphan" ? (request.data.orderId || "").trim() : item.orderId;
+    if (!orderId) {
+      throw new HttpsError("invalid-argument", "Choose the order this payment belongs to");
+    }
+
+    const orderDoc = await db.collection("orders").doc(orderId).get();
+    const order = orderDoc.data();
+    if (!order) {
+      throw new HttpsError("not-found", "Order not found");
+    }
+    if (ORDER_PAID_STATUSES.includes(order.paymentStatus)) {
+      throw new HttpsError("failed-precondition", "That order is already paid; refund the extra payment from Razorpay instead");
+    }
+
+    // The uploaded report is only a hint: the payment itself is checked with Razorpay
+    payment = await fetchPayment(paymentId).catch((error) => {
+      console.error("❌ Could not fetch Razorpay payment:", paymentId, error);
+      throw new HttpsError("unavailable", "Could not confirm the payment with Razorpay, please try again");
+    });
+
+    const notes = Array.isArray(payment.notes) ? {} : payment.notes || {};
+    const belongsToOrder = payment.order_id === order.razorpayOrderId || notes.internal_order_id === orderId;
+    if (payment.status !== "captured") {
+      throw new HttpsError("failed-precondition", `Razorpay shows this payment as ${payment.status}, not captured`);
+    }
+    if (payment.amount !== toPaise(order.totalAmount)) {
+      throw new HttpsError("failed-precondition", `The order total (₹${Number(order.totalAmount || 0).toFixed(2)}) doesn't match the payment`);
+    }
+    if (item.type !== "orphan" && !belongsToOrder) {
+      throw new HttpsError("failed-precondition", "Razorpay doesn't link this payment to the order");
+    }
+
+    const result = await markOrderPaid(orderId, {
+      razorpayPaymentId: paymentId,
+      razorpayOrderId: payment.order_id,
+      amount: payment.amount,
+    });
+    if (!result.success) {
+      throw new HttpsError(result.rejected ? "failed-precondition" : "internal", result.message || "Failed to update order");
+    }
+    newlyPaid = !result.alreadyPaid;
+  }
+
+  // Resolving twice must not count the item twice
+  await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(itemRef);
+    if (current.data()?.status === "resolved") {
+      throw new HttpsError("failed-precondition", "This mismatch has already been resolved");
+    }
+
+    transaction.update(itemRef, {
+      status: "resolved",
+      resolution: { action, orderId, note, by: actorEmail, at: Timestamp.now() },
+    });
+    transaction.update(runRef, { openCount: FieldValue.increment(-1) });
+  });
+
+  if (orderId && payment) {
+    if (newlyPaid) {
+      await sendOrderConfirmationEmail(orderId);
+    }
+    await recordPaymentAttempt({
+      orderId,
+      razorpayPaymentId: paymentId,
+      razorpayOrderId: payment.order_id || item.razorpayOrderId,
+      status: "captured",
+      payment,
+    });
+  }
+
+  await recordAdminAudit({
+    actorUid: caller.uid,
+    actorEmail,
+    action: "payment.reconcile_resolve",
+    targetType: "reconciliation",
+    targetId: `${runId}/${paymentId}`,
+    before: { type: item.type, orderId: item.orderId, orderPaymentStatus: item.orderPaymentStatus },
+    after: { action, orderId, ...(action === "mark_paid" ? { orderPaymentStatus: "paid" } : {}) },
+    note,
+  });
+
+  console.log("✅ Reconciliation item resolved:", { runId, paymentId, action, orderId });
+  return { success: true };
+});
@@ -0,0 +1,120 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CallableRequest } from "firebase-functions/v2/https";
+import { listDocuments, readDocument, resetFirestore, seedDocument } from "../testing/firestore";
+import { razorpayConfig } from "../config";
+import { createOrder, createRefund } from "./razorpay-client";
+import { mockCapturePayment } from "./razorpay-mock";
+import { recordIssuedRefund, refundOrderPayment } from "./refunds";
+
+vi.mock("firebase-admin/firestore", () => import("../testing/firestore"));
+
+const asAdmin = (role: string, data: { orderId: string; amount: number; reason?: string }) => ({
+  auth: {
+    uid: "admin_1",
+    token: { admin: true, role, email: "finance@example.com", auth_time: 1000, mfaAuthTime: 1000, mfaExpiresAt: Date.now() / 1000 + 3600 },
+  },
+  data,
+}) as unknown as CallableRequest<{ orderId: string; amount: number; reason?: string }>;
+
+const refund = (amount: number, role = "finance") => refundOrderPayment.run(asAdmin(role, { orderId: "o1", amount, reason: "Damaged" }));
+
+let paymentId: string;
+
+beforeAll(() => {
+  razorpayConfig.mock = true;
+});
+
+beforeEach(async () => {
+  resetFirestore();
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+  const razorpayOrder = await createOrder({ amount: 118000, currency: "INR", receipt: "o1" });
+  paymentId = String(mockCapturePayment(razorpayOrder.id).id);
+  seedDocument("orders/o1", {
+    userId: "user_1",
+    status: "received",
+    paymentStatus: "paid",
+    totalAmount: 1180,
+    razorpayOrderId: razorpayOrder.id,
+    razorpayPaymentId: paymentId,
+    invoiceId: "MUV/2026-27/000001",
+  });
+  seedDocument("invoices/o1", {
+    invoiceNumber: "MUV/2026-27/000001",
+    totalAmount: 1180,
+    lineItems: [{ name: "Stickers Printing (100 units)", hsnCode: "4911", quantity: 100, price: 10, amount: 1000 }],
+    taxBreakdown: { taxableAmount: 1000, totalTax: 180, total: 1180, supplyType: "intra", rate: 18, cgst: 90, sgst: 90, igst: 0 },
+  });
+});
+
+describe("refundOrderPayment", () => {
+  it("refunds part of a payment and issues a credit note", async () => {
+    const result = await refund(500);
+
+    expect(result).toMatchObject({ success: true, paymentStatus: "partial_refund", refundedAmount: 500 });
+    expect(result.creditNoteNumber).toMatch(/^MUV-CN\/\d{4}-\d{2}\/000001$/);
+    expect(readDocument("orders/o1")).toMatchObject({ paymentStatus: "partial_refund", refundedAmount: 500, refundPendingAmount: 0 });
+    expect(readDocument(`refunds/${result.refundId}`)).toMatchObject({ status: "processed", amount: 500, creditNote: { number: result.creditNoteNumber } });
+  });
+
+  it("marks the order refunded once the whole payment is returned", async () => {
+    await refund(500);
+    const result = await refund(680);
+
+    expect(result).toMatchObject({ paymentStatus: "refunded", refundedAmount: 1180 });
+    expect(readDocument("invoices/o1")).toMatchObject({ status: "refunded", refundedAmount: 1180 });
+  });
+
+  it("refuses to refund more than is left on the order", async () => {
+    await refund(1000);
+
+    await expect(refund(200)).rejects.toMatchObject({ code: "failed-precondition" });
+    expect(readDocument("orders/o1")).toMatchObject({ refundedAmount: 1000, refundPendingAmount: 0 });
+    expect(listDocuments("refunds")).toHaveLength(1);
+  });
+
+  it("counts a refund still in flight against what can be refunded", async () => {
+    seedDocument("orders/o1", { ...readDocument("orders/o1"), refundPendingAmount: 1000 });
+
+    await expect(refund(200)).rejects.toMatchObject({ code: "failed-precondition" });
+    expect(readDocument("orders/o1")?.refundPendingAmount).toBe(1000);
+  });
+
+  it("releases the reservation when Razorpay refuses the refund", async () => {
+    // Refunded from the Razorpay dashboard, so the gateway has nothing left to return
+    await createRefund(paymentId, { amount: 118000 });
+
+    await expect(refund(500)).rejects.toMatchObject({ code: "unavailable" });
+    expect(readDocument("orders/o1")).toMatchObject({ paymentStatus: "paid", refundPendingAmount: 0 });
+    expect(listDocuments("refunds")[0].data).toMatchObject({ status: "failed" });
+  });
+
+  it("refuses roles that can't refund", async () => {
+    await expect(refund(500, "support")).rejects.toMatchObject({ code: "permission-denied" });
+    expect(listDocuments("refunds")).toHaveLength(0);
+  });
+
+  it("refuses an order that wasn't paid through Razorpay", async () => {
+    seedDocument("orders/o1", { ...readDocument("orders/o1"), paymentStatus: "pending", razorpayPaymentId: null });
+
+    await expect(refund(500)).rejects.toMatchObject({ code: "failed-precondition" });
+  });
+});
+
+describe("recordIssuedRefund", () => {
+  it("records a refund only once when the webhook repeats it", async () => {
+    const { refundId } = await refund(500);
+    const razorpayRefund = { id: "rfnd_1", status: "processed" as const, payment_id: paymentId };
+
+    const replay = await recordIssuedRefund(refundId, razorpayRefund);
+
+    expect(replay).toMatchObject({ paymentStatus: "partial_refund", refundedAmount: 500 });
+    expect(readDocument("orders/o1")?.refundedAmount).toBe(500);
+    expect(listDocuments("invoiceCounters")[0].data.lastNumber).toBe(1);
+  });
+
+  it("ignores refunds made outside the admin portal", async () => {
+    expect(await recordIssuedRefund("rcpt_dashboard", { id: "rfnd_1", status: "processed", payment_id: paymentId })).toBeNull();
+  });
+});
@@ -0,0 +1,224 @@
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
+import { requireAdmin } from "../admin";
+import { recordAdminAudit } from "../admin/audit";
+import { canRefund } from "../admin/roles";
+import { allocateCreditNoteNumber, buildCreditNote } from "../invoices";
+import { orderEventData } from "../orders";
+import { createRefund, RazorpayRefund } from "./razorpay-client";
+import { applyPaymentRefund } from "./attempts";
+
+// refunds/{refundId}: one document per refund, with the Razorpay refund ID and
+// the GST credit note issued for it. The amount is reserved on the order
+// (refundPendingAmount) before Razorpay is called, so two admins refunding at
+// once can never return more than was paid.
+const REFUNDABLE_STATUSES = ["paid", "partial_refund"];
+
+const toPaise = (amount: number) => Math.round(Number(amount || 0) * 100);
+const toRupees = (paise: number) => paise / 100;
+
+interface RecordedRefund {
+  paymentStatus: string;
+  refundedAmount: number;
+  creditNoteNumber: string | null;
+}
+
+// Records a refund Razorpay has accepted: releases its reservation, brings the
+// order's refunded total up to date and issues the credit note. Only a refund
+// still in "creating" is recorded, so refundOrderPayment and the refund.processed
+// webhook (which finds it by the receipt) can both call this. Returns null for
+// a refund that wasn't issued from the admin portal.
+export const recordIssuedRefund = async (
+  refundId: string,
+  refund: Pick<RazorpayRefund, "id" | "status" | "payment_id">
+): Promise<RecordedRefund | null> => {
+  // Refunds made in the Razorpay dashboard carry their own receipts, not our auto IDs
+  if (!/^[A-Za-z0-9]{20}$/.test(refundId)) {
+    return null;
+  }
+
+  const db = getFirestore();
+  const refundRef = db.collection("refunds").doc(refundId);
+
+  const recorded = await db.runTransaction(async (transaction) => {
+    const refundDoc = await transaction.get(refundRef);
+    const issued = refundDoc.data();
+    if (!issued || issued.razorpayPaymentId !== refund.payment_id) {
+      return null;
+    }
+
+    const orderRef = db.collection("orders").doc(issued.orderId);
+    const invoiceRef = db.collection("invoices").doc(issued.orderId);
+    const [orderDoc, invoiceDoc, earlierRefunds] = await Promise.all([
+      transaction.get(orderRef),
+      transaction.get(invoiceRef),
+      transaction.get(db.collection("refunds").where("orderId", "==", issued.orderId).where("status", "in", ["pending", "processed"])),
+    ]);
+
+    const data = orderDoc.data()!;
+    if (issued.status !== "creating") {
+      return { paymentStatus: data.paymentStatus, refundedAmount: data.refundedAmount || 0, creditNoteNumber: issued.creditNote?.number || null, applied: false };
+    }
+
+    const amount: number = issued.amount;
+    const recordedPaise = earlierRefunds.docs.reduce((sum, earlier) => sum + toPaise(earlier.data().amount), 0) + toPaise(amount);
+    // The webhook may already have applied Razorpay's own total
+    const refundedAmount = toRupees(Math.max(toPaise(data.refundedAmount), recordedPaise));
+    const paymentStatus = toPaise(refundedAmount) >= toPaise(data.totalAmount) ? "refunded" : "partial_refund";
+
+    const creditNoteNumber = invoiceDoc.exists ? await allocateCreditNoteNumber(transaction, new Date()) : null;
+
+    transaction.update(orderRef, {
+      paymentStatus,
+      refundedAmount,
+      refundPendingAmount: FieldValue.increment(-amount),
+      lastUpdated: Timestamp.now(),
+    });
+    transaction.update(refundRef, {
+      razorpayRefundId: refund.id,
+      status: refund.status,
+      processedAt: Timestamp.now(),
+      creditNote: creditNoteNumber ? buildCreditNote(invoiceDoc.data()!, creditNoteNumber, amount, issued.reason) : null,
+    });
+    transaction.set(orderRef.collection("events").doc(), orderEventData({
+      type: "payment",
+      from: data.paymentStatus || null,
+      to: paymentStatus,
+      actorEmail: issued.requestedBy || null,
+      source: "admin",
+      note: `Refunded ₹${amount.toFixed(2)} (${refund.id})${issued.reason ? `: ${issued.reason}` : ""}`,
+    }));
+    if (invoiceDoc.exists) {
+      transaction.update(invoiceRef, {
+        status: paymentStatus === "refunded" ? "refunded" : "partially_refunded",
+        refundedAmount,
+      });
+    }
+
+    return { paymentStatus, refundedAmount, creditNoteNumber, applied: true };
+  });
+
+  if (recorded?.applied) {
+    await applyPaymentRefund(refund.payment_id, recorded.refundedAmount, recorded.paymentStatus === "refunded");
+  }
+  if (!recorded) {
+    return null;
+  }
+
+  const { applied, ...result } = recorded;
+  return result;
+};
+
+export const refundOrderPayment = onCall<{ orderId: string; amount: number; reason?: string }>(async (request) => {
+  const caller = requireAdmin(request, canRefund);
+  const actorEmail = caller.token.email || caller.uid;
+  const { orderId } = request.data || {};
+  const reason = (request.data?.reason || "").trim();
+  const amountPaise = toPaise(request.data?.amount);
+
+  if (!orderId || !Number.isInteger(amountPaise) || amountPaise < 100) {
+    throw new HttpsError("invalid-argument", "Enter a refund of at least ₹1");
+  }
+
+  const db = getFirestore();
+  const orderRef = db.collection("orders").doc(orderId);
+  const refundRef = db.collection("refunds").doc();
+  const amount = toRupees(amountPaise);
+
+  const order = await db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      throw new HttpsError("not-found", "Order not found");
+    }
+
+    const data = orderDoc.data()!;
+    if (!data.razorpayPaymentId || !REFUNDABLE_STATUSES.includes(data.paymentStatus)) {
+      throw new HttpsError("failed-precondition", "Only orders paid through Razorpay can be refunded");
+    }
+
+    const refundablePaise = toPaise(data.totalAmount) - toPaise(data.refundedAmount) - toPaise(data.refundPendingAmount);
+    if (amountPaise > refundablePaise) {
+      throw new HttpsError("failed-precondition", `At most ₹${toRupees(Math.max(refundablePaise, 0)).toFixed(2)} can be refunded on this order`);
+    }
+
+    transaction.update(orderRef, { refundPendingAmount: FieldValue.increment(amount) });
+    transaction.set(refundRef, {
+      orderId,
+      userId: data.userId,
+      razorpayPaymentId: data.razorpayPaymentId,
+      amount,
+      reason,
+      status: "creating",
+      requestedBy: actorEmail,
+      createdAt: Timestamp.now(),
+    });
+    return data;
+  });
+
+  let refund: RazorpayRefund;
+  try {
+    console.log("💸 Requesting Razorpay refund:", { orderId, amount, refundId: refundRef.id });
+    refund = await createRefund(order.razorpayPaymentId, {
+      amount: amountPaise,
+      receipt: refundRef.id,
+      notes: { internal_order_id: orderId, reason },
+    });
+    if (refund.status === "failed") {
+      throw new Error("Razorpay rejected the refund");
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Refund failed";
+    console.error("❌ Razorpay refund failed:", orderId, message);
+
+    const batch = db.batch();
+    batch.update(orderRef, { refundPendingAmount: FieldValue.increment(-amount) });
+    batch.update(refundRef, { status: "failed", failureReason: message, failedAt: Timestamp.now() });
+    await batch.commit();
+
+    throw new HttpsError("unavailable", `Razorpay refund failed: ${message}`);
+  }
+
+  // The money has moved at this point. If recording it fails, the reservation
+  // stays until the refund.processed webhook records the refund instead.
+  let recorded: RecordedRefund | null;
+  try {
+    recorded = await recordIssuedRefund(refundRef.id, refund);
+    if (!recorded) {
+      throw new Error(`Refund ${refundRef.id} not found`);
+    }
+  } catch (error) {
+    console.error("❌ Refund issued but not recorded, left to the webhook:", { orderId, refundId: refundRef.id, razorpayRefundId: refund.id }, error);
+    await recordAdminAudit({
+      actorUid: caller.uid,
+      actorEmail,
+      action: "order.refund",
+      targetType: "order",
+      targetId: orderId,
+      before: { paymentStatus: order.paymentStatus || null, refundedAmount: order.refundedAmount || 0 },
+      after: { razorpayRefundId: refund.id, amount },
+      note: reason,
+    });
+    throw new HttpsError("internal", "Razorpay accepted the refund but it couldn't be recorded yet. It will show on the order once Razorpay confirms it.");
+  }
+
+  await recordAdminAudit({
+    actorUid: caller.uid,
+    actorEmail,
+    action: "order.refund",
+    targetType: "order",
+    targetId: orderId,
+    before: { paymentStatus: order.paymentStatus || null, refundedAmount: order.refundedAmount || 0 },
+    after: { paymentStatus: recorded.paymentStatus, refundedAmount: recorded.refundedAmount, razorpayRefundId: refund.id },
+    note: reason,
+  });
+
+  console.log("✅ Refund recorded:", { orderId, refundId: refundRef.id, razorpayRefundId: refund.id });
+  return {
+    success: true,
+    refundId: refundRef.id,
+    razorpayRefundId: refund.id,
+    paymentStatus: recorded.paymentStatus,
+    refundedAmount: recorded.refundedAmount,
+    creditNoteNumber: recorded.creditNoteNumber,
+  };
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { verifyPaymentSignature, verifyWebhookSignature } from "./signature";
+
+const SECRET = "test_secret";
+const ORDER_ID = "order_9A33XWu170gUtm";
+const PAYMENT_ID = "pay_29QQoUBi66xm2f";
+// HMAC-SHA256 of "order_9A33XWu170gUtm|pay_29QQoUBi66xm2f" keyed with "test_secret"
+const SIGNATURE = "a982c20f48234e966ccc8d903bff75730b34341007236ad8c8a9d7c0ae5848c5";
+
+describe("verifyPaymentSignature", () => {
+  it("accepts the checkout signature", () => {
+    expect(verifyPaymentSignature(ORDER_ID, PAYMENT_ID, SIGNATURE, SECRET)).toBe(true);
+  });
+
+  it("refuses a signature for another payment or secret", () => {
+    expect(verifyPaymentSignature(ORDER_ID, "pay_29QQoUBi66xm2g", SIGNATURE, SECRET)).toBe(false);
+    expect(verifyPaymentSignature(ORDER_ID, PAYMENT_ID, SIGNATURE, "other_secret")).toBe(false);
+    expect(verifyPaymentSignature(ORDER_ID, PAYMENT_ID, SIGNATURE.slice(0, -2), SECRET)).toBe(false);
+  });
+
+  it("refuses everything without a secret", () => {
+    expect(verifyPaymentSignature(ORDER_ID, PAYMENT_ID, SIGNATURE, "")).toBe(false);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  it("checks the raw body", () => {
+    const body = `${ORDER_ID}|${PAYMENT_ID}`;
+
+    expect(verifyWebhookSignature(Buffer.from(body), SIGNATURE, SECRET)).toBe(true);
+    expect(verifyWebhookSignature(`${body} `, SIGNATURE, SECRET)).toBe(false);
+  });
+});
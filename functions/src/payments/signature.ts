@@ -0,0 +1,46 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { razorpayConfig } from "../config";
+
+const safeCompare = (expected: string, received: string): boolean => {
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  const receivedBuffer = Buffer.from(received, "utf8");
+  if (expectedBuffer.length !== receivedBuffer.length) {
+    return false;
+  }
+  return timingSafeEqual(expectedBuffer, receivedBuffer);
+};
+
+// Checkout signature: HMAC-SHA256 of "<order_id>|<payment_id>" keyed with the API secret.
+export const verifyPaymentSignature = (
+  razorpayOrderId: string,
+  razorpayPaymentId: string,
+  signature: string,
+  secret: string = razorpayConfig.keySecret
+): boolean => {
+  if (!razorpayOrderId || !razorpayPaymentId || !signature || !secret) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${razorpayOrderId}|${razorpayPaymentId}`)
+    .digest("hex");
+
+  return safeCompare(expected, signature);
+};
+
+// Webhook signature: HMAC-SHA256 of the raw request body keyed with the webhook secret.
+export const verifyWebhookSignature = (
+  rawBody: Buffer | string,
+  signature: string,
+  secret: string = razorpayConfig.webhookSecret
+): boolean => {
+  if (!rawBody || !signature || !secret) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(rawBody)
+    .digest("hex");
+
+  return safeCompare(expected, signature);
+};
@@ -0,0 +1,146 @@
+import { createHmac } from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { listDocuments, readDocument, resetFirestore, seedDocument } from "../testing/firestore";
+import { razorpayConfig } from "../config";
+import { razorpayWebhook } from "./webhook";
+
+vi.mock("firebase-admin/firestore", () => import("../testing/firestore"));
+vi.mock("../mail", () => ({ sendOrderConfirmationEmail: vi.fn() }));
+
+const WEBHOOK_SECRET = "webhook_secret";
+
+const capturedEvent = (payment: Record<string, unknown> = {}) => ({
+  event: "payment.captured",
+  payload: {
+    payment: {
+      entity: { id: "pay_1", entity: "payment", amount: 118000, currency: "INR", status: "captured", order_id: "order_1", notes: [], ...payment },
+    },
+  },
+  created_at: 1760000000,
+});
+
+const deliver = async (event: unknown, options: { signature?: string; eventId?: string; method?: string } = {}) => {
+  const rawBody = Buffer.from(JSON.stringify(event));
+  const headers: Record<string, string | undefined> = {
+    "x-razorpay-signature": options.signature ?? createHmac("sha256", WEBHOOK_SECRET).update(rawBody).digest("hex"),
+    "x-razorpay-event-id": options.eventId,
+  };
+  const req = { method: options.method || "POST", rawBody, body: event, headers, get: (name: string) => headers[name.toLowerCase()] };
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    send(body: unknown) {
+      this.body = body;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+
+  await (razorpayWebhook as unknown as (req: unknown, res: unknown) => Promise<void>)(req, res);
+  return res;
+};
+
+beforeEach(() => {
+  resetFirestore();
+  razorpayConfig.webhookSecret = WEBHOOK_SECRET;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  seedDocument("orders/o1", {
+    userId: "user_1",
+    status: "pending_payment",
+    paymentStatus: "pending",
+    totalAmount: 1180,
+    razorpayOrderId: "order_1",
+    razorpayOrderAmount: 118000,
+  });
+});
+
+describe("razorpayWebhook", () => {
+  it("refuses a request with a bad signature", async () => {
+    const res = await deliver(capturedEvent(), { signature: "0".repeat(64) });
+
+    expect(res.statusCode).toBe(400);
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+    expect(listDocuments("razorpayWebhookEvents")).toHaveLength(0);
+  });
+
+  it("refuses a body that was changed after signing", async () => {
+    const signature = createHmac("sha256", WEBHOOK_SECRET).update(JSON.stringify(capturedEvent())).digest("hex");
+
+    const res = await deliver(capturedEvent({ amount: 100 }), { signature });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("marks the order paid for a captured payment", async () => {
+    const res = await deliver(capturedEvent(), { eventId: "evt_1" });
+
+    expect(res.body).toEqual({ status: "processed" });
+    expect(readDocument("orders/o1")).toMatchObject({ paymentStatus: "paid", razorpayPaymentId: "pay_1" });
+    expect(readDocument("razorpayWebhookEvents/evt_1")).toMatchObject({ orderId: "o1", status: "processed" });
+  });
+
+  it("processes a redelivered event only once", async () => {
+    await deliver(capturedEvent(), { eventId: "evt_1" });
+    const redelivery = await deliver(capturedEvent(), { eventId: "evt_1" });
+
+    expect(redelivery.body).toEqual({ status: "duplicate" });
+    expect(listDocuments("orders/o1/events").filter(event => event.data.to === "paid")).toHaveLength(1);
+  });
+
+  it("dedupes by payment ID when Razorpay sends no event ID", async () => {
+    await deliver(capturedEvent());
+    const redelivery = await deliver(capturedEvent());
+
+    expect(redelivery.body).toEqual({ status: "duplicate" });
+    expect(readDocument("razorpayWebhookEvents/payment.captured_pay_1")).toMatchObject({ status: "processed" });
+  });
+
+  it("falls back to the order noted on the payment when the Razorpay order isn't on file", async () => {
+    const res = await deliver(capturedEvent({ order_id: "order_unknown", notes: { internal_order_id: "o1" } }));
+
+    expect(res.body).toEqual({ status: "processed" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("paid");
+  });
+
+  it("trusts the Razorpay order over the payment notes", async () => {
+    seedDocument("orders/o2", { userId: "user_2", paymentStatus: "pending", totalAmount: 1180, razorpayOrderAmount: 118000 });
+
+    await deliver(capturedEvent({ notes: { internal_order_id: "o2" } }));
+
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("paid");
+    expect(readDocument("orders/o2")?.paymentStatus).toBe("pending");
+  });
+
+  it("keeps a payment with no order for reconciliation", async () => {
+    const res = await deliver(capturedEvent({ order_id: "order_unknown" }), { eventId: "evt_1" });
+
+    expect(res.body).toEqual({ status: "orphan" });
+    expect(readDocument("razorpayWebhookEvents/evt_1")?.status).toBe("orphan");
+  });
+
+  it("rejects a captured payment for the wrong amount without retrying it", async () => {
+    const res = await deliver(capturedEvent({ amount: 100 }), { eventId: "evt_1" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ status: "rejected" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("pending");
+    expect(readDocument("razorpayWebhookEvents/evt_1")?.status).toBe("rejected");
+  });
+
+  it("doesn't let a late failure undo a refund", async () => {
+    seedDocument("orders/o1", { paymentStatus: "refunded", refundedAmount: 1180, totalAmount: 1180, razorpayOrderId: "order_1", razorpayPaymentId: "pay_1" });
+
+    const res = await deliver({ ...capturedEvent({ id: "pay_0", status: "failed" }), event: "payment.failed" });
+
+    expect(res.body).toEqual({ status: "processed" });
+    expect(readDocument("orders/o1")?.paymentStatus).toBe("refunded");
+  });
+});
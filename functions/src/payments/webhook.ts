@@ -0,0 +1,168 @@
+import { onRequest } from "firebase-functions/v2/https";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { applyOrderRefund, markOrderPaid, markOrderPaymentFailed } from "../orders";
+import { verifyWebhookSignature } from "./signature";
+import { sendOrderConfirmationEmail } from "../mail";
+import { applyPaymentRefund, recordPaymentAttempt } from "./attempts";
+import { RazorpayPayment, RazorpayRefund } from "./razorpay-client";
+import { recordIssuedRefund } from "./refunds";
+
+interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number;
+  receipt: string | null; // refunds/{refundId} for refunds issued from the admin portal
+  status: RazorpayRefund["status"];
+}
+
+interface RazorpayWebhookEvent {
+  event: string;
+  payload: {
+    payment?: { entity: RazorpayPayment };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+  created_at: number;
+}
+
+const HANDLED_EVENTS = ["payment.captured", "payment.failed", "refund.processed"];
+
+// Razorpay sends an empty array instead of an object when there are no notes.
+const readNote = (notes: RazorpayPayment["notes"], key: string): string | undefined => {
+  return notes && !Array.isArray(notes) ? notes[key] : undefined;
+};
+
+// The Razorpay order ID is written by createRazorpayOrder, so it is trusted over
+// the payment notes, which checkout can set
+const findOrderId = async (payment: RazorpayPayment): Promise<string | null> => {
+  if (payment.order_id) {
+    const snapshot = await getFirestore()
+      .collection("orders")
+      .where("razorpayOrderId", "==", payment.order_id)
+      .limit(1)
+      .get();
+    if (!snapshot.empty) {
+      return snapshot.docs[0].id;
+    }
+  }
+
+  return readNote(payment.notes, "internal_order_id") || null;
+};
+
+export const razorpayWebhook = onRequest(async (req, res) => {
+  if (req.method !== "POST") {
+    res.status(405).send("Method not allowed");
+    return;
+  }
+
+  const signature = req.get("x-razorpay-signature") || "";
+  if (!verifyWebhookSignature(req.rawBody, signature)) {
+    console.error("❌ Invalid Razorpay webhook signature");
+    res.status(400).send("Invalid signature");
+    return;
+  }
+
+  const event = req.body as RazorpayWebhookEvent;
+
+  if (!HANDLED_EVENTS.includes(event.event)) {
+    res.status(200).json({ status: "ignored" });
+    return;
+  }
+
+  const payment = event.payload.payment?.entity;
+  if (!payment) {
+    res.status(400).send("Missing payment entity");
+    return;
+  }
+
+  // Without the header, the payment (or refund) ID keeps events apart: each
+  // handled event happens at most once per payment or refund
+  const eventId = req.get("x-razorpay-event-id") || `${event.event}_${event.payload.refund?.entity.id || payment.id}`;
+
+  // Razorpay retries until it gets a 2xx, so the same event can arrive more than
+  // once, possibly at the same time. Creating the record claims the event.
+  const eventRef = getFirestore().collection("razorpayWebhookEvents").doc(eventId);
+  try {
+    await eventRef.create({ event: event.event, paymentId: payment.id, status: "processing", receivedAt: Timestamp.now() });
+  } catch (error) {
+    if ((error as { code?: number }).code === 6) { // ALREADY_EXISTS
+      console.log("ℹ️ Duplicate webhook delivery:", eventId);
+      res.status(200).json({ status: "duplicate" });
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    const orderId = await findOrderId(payment);
+    if (!orderId) {
+      console.error("❌ No order found for Razorpay payment:", payment.id);
+      await eventRef.update({ status: "orphan" });
+      res.status(200).json({ status: "orphan" });
+      return;
+    }
+
+    let result: { success: boolean; message?: string };
+
+    switch (event.event) {
+      case "payment.captured": {
+        const paidResult = await markOrderPaid(orderId, {
+          razorpayPaymentId: payment.id,
+          razorpayOrderId: payment.order_id,
+          amount: payment.amount,
+        });
+        // A payment that can't pay this order is kept for reconciliation, not retried
+        if (paidResult.rejected) {
+          console.error("❌ Rejected captured payment:", payment.id, paidResult.message);
+          await eventRef.update({ orderId, status: "rejected", reason: paidResult.message || "" });
+          res.status(200).json({ status: "rejected" });
+          return;
+        }
+        if (paidResult.success && !paidResult.alreadyPaid) {
+          await sendOrderConfirmationEmail(orderId);
+        }
+        await recordPaymentAttempt({ orderId, razorpayPaymentId: payment.id, status: "captured", payment });
+        result = paidResult;
+        break;
+      }
+      case "payment.failed":
+        result = await markOrderPaymentFailed(orderId, {
+          razorpayPaymentId: payment.id,
+          reason: payment.error_description || undefined,
+        });
+        await recordPaymentAttempt({ orderId, razorpayPaymentId: payment.id, status: "failed", payment });
+        break;
+      default: {
+        // Records a portal refund whose first recording failed after the money moved
+        const refundEntity = event.payload.refund?.entity;
+        if (refundEntity?.receipt) {
+          await recordIssuedRefund(refundEntity.receipt, refundEntity);
+        }
+
+        const amountRefunded = payment.amount_refunded || event.payload.refund?.entity.amount || 0;
+        result = await applyOrderRefund(orderId, {
+          amountRefunded,
+          amountPaid: payment.amount,
+          razorpayRefundId: event.payload.refund?.entity.id,
+        });
+        await applyPaymentRefund(payment.id, amountRefunded / 100, amountRefunded >= payment.amount);
+      }
+    }
+
+    if (!result.success) {
+      console.error("❌ Failed to apply webhook event:", event.event, result.message);
+      // Released so Razorpay's retry is processed again
+      await eventRef.delete();
+      res.status(500).send(result.message || "Failed to process event");
+      return;
+    }
+
+    await eventRef.update({ orderId, status: "processed" });
+
+    console.log("✅ Processed Razorpay webhook:", event.event, orderId);
+    res.status(200).json({ status: "processed" });
+  } catch (error) {
+    console.error("❌ Error processing Razorpay webhook:", error);
+    await eventRef.delete().catch(() => undefined);
+    res.status(500).send("Internal error");
+  }
+});
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetFirestore, seedDocument } from "./testing/firestore";
+import { quoteOrder } from "./pricing";
+
+vi.mock("firebase-admin/firestore", () => import("./testing/firestore"));
+
+const STICKER_SPEC = { width: 50, height: 50, shape: "circle", material: "paper", colours: "cmyk" };
+const BOX_SPEC = { length: 100, width: 60, height: 40, style: "reverse_tuck", board: "sbs", colours: "cmyk" };
+
+const line = (overrides: Record<string, unknown> = {}) => ({
+  productId: "sticker",
+  productName: "Stickers & Labels",
+  productType: "sticker",
+  quantity: 100,
+  spec: STICKER_SPEC,
+  ...overrides,
+});
+
+// The charged amount, or why the order can't be charged
+const quote = async (lines: unknown[], order: Record<string, unknown> = {}) => {
+  const { quote, message } = await quoteOrder({ lineItems: lines, deliveryState: "07", ...order });
+  return quote ? { amount: quote.amount } : { message };
+};
+
+beforeEach(() => {
+  resetFirestore();
+});
+
+describe("quoteOrder", () => {
+  it("prices the built-in products before the catalog is published", async () => {
+    // ₹500 at 18% GST (HSN 4821) plus ₹1500 × 1.5 for 200 boxes at 18% (HSN 4819)
+    expect(await quote([line(), line({ productId: "box", productType: "box", quantity: 200, spec: BOX_SPEC })])).toEqual({ amount: 324500 });
+  });
+
+  it("prices with the current rate card version", async () => {
+    seedDocument("settings/pricing", { currentVersion: 2 });
+    seedDocument("pricingVersions/2", {
+      version: 2,
+      rateCards: {
+        sticker: {
+          productType: "sticker",
+          label: "Stickers & Labels",
+          basePrice: 400,
+          quantityBreaks: [{ upTo: null, multiplier: 1 }],
+          sizes: [],
+          materials: [{ value: "vinyl", label: "Vinyl", multiplier: 1.5 }],
+          finishes: [],
+          minimumOrderValue: 0,
+        },
+      },
+    });
+
+    expect(await quote([line({ spec: { ...STICKER_SPEC, material: "vinyl" } })])).toEqual({ amount: 70800 });
+  });
+
+  it("prices with the version the order was charged at", async () => {
+    seedDocument("settings/pricing", { currentVersion: 2 });
+    seedDocument("pricingVersions/2", { version: 2, rateCards: {} });
+
+    const { quote } = await quoteOrder({ lineItems: [line()], deliveryState: "07" }, 0);
+    expect(quote).toMatchObject({ amount: 59000, pricingVersion: 0 });
+  });
+
+  it("splits the GST per line and by place of supply", async () => {
+    const { quote } = await quoteOrder({
+      lineItems: [line(), line({ productId: "box", productType: "box", quantity: 200, spec: BOX_SPEC })],
+      deliveryState: "27",
+    });
+
+    expect(quote?.lines).toEqual([
+      { hsnCode: "4821", subtotal: 500, taxBreakdown: expect.objectContaining({ supplyType: "inter", igst: 90 }) },
+      { hsnCode: "4819", subtotal: 2250, taxBreakdown: expect.objectContaining({ supplyType: "inter", igst: 405 }) },
+    ]);
+    expect(quote?.taxBreakdown).toMatchObject({ placeOfSupply: "27", taxableAmount: 2750, igst: 495, cgst: 0, total: 3245 });
+  });
+
+  it("taxes each line at its catalog product's HSN code", async () => {
+    seedDocument("catalog/p1", { name: "Leaflets", productType: "sticker", hsnCode: "4911", active: true });
+
+    expect(await quote([line({ productId: "p1" })])).toEqual({ amount: 56000 });
+  });
+
+  it("refuses products that have been deactivated", async () => {
+    seedDocument("catalog/p1", { name: "Leaflets", productType: "sticker", hsnCode: "4911", active: false });
+
+    expect(await quote([line({ productId: "p1", productName: "Leaflets" })])).toEqual({
+      message: "Leaflets is no longer available; please place the order again",
+    });
+  });
+
+  it("refuses products missing from the published catalog", async () => {
+    seedDocument("catalog/p1", { name: "Leaflets", productType: "sticker", hsnCode: "4911", active: true });
+
+    expect((await quote([line()])).message).toMatch(/no longer available/);
+    expect((await quote([line({ productId: "deleted" })])).message).toMatch(/no longer available/);
+  });
+
+  it("refuses a product ordered as another product type", async () => {
+    seedDocument("catalog/p1", { name: "Leaflets", productType: "sticker", hsnCode: "4911", active: true });
+
+    expect((await quote([line({ productId: "p1", productType: "custom" })])).message).toMatch(/can't be ordered as custom/);
+  });
+
+  it("refuses a spec the order form wouldn't accept", async () => {
+    expect(await quote([line({ spec: { ...STICKER_SPEC, width: 5 } })])).toEqual({
+      message: "Stickers & Labels: Width must be at least 10 mm; please place the order again",
+    });
+    expect((await quote([line({ spec: { ...STICKER_SPEC, colours: undefined } })])).message).toMatch(/Print Colours is required/);
+  });
+
+  it("refuses a material the rate card doesn't offer instead of pricing it at the base rate", async () => {
+    expect((await quote([line({ spec: { ...STICKER_SPEC, material: "gold_leaf" } })])).message).toMatch(/Choose a valid material/);
+  });
+
+  it("refuses quantities it can't price", async () => {
+    expect((await quote([line({ quantity: 0 })])).message).toMatch(/can't price/);
+    expect((await quote([line({ quantity: 1.5 })])).message).toMatch(/can't price/);
+  });
+});
@@ -0,0 +1,100 @@
+import { DocumentData, getFirestore } from "firebase-admin/firestore";
+import { calculatePrice, DEFAULT_PRICING, PricingRates } from "./shared/pricing";
+import { getSpecFields, getSpecPricingOptions, validateSpec } from "./shared/product-specs";
+import { calculateTax, combineTaxBreakdowns, getHsnCode, getPlaceOfSupply, TaxBreakdown } from "./shared/tax";
+
+// The browser computes the total it shows the customer with the same shared
+// modules; this recomputes it before Razorpay charges it, and again when the
+// paid order is invoiced.
+
+export interface OrderQuote {
+  amount: number; // paise
+  pricingVersion: number; // 0 for the built-in rate cards
+  taxBreakdown: TaxBreakdown;
+  lines: { hsnCode: string; subtotal: number; taxBreakdown: TaxBreakdown }[]; // in lineItems order
+}
+
+// pricingVersions are never edited, so a version quotes the same way for good
+const getPricing = async (version?: number): Promise<PricingRates> => {
+  const db = getFirestore();
+  const pricingVersion = version ?? ((await db.collection("settings").doc("pricing").get()).data()?.currentVersion || 0);
+  if (!pricingVersion) {
+    return DEFAULT_PRICING;
+  }
+
+  const versionDoc = await db.collection("pricingVersions").doc(String(pricingVersion)).get();
+  return (versionDoc.data() as PricingRates | undefined) || DEFAULT_PRICING;
+};
+
+// Catalog products the lines were ordered under. Until an owner publishes the
+// catalog, the order form offers the built-in products, whose IDs are the
+// product types (DEFAULT_CATALOG in src/lib/catalog-service.ts).
+const getOrderedProducts = async (lines: DocumentData[]) => {
+  const db = getFirestore();
+  const productIds = [...new Set(lines.map(line => line.productId).filter((id): id is string => typeof id === "string" && !!id))];
+  const [products, published] = await Promise.all([
+    productIds.length ? db.getAll(...productIds.map(id => db.collection("catalog").doc(id))) : [],
+    db.collection("catalog").limit(1).get().then(snapshot => !snapshot.empty),
+  ]);
+
+  return {
+    catalog: new Map(products.filter(product => product.exists).map(product => [product.id, product.data()!])),
+    published,
+  };
+};
+
+// What the order should cost at today's rate cards, or at `pricingVersion` when
+// it was charged at an earlier one. Each line's HSN code comes from its catalog
+// product, or the product type's default.
+export const quoteOrder = async (
+  orderData: DocumentData,
+  pricingVersion?: number
+): Promise<{ quote?: OrderQuote; message?: string }> => {
+  const lines: DocumentData[] = Array.isArray(orderData.lineItems) ? orderData.lineItems : [];
+  if (lines.length === 0) {
+    return { message: "This order was placed before online pricing; please place it again" };
+  }
+
+  const [pricing, { catalog, published }] = await Promise.all([getPricing(pricingVersion), getOrderedProducts(lines)]);
+  const placeOfSupply = getPlaceOfSupply({ gstNumber: orderData.gstNumber, deliveryState: orderData.deliveryState });
+
+  const quotedLines: OrderQuote["lines"] = [];
+  for (const line of lines) {
+    const product = catalog.get(line.productId);
+    const builtIn = !published && line.productId === line.productType;
+    if (product ? product.active !== true : !builtIn) {
+      return { message: `${line.productName || "A product in this order"} is no longer available; please place the order again` };
+    }
+    if (product && product.productType !== line.productType) {
+      return { message: `${product.name || "A product"} can't be ordered as ${line.productType}` };
+    }
+
+    // A size, material or finish the rate card doesn't offer would otherwise price at ×1
+    const [specError] = Object.values(validateSpec(getSpecFields(line.productType, pricing.rateCards[line.productType]), line.spec || {}));
+    if (specError) {
+      return { message: `${line.productName || line.productType}: ${specError}; please place the order again` };
+    }
+
+    const quantity = Number(line.quantity);
+    const quote = Number.isInteger(quantity)
+      ? calculatePrice(pricing, line.productType, getSpecPricingOptions(line.productType, line.spec || {}, quantity))
+      : null;
+    if (!quote) {
+      return { message: `We can't price ${line.productName || line.productType} any more; please place the order again` };
+    }
+
+    const hsnCode = product?.hsnCode || getHsnCode(line.productType);
+    const taxBreakdown = calculateTax(quote.total, hsnCode, placeOfSupply);
+    quotedLines.push({ hsnCode, subtotal: taxBreakdown.taxableAmount, taxBreakdown });
+  }
+
+  const taxBreakdown = combineTaxBreakdowns(quotedLines.map(line => line.taxBreakdown));
+  return {
+    quote: {
+      amount: Math.round(taxBreakdown.total * 100),
+      pricingVersion: pricing.version,
+      taxBreakdown,
+      lines: quotedLines,
+    },
+  };
+};
@@ -0,0 +1,82 @@
+// Shared with the web app (`@shared/couriers`): the admin's browser checks the
+// AWB as it is typed, the updateOrderStatus function checks it again and records
+// the shipment (functions/src/admin/orders.ts).
+
+export interface Courier {
+  id: string;
+  label: string;
+  awbPattern: RegExp;
+  awbHint: string;
+  trackingUrl?: (awb: string) => string;
+  devOnly?: boolean; // only outside production (the app's dev build, the emulators)
+}
+
+export interface ShipmentInput {
+  carrier: string; // Courier id
+  awb: string;
+  eta?: string; // yyyy-MM-dd
+}
+
+export const COURIERS: Courier[] = [
+  {
+    id: "delhivery",
+    label: "Delhivery",
+    awbPattern: /^\d{10,14}$/,
+    awbHint: "10-14 digit waybill number",
+    trackingUrl: (awb) => `https://www.delhivery.com/track-v2/package/${awb}`,
+  },
+  {
+    id: "bluedart",
+    label: "Blue Dart",
+    awbPattern: /^\d{8,11}$/,
+    awbHint: "8-11 digit waybill number",
+    trackingUrl: (awb) => `https://www.bluedart.com/web/guest/trackdartresult?trackFor=0&trackNo=${awb}`,
+  },
+  {
+    id: "dtdc",
+    label: "DTDC",
+    awbPattern: /^[A-Z]\d{8,10}$/,
+    awbHint: "A letter followed by 8-10 digits",
+    trackingUrl: (awb) => `https://www.dtdc.in/tracking.asp?strCnno=${awb}`,
+  },
+  {
+    id: "india_post",
+    label: "India Post (Speed Post)",
+    awbPattern: /^[A-Z]{2}\d{9}IN$/,
+    awbHint: "e.g. EE123456789IN",
+    trackingUrl: () => "https://www.indiapost.gov.in/_layouts/15/dop.portal.tracking/trackconsignment.aspx",
+  },
+  {
+    id: "shiprocket",
+    label: "Shiprocket",
+    awbPattern: /^[A-Z0-9]{8,20}$/,
+    awbHint: "AWB from the Shiprocket shipment",
+    trackingUrl: (awb) => `https://shiprocket.co/tracking/${awb}`,
+  },
+  {
+    id: "local_test",
+    label: "Test courier (local)",
+    awbPattern: /^[A-Z0-9]{6,20}$/,
+    awbHint: "Any 6-20 letters or digits",
+    devOnly: true,
+  },
+];
+
+export const findCourier = (id: string): Courier | undefined =>
+  COURIERS.find(courier => courier.id === id);
+
+export const normalizeAwb = (awb: string) => awb.replace(/\s/g, "").toUpperCase();
+
+// Error message, or null when the shipment details are usable
+export const validateShipment = (input: ShipmentInput): string | null => {
+  const courier = findCourier(input.carrier);
+  if (!courier) return "Choose a courier";
+
+  const awb = normalizeAwb(input.awb || "");
+  if (!awb) return "Enter the AWB number";
+  if (!courier.awbPattern.test(awb)) return `This doesn't look like a ${courier.label} AWB (${courier.awbHint})`;
+
+  if (input.eta && !/^\d{4}-\d{2}-\d{2}$/.test(input.eta)) return "Enter the expected delivery date";
+
+  return null;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { formatInvoiceNumber, getFinancialYear, isValidSeriesPrefix } from "./invoice-numbering";
+
+describe("getFinancialYear", () => {
+  it("runs from April to March", () => {
+    expect(getFinancialYear(new Date("2026-04-15T12:00:00+05:30"))).toBe("2026-27");
+    expect(getFinancialYear(new Date("2027-03-15T12:00:00+05:30"))).toBe("2026-27");
+  });
+
+  it("changes at midnight on 1 April in India", () => {
+    expect(getFinancialYear(new Date("2026-03-31T23:59:59+05:30"))).toBe("2025-26");
+    expect(getFinancialYear(new Date("2026-04-01T00:00:00+05:30"))).toBe("2026-27");
+  });
+
+  it("pads the end year across a century", () => {
+    expect(getFinancialYear(new Date("2099-06-01T00:00:00+05:30"))).toBe("2099-00");
+  });
+});
+
+describe("formatInvoiceNumber", () => {
+  it("pads the sequence to six digits", () => {
+    expect(formatInvoiceNumber("MUV", "2026-27", 42)).toBe("MUV/2026-27/000042");
+  });
+});
+
+describe("isValidSeriesPrefix", () => {
+  it("refuses prefixes that would share the credit note counter", () => {
+    expect(isValidSeriesPrefix("MUV")).toBe(true);
+    expect(isValidSeriesPrefix("MUV-B2B")).toBe(true);
+    expect(isValidSeriesPrefix("MUV-CN")).toBe(false);
+    expect(isValidSeriesPrefix("muv")).toBe(false);
+    expect(isValidSeriesPrefix("TOOLONGXX")).toBe(false);
+  });
+});
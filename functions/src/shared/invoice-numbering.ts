@@ -0,0 +1,21 @@
+// Shared with the web app (`@shared/invoice-numbering`): the backend allocates the
+// numbers (functions/src/invoices.ts), the invoice settings tab previews them.
+
+export const DEFAULT_INVOICE_SERIES_PREFIX = "MUV";
+
+// Credit notes are numbered in their own series, the invoice prefix plus this
+export const CREDIT_NOTE_SERIES_SUFFIX = "-CN";
+
+// A prefix ending in -CN would share its counter with another prefix's credit notes
+export const isValidSeriesPrefix = (prefix: string): boolean =>
+  /^[A-Z0-9-]{1,8}$/.test(prefix) && !prefix.endsWith(CREDIT_NOTE_SERIES_SUFFIX);
+
+// Indian financial year (April to March) for a date, in IST, e.g. "2026-27"
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+export const formatInvoiceNumber = (prefix: string, financialYear: string, sequence: number): string =>
+  `${prefix}/${financialYear}/${String(sequence).padStart(6, "0")}`;
@@ -0,0 +1,208 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+
+// Shared with the web app (`@shared/invoice-pdf`), so nothing here may use Node
+// or firebase-admin. The backend renders invoices (functions/src/invoice-delivery.ts);
+// the browser renders credit notes and older invoices (src/lib/invoice-generator.ts).
+
+export interface InvoicePdfContent {
+  number: string;
+  date: Date;
+  orderId: string;
+  trackingId?: string;
+  customerName: string;
+  customerEmail: string;
+  customerAddress: string;
+  gstNumber?: string;
+  lines: { name: string; hsnCode: string; quantity: number; price: number }[];
+  placeOfSupply: string; // e.g. "Delhi (07)"
+  taxableAmount: number;
+  taxLines: [string, number][]; // e.g. ["CGST (9%)", 45]
+  total: number;
+  // Set for a GST credit note (a refund) against an earlier invoice
+  creditNote?: {
+    invoiceNumber: string;
+    reason?: string;
+  };
+}
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date: Date): string =>
+  new Intl.DateTimeFormat("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" }).format(date);
+
+// A4 tax invoice or credit note, ready for `output()`
+export const renderInvoicePdf = (content: InvoicePdfContent): jsPDF => {
+  const { creditNote } = content;
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+
+  // Header - Company Info
+  doc.setFontSize(22);
+  doc.setFont("helvetica", "bold");
+  doc.text("Micro UV Printers", pageWidth / 2, 25, { align: "center" });
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text("High Quality UV Printing Solutions", pageWidth / 2, 30, { align: "center" });
+  doc.text("123 Print Avenue, Industrial Area, Delhi, India - 110001", pageWidth / 2, 35, { align: "center" });
+  doc.text("Phone: +91 98765 43210 | Email: info@microuvprinters.com", pageWidth / 2, 40, { align: "center" });
+
+  // Invoice Title
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(creditNote ? "CREDIT NOTE" : "INVOICE", pageWidth / 2, 55, { align: "center" });
+
+  // Invoice Details Box
+  doc.setDrawColor(200, 200, 200);
+  doc.rect(20, 65, pageWidth - 40, 30);
+
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.text(`${creditNote ? "Credit Note No" : "Invoice ID"}: ${content.number}`, 25, 75);
+  doc.text(`Date: ${formatDate(content.date)}`, 25, 82);
+  doc.text(`Order ID: ${content.orderId}`, 25, 89);
+
+  if (content.trackingId) {
+    doc.text(`Tracking ID: ${content.trackingId}`, pageWidth - 25, 75, { align: "right" });
+  }
+  if (creditNote) {
+    doc.text(`Against Invoice: ${creditNote.invoiceNumber}`, pageWidth - 25, 82, { align: "right" });
+    doc.text("Payment Status: REFUNDED", pageWidth - 25, 89, { align: "right" });
+  } else {
+    doc.text("Payment Status: PAID", pageWidth - 25, 82, { align: "right" });
+    doc.text("Order Status: Confirmed", pageWidth - 25, 89, { align: "right" });
+  }
+
+  // Customer Information
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text("Bill To:", 20, 110);
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  const customerInfo = [
+    `Name: ${content.customerName}`,
+    `Email: ${content.customerEmail}`,
+    `Address: ${content.customerAddress}`,
+  ];
+
+  if (content.gstNumber) {
+    customerInfo.push(`GSTIN: ${content.gstNumber}`);
+  }
+
+  let yPosition = 118;
+  customerInfo.forEach(info => {
+    doc.text(info, 20, yPosition);
+    yPosition += 6;
+  });
+
+  // Products Table
+  const tableStartY = yPosition + 10;
+
+  autoTable(doc, {
+    startY: tableStartY,
+    head: [["#", "Description", "HSN/SAC", "Qty", "Rate (₹)", "Amount (₹)"]],
+    body: content.lines.map((item, index) => [
+      (index + 1).toString(),
+      item.name,
+      item.hsnCode,
+      item.quantity.toString(),
+      formatAmount(item.price),
+      formatAmount(Math.round(item.quantity * item.price * 100) / 100),
+    ]),
+    theme: "grid",
+    headStyles: {
+      fillColor: [41, 128, 185],
+      textColor: 255,
+      fontStyle: "bold",
+    },
+    margin: { left: 20, right: 20 },
+    columnStyles: {
+      0: { cellWidth: 15, halign: "center" },
+      1: { cellWidth: 70 },
+      2: { cellWidth: 20, halign: "center" },
+      3: { cellWidth: 15, halign: "center" },
+      4: { cellWidth: 25, halign: "right" },
+      5: { cellWidth: 25, halign: "right" },
+    },
+  });
+
+  // A long cart pushes the summary to a new page
+  const lastTable = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable;
+  let tableEndY = lastTable ? lastTable.finalY + 10 : tableStartY + 60;
+  if (tableEndY + 20 + content.taxLines.length * 7 + 60 > pageHeight) {
+    doc.addPage();
+    tableEndY = 25;
+  }
+
+  // Place of supply decides CGST/SGST vs IGST, so print it on the invoice
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Place of Supply: ${content.placeOfSupply}`, 20, tableEndY + 8);
+
+  // Summary Box
+  const summaryStartY = tableEndY;
+  const summaryHeight = 20 + content.taxLines.length * 7;
+  doc.setDrawColor(200, 200, 200);
+  doc.rect(pageWidth - 80, summaryStartY, 60, summaryHeight);
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+
+  doc.text("Subtotal:", pageWidth - 75, summaryStartY + 8);
+  doc.text(`₹${content.taxableAmount.toFixed(2)}`, pageWidth - 25, summaryStartY + 8, { align: "right" });
+
+  content.taxLines.forEach(([label, amount], index) => {
+    const y = summaryStartY + 15 + index * 7;
+    doc.text(`${label}:`, pageWidth - 75, y);
+    doc.text(`₹${amount.toFixed(2)}`, pageWidth - 25, y, { align: "right" });
+  });
+
+  doc.setFont("helvetica", "bold");
+  doc.text(creditNote ? "Refund:" : "Total:", pageWidth - 75, summaryStartY + summaryHeight - 5);
+  doc.text(`₹${content.total.toFixed(2)}`, pageWidth - 25, summaryStartY + summaryHeight - 5, { align: "right" });
+
+  // Terms and Conditions
+  const termsY = summaryStartY + summaryHeight + 15;
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.text("Terms & Conditions:", 20, termsY);
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  const terms = creditNote ? [
+    `• Issued against invoice ${creditNote.invoiceNumber}${creditNote.reason ? ` for: ${creditNote.reason}` : "."}`,
+    "• The amount above, including GST, has been refunded to the original payment method.",
+    "• This credit note is computer generated and does not require a signature.",
+    "• For any queries, please contact our support team.",
+  ] : [
+    "• Payment has been received and confirmed.",
+    "• This invoice is computer generated and does not require a signature.",
+    "• For any queries, please contact our support team.",
+    "• Delivery will be initiated within 2-3 business days.",
+    "• Quality guarantee: 100% satisfaction or money back.",
+  ];
+
+  let termsYPos = termsY + 8;
+  terms.forEach(term => {
+    doc.text(term, 20, termsYPos);
+    termsYPos += 5;
+  });
+
+  // Footer
+  const footerY = pageHeight - 20;
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "italic");
+  doc.text("Thank you for choosing Micro UV Printers!", pageWidth / 2, footerY - 10, { align: "center" });
+  doc.text("For support: support@microuvprinters.com | +91 98765 43210", pageWidth / 2, footerY - 5, { align: "center" });
+
+  return doc;
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { OrderStatus, resolveOrderStatus, validateTransition } from "./order-lifecycle";
+
+describe("validateTransition", () => {
+  it("allows the next steps of the lifecycle", () => {
+    expect(validateTransition("pending_payment", "received")).toEqual({ valid: true });
+    expect(validateTransition("processing", "shipped")).toEqual({ valid: true });
+    expect(validateTransition("quality_check", "processing")).toEqual({ valid: true });
+    expect(validateTransition("shipped", "delivered")).toEqual({ valid: true });
+  });
+
+  it("allows saving an order without changing its status", () => {
+    expect(validateTransition("delivered", "delivered")).toEqual({ valid: true });
+  });
+
+  it("refuses skipped or backward steps and lists the allowed ones", () => {
+    expect(validateTransition("received", "delivered")).toEqual({
+      valid: false,
+      message: "An order can't move from received to delivered. Allowed next steps: processing, cancelled.",
+    });
+    expect(validateTransition("shipped", "cancelled").valid).toBe(false);
+  });
+
+  it("refuses to move a final order", () => {
+    expect(validateTransition("cancelled", "received")).toEqual({
+      valid: false,
+      message: "An order can't move from cancelled to received. It is already final.",
+    });
+  });
+
+  it("refuses unknown statuses", () => {
+    expect(validateTransition("received", "printed" as OrderStatus)).toEqual({
+      valid: false,
+      message: 'Unknown order status "printed"',
+    });
+  });
+});
+
+describe("resolveOrderStatus", () => {
+  it("maps legacy statuses", () => {
+    expect(resolveOrderStatus({ status: "completed" })).toBe("delivered");
+    expect(resolveOrderStatus({})).toBe("pending_payment");
+  });
+
+  it("treats a paid order as at least received, or further along in production", () => {
+    expect(resolveOrderStatus({ status: "pending", paymentStatus: "paid" })).toBe("received");
+    expect(resolveOrderStatus({ status: "pending", paymentStatus: "paid", executionStatus: "printed" })).toBe("quality_check");
+    expect(resolveOrderStatus({ status: "cancelled", paymentStatus: "refunded" })).toBe("cancelled");
+  });
+});
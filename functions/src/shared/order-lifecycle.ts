@@ -0,0 +1,116 @@
+// Single source of truth for the order lifecycle, shared with the web app
+// (`@shared/order-lifecycle`). `status` is the only status field on an order;
+// the old `executionStatus`/`executionProgress` pair and the
+// `printed`/`completed`/`pending`/`failed` values are folded into it.
+
+export type OrderStatus =
+  | "pending_payment"
+  | "received"
+  | "processing"
+  | "quality_check"
+  | "shipped"
+  | "delivered"
+  | "cancelled";
+
+// In lifecycle order
+export const ORDER_STATUSES: OrderStatus[] = [
+  "pending_payment",
+  "received",
+  "processing",
+  "quality_check",
+  "shipped",
+  "delivered",
+  "cancelled",
+];
+
+// Steps a paid order goes through, as shown to customers
+export const ORDER_JOURNEY: OrderStatus[] = ["received", "processing", "quality_check", "shipped", "delivered"];
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ["received", "cancelled"],
+  received: ["processing", "cancelled"],
+  processing: ["quality_check", "shipped", "cancelled"],
+  quality_check: ["processing", "shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_PROGRESS: Record<OrderStatus, number> = {
+  pending_payment: 0,
+  received: 20,
+  processing: 40,
+  quality_check: 60,
+  shipped: 80,
+  delivered: 100,
+  cancelled: 0,
+};
+
+// Values written by earlier versions of the app
+const LEGACY_STATUSES: Record<string, OrderStatus> = {
+  pending: "pending_payment",
+  failed: "cancelled",
+  order_created: "received",
+  printed: "quality_check",
+  completed: "delivered",
+};
+
+export const PAID_PAYMENT_STATUSES = ["paid", "refunded", "partial_refund"];
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === "string" && (ORDER_STATUSES as string[]).includes(value);
+
+export const normalizeOrderStatus = (status?: string): OrderStatus => {
+  if (isOrderStatus(status)) return status;
+  return (status && LEGACY_STATUSES[status]) || "pending_payment";
+};
+
+// Works out the real status of an order document, including ones written before
+// the lifecycle was unified where `status` and `executionStatus` could disagree.
+export const resolveOrderStatus = (order: { status?: string; executionStatus?: string; paymentStatus?: string }): OrderStatus => {
+  const status = normalizeOrderStatus(order.status);
+
+  // Unpaid orders were created with executionStatus "order_created", so it means nothing for them
+  if (!PAID_PAYMENT_STATUSES.includes(order.paymentStatus || "") || status === "cancelled") {
+    return status;
+  }
+
+  const candidates = [status, "received" as OrderStatus];
+  if (order.executionStatus) {
+    candidates.push(normalizeOrderStatus(order.executionStatus));
+  }
+
+  // Whichever field got further along wins
+  return candidates.reduce((furthest, candidate) =>
+    ORDER_STATUSES.indexOf(candidate) > ORDER_STATUSES.indexOf(furthest) ? candidate : furthest
+  );
+};
+
+export const getAllowedTransitions = (from: OrderStatus): OrderStatus[] => ORDER_TRANSITIONS[from] || [];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  getAllowedTransitions(from).includes(to);
+
+export const validateTransition = (from: OrderStatus, to: OrderStatus): { valid: boolean; message?: string } => {
+  if (from === to) {
+    return { valid: true };
+  }
+
+  if (!isOrderStatus(to)) {
+    return { valid: false, message: `Unknown order status "${to}"` };
+  }
+
+  if (!canTransition(from, to)) {
+    const allowed = getAllowedTransitions(from);
+    return {
+      valid: false,
+      message: `An order can't move from ${from} to ${to}. ${
+        allowed.length > 0 ? `Allowed next steps: ${allowed.join(", ")}.` : "It is already final."
+      }`,
+    };
+  }
+
+  return { valid: true };
+};
+
+export const getOrderProgressPercentage = (status: OrderStatus): number => ORDER_PROGRESS[status] ?? 0;
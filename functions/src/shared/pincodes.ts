@@ -0,0 +1,88 @@
+import { GST_STATE_CODES } from "./tax";
+
+// Shared with the web app (`@shared/pincodes`): the address book and
+// createRazorpayOrder refuse the same PIN codes.
+
+// India Post sorting districts: the first three digits of a PIN code and the
+// GST state codes (see GST_STATE_CODES in ./tax) they deliver to.
+// A few districts straddle a state or union territory border and list both.
+// Built from the India Post PIN code directory, but only the main ranges, so a
+// PIN code outside them is only questioned, never refused.
+export const PINCODE_PREFIX_RANGES: [from: number, to: number, stateCodes: string[]][] = [
+  [110, 110, ["07"]], // Delhi
+  [121, 136, ["06"]], // Haryana
+  [140, 159, ["03"]], // Punjab
+  [160, 160, ["04", "03"]], // Chandigarh and Mohali
+  [171, 177, ["02"]], // Himachal Pradesh
+  [180, 193, ["01"]], // Jammu and Kashmir
+  [194, 194, ["38", "01"]], // Ladakh
+  [201, 243, ["09"]], // Uttar Pradesh
+  [244, 247, ["09", "05"]], // Moradabad, Bijnor, Saharanpur / Garhwal, Haridwar
+  [248, 249, ["05"]], // Dehradun, Rishikesh
+  [250, 261, ["09"]],
+  [262, 262, ["09", "05"]], // Pilibhit, Lakhimpur / Pithoragarh
+  [263, 263, ["05"]], // Nainital, Almora
+  [271, 285, ["09"]],
+  [301, 345, ["08"]], // Rajasthan
+  [360, 361, ["24"]], // Gujarat
+  [362, 362, ["24", "26"]], // Junagadh / Diu
+  [363, 395, ["24"]],
+  [396, 396, ["24", "26"]], // Valsad / Daman, Silvassa
+  [400, 402, ["27"]], // Maharashtra
+  [403, 403, ["30"]], // Goa
+  [404, 445, ["27"]],
+  [450, 488, ["23"]], // Madhya Pradesh
+  [490, 497, ["22"]], // Chhattisgarh
+  [500, 509, ["36"]], // Telangana
+  [515, 532, ["37"]], // Andhra Pradesh
+  [533, 533, ["37", "34"]], // East Godavari / Yanam
+  [534, 535, ["37"]],
+  [560, 591, ["29"]], // Karnataka
+  [600, 604, ["33"]], // Tamil Nadu
+  [605, 605, ["34", "33"]], // Puducherry / Villupuram
+  [606, 608, ["33"]],
+  [609, 609, ["34", "33"]], // Karaikal / Nagapattinam
+  [610, 643, ["33"]],
+  [670, 672, ["32"]], // Kerala
+  [673, 673, ["32", "34"]], // Kozhikode / Mahe
+  [674, 681, ["32"]],
+  [682, 682, ["32", "31"]], // Ernakulam / Lakshadweep
+  [683, 695, ["32"]],
+  [700, 736, ["19"]], // West Bengal
+  [737, 737, ["11"]], // Sikkim
+  [738, 743, ["19"]],
+  [744, 744, ["35"]], // Andaman and Nicobar Islands
+  [751, 770, ["21"]], // Odisha
+  [781, 788, ["18"]], // Assam
+  [790, 792, ["12"]], // Arunachal Pradesh
+  [793, 794, ["17"]], // Meghalaya
+  [795, 795, ["14"]], // Manipur
+  [796, 796, ["15"]], // Mizoram
+  [797, 798, ["13"]], // Nagaland
+  [799, 799, ["16"]], // Tripura
+  [800, 812, ["10"]], // Bihar
+  [813, 813, ["10", "20"]], // Bhagalpur, Banka / Deoghar
+  [814, 816, ["20"]], // Jharkhand (Dumka, Sahibganj)
+  [817, 821, ["10"]],
+  [822, 822, ["20"]], // Palamu
+  [823, 824, ["10"]],
+  [825, 835, ["20"]], // Hazaribagh, Dhanbad, Ranchi, Jamshedpur
+  [841, 855, ["10"]],
+];
+
+export const PINCODE_PATTERN = /^[1-8]\d{5}$/;
+
+// GST state codes a PIN code delivers to; empty when its sorting district isn't in the list
+export const getStatesForPincode = (pincode: string): string[] => {
+  if (!PINCODE_PATTERN.test(pincode)) return [];
+  const prefix = parseInt(pincode.substring(0, 3));
+  return PINCODE_PREFIX_RANGES.find(([from, to]) => prefix >= from && prefix <= to)?.[2] || [];
+};
+
+// Set when the PIN code's sorting district is known and delivers to other
+// states only. Unknown districts pass, since the list misses some valid PIN codes.
+export const getPincodeStateError = (pincode: string, state: string): string | null => {
+  const states = getStatesForPincode(pincode);
+  if (states.length === 0 || states.includes(state)) return null;
+  return `PIN code ${pincode} is in ${states.map(code => GST_STATE_CODES[code]).join(" or ")}, not ${GST_STATE_CODES[state] || state}`;
+};
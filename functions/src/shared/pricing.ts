@@ -0,0 +1,131 @@
+// Shared with the web app (`@shared/pricing`): the order form quotes with these
+// rate cards, and the functions quote the order again before charging it
+// (functions/src/pricing.ts). Amounts are in rupees.
+
+export interface QuantityBreak {
+  upTo: number | null; // null = no upper limit
+  multiplier: number;
+}
+
+export interface PriceModifier {
+  value: string;
+  label: string;
+  multiplier: number;
+}
+
+export interface RateCard {
+  productType: string;
+  label: string;
+  basePrice: number;
+  quantityBreaks: QuantityBreak[];
+  sizes: PriceModifier[];
+  materials: PriceModifier[];
+  finishes: PriceModifier[];
+  minimumOrderValue: number;
+}
+
+// A set of rate cards. Saved versions (pricingVersions/{version}) also record
+// who saved them and when.
+export interface PricingRates {
+  version: number;
+  rateCards: Record<string, RateCard>;
+}
+
+export interface PricingOptions {
+  quantity: number;
+  size?: string;
+  material?: string;
+  finish?: string;
+}
+
+export interface PriceQuote {
+  pricingVersion: number;
+  productType: string;
+  basePrice: number;
+  quantityMultiplier: number;
+  modifierMultiplier: number;
+  subtotal: number;
+  minimumApplied: boolean;
+  total: number;
+}
+
+const STANDARD_BREAKS: QuantityBreak[] = [
+  { upTo: 100, multiplier: 1 },
+  { upTo: 500, multiplier: 1.5 },
+  { upTo: 1000, multiplier: 2 },
+  { upTo: null, multiplier: 3 },
+];
+
+const defaultCard = (productType: string, label: string, basePrice: number): RateCard => ({
+  productType,
+  label,
+  basePrice,
+  quantityBreaks: STANDARD_BREAKS,
+  sizes: [],
+  materials: [],
+  finishes: [],
+  minimumOrderValue: 0,
+});
+
+// Version 0 reproduces the prices we charged before rate cards were editable
+export const DEFAULT_PRICING: PricingRates = {
+  version: 0,
+  rateCards: {
+    sticker: defaultCard("sticker", "Stickers & Labels", 500),
+    tag: defaultCard("tag", "Tags & Cards", 800),
+    box: defaultCard("box", "Boxes & Cartons", 1500),
+    medicine_box: defaultCard("medicine_box", "Medicine Boxes", 2000),
+    custom: defaultCard("custom", "Custom Packaging", 3000),
+  },
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const findModifier = (modifiers: PriceModifier[], value?: string): number => {
+  if (!value) return 1;
+  return modifiers.find(modifier => modifier.value === value)?.multiplier ?? 1;
+};
+
+export const getQuantityMultiplier = (breaks: QuantityBreak[], quantity: number): number => {
+  const sorted = [...breaks].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const tier = sorted.find(b => b.upTo === null || quantity <= b.upTo);
+  return tier ? tier.multiplier : (sorted[sorted.length - 1]?.multiplier ?? 1);
+};
+
+export const calculatePrice = (
+  pricing: PricingRates,
+  productType: string,
+  options: PricingOptions
+): PriceQuote | null => {
+  const rateCard = pricing.rateCards[productType];
+  if (!rateCard || !options.quantity || options.quantity <= 0) {
+    return null;
+  }
+
+  const quantityMultiplier = getQuantityMultiplier(rateCard.quantityBreaks, options.quantity);
+  const modifierMultiplier =
+    findModifier(rateCard.sizes, options.size) *
+    findModifier(rateCard.materials, options.material) *
+    findModifier(rateCard.finishes, options.finish);
+
+  const subtotal = roundCurrency(rateCard.basePrice * quantityMultiplier * modifierMultiplier);
+  const minimumApplied = subtotal < rateCard.minimumOrderValue;
+
+  return {
+    pricingVersion: pricing.version,
+    productType,
+    basePrice: rateCard.basePrice,
+    quantityMultiplier,
+    modifierMultiplier,
+    subtotal,
+    minimumApplied,
+    total: minimumApplied ? rateCard.minimumOrderValue : subtotal,
+  };
+};
+
+export const getProductLabel = (productType: string): string =>
+  DEFAULT_PRICING.rateCards[productType]?.label || productType;
+
+// Catalog name the line was ordered under, or the rate card label for older orders
+export const getLineLabel = (line: { productName?: string; productType: string }): string =>
+  line.productName || getProductLabel(line.productType);
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRICING, RateCard } from "./pricing";
+import { cleanSpec, getSpecFields, getSpecPricingOptions, validateSpec } from "./product-specs";
+
+const rateCard = (overrides: Partial<RateCard> = {}): RateCard => ({
+  ...DEFAULT_PRICING.rateCards.sticker,
+  ...overrides,
+});
+
+describe("getSpecFields", () => {
+  it("drops the size band when the rate card has none", () => {
+    expect(getSpecFields("sticker", rateCard()).map(field => field.key)).not.toContain("size");
+  });
+
+  it("lists the rate card's modifiers as the options of priced fields", () => {
+    const fields = getSpecFields("sticker", rateCard({
+      sizes: [{ value: "small", label: "Up to 50 mm", multiplier: 1 }],
+      materials: [{ value: "vinyl", label: "Vinyl", multiplier: 1.5 }],
+    }));
+
+    expect(fields.find(field => field.key === "size")?.options).toEqual([{ value: "small", label: "Up to 50 mm" }]);
+    expect(fields.find(field => field.key === "material")?.options).toEqual([{ value: "vinyl", label: "Vinyl" }]);
+  });
+});
+
+describe("validateSpec", () => {
+  const fields = getSpecFields("tag", rateCard());
+  const valid = { width: 50, height: 90, thickness: 350, colours: "cmyk" };
+
+  it("accepts a complete spec", () => {
+    expect(validateSpec(fields, valid)).toEqual({});
+  });
+
+  it("reports missing, out of range and fractional values", () => {
+    expect(validateSpec(fields, { ...valid, width: 10, height: "", thickness: 350.5 })).toEqual({
+      width: "Width must be at least 20 mm",
+      height: "Height is required",
+      thickness: "Card Thickness must be a whole number",
+    });
+  });
+
+  it("refuses options that aren't offered and values of the wrong type", () => {
+    expect(validateSpec(fields, { ...valid, colours: "pantone", width: "50" })).toEqual({
+      colours: "Choose a valid print colours",
+      width: "Width must be a number",
+    });
+  });
+
+  it("limits the length of text fields", () => {
+    const custom = getSpecFields("custom", rateCard());
+
+    expect(validateSpec(custom, { description: "x".repeat(501), colours: "1" })).toEqual({
+      description: "What should we make? must be at most 500 characters",
+    });
+  });
+});
+
+describe("cleanSpec", () => {
+  it("keeps only the schema's fields and ticked boxes", () => {
+    const fields = getSpecFields("tag", rateCard());
+
+    expect(cleanSpec(fields, { width: 50, height: "", roundedCorners: false, holePunch: true, injected: "x" }))
+      .toEqual({ width: 50, holePunch: true });
+  });
+});
+
+describe("getSpecPricingOptions", () => {
+  it("picks the size, material and finish modifiers from the spec", () => {
+    expect(getSpecPricingOptions("box", { size: "large", board: "kraft", lamination: "matte", style: "crash_lock" }, 500))
+      .toEqual({ quantity: 500, size: "large", material: "kraft", finish: "matte" });
+  });
+});
@@ -0,0 +1,318 @@
+import type { PricingOptions, RateCard } from "./pricing";
+
+// Shared with the web app (`@shared/product-specs`): the order form builds and
+// checks the spec with these, and the functions check and price it again before
+// an order is charged (functions/src/pricing.ts).
+//
+// Structured print specification per product type. Each order line stores the
+// values in `spec`; the free-text `specifications` stays for anything else.
+export type SpecValue = string | number | boolean;
+export type ProductSpec = Record<string, SpecValue>;
+
+export interface SpecOption {
+  value: string;
+  label: string;
+}
+
+export interface SpecField {
+  key: string;
+  label: string;
+  type: "number" | "select" | "boolean" | "text";
+  unit?: string;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  maxLength?: number;
+  options?: SpecOption[];
+  // Priced through the rate card: its modifiers replace `options` when the card has any
+  pricing?: "size" | "material" | "finish";
+  help?: string;
+}
+
+const dimension = (key: string, label: string, min: number, max: number, required = true): SpecField => ({
+  key,
+  label,
+  type: "number",
+  unit: "mm",
+  required,
+  min,
+  max,
+});
+
+const COLOURS: SpecField = {
+  key: "colours",
+  label: "Print Colours",
+  type: "select",
+  required: true,
+  options: [
+    { value: "1", label: "1 colour" },
+    { value: "2", label: "2 colours" },
+    { value: "cmyk", label: "Full colour (CMYK)" },
+    { value: "cmyk_white", label: "Full colour + white" },
+  ],
+};
+
+const LAMINATION: SpecField = {
+  key: "lamination",
+  label: "Lamination",
+  type: "select",
+  pricing: "finish",
+  options: [
+    { value: "none", label: "None" },
+    { value: "gloss", label: "Gloss" },
+    { value: "matte", label: "Matte" },
+    { value: "soft_touch", label: "Soft touch" },
+  ],
+};
+
+const BOARD: SpecField = {
+  key: "board",
+  label: "Board",
+  type: "select",
+  required: true,
+  pricing: "material",
+  options: [
+    { value: "sbs", label: "SBS board" },
+    { value: "duplex", label: "Duplex board" },
+    { value: "kraft", label: "Kraft board" },
+  ],
+};
+
+const BOX_STYLE: SpecField = {
+  key: "style",
+  label: "Box Style",
+  type: "select",
+  required: true,
+  options: [
+    { value: "reverse_tuck", label: "Reverse tuck end" },
+    { value: "straight_tuck", label: "Straight tuck end" },
+    { value: "crash_lock", label: "Crash lock bottom" },
+    { value: "top_bottom", label: "Top and bottom" },
+  ],
+};
+
+const SIZE: SpecField = {
+  key: "size",
+  label: "Size Band",
+  type: "select",
+  required: true,
+  pricing: "size",
+  help: "The band your dimensions fall in",
+};
+
+export const PRODUCT_SPEC_SCHEMAS: Record<string, SpecField[]> = {
+  sticker: [
+    dimension("width", "Width", 10, 500),
+    dimension("height", "Height", 10, 500),
+    SIZE,
+    {
+      key: "shape",
+      label: "Die-cut Shape",
+      type: "select",
+      required: true,
+      options: [
+        { value: "rectangle", label: "Rectangle" },
+        { value: "rounded_rectangle", label: "Rounded rectangle" },
+        { value: "circle", label: "Circle" },
+        { value: "oval", label: "Oval" },
+        { value: "custom", label: "Custom (follows artwork)" },
+      ],
+    },
+    {
+      key: "material",
+      label: "Material",
+      type: "select",
+      required: true,
+      pricing: "material",
+      options: [
+        { value: "paper", label: "Paper" },
+        { value: "vinyl", label: "Vinyl" },
+        { value: "transparent", label: "Transparent" },
+        { value: "chrome", label: "Chrome" },
+      ],
+    },
+    LAMINATION,
+    COLOURS,
+  ],
+  tag: [
+    dimension("width", "Width", 20, 300),
+    dimension("height", "Height", 20, 300),
+    SIZE,
+    {
+      key: "thickness",
+      label: "Card Thickness",
+      type: "number",
+      unit: "gsm",
+      required: true,
+      min: 200,
+      max: 600,
+      integer: true,
+    },
+    {
+      key: "material",
+      label: "Material",
+      type: "select",
+      pricing: "material",
+      options: [
+        { value: "art_card", label: "Art card" },
+        { value: "kraft", label: "Kraft" },
+        { value: "textured", label: "Textured" },
+      ],
+    },
+    LAMINATION,
+    COLOURS,
+    { key: "roundedCorners", label: "Rounded corners", type: "boolean" },
+    { key: "holePunch", label: "Hole punch for string", type: "boolean" },
+  ],
+  box: [
+    dimension("length", "Length", 20, 1000),
+    dimension("width", "Width", 20, 1000),
+    dimension("height", "Height", 10, 1000),
+    SIZE,
+    BOX_STYLE,
+    BOARD,
+    LAMINATION,
+    COLOURS,
+    { key: "window", label: "Window cut-out", type: "boolean" },
+  ],
+  medicine_box: [
+    dimension("length", "Length", 20, 300),
+    dimension("width", "Width", 10, 300),
+    dimension("height", "Height", 10, 300),
+    SIZE,
+    BOX_STYLE,
+    BOARD,
+    LAMINATION,
+    COLOURS,
+    { key: "braille", label: "Braille embossing", type: "boolean" },
+    {
+      key: "pharmacode",
+      label: "Pharmacode",
+      type: "text",
+      maxLength: 20,
+      help: "Printed on the tuck flap when given",
+    },
+  ],
+  custom: [
+    {
+      key: "description",
+      label: "What should we make?",
+      type: "text",
+      required: true,
+      maxLength: 500,
+    },
+    dimension("width", "Width", 10, 2000, false),
+    dimension("height", "Height", 10, 2000, false),
+    {
+      key: "material",
+      label: "Material",
+      type: "select",
+      pricing: "material",
+      options: [
+        { value: "paper", label: "Paper" },
+        { value: "board", label: "Board" },
+        { value: "vinyl", label: "Vinyl" },
+        { value: "other", label: "Other (describe above)" },
+      ],
+    },
+    LAMINATION,
+    COLOURS,
+  ],
+};
+
+const RATE_CARD_MODIFIERS = { size: "sizes", material: "materials", finish: "finishes" } as const;
+
+// The schema with priced options taken from the current rate card. A priced
+// field with no options (size bands the card doesn't offer) is dropped.
+export const getSpecFields = (productType: string, rateCard?: RateCard): SpecField[] => {
+  return (PRODUCT_SPEC_SCHEMAS[productType] || [])
+    .map(field => {
+      const modifiers = field.pricing && rateCard ? rateCard[RATE_CARD_MODIFIERS[field.pricing]] : [];
+      return modifiers.length
+        ? { ...field, options: modifiers.map(({ value, label }) => ({ value, label })) }
+        : field;
+    })
+    .filter(field => field.type !== "select" || (field.options?.length ?? 0) > 0);
+};
+
+const isEmpty = (value: SpecValue | undefined) => value === undefined || value === "";
+
+// Field key -> message, empty when the spec is valid
+export const validateSpec = (fields: SpecField[], spec: ProductSpec): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  fields.forEach(field => {
+    const value = spec[field.key];
+    if (isEmpty(value)) {
+      if (field.required) errors[field.key] = `${field.label} is required`;
+      return;
+    }
+
+    switch (field.type) {
+      case "number": {
+        const unit = field.unit ? ` ${field.unit}` : "";
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          errors[field.key] = `${field.label} must be a number`;
+        } else if (field.integer && !Number.isInteger(value)) {
+          errors[field.key] = `${field.label} must be a whole number`;
+        } else if (field.min !== undefined && value < field.min) {
+          errors[field.key] = `${field.label} must be at least ${field.min}${unit}`;
+        } else if (field.max !== undefined && value > field.max) {
+          errors[field.key] = `${field.label} must be at most ${field.max}${unit}`;
+        }
+        break;
+      }
+      case "select":
+        if (!field.options?.some(option => option.value === value)) {
+          errors[field.key] = `Choose a valid ${field.label.toLowerCase()}`;
+        }
+        break;
+      case "text":
+        if (field.maxLength && String(value).length > field.maxLength) {
+          errors[field.key] = `${field.label} must be at most ${field.maxLength} characters`;
+        }
+        break;
+    }
+  });
+
+  return errors;
+};
+
+// Only the fields in the schema, without empty values, so the stored spec stays clean
+export const cleanSpec = (fields: SpecField[], spec: ProductSpec): ProductSpec => {
+  return Object.fromEntries(
+    fields
+      .filter(field => !isEmpty(spec[field.key]) && (field.type !== "boolean" || spec[field.key] === true))
+      .map(field => [field.key, spec[field.key]])
+  );
+};
+
+// Rate card modifiers picked in the spec, for calculatePrice
+export const getSpecPricingOptions = (productType: string, spec: ProductSpec, quantity: number): PricingOptions => {
+  const options: PricingOptions = { quantity };
+  (PRODUCT_SPEC_SCHEMAS[productType] || []).forEach(field => {
+    const value = spec[field.key];
+    if (field.pricing && typeof value === "string" && value) {
+      options[field.pricing] = value;
+    }
+  });
+  return options;
+};
+
+// Label/value pairs for order screens, e.g. ["Width", "50 mm"]. Rate card
+// options no longer in the schema show their stored value.
+export const formatSpec = (productType: string, spec: ProductSpec | undefined): [string, string][] => {
+  if (!spec) return [];
+
+  return (PRODUCT_SPEC_SCHEMAS[productType] || [])
+    .filter(field => !isEmpty(spec[field.key]))
+    .map(field => {
+      const value = spec[field.key];
+      if (field.type === "boolean") return [field.label, value ? "Yes" : "No"];
+      if (field.type === "select") {
+        return [field.label, field.options?.find(option => option.value === value)?.label || String(value)];
+      }
+      return [field.label, field.unit ? `${value} ${field.unit}` : String(value)];
+    });
+};
@@ -0,0 +1,211 @@
+// Shared with the web app (`@shared/tax`): the order form and invoices show the
+// GST worked out here, and the functions work it out again from the quoted
+// lines before charging and invoicing (functions/src/pricing.ts).
+
+// Our registered place of business (Delhi). Intra-state supplies are taxed as
+// CGST + SGST, inter-state supplies as IGST.
+export const SELLER_STATE_CODE = "07";
+
+// GST state codes as printed in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+// Default HSN code per product type; catalog products carry their own
+export const hsnCodes: Record<string, string> = {
+  sticker: "4821",
+  tag: "4821",
+  box: "4819",
+  medicine_box: "4819",
+  custom: "4911",
+};
+
+// GST rate (%) per HSN code. Review with the accountant whenever the GST council revises rates.
+export const HSN_GST_RATES: Record<string, number> = {
+  "4821": 18, // Printed paper labels and tags
+  "4819": 18, // Cartons, boxes and cases
+  "4911": 12, // Other printed matter
+};
+
+export const DEFAULT_GST_RATE = 18;
+
+export interface TaxBreakdown {
+  hsnCode: string;
+  rate: number;
+  supplyType: "intra" | "inter";
+  placeOfSupply: string; // GST state code
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+  // Per-HSN split, set when an order mixes products taxed at different codes
+  // (combineTaxBreakdowns). `hsnCode` and `rate` then describe the first line only.
+  rates?: TaxRateSplit[];
+}
+
+export interface TaxRateSplit {
+  hsnCode: string;
+  rate: number;
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Format check only; the first two digits are the GST state code
+export const isValidGSTIN = (gstin: string): boolean =>
+  /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/.test(gstin);
+
+export const getHsnCode = (productType: string): string => hsnCodes[productType] || "4911";
+
+export const getGstRate = (hsnCode: string): number => HSN_GST_RATES[hsnCode] ?? DEFAULT_GST_RATE;
+
+export const getStateCodeByName = (stateName: string): string | undefined => {
+  const normalized = stateName.trim().toLowerCase();
+  return Object.keys(GST_STATE_CODES).find(code => GST_STATE_CODES[code].toLowerCase() === normalized);
+};
+
+// A registered buyer's GSTIN decides the place of supply; otherwise the delivery state does.
+export const getPlaceOfSupply = ({ gstNumber, deliveryState }: { gstNumber?: string; deliveryState?: string }): string => {
+  if (gstNumber && isValidGSTIN(gstNumber)) {
+    const code = gstNumber.substring(0, 2);
+    if (GST_STATE_CODES[code]) return code;
+  }
+
+  if (deliveryState) {
+    const code = GST_STATE_CODES[deliveryState] ? deliveryState : getStateCodeByName(deliveryState);
+    if (code) return code;
+  }
+
+  return SELLER_STATE_CODE;
+};
+
+const buildBreakdown = (taxableAmount: number, hsnCode: string, placeOfSupply: string, totalTax: number): TaxBreakdown => {
+  const rate = getGstRate(hsnCode);
+  const supplyType = placeOfSupply === SELLER_STATE_CODE ? "intra" : "inter";
+  const halfTax = roundCurrency(totalTax / 2);
+
+  return {
+    hsnCode,
+    rate,
+    supplyType,
+    placeOfSupply,
+    taxableAmount,
+    cgst: supplyType === "intra" ? halfTax : 0,
+    sgst: supplyType === "intra" ? roundCurrency(totalTax - halfTax) : 0,
+    igst: supplyType === "inter" ? totalTax : 0,
+    totalTax,
+    total: roundCurrency(taxableAmount + totalTax),
+  };
+};
+
+// Adds GST on top of a taxable (pre-tax) amount
+export const calculateTax = (taxableAmount: number, hsnCode: string, placeOfSupply: string): TaxBreakdown => {
+  const taxable = roundCurrency(taxableAmount);
+  const totalTax = roundCurrency(taxable * getGstRate(hsnCode) / 100);
+  return buildBreakdown(taxable, hsnCode, placeOfSupply, totalTax);
+};
+
+// Splits a tax-inclusive amount into taxable value and GST
+export const calculateTaxFromInclusive = (inclusiveAmount: number, hsnCode: string, placeOfSupply: string): TaxBreakdown => {
+  const total = roundCurrency(inclusiveAmount);
+  const taxable = roundCurrency(total / (1 + getGstRate(hsnCode) / 100));
+  return buildBreakdown(taxable, hsnCode, placeOfSupply, roundCurrency(total - taxable));
+};
+
+// Order-level GST for a cart. Each line is taxed on its own (calculateTax), then
+// the lines are summed per HSN code so the invoice can show one row per rate.
+export const combineTaxBreakdowns = (breakdowns: TaxBreakdown[]): TaxBreakdown => {
+  const [first] = breakdowns;
+  if (breakdowns.length === 1) {
+    return first;
+  }
+
+  const sum = (items: TaxBreakdown[], key: "taxableAmount" | "cgst" | "sgst" | "igst" | "totalTax") =>
+    roundCurrency(items.reduce((total, item) => total + item[key], 0));
+
+  const byHsn = new Map<string, TaxBreakdown[]>();
+  breakdowns.forEach(breakdown => byHsn.set(breakdown.hsnCode, [...(byHsn.get(breakdown.hsnCode) || []), breakdown]));
+  const rates: TaxRateSplit[] = [...byHsn.entries()].map(([hsnCode, items]) => ({
+    hsnCode,
+    rate: items[0].rate,
+    taxableAmount: sum(items, "taxableAmount"),
+    cgst: sum(items, "cgst"),
+    sgst: sum(items, "sgst"),
+    igst: sum(items, "igst"),
+    totalTax: sum(items, "totalTax"),
+  }));
+
+  const taxableAmount = sum(breakdowns, "taxableAmount");
+  const totalTax = sum(breakdowns, "totalTax");
+
+  return {
+    hsnCode: first.hsnCode,
+    rate: first.rate,
+    supplyType: first.supplyType,
+    placeOfSupply: first.placeOfSupply,
+    taxableAmount,
+    cgst: sum(breakdowns, "cgst"),
+    sgst: sum(breakdowns, "sgst"),
+    igst: sum(breakdowns, "igst"),
+    totalTax,
+    total: roundCurrency(taxableAmount + totalTax),
+    ...(rates.length > 1 && { rates }),
+  };
+};
+
+// Label/amount rows for the GST lines of a summary, one set per rate
+export const getTaxLines = (tax: TaxBreakdown): [string, number][] => {
+  const splits: Pick<TaxRateSplit, "rate" | "cgst" | "sgst" | "igst">[] = tax.rates || [tax];
+  const byRate = new Map<number, Pick<TaxRateSplit, "rate" | "cgst" | "sgst" | "igst">>();
+  splits.forEach(split => {
+    const existing = byRate.get(split.rate);
+    byRate.set(split.rate, existing
+      ? { rate: split.rate, cgst: roundCurrency(existing.cgst + split.cgst), sgst: roundCurrency(existing.sgst + split.sgst), igst: roundCurrency(existing.igst + split.igst) }
+      : split);
+  });
+
+  return [...byRate.values()].flatMap((split): [string, number][] => tax.supplyType === "intra"
+    ? [[`CGST (${split.rate / 2}%)`, split.cgst], [`SGST (${split.rate / 2}%)`, split.sgst]]
+    : [[`IGST (${split.rate}%)`, split.igst]]);
+};
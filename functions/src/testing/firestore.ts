@@ -0,0 +1,350 @@
+// In-memory stand-in for the parts of firebase-admin/firestore the functions
+// use, so the transaction paths can be unit tested without the emulator:
+//
+//   vi.mock("firebase-admin/firestore", () => import("../testing/firestore"));
+//
+// Transactions and batches buffer their writes and apply them together, and
+// only if the callback succeeds. There is no contention, so a transaction runs
+// exactly once. Call resetFirestore() between tests.
+
+type Data = Record<string, unknown>;
+
+export class Timestamp {
+  constructor(private readonly millis: number) {}
+
+  static now() {
+    return new Timestamp(Date.now());
+  }
+
+  static fromDate(date: Date) {
+    return new Timestamp(date.getTime());
+  }
+
+  static fromMillis(millis: number) {
+    return new Timestamp(millis);
+  }
+
+  get seconds() {
+    return Math.floor(this.millis / 1000);
+  }
+
+  toMillis() {
+    return this.millis;
+  }
+
+  toDate() {
+    return new Date(this.millis);
+  }
+}
+
+class FieldTransform {
+  constructor(readonly kind: "increment" | "delete", readonly by = 0) {}
+}
+
+export const FieldValue = {
+  increment: (by: number) => new FieldTransform("increment", by),
+  delete: () => new FieldTransform("delete"),
+  serverTimestamp: () => Timestamp.now(),
+};
+
+// Firestore's error codes (gRPC status numbers) as the Admin SDK reports them
+class FirestoreError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+const NOT_FOUND = 5;
+const ALREADY_EXISTS = 6;
+
+const isPlainObject = (value: unknown): value is Data =>
+  typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Timestamps are immutable, so only plain objects and arrays need copying
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clone(entry)])) as T;
+  }
+  return value;
+};
+
+const applyField = (target: Data, key: string, value: unknown) => {
+  if (value instanceof FieldTransform) {
+    if (value.kind === "delete") {
+      delete target[key];
+    } else {
+      target[key] = Number(target[key] || 0) + value.by;
+    }
+  } else if (isPlainObject(value) && isPlainObject(target[key])) {
+    Object.entries(value).forEach(([nested, entry]) => applyField(target[key] as Data, nested, entry));
+  } else {
+    target[key] = resolveTransforms(value);
+  }
+};
+
+// Transforms in a field that didn't exist yet resolve against nothing
+const resolveTransforms = (value: unknown): unknown => {
+  if (value instanceof FieldTransform) return value.kind === "increment" ? value.by : undefined;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, entry]) => [key, resolveTransforms(entry)])
+        .filter(([, entry]) => entry !== undefined)
+    );
+  }
+  return clone(value);
+};
+
+// update() takes dotted field paths ("creditNote.emailedAt")
+const applyUpdate = (target: Data, updates: Data) => {
+  Object.entries(updates).forEach(([path, value]) => {
+    const keys = path.split(".");
+    let parent = target;
+    keys.slice(0, -1).forEach(key => {
+      if (!isPlainObject(parent[key])) parent[key] = {};
+      parent = parent[key] as Data;
+    });
+    const last = keys[keys.length - 1];
+    if (value instanceof FieldTransform || !isPlainObject(value)) {
+      applyField(parent, last, value);
+    } else {
+      parent[last] = resolveTransforms(value);
+    }
+  });
+};
+
+const documents = new Map<string, Data>();
+let autoIdCounter = 0;
+
+const autoId = () => {
+  autoIdCounter++;
+  return `auto${String(autoIdCounter).padStart(16, "0")}`;
+};
+
+export const resetFirestore = () => {
+  documents.clear();
+  autoIdCounter = 0;
+};
+
+// Test helpers for arranging and inspecting state without going through a ref
+export const seedDocument = (path: string, data: Data) => {
+  documents.set(path, resolveTransforms(data) as Data);
+};
+
+export const readDocument = (path: string): Data | undefined => clone(documents.get(path));
+
+export const listDocuments = (collectionPath: string): Array<{ id: string; data: Data }> =>
+  [...documents.entries()]
+    .filter(([path]) => path.startsWith(`${collectionPath}/`) && !path.slice(collectionPath.length + 1).includes("/"))
+    .map(([path, data]) => ({ id: path.slice(collectionPath.length + 1), data: clone(data) }));
+
+class DocumentSnapshot {
+  readonly id: string;
+  private readonly stored: Data | undefined;
+
+  constructor(readonly ref: DocumentReference) {
+    this.id = ref.id;
+    this.stored = clone(documents.get(ref.path));
+  }
+
+  get exists() {
+    return this.stored !== undefined;
+  }
+
+  data() {
+    return clone(this.stored);
+  }
+
+  get(field: string) {
+    return this.stored?.[field];
+  }
+}
+
+class QuerySnapshot {
+  constructor(readonly docs: DocumentSnapshot[]) {}
+
+  get empty() {
+    return this.docs.length === 0;
+  }
+
+  get size() {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: DocumentSnapshot) => void) {
+    this.docs.forEach(callback);
+  }
+}
+
+type Write = () => void;
+
+const writeSet = (ref: DocumentReference, data: Data, options?: { merge?: boolean }): Write => () => {
+  const existing = documents.get(ref.path);
+  if (options?.merge && existing) {
+    const merged = clone(existing);
+    Object.entries(data).forEach(([key, value]) => applyField(merged, key, value));
+    documents.set(ref.path, merged);
+  } else {
+    documents.set(ref.path, resolveTransforms(data) as Data);
+  }
+};
+
+const writeCreate = (ref: DocumentReference, data: Data): Write => () => {
+  if (documents.has(ref.path)) {
+    throw new FirestoreError(ALREADY_EXISTS, `Document already exists: ${ref.path}`);
+  }
+  documents.set(ref.path, resolveTransforms(data) as Data);
+};
+
+const writeUpdate = (ref: DocumentReference, data: Data): Write => () => {
+  const existing = documents.get(ref.path);
+  if (!existing) {
+    throw new FirestoreError(NOT_FOUND, `No document to update: ${ref.path}`);
+  }
+  const updated = clone(existing);
+  applyUpdate(updated, data);
+  documents.set(ref.path, updated);
+};
+
+const writeDelete = (ref: DocumentReference): Write => () => {
+  documents.delete(ref.path);
+};
+
+export class DocumentReference {
+  readonly id: string;
+
+  constructor(readonly path: string) {
+    this.id = path.slice(path.lastIndexOf("/") + 1);
+  }
+
+  collection(name: string) {
+    return new CollectionReference(`${this.path}/${name}`);
+  }
+
+  async get() {
+    return new DocumentSnapshot(this);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }) {
+    writeSet(this, data, options)();
+  }
+
+  async create(data: Data) {
+    writeCreate(this, data)();
+  }
+
+  async update(data: Data) {
+    writeUpdate(this, data)();
+  }
+
+  async delete() {
+    writeDelete(this)();
+  }
+}
+
+type Filter = { field: string; op: "==" | "in"; value: unknown };
+
+class Query {
+  constructor(
+    readonly collectionPath: string,
+    private readonly filters: Filter[] = [],
+    private readonly max?: number
+  ) {}
+
+  where(field: string, op: "==" | "in", value: unknown) {
+    if (op !== "==" && op !== "in") {
+      throw new Error(`Unsupported query operator in tests: ${op}`);
+    }
+    return new Query(this.collectionPath, [...this.filters, { field, op, value }], this.max);
+  }
+
+  limit(max: number) {
+    return new Query(this.collectionPath, this.filters, max);
+  }
+
+  async get() {
+    const matches = listDocuments(this.collectionPath)
+      .filter(({ data }) => this.filters.every(({ field, op, value }) =>
+        op === "in" ? (value as unknown[]).includes(data[field]) : data[field] === value
+      ))
+      .slice(0, this.max)
+      .map(({ id }) => new DocumentSnapshot(new DocumentReference(`${this.collectionPath}/${id}`)));
+    return new QuerySnapshot(matches);
+  }
+}
+
+class CollectionReference extends Query {
+  doc(id = autoId()) {
+    return new DocumentReference(`${this.collectionPath}/${id}`);
+  }
+
+  async add(data: Data) {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+class WriteBuffer {
+  protected writes: Write[] = [];
+
+  set(ref: DocumentReference, data: Data, options?: { merge?: boolean }) {
+    this.writes.push(writeSet(ref, data, options));
+    return this;
+  }
+
+  create(ref: DocumentReference, data: Data) {
+    this.writes.push(writeCreate(ref, data));
+    return this;
+  }
+
+  update(ref: DocumentReference, data: Data) {
+    this.writes.push(writeUpdate(ref, data));
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.writes.push(writeDelete(ref));
+    return this;
+  }
+
+  // Checks every write before applying any, so a failed commit changes nothing
+  async commit() {
+    const snapshot = new Map([...documents.entries()].map(([path, data]) => [path, clone(data)]));
+    try {
+      this.writes.forEach(write => write());
+    } catch (error) {
+      documents.clear();
+      snapshot.forEach((data, path) => documents.set(path, data));
+      throw error;
+    }
+  }
+}
+
+class Transaction extends WriteBuffer {
+  async get(target: DocumentReference | Query) {
+    if (this.writes.length) {
+      throw new Error("Firestore transactions require all reads to be executed before all writes");
+    }
+    return target.get();
+  }
+
+  async getAll(...refs: DocumentReference[]) {
+    return Promise.all(refs.map(ref => this.get(ref) as Promise<DocumentSnapshot>));
+  }
+}
+
+const firestore = {
+  collection: (path: string) => new CollectionReference(path),
+  doc: (path: string) => new DocumentReference(path),
+  getAll: async (...refs: DocumentReference[]) => Promise.all(refs.map(ref => ref.get())),
+  batch: () => new WriteBuffer(),
+  runTransaction: async <T>(callback: (transaction: Transaction) => Promise<T>): Promise<T> => {
+    const transaction = new Transaction();
+    const result = await callback(transaction);
+    await transaction.commit();
+    return result;
+  },
+};
+
+export const getFirestore = () => firestore;
@@ -8,6 +8,7 @@ import { useEffect } from "react";
 import { initAnalytics } from "@/lib/firebase";
 import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import AdminRoute from "@/components/AdminRoute";
 
 // Layouts and Pages
 import Navbar from "@/components/Navbar";
@@ -85,8 +86,15 @@ const App = () => {
                     } 
                   />
                   
-                  {/* Admin Route - Hidden from navigation */}
-                  <Route path="/admin" element={<Admin />} />
+                  {/* Admin Route - Hidden from navigation, requires the admin claim */}
+                  <Route 
+                    path="/admin" 
+                    element={
+                      <AdminRoute>
+                        <Admin />
+                      </AdminRoute>
+                    } 
+                  />
                   
                   {/* Catch-all route */}
                   <Route path="*" element={<NotFound />} />
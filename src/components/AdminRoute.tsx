@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldAlert } from "lucide-react";
+import AdminAuth from "@/components/admin/AdminAuth";
+import AdminTwoFactor from "@/components/admin/AdminTwoFactor";
+import { acceptAdminInvite } from "@/lib/admin-service";
+
+type AdminRouteProps = {
+  children: React.ReactNode;
+};
+
+// Like ProtectedRoute, but requires the `admin` claim. The claim is what
+// firestore.rules checks, so this guard only decides what to render.
+// An emailed invitation (/admin?invite=...) is accepted on the first sign-in.
+// Admins then pass the authenticator check, which starts a 24 hour session
+// carried in their ID token.
+export default function AdminRoute({ children }: AdminRouteProps) {
+  const { user, isAdmin, adminSessionExpiresAt, loading, logout, refreshAdminClaim } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [acceptingInvite, setAcceptingInvite] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const { toast } = useToast();
+  const invite = searchParams.get("invite");
+
+  useEffect(() => {
+    if (!invite || !user || isAdmin || acceptingInvite || inviteError) return;
+
+    const accept = async () => {
+      setAcceptingInvite(true);
+      const result = await acceptAdminInvite(invite);
+
+      if (result.success) {
+        await refreshAdminClaim();
+        setSearchParams({}, { replace: true });
+        toast({
+          title: "Invitation Accepted",
+          description: "Welcome to the Admin Portal",
+        });
+      } else {
+        setInviteError(result.message || "This invitation could not be accepted.");
+      }
+      setAcceptingInvite(false);
+    };
+
+    accept();
+  }, [invite, user, isAdmin, acceptingInvite, inviteError, refreshAdminClaim, setSearchParams, toast]);
+
+  // Re-render when the session runs out so the portal locks itself
+  useEffect(() => {
+    if (!adminSessionExpiresAt) return;
+
+    const remaining = adminSessionExpiresAt.getTime() - Date.now();
+    setSessionExpired(remaining <= 0);
+    if (remaining <= 0) return;
+
+    const timer = setTimeout(() => setSessionExpired(true), remaining);
+    return () => clearTimeout(timer);
+  }, [adminSessionExpiresAt]);
+
+  if (loading || acceptingInvite) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-primary border-solid mx-auto mb-4"></div>
+          <p className="text-gray-600">{acceptingInvite ? "Accepting your invitation..." : "Verifying admin access..."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AdminAuth invited={!!invite} />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-red-100">
+              <ShieldAlert className="h-6 w-6 text-red-600" />
+            </div>
+            <CardTitle className="text-2xl font-bold">Access Denied</CardTitle>
+            <CardDescription>
+              {inviteError || `${user.email} is not an admin. Sign in with an admin account to continue.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button className="w-full" onClick={() => refreshAdminClaim()}>
+              I was just granted access
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                setInviteError(null);
+                logout();
+              }}
+            >
+              Sign in with another account
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!adminSessionExpiresAt || sessionExpired) {
+    return <AdminTwoFactor />;
+  }
+
+  return <>{children}</>;
+}
@@ -4,6 +4,7 @@ import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import NotificationBell from "@/components/NotificationBell";
 import { Menu, X } from "lucide-react";
 import Logo from '../assets/logo.png'; // Adjust the path as necessary
 import { ArrowRight, Printer, Package, Truck, CheckCircle, Building } from "lucide-react";
@@ -54,37 +55,42 @@ export default function Navbar() {
           ))}
         </div>
 
-        {/* Auth Buttons */}
-        <div className="hidden md:flex items-center space-x-3">
-          {user ? (
-            <>
-              <Link to="/dashboard">
-                <Button variant="outline" size="sm" className="transition-all duration-200 hover:scale-105">Dashboard</Button>
-              </Link>
-              <Button size="sm" onClick={() => logout()} className="transition-all duration-200 hover:scale-105">Logout</Button>
-            </>
-          ) : (
-            <>
-              <Link to="/login">
-                <Button variant="outline" size="sm" className="transition-all duration-200 hover:scale-105">Log In</Button>
-              </Link>
-              <Link to="/signup">
-                <Button size="sm" className="transition-all duration-200 hover:scale-105">Sign Up</Button>
-              </Link>
-            </>
-          )}
-        </div>
+        <div className="flex items-center gap-3">
+          {/* Notifications (all screen sizes) */}
+          {user && <NotificationBell userId={user.uid} />}
 
-        {/* Mobile Navigation Toggle */}
-        <div className="md:hidden">
-          <Button variant="ghost" onClick={toggleMenu} className="-m-2.5 p-2.5 transition-transform duration-200 hover:scale-110">
-            <span className="sr-only">Open main menu</span>
-            {mobileMenuOpen ? (
-              <X className="h-6 w-6" aria-hidden="true" />
+          {/* Auth Buttons */}
+          <div className="hidden md:flex items-center space-x-3">
+            {user ? (
+              <>
+                <Link to="/dashboard">
+                  <Button variant="outline" size="sm" className="transition-all duration-200 hover:scale-105">Dashboard</Button>
+                </Link>
+                <Button size="sm" onClick={() => logout()} className="transition-all duration-200 hover:scale-105">Logout</Button>
+              </>
             ) : (
-              <Menu className="h-6 w-6" aria-hidden="true" />
+              <>
+                <Link to="/login">
+                  <Button variant="outline" size="sm" className="transition-all duration-200 hover:scale-105">Log In</Button>
+                </Link>
+                <Link to="/signup">
+                  <Button size="sm" className="transition-all duration-200 hover:scale-105">Sign Up</Button>
+                </Link>
+              </>
             )}
-          </Button>
+          </div>
+
+          {/* Mobile Navigation Toggle */}
+          <div className="md:hidden">
+            <Button variant="ghost" onClick={toggleMenu} className="-m-2.5 p-2.5 transition-transform duration-200 hover:scale-110">
+              <span className="sr-only">Open main menu</span>
+              {mobileMenuOpen ? (
+                <X className="h-6 w-6" aria-hidden="true" />
+              ) : (
+                <Menu className="h-6 w-6" aria-hidden="true" />
+              )}
+            </Button>
+          </div>
         </div>
       </nav>
 
@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import {
+  subscribeToNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  AppNotification
+} from "@/lib/notification-service";
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+const NotificationBell = ({ userId }: NotificationBellProps) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    return subscribeToNotifications(userId, setNotifications);
+  }, [userId]);
+
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      markNotificationRead(notification.id);
+    }
+    navigate(`/dashboard?order=${encodeURIComponent(notification.orderId)}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-xs h-7 mr-1"
+              onClick={(e) => {
+                e.preventDefault();
+                markAllNotificationsRead(notifications);
+              }}
+            >
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-gray-500">
+            No notifications yet
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => handleOpen(notification)}
+                className={cn("flex flex-col items-start gap-1 cursor-pointer", !notification.read && "bg-blue-50")}
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span className={cn("text-sm", !notification.read && "font-semibold")}>
+                    {notification.title} · #{notification.trackingId}
+                  </span>
+                  {!notification.read && <span className="h-2 w-2 rounded-full bg-blue-500 flex-shrink-0" />}
+                </div>
+                <span className="text-xs text-gray-600">{notification.message}</span>
+                {notification.createdAt?.toDate && (
+                  <span className="text-xs text-gray-400">
+                    {formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true })}
+                  </span>
+                )}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,296 @@
+import { useCallback, useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Smartphone, Copy, Download } from "lucide-react";
+import {
+  getAdminMfaStatus,
+  startTotpEnrollment,
+  confirmTotpEnrollment,
+  verifyAdminSecondFactor,
+  TotpEnrollment
+} from "@/lib/admin-mfa-service";
+
+type Step = 'loading' | 'setup' | 'scan' | 'recovery-codes' | 'verify';
+
+// Shown by AdminRoute to an admin whose sign-in has no admin session yet:
+// first-time authenticator setup, or the code check on later sign-ins.
+const AdminTwoFactor = () => {
+  const { user, logout, refreshAdminClaim } = useAuth();
+  const [step, setStep] = useState<Step>('loading');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchStatus = useCallback(async () => {
+    const status = await getAdminMfaStatus();
+    if (!status) {
+      toast({
+        title: "Error",
+        description: "Could not check two-factor authentication. Please sign in again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setStep(status.enrolled ? 'verify' : 'setup');
+  }, [toast]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const beginSetup = async () => {
+    setLoading(true);
+    const result = await startTotpEnrollment();
+    setLoading(false);
+
+    if (!result.success || !result.enrollment) {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to start authenticator setup.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setEnrollment(result.enrollment);
+    setCode('');
+    setStep('scan');
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    const result = await confirmTotpEnrollment(code);
+    setLoading(false);
+
+    if (!result.success || !result.recoveryCodes) {
+      setCode('');
+      toast({
+        title: "Invalid Code",
+        description: result.message || "That code is not valid.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setRecoveryCodes(result.recoveryCodes);
+    setStep('recovery-codes');
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    const result = await verifyAdminSecondFactor(useRecoveryCode ? { recoveryCode } : { code });
+
+    if (!result.success) {
+      setLoading(false);
+      setCode('');
+      toast({
+        title: "Verification Failed",
+        description: result.message || "That code is not valid.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (useRecoveryCode) {
+      toast({
+        title: "Recovery Code Used",
+        description: `${result.recoveryCodesRemaining} recovery codes left. Ask an owner to reset your authenticator if you are running out.`,
+      });
+    }
+
+    // Picks up the session claims; AdminRoute then shows the portal
+    await refreshAdminClaim();
+    setLoading(false);
+  };
+
+  const finishSetup = async () => {
+    setLoading(true);
+    await refreshAdminClaim();
+    setLoading(false);
+  };
+
+  const copyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to the clipboard.",
+    });
+  };
+
+  const downloadRecoveryCodes = () => {
+    const blob = new Blob(
+      [`Micro UV Printers admin recovery codes for ${user?.email}\nEach code works once.\n\n${recoveryCodes.join('\n')}\n`],
+      { type: 'text/plain' }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'admin-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const codeInput = (
+    <div className="flex justify-center mt-2">
+      <InputOTP maxLength={6} value={code} onChange={setCode}>
+        <InputOTPGroup>
+          <InputOTPSlot index={0} />
+          <InputOTPSlot index={1} />
+          <InputOTPSlot index={2} />
+          <InputOTPSlot index={3} />
+          <InputOTPSlot index={4} />
+          <InputOTPSlot index={5} />
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-blue-100">
+            {step === 'verify' ? (
+              <KeyRound className="h-6 w-6 text-blue-600" />
+            ) : (
+              <Smartphone className="h-6 w-6 text-blue-600" />
+            )}
+          </div>
+          <CardTitle className="text-2xl font-bold">Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {step === 'verify' && 'Enter the code from your authenticator app'}
+            {step === 'setup' && 'Admin accounts need an authenticator app'}
+            {step === 'scan' && 'Scan the QR code with your authenticator app'}
+            {step === 'recovery-codes' && 'Save your recovery codes'}
+            {step === 'loading' && 'Checking your account...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {step === 'loading' && (
+            <div className="space-y-3">
+              <div className="h-10 bg-gray-200 rounded animate-pulse" />
+              <div className="h-10 bg-gray-200 rounded animate-pulse" />
+            </div>
+          )}
+
+          {step === 'setup' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Install an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password
+                on your phone. You'll need a code from it every time you sign in to the admin portal.
+              </p>
+              <Button className="w-full" onClick={beginSetup} disabled={loading}>
+                {loading ? "Preparing..." : "Set Up Authenticator"}
+              </Button>
+            </div>
+          )}
+
+          {step === 'scan' && enrollment && (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="flex justify-center">
+                <div className="p-3 bg-white border rounded-lg">
+                  <QRCodeSVG value={enrollment.otpauthUrl} size={180} />
+                </div>
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+                <p className="font-mono text-sm break-all mt-1">{enrollment.secret.match(/.{1,4}/g)?.join(' ')}</p>
+              </div>
+              <div>
+                <Label>Code from the app</Label>
+                {codeInput}
+              </div>
+              <Button type="submit" className="w-full" disabled={loading || code.length !== 6}>
+                {loading ? "Verifying..." : "Verify & Enable"}
+              </Button>
+            </form>
+          )}
+
+          {step === 'recovery-codes' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                If you lose your phone, each of these codes lets you sign in once. Store them somewhere safe;
+                they won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 bg-gray-50 border rounded-lg p-4 font-mono text-sm text-center">
+                {recoveryCodes.map(recovery => (
+                  <span key={recovery}>{recovery}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={copyRecoveryCodes}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={downloadRecoveryCodes}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+              </div>
+              <Button className="w-full" onClick={finishSetup} disabled={loading}>
+                {loading ? "Opening portal..." : "I've Saved My Codes"}
+              </Button>
+            </div>
+          )}
+
+          {step === 'verify' && (
+            <form onSubmit={handleVerify} className="space-y-4">
+              {useRecoveryCode ? (
+                <div>
+                  <Label htmlFor="recoveryCode">Recovery Code</Label>
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    className="font-mono"
+                    autoComplete="off"
+                    required
+                  />
+                </div>
+              ) : (
+                <div>
+                  <Label>Authentication Code</Label>
+                  {codeInput}
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+              >
+                {loading ? "Verifying..." : "Verify & Access Portal"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+              >
+                {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+              </Button>
+            </form>
+          )}
+
+          <Button variant="outline" className="w-full mt-2" onClick={() => logout()}>
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminTwoFactor;
@@ -1,4 +1,3 @@
-
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,15 +6,28 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { UserPlus, Trash2, Shield, Mail, Calendar } from "lucide-react";
+import { UserPlus, Trash2, Shield, Mail, Calendar, Clock, XCircle, KeyRound } from "lucide-react";
+import {
+  getAdminUsers,
+  getAdminInvites,
+  inviteAdmin,
+  revokeAdminInvite,
+  setAdminAccess,
+  AdminUser,
+  AdminInvite,
+  AdminInviteStatus
+} from "@/lib/admin-service";
+import { resetAdminMfa } from "@/lib/admin-mfa-service";
+import { ADMIN_ROLES, ADMIN_ROLE_OPTIONS, AdminRole } from "@/lib/admin-roles";
 
-interface AdminUser {
-  email: string;
-  addedBy: string;
-  addedAt: string;
-  lastLogin?: string;
-}
+const INVITE_STATUS_VARIANTS: Record<AdminInviteStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: 'default',
+  accepted: 'secondary',
+  revoked: 'destructive',
+  expired: 'outline',
+};
 
 interface AdminUserManagerProps {
   currentAdminEmail: string;
@@ -23,41 +35,29 @@ interface AdminUserManagerProps {
 
 const AdminUserManager = ({ currentAdminEmail }: AdminUserManagerProps) => {
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
   const [newAdminEmail, setNewAdminEmail] = useState('');
+  const [newAdminRole, setNewAdminRole] = useState<AdminRole>('support');
   const [dialogOpen, setDialogOpen] = useState(false);
   const { toast } = useToast();
 
-  // Default authorized admins
-  const defaultAdmins = [
-    "help@microuvprinters.com",
-    "laxmankamboj@gmail.com", 
-    "vinayakkamboj01@gmail.com"
-  ];
-
   useEffect(() => {
     loadAdminUsers();
   }, []);
 
-  const loadAdminUsers = () => {
-    const storedAdmins = localStorage.getItem('admin_users');
-    let admins: AdminUser[] = [];
-
-    if (storedAdmins) {
-      admins = JSON.parse(storedAdmins);
-    } else {
-      // Initialize with default admins
-      admins = defaultAdmins.map(email => ({
-        email,
-        addedBy: 'System',
-        addedAt: new Date().toISOString(),
-      }));
-      localStorage.setItem('admin_users', JSON.stringify(admins));
-    }
-
+  const loadAdminUsers = async () => {
+    setLoading(true);
+    const [admins, adminInvites] = await Promise.all([getAdminUsers(), getAdminInvites()]);
     setAdminUsers(admins);
+    setInvites(adminInvites);
+    setLoading(false);
   };
 
-  const addAdminUser = () => {
+  const isCurrentAdmin = (email: string) => email.toLowerCase() === currentAdminEmail.toLowerCase();
+
+  const sendInvite = async () => {
     if (!newAdminEmail.trim()) {
       toast({
         title: "Error",
@@ -67,7 +67,7 @@ const AdminUserManager = ({ currentAdminEmail }: AdminUserManagerProps) => {
       return;
     }
 
-    if (adminUsers.some(admin => admin.email.toLowerCase() === newAdminEmail.toLowerCase())) {
+    if (adminUsers.some(admin => admin.email.toLowerCase() === newAdminEmail.trim().toLowerCase())) {
       toast({
         title: "Error",
         description: "This email is already an admin user.",
@@ -76,54 +76,125 @@ const AdminUserManager = ({ currentAdminEmail }: AdminUserManagerProps) => {
       return;
     }
 
-    const newAdmin: AdminUser = {
-      email: newAdminEmail.trim(),
-      addedBy: currentAdminEmail,
-      addedAt: new Date().toISOString(),
-    };
+    setSaving(true);
+    const result = await inviteAdmin(newAdminEmail, newAdminRole);
+    setSaving(false);
 
-    const updatedAdmins = [...adminUsers, newAdmin];
-    setAdminUsers(updatedAdmins);
-    localStorage.setItem('admin_users', JSON.stringify(updatedAdmins));
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to send invitation.",
+        variant: "destructive"
+      });
+      return;
+    }
 
-    toast({
-      title: "Success",
-      description: `${newAdminEmail} has been added as an admin user.`,
-    });
+    if (result.emailed) {
+      toast({
+        title: "Invitation Sent",
+        description: `${newAdminEmail} has been invited as ${ADMIN_ROLES[newAdminRole].label}. The link is valid for 7 days.`,
+      });
+    } else {
+      toast({
+        title: "Invitation Created",
+        description: "The invitation was saved but the email could not be sent. Check the mail settings and invite again.",
+        variant: "destructive"
+      });
+    }
 
     setNewAdminEmail('');
+    setNewAdminRole('support');
     setDialogOpen(false);
+    loadAdminUsers();
   };
 
-  const removeAdminUser = (email: string) => {
-    if (defaultAdmins.includes(email)) {
+  const removeAdminUser = async (email: string) => {
+    if (isCurrentAdmin(email)) {
       toast({
         title: "Cannot Remove",
-        description: "Default admin users cannot be removed.",
+        description: "You cannot remove yourself from admin users.",
         variant: "destructive"
       });
       return;
     }
 
-    if (email === currentAdminEmail) {
+    if (!confirm(`Remove admin access for ${email}?`)) return;
+
+    const result = await setAdminAccess(email, null);
+    if (!result.success) {
       toast({
-        title: "Cannot Remove",
-        description: "You cannot remove yourself from admin users.",
+        title: "Error",
+        description: result.message || "Failed to remove admin user.",
         variant: "destructive"
       });
       return;
     }
 
-    const updatedAdmins = adminUsers.filter(admin => admin.email !== email);
-    setAdminUsers(updatedAdmins);
-    localStorage.setItem('admin_users', JSON.stringify(updatedAdmins));
-
+    setAdminUsers(prev => prev.filter(admin => admin.email !== email));
     toast({
       title: "Success",
       description: `${email} has been removed from admin users.`,
     });
   };
 
+  const cancelInvite = async (invite: AdminInvite) => {
+    if (!confirm(`Revoke the invitation for ${invite.email}?`)) return;
+
+    const result = await revokeAdminInvite(invite.id);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to revoke invitation.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setInvites(prev => prev.map(existing => existing.id === invite.id ? { ...existing, status: 'revoked' } : existing));
+    toast({
+      title: "Success",
+      description: `The invitation for ${invite.email} has been revoked.`,
+    });
+  };
+
+  const resetTwoFactor = async (admin: AdminUser) => {
+    if (!confirm(`Reset two-factor authentication for ${admin.email}? They will be signed out and must set up a new authenticator.`)) return;
+
+    const result = await resetAdminMfa(admin.email);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to reset two-factor authentication.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setAdminUsers(prev => prev.map(existing => existing.uid === admin.uid ? { ...existing, mfaEnabled: false } : existing));
+    toast({
+      title: "Success",
+      description: `Two-factor authentication for ${admin.email} has been reset.`,
+    });
+  };
+
+  const changeAdminRole = async (admin: AdminUser, role: AdminRole) => {
+    const result = await setAdminAccess(admin.email, role);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to change role.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setAdminUsers(prev => prev.map(existing => existing.uid === admin.uid ? { ...existing, role } : existing));
+    toast({
+      title: "Success",
+      description: `${admin.email} is now ${ADMIN_ROLES[role].label}. The change applies at their next sign in.`,
+    });
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -145,14 +216,14 @@ const AdminUserManager = ({ currentAdminEmail }: AdminUserManagerProps) => {
             <DialogTrigger asChild>
               <Button>
                 <UserPlus className="h-4 w-4 mr-2" />
-                Add Admin User
+                Invite Admin
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Add New Admin User</DialogTitle>
+                <DialogTitle>Invite Admin User</DialogTitle>
                 <DialogDescription>
-                  Enter the email address of the user you want to grant admin access to.
+                  We'll email a sign-in link that is valid for 7 days. It only works for an account with this email address.
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
@@ -166,9 +237,25 @@ const AdminUserManager = ({ currentAdminEmail }: AdminUserManagerProps) => {
                     onChange={(e) => setNewAdminEmail(e.target.value)}
                   />
                 </div>
+                <div>
+                  <Label>Role</Label>
+                  <Select value={newAdminRole} onValueChange={(value) => setNewAdminRole(value as AdminRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ADMIN_ROLE_OPTIONS.map(role => (
+                        <SelectItem key={role} value={role}>
+                          {ADMIN_ROLES[role].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">{ADMIN_ROLES[newAdminRole].description}</p>
+                </div>
                 <div className="flex gap-2">
-                  <Button onClick={addAdminUser} className="flex-1">
-                    Add Admin User
+                  <Button onClick={sendInvite} className="flex-1" disabled={saving}>
+                    {saving ? "Sending..." : "Send Invitation"}
                   </Button>
                   <Button variant="outline" onClick={() => setDialogOpen(false)}>
                     Cancel
@@ -179,60 +266,159 @@ const AdminUserManager = ({ currentAdminEmail }: AdminUserManagerProps) => {
           </Dialog>
         </div>
 
-        <div className="border rounded-lg">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Email Address</TableHead>
-                <TableHead>Added By</TableHead>
-                <TableHead>Added Date</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {adminUsers.map((admin) => (
-                <TableRow key={admin.email}>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      <Mail className="h-4 w-4 text-gray-400" />
-                      <span className="font-medium">{admin.email}</span>
-                      {admin.email === currentAdminEmail && (
-                        <Badge variant="secondary" className="text-xs">You</Badge>
-                      )}
-                    </div>
-                  </TableCell>
-                  <TableCell>{admin.addedBy}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      <Calendar className="h-4 w-4 text-gray-400" />
-                      {new Date(admin.addedAt).toLocaleDateString()}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge 
-                      variant={defaultAdmins.includes(admin.email) ? "default" : "secondary"}
-                    >
-                      {defaultAdmins.includes(admin.email) ? "Default Admin" : "Added Admin"}
-                    </Badge>
-                  </TableCell>
-                  <TableCell>
-                    {!defaultAdmins.includes(admin.email) && admin.email !== currentAdminEmail && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeAdminUser(admin.email)}
-                        className="text-red-600 hover:text-red-800"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    )}
-                  </TableCell>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-10 bg-gray-200 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email Address</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Added By</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead>Last Login</TableHead>
+                  <TableHead>2FA</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </div>
+              </TableHeader>
+              <TableBody>
+                {adminUsers.map((admin) => (
+                  <TableRow key={admin.uid}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Mail className="h-4 w-4 text-gray-400" />
+                        <span className="font-medium">{admin.email}</span>
+                        {isCurrentAdmin(admin.email) && (
+                          <Badge variant="secondary" className="text-xs">You</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {isCurrentAdmin(admin.email) ? (
+                        <Badge>{admin.role ? ADMIN_ROLES[admin.role].label : 'No role'}</Badge>
+                      ) : (
+                        <Select
+                          value={admin.role || undefined}
+                          onValueChange={(value) => changeAdminRole(admin, value as AdminRole)}
+                        >
+                          <SelectTrigger className="w-[150px]">
+                            <SelectValue placeholder="No role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ADMIN_ROLE_OPTIONS.map(role => (
+                              <SelectItem key={role} value={role}>
+                                {ADMIN_ROLES[role].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{admin.addedBy}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4 text-gray-400" />
+                        {admin.addedAt.toLocaleDateString()}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {admin.lastLogin ? admin.lastLogin.toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={admin.mfaEnabled ? 'secondary' : 'outline'}>
+                        {admin.mfaEnabled ? 'Enabled' : 'Not set up'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {!isCurrentAdmin(admin.email) && admin.mfaEnabled && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => resetTwoFactor(admin)}
+                          title="Reset two-factor authentication"
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {!isCurrentAdmin(admin.email) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeAdminUser(admin.email)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {!loading && invites.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-lg font-medium mb-1">Invitations</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {invites.filter(invite => invite.status === 'pending').length} pending
+            </p>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email Address</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Invited By</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invites.map((invite) => (
+                    <TableRow key={invite.id}>
+                      <TableCell className="font-medium">{invite.email}</TableCell>
+                      <TableCell>{ADMIN_ROLES[invite.role]?.label || invite.role}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{invite.invitedBy}</TableCell>
+                      <TableCell>
+                        <Badge variant={INVITE_STATUS_VARIANTS[invite.status]} className="capitalize">
+                          {invite.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 text-sm">
+                          <Clock className="h-4 w-4 text-gray-400" />
+                          {invite.status === 'accepted' && invite.acceptedAt
+                            ? `Accepted ${invite.acceptedAt.toLocaleDateString()}`
+                            : invite.expiresAt.toLocaleDateString()}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {invite.status === 'pending' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => cancelInvite(invite)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
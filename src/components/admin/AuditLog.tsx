@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Search, Download, ScrollText, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import {
+  getAuditLog,
+  auditLogToCsv,
+  describeAuditChanges,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  AuditAction,
+  AuditEntry,
+  AuditTargetType
+} from "@/lib/audit-service";
+
+const AUDIT_LOG_LIMIT = 500;
+
+const AuditLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [targetFilter, setTargetFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const { toast } = useToast();
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    console.log("🔄 Fetching audit log...");
+    const result = await getAuditLog({
+      from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+      max: AUDIT_LOG_LIMIT,
+    });
+    setEntries(result);
+    setLoading(false);
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredEntries = entries.filter(entry =>
+    (actionFilter === "all" || entry.action === actionFilter) &&
+    (targetFilter === "all" || entry.targetType === targetFilter) &&
+    (!search ||
+      entry.actorEmail.toLowerCase().includes(search) ||
+      entry.targetId.toLowerCase().includes(search) ||
+      entry.note.toLowerCase().includes(search) ||
+      JSON.stringify([entry.before, entry.after]).toLowerCase().includes(search))
+  );
+
+  const exportCsv = () => {
+    if (filteredEntries.length === 0) {
+      toast({
+        title: "Nothing to Export",
+        description: "No audit entries match the current filters.",
+      });
+      return;
+    }
+
+    const blob = new Blob([auditLogToCsv(filteredEntries)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ScrollText className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Every privileged admin action, newest first. Entries can't be edited or deleted.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchEntries} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button onClick={exportCsv} disabled={loading}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+          <div className="md:col-span-2">
+            <Label htmlFor="auditSearch">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="auditSearch"
+                placeholder="Admin email, order ID, value..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>
+                    {AUDIT_ACTION_LABELS[action]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Target</Label>
+            <Select value={targetFilter} onValueChange={setTargetFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All targets</SelectItem>
+                {(Object.keys(AUDIT_TARGET_LABELS) as AuditTargetType[]).map(target => (
+                  <SelectItem key={target} value={target}>
+                    {AUDIT_TARGET_LABELS[target]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="auditFrom">From</Label>
+              <Input id="auditFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="auditTo">To</Label>
+              <Input id="auditTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3, 4, 5].map(i => (
+              <div key={i} className="h-12 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No audit entries match these filters.
+          </div>
+        ) : (
+          <>
+            <div className="border rounded-lg overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(entry.createdAt, 'dd MMM yyyy, h:mm a')}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.actorEmail || '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="text-gray-500">{AUDIT_TARGET_LABELS[entry.targetType] || entry.targetType}</div>
+                        <div className="font-mono text-xs break-all">{entry.targetId}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <ul className="space-y-0.5">
+                          {describeAuditChanges(entry).map(change => (
+                            <li key={change} className="font-mono break-all">{change}</li>
+                          ))}
+                        </ul>
+                        {entry.note && <p className="text-gray-500 mt-1">Note: {entry.note}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {entries.length >= AUDIT_LOG_LIMIT && (
+              <p className="text-xs text-gray-500 mt-3">
+                Showing the latest {AUDIT_LOG_LIMIT} entries. Narrow the date range to see older ones.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLog;
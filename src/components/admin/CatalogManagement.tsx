@@ -0,0 +1,584 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BookOpen, Plus, Pencil, Trash2, Upload, X, Tags } from "lucide-react";
+import SpecificationForm from "@/components/user/SpecificationForm";
+import {
+  getCatalog,
+  getProductImage,
+  newCatalogProductId,
+  publishDefaultCatalog,
+  saveCatalogProduct,
+  saveCatalogCategory,
+  deleteCatalogCategory,
+  toCategoryId,
+  HSN_CODE_PATTERN,
+  Catalog,
+  CatalogProduct
+} from "@/lib/catalog-service";
+import { getCurrentPricing, getProductLabel, PricingVersion } from "@/lib/pricing-service";
+import { PRODUCT_SPEC_SCHEMAS, cleanSpec, getSpecFields, validateSpec, ProductSpec } from "@/lib/product-specs";
+import { getHsnCode } from "@/lib/tax-service";
+import { CATALOG_IMAGE_ACCEPT, uploadCatalogImage, validateCatalogImage } from "@/lib/storage-service";
+
+interface CatalogManagementProps {
+  currentAdminEmail: string;
+}
+
+const PRODUCT_TYPES = Object.keys(PRODUCT_SPEC_SCHEMAS);
+
+const emptyProduct = (sortOrder: number): CatalogProduct => ({
+  id: newCatalogProductId(),
+  name: "",
+  productType: PRODUCT_TYPES[0],
+  description: "",
+  categoryIds: [],
+  images: [],
+  hsnCode: getHsnCode(PRODUCT_TYPES[0]),
+  defaultSpec: {},
+  active: true,
+  featured: false,
+  sortOrder,
+});
+
+const CatalogManagement = ({ currentAdminEmail }: CatalogManagementProps) => {
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const [pricing, setPricing] = useState<PricingVersion | null>(null);
+  const [editing, setEditing] = useState<CatalogProduct | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [specErrors, setSpecErrors] = useState<Record<string, string>>({});
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [result, currentPricing] = await Promise.all([getCatalog({ includeInactive: true }), getCurrentPricing()]);
+      setCatalog(result);
+      setPricing(currentPricing);
+    } catch (error) {
+      console.error("❌ Error fetching catalog:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the catalog",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  const isDefault = catalog?.source === 'default';
+  const categoryName = (id: string) => catalog?.categories.find(c => c.id === id)?.name || id;
+
+  // Every field is optional here: the default spec only pre-fills the order form
+  const specFields = editing
+    ? getSpecFields(editing.productType, pricing?.rateCards[editing.productType]).map(field => ({ ...field, required: false }))
+    : [];
+
+  const updateEditing = (changes: Partial<CatalogProduct>) => {
+    setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const openNew = () => {
+    setEditing(emptyProduct((catalog?.products.length ?? 0) + 1));
+    setIsNew(true);
+    setSpecErrors({});
+  };
+
+  const openEdit = (product: CatalogProduct) => {
+    setEditing(JSON.parse(JSON.stringify(product)));
+    setIsNew(false);
+    setSpecErrors({});
+  };
+
+  const handlePublish = async () => {
+    setSaving(true);
+    const result = await publishDefaultCatalog(currentAdminEmail);
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Catalog Published",
+        description: "The built-in products are now stored in Firestore and can be edited."
+      });
+      await fetchCatalog();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to publish the catalog",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const persistProduct = async (product: CatalogProduct, successMessage: string): Promise<boolean> => {
+    setSaving(true);
+    const result = await saveCatalogProduct(product, currentAdminEmail);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to save the product",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    toast({ title: "Catalog Updated", description: successMessage });
+    await fetchCatalog();
+    return true;
+  };
+
+  const handleSaveProduct = async () => {
+    if (!editing) return;
+
+    let validationError: string | null = null;
+    if (!editing.name.trim()) validationError = "Enter a product name";
+    else if (!HSN_CODE_PATTERN.test(editing.hsnCode)) validationError = "HSN code must have 4, 6 or 8 digits";
+    else if (!(editing.sortOrder >= 0)) validationError = "Sort order can't be negative";
+
+    const errors = validateSpec(specFields, editing.defaultSpec);
+    setSpecErrors(errors);
+    if (!validationError && Object.keys(errors).length > 0) validationError = "Fix the highlighted default specification fields";
+
+    if (validationError) {
+      toast({
+        title: "Invalid Product",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const saved = await persistProduct(
+      {
+        ...editing,
+        name: editing.name.trim(),
+        description: editing.description.trim(),
+        defaultSpec: cleanSpec(specFields, editing.defaultSpec),
+      },
+      `${editing.name.trim()} saved`
+    );
+    if (saved) setEditing(null);
+  };
+
+  const handleToggle = (product: CatalogProduct, field: 'active' | 'featured', value: boolean) => {
+    const label = field === 'active' ? (value ? 'is now shown' : 'is now hidden') : (value ? 'is now featured' : 'is no longer featured');
+    persistProduct({ ...product, [field]: value }, `${product.name} ${label}`);
+  };
+
+  const handleProductTypeChange = (productType: string) => {
+    updateEditing({ productType, hsnCode: getHsnCode(productType), defaultSpec: {} });
+    setSpecErrors({});
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !editing) return;
+
+    const validation = validateCatalogImage(file);
+    if (!validation.valid) {
+      toast({
+        title: "Invalid Image",
+        description: validation.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const url = await uploadCatalogImage(file, editing.id);
+      updateEditing({ images: [...editing.images, url] });
+    } catch (error) {
+      console.error("❌ Error uploading catalog image:", error);
+      toast({
+        title: "Upload Failed",
+        description: "Failed to upload the image",
+        variant: "destructive"
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleAddCategory = async () => {
+    const name = newCategoryName.trim();
+    const id = toCategoryId(name);
+    if (!name || !id) return;
+
+    if (catalog?.categories.some(c => c.id === id)) {
+      toast({
+        title: "Category Exists",
+        description: `There is already a category called ${categoryName(id)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    const result = await saveCatalogCategory({ id, name, sortOrder: (catalog?.categories.length ?? 0) + 1 });
+    setSaving(false);
+
+    if (result.success) {
+      setNewCategoryName("");
+      await fetchCatalog();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to save the category",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteCategory = async (id: string) => {
+    const category = catalog?.categories.find(c => c.id === id);
+    if (!category) return;
+
+    const usedBy = catalog?.products.filter(p => p.categoryIds.includes(id)) || [];
+    if (usedBy.length > 0) {
+      toast({
+        title: "Category In Use",
+        description: `Remove ${category.name} from ${usedBy.map(p => p.name).join(', ')} first`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    const result = await deleteCatalogCategory(category);
+    setSaving(false);
+
+    if (result.success) {
+      await fetchCatalog();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to delete the category",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading || !catalog) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded mb-4"></div>
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-100 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {isDefault && (
+        <Card className="border-amber-200 bg-amber-50">
+          <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-amber-800">
+              The site is showing the built-in product list. Publish it to Firestore to start editing products and categories.
+            </p>
+            <Button onClick={handlePublish} disabled={saving}>
+              {saving ? "Publishing..." : "Publish Catalog"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5" />
+                Product Catalog
+              </CardTitle>
+              <CardDescription>
+                Active products appear in the order form and portfolio; featured ones also on the home page
+              </CardDescription>
+            </div>
+            <Button onClick={openNew} disabled={isDefault}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Product
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>HSN</TableHead>
+                  <TableHead>Categories</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Featured</TableHead>
+                  <TableHead className="w-16"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {catalog.products.map(product => (
+                  <TableRow key={product.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <img src={getProductImage(product)} alt="" className="h-10 w-10 rounded object-cover bg-gray-100" />
+                        <span className="font-medium">{product.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>{getProductLabel(product.productType)}</TableCell>
+                    <TableCell className="font-mono text-sm">{product.hsnCode}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {product.categoryIds.map(id => (
+                          <Badge key={id} variant="secondary">{categoryName(id)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={product.active}
+                        onCheckedChange={(checked) => handleToggle(product, 'active', checked)}
+                        disabled={isDefault || saving}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={product.featured}
+                        onCheckedChange={(checked) => handleToggle(product, 'featured', checked)}
+                        disabled={isDefault || saving}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(product)} disabled={isDefault}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Categories
+          </CardTitle>
+          <CardDescription>Used as the portfolio filters</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {catalog.categories.map(category => (
+              <Badge key={category.id} variant="outline" className="flex items-center gap-1 py-1">
+                {category.name}
+                {!isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteCategory(category.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    disabled={saving}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex gap-2 max-w-md">
+            <Input
+              placeholder="New category name"
+              value={newCategoryName}
+              onChange={(e) => setNewCategoryName(e.target.value)}
+              disabled={isDefault}
+            />
+            <Button variant="outline" onClick={handleAddCategory} disabled={isDefault || saving || !newCategoryName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isNew ? "Add Product" : `Edit ${editing?.name}`}</DialogTitle>
+            <DialogDescription>
+              Changes show on the site straight away. Orders already placed keep their own copy.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="catalogName">Name</Label>
+                  <Input
+                    id="catalogName"
+                    value={editing.name}
+                    onChange={(e) => updateEditing({ name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Product Type</Label>
+                  <Select value={editing.productType} onValueChange={handleProductTypeChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRODUCT_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>
+                          {getProductLabel(type)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">Decides the rate card and specification fields</p>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="catalogDescription">Description</Label>
+                <Textarea
+                  id="catalogDescription"
+                  rows={3}
+                  value={editing.description}
+                  onChange={(e) => updateEditing({ description: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="catalogHsn">HSN Code</Label>
+                  <Input
+                    id="catalogHsn"
+                    value={editing.hsnCode}
+                    onChange={(e) => updateEditing({ hsnCode: e.target.value.trim() })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="catalogSortOrder">Sort Order</Label>
+                  <Input
+                    id="catalogSortOrder"
+                    type="number"
+                    min="0"
+                    value={editing.sortOrder}
+                    onChange={(e) => updateEditing({ sortOrder: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Categories</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {catalog.categories.map(category => (
+                    <div key={category.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`category-${category.id}`}
+                        checked={editing.categoryIds.includes(category.id)}
+                        onCheckedChange={(checked) => updateEditing({
+                          categoryIds: checked
+                            ? [...editing.categoryIds, category.id]
+                            : editing.categoryIds.filter(id => id !== category.id)
+                        })}
+                      />
+                      <Label htmlFor={`category-${category.id}`} className="font-normal">{category.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label>Images</Label>
+                <p className="text-xs text-gray-500 mb-2">The first image is the cover. PNG, JPEG or WebP up to 5MB.</p>
+                <div className="flex flex-wrap gap-3">
+                  {editing.images.map(url => (
+                    <div key={url} className="relative">
+                      <img src={url} alt="" className="h-20 w-20 rounded object-cover border" />
+                      <button
+                        type="button"
+                        onClick={() => updateEditing({ images: editing.images.filter(image => image !== url) })}
+                        className="absolute -top-2 -right-2 bg-white rounded-full border p-0.5 text-gray-500 hover:text-red-600"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <label className="h-20 w-20 rounded border-2 border-dashed flex flex-col items-center justify-center text-xs text-gray-500 cursor-pointer hover:border-primary">
+                    <Upload className="h-4 w-4 mb-1" />
+                    {uploading ? "Uploading..." : "Add"}
+                    <input type="file" accept={CATALOG_IMAGE_ACCEPT} className="hidden" onChange={handleImageUpload} disabled={uploading} />
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <Label>Default Specification</Label>
+                <p className="text-xs text-gray-500 mb-2">Pre-filled when a customer picks this product; they can change it</p>
+                <SpecificationForm
+                  fields={specFields}
+                  value={editing.defaultSpec}
+                  errors={specErrors}
+                  onChange={(defaultSpec: ProductSpec) => updateEditing({ defaultSpec })}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center space-x-2">
+                  <Switch id="catalogActive" checked={editing.active} onCheckedChange={(active) => updateEditing({ active })} />
+                  <Label htmlFor="catalogActive">Active</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch id="catalogFeatured" checked={editing.featured} onCheckedChange={(featured) => updateEditing({ featured })} />
+                  <Label htmlFor="catalogFeatured">Featured on home page</Label>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleSaveProduct} className="flex-1" disabled={saving || uploading}>
+                  {saving ? "Saving..." : "Save Product"}
+                </Button>
+                <Button variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CatalogManagement;
@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Save } from "lucide-react";
+import {
+  getInvoiceSettings,
+  getLastInvoiceSequence,
+  saveInvoiceSeriesPrefix,
+  getFinancialYear,
+  formatInvoiceNumber,
+  isValidSeriesPrefix
+} from "@/lib/invoice-numbering";
+
+interface InvoiceSettingsProps {
+  currentAdminEmail: string;
+}
+
+const InvoiceSettings = ({ currentAdminEmail }: InvoiceSettingsProps) => {
+  const [savedPrefix, setSavedPrefix] = useState("");
+  const [prefix, setPrefix] = useState("");
+  const [lastSequence, setLastSequence] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const financialYear = getFinancialYear();
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const settings = await getInvoiceSettings();
+      setSavedPrefix(settings.seriesPrefix);
+      setPrefix(settings.seriesPrefix);
+      setLastSequence(await getLastInvoiceSequence(settings.seriesPrefix, financialYear));
+    } catch (error) {
+      console.error("❌ Error fetching invoice settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoice settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [financialYear, toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const normalizedPrefix = prefix.trim().toUpperCase();
+  const prefixValid = isValidSeriesPrefix(normalizedPrefix);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await saveInvoiceSeriesPrefix(normalizedPrefix, currentAdminEmail);
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Invoice Series Updated",
+        description: `New invoices will be numbered ${normalizedPrefix}/${financialYear}/...`
+      });
+      await fetchSettings();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to save invoice settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded mb-4"></div>
+            <div className="h-12 bg-gray-100 rounded"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Invoice Numbering
+        </CardTitle>
+        <CardDescription>
+          GST invoices are numbered sequentially per financial year. Last issued in {financialYear}:{" "}
+          <span className="font-mono">
+            {lastSequence > 0 ? formatInvoiceNumber(savedPrefix, financialYear, lastSequence) : "none yet"}
+          </span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="flex-1">
+            <Label htmlFor="seriesPrefix">Series Prefix</Label>
+            <Input
+              id="seriesPrefix"
+              value={prefix}
+              maxLength={8}
+              onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div className="flex-1">
+            <Label>Next Invoice Number</Label>
+            <div className="h-10 flex items-center font-mono text-sm">
+              {prefixValid
+                ? formatInvoiceNumber(normalizedPrefix, financialYear, normalizedPrefix === savedPrefix ? lastSequence + 1 : 1)
+                : "—"}
+            </div>
+          </div>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !prefixValid || normalizedPrefix === savedPrefix}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save Prefix"}
+          </Button>
+        </div>
+        {!prefixValid && (
+          <p className="text-sm text-red-600">Use 1-8 characters: A-Z, 0-9 or '-'. The prefix can't end in -CN, which marks credit notes.</p>
+        )}
+        {prefixValid && normalizedPrefix !== savedPrefix && (
+          <p className="text-sm text-amber-700">
+            Changing the prefix starts a separate series for {normalizedPrefix}. Switching back later continues the old series where it left off.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceSettings;
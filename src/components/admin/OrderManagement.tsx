@@ -9,18 +9,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Search, Edit, Eye, Package, XCircle } from "lucide-react";
-import { collection, getDocs, doc, deleteDoc, orderBy, query } from "firebase/firestore";
+import { collection, getDoc, getDocs, doc, orderBy, query, writeBatch } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { SimpleOrderData } from "@/lib/invoice-service";
-import { updateOrderStatus as updateOrderStatusService } from "@/lib/admin-service";
+import { SimpleOrderData, getOrderLines } from "@/lib/invoice-service";
+import { describeOrderProducts, getLineLabel } from "@/lib/pricing-service";
+import { formatAddress } from "@/lib/address-service";
+import { formatSpec } from "@/lib/product-specs";
+import {
+  updateOrderStatus as updateOrderStatusService,
+  updatePaymentStatus as updatePaymentStatusService
+} from "@/lib/admin-service";
 import { 
   getOrderStatusBadge, 
   getPaymentStatusBadge, 
-  OrderStatus, 
+  MANUAL_PAYMENT_STATUSES,
   PaymentStatus,
   ORDER_STATUS_CONFIG,
   PAYMENT_STATUS_CONFIG
 } from "@/lib/order-status-utils";
+import { OrderStatus, ORDER_STATUSES, resolveOrderStatus, getAllowedTransitions } from "@/lib/order-lifecycle";
+import { getOrderEvents, getOrderEventLabel, OrderEvent } from "@/lib/order-history-service";
+import { auditEntryData, deletionAuditEntryRef } from "@/lib/audit-service";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasPermission } from "@/lib/admin-roles";
+import { ShipmentInput } from "@/lib/courier-service";
+import ShipmentForm from "@/components/admin/ShipmentForm";
+import ShipmentTracking from "@/components/shared/ShipmentTracking";
+
+const paymentStatusOf = (order: SimpleOrderData) => (order.paymentStatus || 'pending') as PaymentStatus;
 
 const OrderManagement = () => {
   const [orders, setOrders] = useState<SimpleOrderData[]>([]);
@@ -30,6 +46,14 @@ const OrderManagement = () => {
   const [statusFilter, setStatusFilter] = useState("all");
   const [selectedOrder, setSelectedOrder] = useState<SimpleOrderData | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [statusNote, setStatusNote] = useState("");
+  const [shipping, setShipping] = useState(false);
+  const [orderEvents, setOrderEvents] = useState<OrderEvent[]>([]);
+  const [loadingEvents, setLoadingEvents] = useState(false);
+  const { adminRole } = useAuth();
+  const canMoveOrders = hasPermission(adminRole, 'orders.status');
+  const canEditPayments = hasPermission(adminRole, 'payments.status');
+  const canDeleteOrders = hasPermission(adminRole, 'orders.delete');
   const { toast } = useToast();
 
   useEffect(() => {
@@ -49,7 +73,8 @@ const OrderManagement = () => {
       );
       const ordersData = ordersSnapshot.docs.map(doc => ({
         id: doc.id,
-        ...doc.data()
+        ...doc.data(),
+        status: resolveOrderStatus(doc.data())
       })) as SimpleOrderData[];
       
       console.log("✅ [ORDER-MANAGEMENT] Orders fetched:", ordersData.length);
@@ -85,7 +110,21 @@ const OrderManagement = () => {
     setFilteredOrders(filtered);
   };
 
-  const updateOrderStatus = async (orderId: string, newStatus: string, paymentStatus?: string) => {
+  const fetchOrderEvents = async (orderId: string) => {
+    setLoadingEvents(true);
+    setOrderEvents(await getOrderEvents(orderId));
+    setLoadingEvents(false);
+  };
+
+  const openOrder = (order: SimpleOrderData) => {
+    setSelectedOrder(order);
+    setStatusNote("");
+    setShipping(false);
+    setOrderEvents([]);
+    fetchOrderEvents(order.id!);
+  };
+
+  const updateOrderStatus = async (orderId: string, newStatus: string, paymentStatus?: string, shipment?: ShipmentInput) => {
     if (isUpdating) {
       console.log("🔄 Update already in progress, skipping...");
       return;
@@ -101,12 +140,18 @@ const OrderManagement = () => {
         description: "Updating order status, please wait...",
       });
       
-      // Use the centralized admin service with proper typing
-      const result = await updateOrderStatusService(
-        orderId, 
-        newStatus as OrderStatus, 
-        paymentStatus as PaymentStatus
-      );
+      // Use the centralized admin service with proper typing. A payment-only
+      // change goes through its own call so finance admins never write the status.
+      const paymentOnly = paymentStatus && newStatus === selectedOrder?.status;
+      const result = paymentOnly
+        ? await updatePaymentStatusService(orderId, paymentStatus as PaymentStatus, statusNote)
+        : await updateOrderStatusService(
+            orderId, 
+            newStatus as OrderStatus, 
+            paymentStatus as PaymentStatus,
+            statusNote,
+            shipment
+          );
       
       if (!result.success) {
         throw new Error(result.message || "Failed to update order status");
@@ -123,12 +168,20 @@ const OrderManagement = () => {
       console.log("🔄 [ORDER-MANAGEMENT] Refreshing orders from database...");
       await fetchOrders();
       
-      // Update selected order if it's currently being viewed
+      // Update selected order if it's currently being viewed. It is read back so
+      // the shipment shows what the function stored, not a copy built here.
       if (selectedOrder && selectedOrder.id === orderId) {
-        const updatedOrder = orders.find(order => order.id === orderId);
-        if (updatedOrder) {
-          setSelectedOrder(updatedOrder);
+        const orderDoc = await getDoc(doc(db, "orders", orderId));
+        if (orderDoc.exists()) {
+          setSelectedOrder({
+            id: orderDoc.id,
+            ...orderDoc.data(),
+            status: resolveOrderStatus(orderDoc.data())
+          } as SimpleOrderData);
         }
+        setStatusNote("");
+        setShipping(false);
+        await fetchOrderEvents(orderId);
       }
       
       console.log("✅ [ORDER-MANAGEMENT] Update process completed");
@@ -148,11 +201,28 @@ const OrderManagement = () => {
     }
   };
 
-  const deleteOrder = async (orderId: string) => {
+  const deleteOrder = async (order: SimpleOrderData) => {
     if (!confirm("Are you sure you want to delete this order?")) return;
 
+    const orderId = order.id!;
     try {
-      await deleteDoc(doc(db, "orders", orderId));
+      // The audit entry keeps enough of the order to identify it afterwards
+      const batch = writeBatch(db);
+      batch.delete(doc(db, "orders", orderId));
+      batch.set(deletionAuditEntryRef('order', orderId), auditEntryData({
+        action: 'order.delete',
+        targetType: 'order',
+        targetId: orderId,
+        before: {
+          status: resolveOrderStatus(order),
+          paymentStatus: order.paymentStatus || null,
+          customerEmail: order.customerEmail || null,
+          productType: order.productType || null,
+          totalAmount: order.totalAmount ?? null,
+        },
+        after: null,
+      }));
+      await batch.commit();
       setOrders(prevOrders => prevOrders.filter(order => order.id !== orderId));
       
       toast({
@@ -221,15 +291,11 @@ const OrderManagement = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="pending_payment">Pending Payment</SelectItem>
-                <SelectItem value="received">Received</SelectItem>
-                <SelectItem value="processing">Processing</SelectItem>
-                <SelectItem value="shipped">Shipped</SelectItem>
-                <SelectItem value="delivered">Delivered</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="cancelled">Cancelled</SelectItem>
-                <SelectItem value="failed">Failed</SelectItem>
+                {ORDER_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>
+                    {ORDER_STATUS_CONFIG[status].label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -267,7 +333,7 @@ const OrderManagement = () => {
                   </TableCell>
                   <TableCell>
                     <div>
-                      <p className="font-medium">{order.productType}</p>
+                      <p className="font-medium">{describeOrderProducts(order)}</p>
                       <p className="text-sm text-gray-500">Qty: {order.quantity}</p>
                     </div>
                   </TableCell>
@@ -275,10 +341,10 @@ const OrderManagement = () => {
                     ₹{order.totalAmount?.toLocaleString()}
                   </TableCell>
                   <TableCell>
-                    {getOrderStatusBadge((order.status || 'pending') as OrderStatus).component}
+                    {getOrderStatusBadge(order.status).component}
                   </TableCell>
                   <TableCell>
-                    {getPaymentStatusBadge((order.paymentStatus || 'pending') as PaymentStatus).component}
+                    {getPaymentStatusBadge(paymentStatusOf(order)).component}
                   </TableCell>
                   <TableCell>
                     {order.timestamp ? new Date(order.timestamp.seconds ? order.timestamp.seconds * 1000 : order.timestamp).toLocaleDateString() : 'N/A'}
@@ -287,11 +353,11 @@ const OrderManagement = () => {
                     <div className="flex gap-2">
                       <Dialog>
                         <DialogTrigger asChild>
-                          <Button variant="ghost" size="sm" onClick={() => setSelectedOrder(order)}>
+                          <Button variant="ghost" size="sm" onClick={() => openOrder(order)}>
                             <Eye className="h-4 w-4" />
                           </Button>
                         </DialogTrigger>
-                        <DialogContent className="max-w-2xl">
+                        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                           <DialogHeader>
                             <DialogTitle>Order Details</DialogTitle>
                             <DialogDescription>
@@ -309,14 +375,6 @@ const OrderManagement = () => {
                                   <Label>Email</Label>
                                   <p className="font-medium">{selectedOrder.customerEmail}</p>
                                 </div>
-                                <div>
-                                  <Label>Product Type</Label>
-                                  <p className="font-medium">{selectedOrder.productType}</p>
-                                </div>
-                                <div>
-                                  <Label>Quantity</Label>
-                                  <p className="font-medium">{selectedOrder.quantity}</p>
-                                </div>
                                 <div>
                                   <Label>Total Amount</Label>
                                   <p className="font-medium">₹{selectedOrder.totalAmount?.toLocaleString()}</p>
@@ -330,30 +388,80 @@ const OrderManagement = () => {
                                 <Label>Delivery Address</Label>
                                 <p className="font-medium">{selectedOrder.deliveryAddress}</p>
                               </div>
-                              {selectedOrder.specifications && (
+                              {selectedOrder.billingAddress && (
                                 <div>
-                                  <Label>Specifications</Label>
-                                  <p className="font-medium">{selectedOrder.specifications}</p>
+                                  <Label>Billing Address</Label>
+                                  <p className="font-medium">{formatAddress(selectedOrder.billingAddress)}</p>
                                 </div>
                               )}
-                              <div className="flex gap-4 pt-4">
+                              <div>
+                                <Label>Items</Label>
+                                <div className="mt-1 border rounded-lg divide-y">
+                                  {getOrderLines(selectedOrder).map((line, index) => (
+                                    <div key={index} className="p-3 text-sm space-y-1">
+                                      <div className="flex justify-between gap-2">
+                                        <p className="font-medium">
+                                          {getLineLabel(line)} × {line.quantity}
+                                        </p>
+                                        <p className="font-medium">₹{line.subtotal?.toLocaleString()}</p>
+                                      </div>
+                                      <p className="text-gray-500">HSN {line.hsnCode}</p>
+                                      {formatSpec(line.productType, line.spec).length > 0 && (
+                                        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 py-1">
+                                          {formatSpec(line.productType, line.spec).map(([label, value]) => (
+                                            <div key={label} className="flex justify-between gap-2">
+                                              <dt className="text-gray-500">{label}</dt>
+                                              <dd className="font-medium text-right">{value}</dd>
+                                            </div>
+                                          ))}
+                                        </dl>
+                                      )}
+                                      {line.specifications && <p>{line.specifications}</p>}
+                                      {line.fileUrl && (
+                                        <a href={line.fileUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                          {line.fileName || "Design file"}
+                                        </a>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                              {(canMoveOrders || canEditPayments) && (
+                              <div className="pt-4">
+                                <Label htmlFor="status-note">Note (optional)</Label>
+                                <Input
+                                  id="status-note"
+                                  placeholder="Recorded in the order history with the next change"
+                                  value={statusNote}
+                                  onChange={(e) => setStatusNote(e.target.value)}
+                                  disabled={isUpdating}
+                                />
+                              </div>
+                              )}
+                              <div className="flex gap-4">
                                 <div className="flex-1">
                                   <Label>Order Status</Label>
                                   <Select
-                                    value={selectedOrder.status || 'pending'}
+                                    value={selectedOrder.status}
                                     onValueChange={(value) => {
                                       console.log("🔄 [UI] Status change requested:", value);
-                                      updateOrderStatus(selectedOrder.id!, value);
+                                      // Shipping waits for the courier details
+                                      if (value === 'shipped' && selectedOrder.status !== 'shipped') {
+                                        setShipping(true);
+                                      } else {
+                                        updateOrderStatus(selectedOrder.id!, value);
+                                      }
                                     }}
-                                    disabled={isUpdating}
+                                    disabled={isUpdating || !canMoveOrders || getAllowedTransitions(selectedOrder.status).length === 0}
                                   >
                                     <SelectTrigger>
                                       <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                      {Object.entries(ORDER_STATUS_CONFIG).map(([status, config]) => (
+                                      {/* Only the current status and the legal next steps can be picked */}
+                                      {[selectedOrder.status, ...getAllowedTransitions(selectedOrder.status)].map(status => (
                                         <SelectItem key={status} value={status}>
-                                          {config.label}
+                                          {ORDER_STATUS_CONFIG[status].label}
                                         </SelectItem>
                                       ))}
                                     </SelectContent>
@@ -362,44 +470,91 @@ const OrderManagement = () => {
                                 <div className="flex-1">
                                   <Label>Payment Status</Label>
                                   <Select
-                                    value={selectedOrder.paymentStatus || 'pending'}
+                                    value={paymentStatusOf(selectedOrder)}
                                     onValueChange={(value) => {
                                       console.log("🔄 [UI] Payment status change requested:", value);
-                                      updateOrderStatus(selectedOrder.id!, selectedOrder.status || 'pending', value);
+                                      updateOrderStatus(selectedOrder.id!, selectedOrder.status, value);
                                     }}
-                                    disabled={isUpdating}
+                                    disabled={isUpdating || !canEditPayments || !MANUAL_PAYMENT_STATUSES.includes(paymentStatusOf(selectedOrder))}
                                   >
                                     <SelectTrigger>
                                       <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                      {Object.entries(PAYMENT_STATUS_CONFIG).map(([status, config]) => (
+                                      {/* Paid and refunded come only from Razorpay */}
+                                      {[...new Set([paymentStatusOf(selectedOrder), ...MANUAL_PAYMENT_STATUSES])].map(status => (
                                         <SelectItem key={status} value={status}>
-                                          {config.label}
+                                          {PAYMENT_STATUS_CONFIG[status].label}
                                         </SelectItem>
                                       ))}
                                     </SelectContent>
                                   </Select>
                                 </div>
                               </div>
+                              {shipping && (
+                                <ShipmentForm
+                                  onSubmit={(shipment) => updateOrderStatus(selectedOrder.id!, 'shipped', undefined, shipment)}
+                                  onCancel={() => setShipping(false)}
+                                  disabled={isUpdating}
+                                />
+                              )}
+                              {selectedOrder.shipment && (
+                                <div className="border-t pt-4">
+                                  <ShipmentTracking shipment={selectedOrder.shipment} />
+                                </div>
+                              )}
                               {isUpdating && (
                                 <div className="text-center py-2">
                                   <p className="text-sm text-gray-500">Updating order status...</p>
                                 </div>
                               )}
+                              <div className="border-t pt-4">
+                                <Label>History</Label>
+                                {loadingEvents ? (
+                                  <div className="space-y-2 mt-2">
+                                    {[1, 2, 3].map(i => (
+                                      <div key={i} className="h-4 bg-gray-200 rounded animate-pulse" />
+                                    ))}
+                                  </div>
+                                ) : orderEvents.length === 0 ? (
+                                  <p className="text-sm text-gray-500 mt-2">No history recorded for this order.</p>
+                                ) : (
+                                  <ul className="mt-2 space-y-3">
+                                    {orderEvents.map(event => (
+                                      <li key={event.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                                        <div className="flex justify-between gap-4">
+                                          <p className="font-medium">
+                                            {event.from ? `${getOrderEventLabel({ type: event.type, to: event.from })} → ` : ""}
+                                            {getOrderEventLabel(event)}
+                                          </p>
+                                          <span className="text-xs text-gray-500 whitespace-nowrap">
+                                            {event.createdAt.toLocaleString()}
+                                          </span>
+                                        </div>
+                                        <p className="text-xs text-gray-500">
+                                          {event.actorEmail || (event.source === "payment" ? "Payment gateway" : "System")}
+                                        </p>
+                                        {event.note && <p className="text-gray-700 mt-1">{event.note}</p>}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
                             </div>
                           )}
                         </DialogContent>
                       </Dialog>
                       
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteOrder(order.id!)}
-                        className="text-red-600 hover:text-red-800"
-                      >
-                        <XCircle className="h-4 w-4" />
-                      </Button>
+                      {canDeleteOrders && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteOrder(order)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -8,49 +8,59 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Search, DollarSign, Eye, CreditCard, AlertCircle, CheckCircle, XCircle, RefreshCw } from "lucide-react";
-import { collection, getDocs, doc, updateDoc, orderBy, query, where } from "firebase/firestore";
+import { Textarea } from "@/components/ui/textarea";
+import { Search, DollarSign, Eye, CreditCard, AlertCircle, CheckCircle, XCircle, RefreshCw, Undo2, FileText } from "lucide-react";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { useAuth } from "@/contexts/AuthContext";
+import { getPaymentAttempts, PaymentAttempt, updatePaymentStatus as updatePaymentStatusService } from "@/lib/admin-service";
+import { hasPermission } from "@/lib/admin-roles";
+import { getPaymentStatusBadge, MANUAL_PAYMENT_STATUSES, PAYMENT_STATUS_CONFIG, PaymentStatus } from "@/lib/order-status-utils";
+import { getCreditNotePdfUrl, getOrderRefunds, issueCreditNote, refundOrderPayment, RefundRecord } from "@/lib/refund-service";
+import { formatCurrency } from "@/lib/utils";
 
-interface PaymentData {
-  id: string;
-  orderId: string;
-  userId: string;
-  customerName: string;
-  customerEmail: string;
-  amount: number;
-  currency: string;
-  status: string;
-  method: string;
-  paymentId?: string;
-  timestamp: any;
-  refundAmount?: number;
-  refundReason?: string;
-}
+const REFUND_STATUS_COLORS: Record<RefundRecord['status'], string> = {
+  creating: "bg-gray-100 text-gray-800",
+  pending: "bg-yellow-100 text-yellow-800",
+  processed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800"
+};
 
-interface OrderData {
-  id: string;
-  paymentDetails?: {
-    id?: string;
-    method?: string;
-    paymentId?: string;
-  };
-  userId?: string;
-  customerName?: string;
-  customerEmail?: string;
-  totalAmount?: number;
-  paymentStatus?: string;
-  timestamp?: any;
-  [key: string]: any;
+const METHOD_LABELS: Record<string, string> = {
+  upi: "UPI",
+  card: "Card",
+  netbanking: "Netbanking",
+  wallet: "Wallet",
+  emi: "EMI",
+  cardless_emi: "Cardless EMI",
+  paylater: "Pay Later"
+};
+
+// The order behind an attempt, loaded when its dialog opens. The payment
+// status and refunds belong to the order rather than to a single attempt.
+interface OrderPayment {
+  paymentStatus: PaymentStatus;
+  totalAmount: number;
+  refundedAmount: number;
+  refundPendingAmount: number;
+  razorpayPaymentId?: string;
 }
 
 const PaymentManagement = () => {
-  const [payments, setPayments] = useState<PaymentData[]>([]);
-  const [filteredPayments, setFilteredPayments] = useState<PaymentData[]>([]);
+  const [payments, setPayments] = useState<PaymentAttempt[]>([]);
+  const [filteredPayments, setFilteredPayments] = useState<PaymentAttempt[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
-  const [selectedPayment, setSelectedPayment] = useState<PaymentData | null>(null);
+  const [selectedPayment, setSelectedPayment] = useState<PaymentAttempt | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<OrderPayment | null>(null);
+  const { adminRole } = useAuth();
+  const canEditPayments = hasPermission(adminRole, 'payments.status');
+  const canRefund = hasPermission(adminRole, 'payments.refund');
+  const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [refunding, setRefunding] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -63,35 +73,7 @@ const PaymentManagement = () => {
 
   const fetchPayments = async () => {
     try {
-      // Fetch orders with payment details
-      const ordersSnapshot = await getDocs(
-        query(collection(db, "orders"), orderBy("timestamp", "desc"))
-      );
-      
-      const paymentsData: PaymentData[] = [];
-      
-      ordersSnapshot.docs.forEach(doc => {
-        const order: OrderData = { id: doc.id, ...doc.data() };
-        
-        // Only include orders that have payment information
-        if (order.paymentDetails || order.paymentStatus) {
-          paymentsData.push({
-            id: order.paymentDetails?.id || doc.id,
-            orderId: order.id,
-            userId: order.userId || '',
-            customerName: order.customerName || '',
-            customerEmail: order.customerEmail || '',
-            amount: order.totalAmount || 0,
-            currency: 'INR',
-            status: order.paymentStatus || 'pending',
-            method: order.paymentDetails?.method || 'Not specified',
-            paymentId: order.paymentDetails?.paymentId,
-            timestamp: order.timestamp
-          });
-        }
-      });
-      
-      setPayments(paymentsData);
+      setPayments(await getPaymentAttempts());
     } catch (error) {
       console.error("Error fetching payments:", error);
       toast({
@@ -111,7 +93,7 @@ const PaymentManagement = () => {
       filtered = filtered.filter(payment =>
         payment.customerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         payment.customerEmail?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        payment.paymentId?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        payment.razorpayPaymentId.toLowerCase().includes(searchTerm.toLowerCase()) ||
         payment.orderId.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
@@ -123,21 +105,15 @@ const PaymentManagement = () => {
     setFilteredPayments(filtered);
   };
 
-  const updatePaymentStatus = async (paymentId: string, orderId: string, newStatus: string) => {
+  const updatePaymentStatus = async (orderId: string, newStatus: string) => {
     try {
-      await updateDoc(doc(db, "orders", orderId), {
-        paymentStatus: newStatus,
-        lastUpdated: new Date()
-      });
+      const result = await updatePaymentStatusService(orderId, newStatus as PaymentStatus);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
       
       // Update local state
-      setPayments(prevPayments =>
-        prevPayments.map(payment =>
-          payment.id === paymentId
-            ? { ...payment, status: newStatus }
-            : payment
-        )
-      );
+      setSelectedOrder(prev => prev ? { ...prev, paymentStatus: newStatus as PaymentStatus } : prev);
 
       toast({
         title: "Success",
@@ -153,17 +129,125 @@ const PaymentManagement = () => {
     }
   };
 
+  const getRefundableAmount = (order: OrderPayment) =>
+    Math.max(0, Math.round((order.totalAmount - order.refundedAmount - order.refundPendingAmount) * 100) / 100);
+
+  // Only the attempt that actually paid for the order can be refunded
+  const isRefundable = (payment: PaymentAttempt, order: OrderPayment) =>
+    order.razorpayPaymentId === payment.razorpayPaymentId
+    && (order.paymentStatus === 'paid' || order.paymentStatus === 'partial_refund')
+    && getRefundableAmount(order) > 0;
+
+  const openPayment = async (payment: PaymentAttempt) => {
+    setSelectedPayment(payment);
+    setSelectedOrder(null);
+    setRefundReason("");
+    setRefunds([]);
+
+    const orderSnapshot = await getDoc(doc(db, "orders", payment.orderId));
+    if (orderSnapshot.exists()) {
+      const data = orderSnapshot.data();
+      const order: OrderPayment = {
+        paymentStatus: data.paymentStatus || 'pending',
+        totalAmount: data.totalAmount || 0,
+        refundedAmount: data.refundedAmount || 0,
+        refundPendingAmount: data.refundPendingAmount || 0,
+        razorpayPaymentId: data.razorpayPaymentId
+      };
+      setSelectedOrder(order);
+      setRefundAmount(getRefundableAmount(order).toString());
+    }
+    setRefunds(await getOrderRefunds(payment.orderId));
+  };
+
+  const handleRefund = async () => {
+    if (!selectedPayment || !selectedOrder) return;
+
+    const amount = Number(refundAmount);
+    const refundable = getRefundableAmount(selectedOrder);
+    if (!amount || amount < 1 || amount > refundable) {
+      toast({
+        title: "Invalid amount",
+        description: `Enter an amount between ₹1 and ${formatCurrency(refundable)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setRefunding(true);
+    const result = await refundOrderPayment(selectedPayment.orderId, amount, refundReason.trim());
+    if (!result.success) {
+      setRefunding(false);
+      toast({
+        title: "Refund failed",
+        description: result.message || "Failed to refund payment",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const refundedAmount = result.refundedAmount ?? selectedOrder.refundedAmount + amount;
+    const updatedOrder = {
+      ...selectedOrder,
+      paymentStatus: result.paymentStatus || selectedOrder.paymentStatus,
+      refundedAmount
+    };
+    const updatedPayment: PaymentAttempt = {
+      ...selectedPayment,
+      status: updatedOrder.paymentStatus === 'refunded' ? 'refunded' : selectedPayment.status,
+      refundedAmount
+    };
+    setPayments(prevPayments => prevPayments.map(payment => payment.id === updatedPayment.id ? updatedPayment : payment));
+    setSelectedPayment(updatedPayment);
+    setSelectedOrder(updatedOrder);
+    setRefundAmount(getRefundableAmount(updatedOrder).toString());
+    setRefundReason("");
+
+    toast({
+      title: "Refund issued",
+      description: `${formatCurrency(amount)} refunded (${result.razorpayRefundId})`
+    });
+
+    if (result.refundId && result.creditNoteNumber) {
+      const creditNoteResult = await issueCreditNote(result.refundId);
+      if (!creditNoteResult.success) {
+        toast({
+          title: "Credit note not sent",
+          description: creditNoteResult.message || `Credit note ${result.creditNoteNumber} could not be emailed`,
+          variant: "destructive"
+        });
+      }
+    }
+
+    setRefunds(await getOrderRefunds(updatedPayment.orderId));
+    setRefunding(false);
+  };
+
+  const openCreditNote = async (refund: RefundRecord) => {
+    try {
+      const url = await getCreditNotePdfUrl(refund);
+      if (url) {
+        window.open(url, '_blank', 'noopener,noreferrer');
+      }
+    } catch (error) {
+      console.error("❌ Error opening credit note:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open credit note",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
-      pending: { color: "bg-yellow-100 text-yellow-800", icon: AlertCircle },
-      paid: { color: "bg-green-100 text-green-800", icon: CheckCircle },
-      completed: { color: "bg-green-100 text-green-800", icon: CheckCircle },
+      authorized: { color: "bg-yellow-100 text-yellow-800", icon: AlertCircle },
+      captured: { color: "bg-green-100 text-green-800", icon: CheckCircle },
       failed: { color: "bg-red-100 text-red-800", icon: XCircle },
-      refunded: { color: "bg-blue-100 text-blue-800", icon: RefreshCw },
-      partial_refund: { color: "bg-purple-100 text-purple-800", icon: RefreshCw }
+      refunded: { color: "bg-blue-100 text-blue-800", icon: RefreshCw }
     };
 
-    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
+    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.authorized;
     const Icon = config.icon;
 
     return (
@@ -226,12 +310,10 @@ const PaymentManagement = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="paid">Paid</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="captured">Captured</SelectItem>
+                <SelectItem value="authorized">Authorized</SelectItem>
                 <SelectItem value="failed">Failed</SelectItem>
                 <SelectItem value="refunded">Refunded</SelectItem>
-                <SelectItem value="partial_refund">Partial Refund</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -246,6 +328,8 @@ const PaymentManagement = () => {
                 <TableHead>Customer</TableHead>
                 <TableHead>Amount</TableHead>
                 <TableHead>Method</TableHead>
+                <TableHead>Attempt</TableHead>
+                <TableHead>Fee</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead>Actions</TableHead>
@@ -256,7 +340,7 @@ const PaymentManagement = () => {
                 <TableRow key={payment.id}>
                   <TableCell>
                     <div>
-                      <p className="font-mono text-sm">{payment.paymentId || payment.id.substring(0, 12)}...</p>
+                      <p className="font-mono text-sm">{payment.razorpayPaymentId}</p>
                       <p className="text-xs text-gray-500">Order: {payment.orderId.substring(0, 8)}...</p>
                     </div>
                   </TableCell>
@@ -272,23 +356,30 @@ const PaymentManagement = () => {
                   <TableCell>
                     <div className="flex items-center gap-2">
                       <CreditCard className="h-4 w-4 text-gray-400" />
-                      {payment.method}
+                      <div>
+                        <p>{payment.method ? METHOD_LABELS[payment.method] || payment.method : 'Unknown'}</p>
+                        {payment.methodDetail && <p className="text-xs text-gray-500">{payment.methodDetail}</p>}
+                      </div>
                     </div>
                   </TableCell>
+                  <TableCell>#{payment.attemptNumber}</TableCell>
+                  <TableCell>
+                    {payment.fee != null ? formatCurrency(payment.fee) : '—'}
+                  </TableCell>
                   <TableCell>
                     {getStatusBadge(payment.status)}
+                    {payment.failureReason && (
+                      <p className="text-xs text-red-600 mt-1 max-w-[180px] truncate" title={payment.failureReason}>{payment.failureReason}</p>
+                    )}
                   </TableCell>
                   <TableCell>
-                    {payment.timestamp ? 
-                      new Date(payment.timestamp.seconds ? payment.timestamp.seconds * 1000 : payment.timestamp).toLocaleDateString() 
-                      : 'N/A'
-                    }
+                    {payment.createdAt.toLocaleDateString()}
                   </TableCell>
                   <TableCell>
                     <div className="flex gap-2">
                       <Dialog>
                         <DialogTrigger asChild>
-                          <Button variant="ghost" size="sm" onClick={() => setSelectedPayment(payment)}>
+                          <Button variant="ghost" size="sm" onClick={() => openPayment(payment)}>
                             <Eye className="h-4 w-4" />
                           </Button>
                         </DialogTrigger>
@@ -304,7 +395,7 @@ const PaymentManagement = () => {
                               <div className="grid grid-cols-2 gap-4">
                                 <div>
                                   <Label>Payment ID</Label>
-                                  <p className="font-mono text-sm">{selectedPayment.paymentId || 'N/A'}</p>
+                                  <p className="font-mono text-sm">{selectedPayment.razorpayPaymentId}</p>
                                 </div>
                                 <div>
                                   <Label>Order ID</Label>
@@ -328,35 +419,137 @@ const PaymentManagement = () => {
                                 </div>
                                 <div>
                                   <Label>Payment Method</Label>
-                                  <p className="font-medium">{selectedPayment.method}</p>
+                                  <p className="font-medium">
+                                    {selectedPayment.method ? METHOD_LABELS[selectedPayment.method] || selectedPayment.method : 'Unknown'}
+                                    {selectedPayment.methodDetail && ` (${selectedPayment.methodDetail})`}
+                                  </p>
+                                </div>
+                                <div>
+                                  <Label>Attempt</Label>
+                                  <p className="font-medium">#{selectedPayment.attemptNumber}</p>
+                                </div>
+                                <div>
+                                  <Label>Gateway Fee</Label>
+                                  <p className="font-medium">
+                                    {selectedPayment.fee != null ? formatCurrency(selectedPayment.fee) : 'Not charged yet'}
+                                    {selectedPayment.feeTax != null && ` incl. ${formatCurrency(selectedPayment.feeTax)} GST`}
+                                  </p>
                                 </div>
                                 <div>
-                                  <Label>Current Status</Label>
+                                  <Label>Attempt Status</Label>
                                   {getStatusBadge(selectedPayment.status)}
                                 </div>
+                                {selectedPayment.failureReason && (
+                                  <div className="col-span-2">
+                                    <Label>Failure Reason</Label>
+                                    <p className="text-sm text-red-600">
+                                      {selectedPayment.failureReason}
+                                      {selectedPayment.errorCode && ` (${selectedPayment.errorCode})`}
+                                    </p>
+                                  </div>
+                                )}
+                                {selectedOrder && (
+                                  <div>
+                                    <Label>Order Payment Status</Label>
+                                    <div>{getPaymentStatusBadge(selectedOrder.paymentStatus).component}</div>
+                                  </div>
+                                )}
+                                {!!selectedOrder?.refundedAmount && (
+                                  <div>
+                                    <Label>Refunded</Label>
+                                    <p className="font-semibold">{formatCurrency(selectedOrder.refundedAmount)}</p>
+                                  </div>
+                                )}
                               </div>
                               
+                              {canEditPayments && selectedOrder && MANUAL_PAYMENT_STATUSES.includes(selectedOrder.paymentStatus) && (
                               <div className="border-t pt-4">
-                                <Label>Update Payment Status</Label>
+                                <Label>Update Order Payment Status</Label>
                                 <div className="flex gap-2 mt-2">
                                   <Select
-                                    value={selectedPayment.status}
-                                    onValueChange={(value) => updatePaymentStatus(selectedPayment.id, selectedPayment.orderId, value)}
+                                    value={selectedOrder.paymentStatus}
+                                    onValueChange={(value) => updatePaymentStatus(selectedPayment.orderId, value)}
                                   >
                                     <SelectTrigger className="w-[200px]">
                                       <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                      <SelectItem value="pending">Pending</SelectItem>
-                                      <SelectItem value="paid">Paid</SelectItem>
-                                      <SelectItem value="completed">Completed</SelectItem>
-                                      <SelectItem value="failed">Failed</SelectItem>
-                                      <SelectItem value="refunded">Refunded</SelectItem>
-                                      <SelectItem value="partial_refund">Partial Refund</SelectItem>
+                                      {MANUAL_PAYMENT_STATUSES.map(status => (
+                                        <SelectItem key={status} value={status}>
+                                          {PAYMENT_STATUS_CONFIG[status].label}
+                                        </SelectItem>
+                                      ))}
                                     </SelectContent>
                                   </Select>
                                 </div>
                               </div>
+                              )}
+
+                              {canRefund && selectedOrder && isRefundable(selectedPayment, selectedOrder) && (
+                              <div className="border-t pt-4 space-y-3">
+                                <Label>Refund</Label>
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={getRefundableAmount(selectedOrder)}
+                                    step="0.01"
+                                    value={refundAmount}
+                                    onChange={(e) => setRefundAmount(e.target.value)}
+                                    className="w-[200px]"
+                                  />
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setRefundAmount(getRefundableAmount(selectedOrder).toString())}
+                                  >
+                                    Full amount
+                                  </Button>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                  Up to {formatCurrency(getRefundableAmount(selectedOrder))} can be refunded. A GST credit note is issued and emailed to the customer.
+                                </p>
+                                <Textarea
+                                  placeholder="Reason (shown on the credit note)"
+                                  value={refundReason}
+                                  onChange={(e) => setRefundReason(e.target.value)}
+                                  rows={2}
+                                />
+                                <Button variant="destructive" onClick={handleRefund} disabled={refunding}>
+                                  <Undo2 className="h-4 w-4 mr-2" />
+                                  {refunding ? "Refunding..." : `Refund ${formatCurrency(Number(refundAmount) || 0)}`}
+                                </Button>
+                              </div>
+                              )}
+
+                              {refunds.length > 0 && (
+                              <div className="border-t pt-4">
+                                <Label>Refunds</Label>
+                                <div className="space-y-2 mt-2">
+                                  {refunds.map(refund => (
+                                    <div key={refund.id} className="flex items-center justify-between gap-2 text-sm border rounded p-2">
+                                      <div>
+                                        <p className="font-medium">
+                                          {formatCurrency(refund.amount)}
+                                          <Badge className={`ml-2 ${REFUND_STATUS_COLORS[refund.status]}`}>{refund.status}</Badge>
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                          {refund.razorpayRefundId || refund.failureReason || 'Awaiting Razorpay'} · {refund.requestedBy}
+                                          {refund.createdAt?.toDate && ` · ${refund.createdAt.toDate().toLocaleDateString()}`}
+                                        </p>
+                                        {refund.reason && <p className="text-xs text-gray-500">{refund.reason}</p>}
+                                      </div>
+                                      {refund.creditNote && (
+                                        <Button variant="outline" size="sm" onClick={() => openCreditNote(refund)}>
+                                          <FileText className="h-4 w-4 mr-1" />
+                                          {refund.creditNote.number}
+                                        </Button>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                              )}
                             </div>
                           )}
                         </DialogContent>
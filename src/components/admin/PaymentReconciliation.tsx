@@ -0,0 +1,366 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileSpreadsheet, Upload, CheckCircle } from "lucide-react";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import {
+  getReconciliationItems,
+  getReconciliationRuns,
+  importReconciliation,
+  parseRazorpayReport,
+  resolveReconciliationItem,
+  MISMATCH_LABELS,
+  MismatchType,
+  ReconciliationItem,
+  ReconciliationRun
+} from "@/lib/reconciliation-service";
+
+const MISMATCH_COLORS: Record<MismatchType, string> = {
+  gateway_paid_db_pending: "bg-orange-100 text-orange-800",
+  amount_mismatch: "bg-yellow-100 text-yellow-800",
+  orphan: "bg-red-100 text-red-800"
+};
+
+// Owners and finance compare a Razorpay export with the orders here (Payments tab)
+const PaymentReconciliation = () => {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState("");
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+  const [resolvingItem, setResolvingItem] = useState<ReconciliationItem | null>(null);
+  const [resolveAction, setResolveAction] = useState<'mark_paid' | 'dismiss'>('dismiss');
+  const [resolveOrderId, setResolveOrderId] = useState("");
+  const [resolveNote, setResolveNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  useEffect(() => {
+    if (selectedRunId) {
+      fetchItems(selectedRunId);
+    }
+  }, [selectedRunId]);
+
+  const fetchRuns = async (selectRunId?: string) => {
+    const result = await getReconciliationRuns();
+    setRuns(result);
+    setSelectedRunId(selectRunId || result[0]?.id || "");
+    setLoading(false);
+  };
+
+  const fetchItems = async (runId: string) => {
+    setItems(await getReconciliationItems(runId));
+  };
+
+  const handleFile = async (file: File) => {
+    setImporting(true);
+    const { rows, skipped, error } = parseRazorpayReport(await file.text());
+
+    if (error || rows.length === 0) {
+      setImporting(false);
+      toast({
+        title: "Could not read report",
+        description: error || "No payments found in this file",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const result = await importReconciliation(file.name, rows);
+    setImporting(false);
+
+    if (!result.success) {
+      toast({
+        title: "Import failed",
+        description: result.message || "Failed to import report",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Report reconciled",
+      description: `${result.matchedCount} payments matched, ${result.openCount} mismatches to review` +
+        (skipped + (result.skippedCount || 0) ? `, ${skipped + (result.skippedCount || 0)} rows skipped` : "")
+    });
+    await fetchRuns(result.runId);
+  };
+
+  const openResolve = (item: ReconciliationItem) => {
+    setResolvingItem(item);
+    setResolveAction(item.type === 'amount_mismatch' ? 'dismiss' : 'mark_paid');
+    setResolveOrderId(item.type === 'orphan' ? "" : item.orderId || "");
+    setResolveNote("");
+  };
+
+  const handleResolve = async () => {
+    if (!resolvingItem) return;
+
+    setSaving(true);
+    const result = await resolveReconciliationItem(selectedRunId, resolvingItem.paymentId, resolveAction, {
+      orderId: resolveAction === 'mark_paid' ? resolveOrderId.trim() : undefined,
+      note: resolveNote.trim()
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Could not resolve",
+        description: result.message || "Failed to resolve mismatch",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Mismatch resolved",
+      description: resolveAction === 'mark_paid' ? "The order is now marked as paid" : "The mismatch was dismissed"
+    });
+    setResolvingItem(null);
+    await Promise.all([fetchItems(selectedRunId), fetchRuns(selectedRunId)]);
+  };
+
+  const selectedRun = runs.find(run => run.id === selectedRunId);
+  const visibleItems = items.filter(item => showResolved || item.status === 'open');
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded mb-4"></div>
+            <div className="h-24 bg-gray-100 rounded"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Reconciliation
+        </CardTitle>
+        <CardDescription>
+          Import a Razorpay payments or settlement export (CSV) to find payments that don't match the orders
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) handleFile(file);
+              }}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={importing}>
+              <Upload className="h-4 w-4 mr-2" />
+              {importing ? "Reconciling..." : "Import CSV"}
+            </Button>
+          </div>
+          {runs.length > 0 && (
+            <div className="flex-1">
+              <Label>Import</Label>
+              <Select value={selectedRunId} onValueChange={setSelectedRunId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {runs.map(run => (
+                    <SelectItem key={run.id} value={run.id}>
+                      {run.fileName} · {format(run.createdAt, 'dd MMM yyyy HH:mm')} · {run.openCount} open
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {selectedRun && (
+            <Button variant="outline" onClick={() => setShowResolved(!showResolved)}>
+              {showResolved ? "Hide resolved" : "Show resolved"}
+            </Button>
+          )}
+        </div>
+
+        {selectedRun && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge className="bg-green-100 text-green-800">{selectedRun.matchedCount} matched</Badge>
+            {(Object.keys(MISMATCH_LABELS) as MismatchType[]).map(type => (
+              <Badge key={type} className={MISMATCH_COLORS[type]}>
+                {selectedRun.mismatchCounts[type] || 0} {MISMATCH_LABELS[type].toLowerCase()}
+              </Badge>
+            ))}
+            {selectedRun.skippedCount > 0 && (
+              <Badge variant="outline">{selectedRun.skippedCount} not captured, skipped</Badge>
+            )}
+            <span className="text-gray-500">Imported by {selectedRun.importedBy}</span>
+          </div>
+        )}
+
+        {selectedRun && (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mismatch</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Razorpay</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleItems.map(item => (
+                  <TableRow key={item.paymentId}>
+                    <TableCell>
+                      <Badge className={MISMATCH_COLORS[item.type]}>{MISMATCH_LABELS[item.type]}</Badge>
+                      <p className="text-xs text-gray-500 mt-1 max-w-[260px]">{item.detail}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-mono text-sm">{item.paymentId}</p>
+                      {item.razorpayOrderId && <p className="text-xs text-gray-500 font-mono">{item.razorpayOrderId}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-semibold">{formatCurrency(item.gatewayAmount)}</p>
+                      <p className="text-xs text-gray-500">{item.gatewayStatus}{item.method && ` · ${item.method}`}</p>
+                    </TableCell>
+                    <TableCell>
+                      {item.orderId ? (
+                        <>
+                          <p className="font-mono text-sm">{item.orderId.substring(0, 8)}...</p>
+                          <p className="text-xs text-gray-500">
+                            {item.orderAmount != null && formatCurrency(item.orderAmount)} · {item.orderPaymentStatus}
+                          </p>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {item.status === 'open' ? (
+                        <Button size="sm" variant="outline" onClick={() => openResolve(item)}>
+                          Resolve
+                        </Button>
+                      ) : (
+                        <div className="text-xs">
+                          <p className="flex items-center gap-1 text-green-700">
+                            <CheckCircle className="h-3 w-3" />
+                            {item.resolution?.action === 'mark_paid' ? `Marked paid (${item.resolution.orderId})` : 'Dismissed'}
+                          </p>
+                          {item.resolution && (
+                            <p className="text-gray-500">{item.resolution.by} · {format(item.resolution.at, 'dd MMM yyyy')}</p>
+                          )}
+                          {item.resolution?.note && <p className="text-gray-500">{item.resolution.note}</p>}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {visibleItems.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                {items.length === 0 ? "Every payment in this report matches its order." : "All mismatches are resolved."}
+              </div>
+            )}
+          </div>
+        )}
+
+        {runs.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            No reports imported yet.
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!resolvingItem} onOpenChange={(open) => !open && setResolvingItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve mismatch</DialogTitle>
+            <DialogDescription>
+              {resolvingItem && `${resolvingItem.paymentId}: ${resolvingItem.detail}`}
+            </DialogDescription>
+          </DialogHeader>
+          {resolvingItem && (
+            <div className="space-y-4">
+              <div>
+                <Label>Action</Label>
+                <Select value={resolveAction} onValueChange={(value) => setResolveAction(value as 'mark_paid' | 'dismiss')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {resolvingItem.type !== 'amount_mismatch' && (
+                      <SelectItem value="mark_paid">
+                        {resolvingItem.type === 'orphan' ? "Link to an order and mark it paid" : "Mark the order as paid"}
+                      </SelectItem>
+                    )}
+                    <SelectItem value="dismiss">Dismiss with a note</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {resolveAction === 'mark_paid' && resolvingItem.type === 'orphan' && (
+                <div>
+                  <Label htmlFor="reconcile-order">Order ID</Label>
+                  <Input
+                    id="reconcile-order"
+                    value={resolveOrderId}
+                    onChange={(e) => setResolveOrderId(e.target.value)}
+                    placeholder="Firestore order ID"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    The order must be unpaid and its total must equal {formatCurrency(resolvingItem.gatewayAmount)}.
+                  </p>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="reconcile-note">Note{resolveAction === 'dismiss' ? "" : " (optional)"}</Label>
+                <Textarea
+                  id="reconcile-note"
+                  value={resolveNote}
+                  onChange={(e) => setResolveNote(e.target.value)}
+                  rows={3}
+                  placeholder={resolveAction === 'dismiss' ? "Why this difference is expected, e.g. refunded from the Razorpay dashboard" : ""}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolvingItem(null)}>Cancel</Button>
+            <Button
+              onClick={handleResolve}
+              disabled={saving || (resolveAction === 'dismiss' && !resolveNote.trim()) || (resolveAction === 'mark_paid' && !resolveOrderId.trim())}
+            >
+              {saving ? "Saving..." : "Resolve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PaymentReconciliation;
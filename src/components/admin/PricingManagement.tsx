@@ -0,0 +1,414 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Calculator, Plus, Trash2, Save, History } from "lucide-react";
+import {
+  getCurrentPricing,
+  getPricingHistory,
+  savePricingVersion,
+  PricingVersion,
+  RateCard,
+  PriceModifier,
+  QuantityBreak
+} from "@/lib/pricing-service";
+
+interface PricingManagementProps {
+  currentAdminEmail: string;
+}
+
+type ModifierGroup = 'sizes' | 'materials' | 'finishes';
+
+// Customers pick these in the order form's spec fields (src/lib/product-specs.ts)
+const MODIFIER_GROUPS: { key: ModifierGroup; label: string; hint: string }[] = [
+  { key: 'sizes', label: 'Size Modifiers', hint: 'Offered as the "Size Band" field' },
+  { key: 'materials', label: 'Material Modifiers', hint: 'Replace the material or board choices' },
+  { key: 'finishes', label: 'Finish Modifiers', hint: 'Replace the lamination choices' }
+];
+
+const PricingManagement = ({ currentAdminEmail }: PricingManagementProps) => {
+  const [current, setCurrent] = useState<PricingVersion | null>(null);
+  const [draft, setDraft] = useState<Record<string, RateCard>>({});
+  const [history, setHistory] = useState<PricingVersion[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState("");
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPricing = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [pricing, versions] = await Promise.all([getCurrentPricing(), getPricingHistory()]);
+      setCurrent(pricing);
+      setDraft(JSON.parse(JSON.stringify(pricing.rateCards)));
+      setHistory(versions);
+      setSelectedProduct(prev => prev || Object.keys(pricing.rateCards)[0] || "");
+    } catch (error) {
+      console.error("❌ Error fetching pricing:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load rate cards",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPricing();
+  }, [fetchPricing]);
+
+  const rateCard = draft[selectedProduct];
+
+  const updateRateCard = (changes: Partial<RateCard>) => {
+    setDraft(prev => ({
+      ...prev,
+      [selectedProduct]: { ...prev[selectedProduct], ...changes }
+    }));
+  };
+
+  const updateBreak = (index: number, changes: Partial<QuantityBreak>) => {
+    updateRateCard({
+      quantityBreaks: rateCard.quantityBreaks.map((b, i) => (i === index ? { ...b, ...changes } : b))
+    });
+  };
+
+  const updateModifier = (group: ModifierGroup, index: number, changes: Partial<PriceModifier>) => {
+    updateRateCard({
+      [group]: rateCard[group].map((m, i) => (i === index ? { ...m, ...changes } : m))
+    });
+  };
+
+  const validateDraft = (): string | null => {
+    for (const card of Object.values(draft)) {
+      if (!(card.basePrice > 0)) return `${card.label}: base price must be greater than zero`;
+      if (card.quantityBreaks.length === 0) return `${card.label}: add at least one quantity break`;
+      if (!card.quantityBreaks.some(b => b.upTo === null)) return `${card.label}: the last quantity break needs "no limit"`;
+      if (card.quantityBreaks.some(b => !(b.multiplier > 0))) return `${card.label}: quantity multipliers must be positive`;
+      for (const group of MODIFIER_GROUPS) {
+        if (card[group.key].some(m => !m.value || !m.label || !(m.multiplier > 0))) {
+          return `${card.label}: every ${group.label.toLowerCase()} entry needs a key, label and positive multiplier`;
+        }
+      }
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateDraft();
+    if (validationError) {
+      toast({
+        title: "Invalid Rate Card",
+        description: validationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    const result = await savePricingVersion(draft, currentAdminEmail, note);
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Pricing Saved",
+        description: `Rate cards published as version ${result.version}. Existing orders keep their quoted price.`
+      });
+      setNote("");
+      await fetchPricing();
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to save pricing",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded mb-4"></div>
+            <div className="space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-100 rounded"></div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Pricing & Rate Cards
+          </CardTitle>
+          <CardDescription>
+            Current version: <Badge variant="secondary">v{current?.version ?? 0}</Badge> — saving publishes a new version for new orders only
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <Label>Product</Label>
+              <Select value={selectedProduct} onValueChange={setSelectedProduct}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(draft).map(card => (
+                    <SelectItem key={card.productType} value={card.productType}>
+                      {card.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {rateCard && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="rateLabel">Display Name</Label>
+                  <Input
+                    id="rateLabel"
+                    value={rateCard.label}
+                    onChange={(e) => updateRateCard({ label: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="basePrice">Base Price (₹)</Label>
+                  <Input
+                    id="basePrice"
+                    type="number"
+                    min="0"
+                    value={rateCard.basePrice}
+                    onChange={(e) => updateRateCard({ basePrice: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="minimumOrderValue">Minimum Order Value (₹)</Label>
+                  <Input
+                    id="minimumOrderValue"
+                    type="number"
+                    min="0"
+                    value={rateCard.minimumOrderValue}
+                    onChange={(e) => updateRateCard({ minimumOrderValue: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-medium">Quantity Breaks</h3>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateRateCard({ quantityBreaks: [...rateCard.quantityBreaks, { upTo: null, multiplier: 1 }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Break
+                  </Button>
+                </div>
+                <div className="border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Up to Quantity (blank = no limit)</TableHead>
+                        <TableHead>Price Multiplier</TableHead>
+                        <TableHead className="w-16"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rateCard.quantityBreaks.map((quantityBreak, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={quantityBreak.upTo ?? ""}
+                              onChange={(e) => updateBreak(index, { upTo: e.target.value ? parseInt(e.target.value) : null })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              step="0.05"
+                              min="0"
+                              value={quantityBreak.multiplier}
+                              onChange={(e) => updateBreak(index, { multiplier: parseFloat(e.target.value) || 0 })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateRateCard({ quantityBreaks: rateCard.quantityBreaks.filter((_, i) => i !== index) })}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              {MODIFIER_GROUPS.map(group => (
+                <div key={group.key}>
+                  <div className="flex justify-between items-center mb-2">
+                    <div>
+                      <h3 className="font-medium">{group.label}</h3>
+                      <p className="text-xs text-gray-500">{group.hint}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateRateCard({ [group.key]: [...rateCard[group.key], { value: "", label: "", multiplier: 1 }] })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Option
+                    </Button>
+                  </div>
+                  {rateCard[group.key].length === 0 ? (
+                    <p className="text-sm text-gray-500">No options — customers won't be asked to choose.</p>
+                  ) : (
+                    <div className="border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Key</TableHead>
+                            <TableHead>Label</TableHead>
+                            <TableHead>Multiplier</TableHead>
+                            <TableHead className="w-16"></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {rateCard[group.key].map((modifier, index) => (
+                            <TableRow key={index}>
+                              <TableCell>
+                                <Input
+                                  value={modifier.value}
+                                  placeholder="e.g. a4"
+                                  onChange={(e) => updateModifier(group.key, index, { value: e.target.value })}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  value={modifier.label}
+                                  placeholder="e.g. A4 (210 × 297 mm)"
+                                  onChange={(e) => updateModifier(group.key, index, { label: e.target.value })}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  step="0.05"
+                                  min="0"
+                                  value={modifier.multiplier}
+                                  onChange={(e) => updateModifier(group.key, index, { multiplier: parseFloat(e.target.value) || 0 })}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => updateRateCard({ [group.key]: rateCard[group.key].filter((_, i) => i !== index) })}
+                                  className="text-red-600 hover:text-red-800"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4 items-end border-t pt-4">
+            <div className="flex-1 w-full">
+              <Label htmlFor="pricingNote">Change Note</Label>
+              <Input
+                id="pricingNote"
+                placeholder="e.g. Paper cost increase, April 2026"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? "Saving..." : `Publish as v${(history[0]?.version ?? current?.version ?? 0) + 1}`}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved versions yet. Orders are priced with the built-in defaults (v0).</p>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(version => (
+                    <TableRow key={version.version}>
+                      <TableCell>
+                        <Badge variant={version.version === current?.version ? "default" : "secondary"}>
+                          v{version.version}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {version.createdAt?.seconds ? new Date(version.createdAt.seconds * 1000).toLocaleString() : 'N/A'}
+                      </TableCell>
+                      <TableCell>{version.createdBy}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{version.note || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PricingManagement;
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCourier, getSelectableCouriers, ShipmentInput, validateShipment } from "@/lib/courier-service";
+
+interface ShipmentFormProps {
+  onSubmit: (shipment: ShipmentInput) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+// Courier details asked for before an order can move to shipped
+const ShipmentForm = ({ onSubmit, onCancel, disabled = false }: ShipmentFormProps) => {
+  const [shipment, setShipment] = useState<ShipmentInput>({ carrier: "", awb: "", eta: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof ShipmentInput, value: string) => {
+    setShipment(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    const validationError = validateShipment(shipment);
+    setError(validationError);
+    if (!validationError) {
+      onSubmit({ ...shipment, eta: shipment.eta || undefined });
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
+      <div>
+        <p className="font-medium">Ship this order</p>
+        <p className="text-sm text-gray-500">The customer sees these details in their order tracking.</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="shipment-carrier">Courier</Label>
+          <Select value={shipment.carrier} onValueChange={(value) => setField('carrier', value)} disabled={disabled}>
+            <SelectTrigger id="shipment-carrier">
+              <SelectValue placeholder="Select courier" />
+            </SelectTrigger>
+            <SelectContent>
+              {getSelectableCouriers().map(courier => (
+                <SelectItem key={courier.id} value={courier.id}>
+                  {courier.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="shipment-awb">AWB Number</Label>
+          <Input
+            id="shipment-awb"
+            placeholder={getCourier(shipment.carrier)?.awbHint}
+            value={shipment.awb}
+            onChange={(e) => setField('awb', e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="shipment-eta">Expected Delivery (optional)</Label>
+          <Input
+            id="shipment-eta"
+            type="date"
+            value={shipment.eta || ""}
+            onChange={(e) => setField('eta', e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} disabled={disabled}>
+          Mark as Shipped
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={disabled}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ShipmentForm;
@@ -12,6 +12,9 @@ import { Search, Users, Eye, Mail, Phone, Building, Package, History, User } fro
 import { collection, getDocs, orderBy, query, where } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { SimpleOrderData } from "@/lib/invoice-service";
+import { describeOrderProducts } from "@/lib/pricing-service";
+import { getOrderStatusBadge } from "@/lib/order-status-utils";
+import { resolveOrderStatus } from "@/lib/order-lifecycle";
 
 interface UserData {
   uid: string;
@@ -149,27 +152,6 @@ const UserManagement = () => {
     setFilteredUsers(filtered);
   };
 
-  const getStatusBadge = (status: string) => {
-    const statusConfig = {
-      pending_payment: { color: "bg-orange-100 text-orange-800" },
-      received: { color: "bg-blue-100 text-blue-800" },
-      processing: { color: "bg-purple-100 text-purple-800" },
-      printed: { color: "bg-indigo-100 text-indigo-800" },
-      shipped: { color: "bg-green-100 text-green-800" },
-      delivered: { color: "bg-green-600 text-white" },
-      cancelled: { color: "bg-red-100 text-red-800" },
-      failed: { color: "bg-red-100 text-red-800" }
-    };
-
-    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending_payment;
-
-    return (
-      <Badge className={config.color}>
-        {status.replace('_', ' ')}
-      </Badge>
-    );
-  };
-
   const handleUser = (user: UserData) => {
     setSelectedUser(user);
     fetchUserOrders(user.uid);
@@ -384,7 +366,7 @@ const UserManagement = () => {
                                             </TableCell>
                                             <TableCell>
                                               <div>
-                                                <p className="font-medium truncate">{order.productType}</p>
+                                                <p className="font-medium truncate">{describeOrderProducts(order)}</p>
                                                 <p className="text-sm text-gray-500">Qty: {order.quantity}</p>
                                               </div>
                                             </TableCell>
@@ -392,7 +374,7 @@ const UserManagement = () => {
                                               ₹{order.totalAmount?.toLocaleString()}
                                             </TableCell>
                                             <TableCell>
-                                              {getStatusBadge(order.status || 'pending_payment')}
+                                              {getOrderStatusBadge(resolveOrderStatus(order)).component}
                                             </TableCell>
                                             <TableCell>
                                               <Badge variant={order.paymentStatus === 'paid' ? 'default' : 'secondary'}>
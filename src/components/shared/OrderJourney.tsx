@@ -1,23 +1,50 @@
-
-import { Badge } from "@/components/ui/badge";
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
 import { Progress } from "@/components/ui/progress";
-import { 
-  getOrderJourneySteps, 
-  getOrderProgress, 
+import {
+  getOrderJourneySteps,
+  getOrderProgress,
   getOrderStatusBadge,
-  OrderStatus 
+  ORDER_STATUS_CONFIG,
+  OrderStatus
 } from "@/lib/order-status-utils";
+import { getOrderEvents, getOrderEventLabel, getStatusDates, OrderEvent } from "@/lib/order-history-service";
+import type { Shipment } from "@/lib/courier-service";
+import ShipmentTracking from "@/components/shared/ShipmentTracking";
 
 interface OrderJourneyProps {
   status: OrderStatus;
+  // When given, steps are dated from the order's recorded history
+  orderId?: string;
+  // Recorded when the order shipped; shows the courier's tracking panel
+  shipment?: Shipment;
   className?: string;
   showProgress?: boolean;
 }
 
-const OrderJourney = ({ status, className = "", showProgress = true }: OrderJourneyProps) => {
+const formatEventDate = (date: Date) => format(date, "dd MMM yyyy, h:mm a");
+
+const OrderJourney = ({ status, orderId, shipment, className = "", showProgress = true }: OrderJourneyProps) => {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(!!orderId);
+
   const steps = getOrderJourneySteps(status);
   const progress = getOrderProgress(status);
   const statusInfo = getOrderStatusBadge(status);
+  const statusDates = getStatusDates(events);
+
+  // Refetch when the status changes so a newly reached step gets its date
+  useEffect(() => {
+    if (!orderId) return;
+
+    const fetchEvents = async () => {
+      setLoading(true);
+      setEvents(await getOrderEvents(orderId));
+      setLoading(false);
+    };
+
+    fetchEvents();
+  }, [orderId, status]);
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -44,39 +71,81 @@ const OrderJourney = ({ status, className = "", showProgress = true }: OrderJour
       {/* Journey Steps */}
       <div className="space-y-3">
         <h4 className="font-medium text-gray-900">Order Journey</h4>
-        <div className="space-y-2">
-          {steps.map((step, index) => (
-            <div key={step.status} className="flex items-center gap-3">
-              <div className={`
-                w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium transition-colors
-                ${step.isCompleted 
-                  ? 'bg-green-100 text-green-800 border-2 border-green-300' 
-                  : step.isCurrent 
-                    ? 'bg-blue-100 text-blue-800 border-2 border-blue-300'
-                    : 'bg-gray-100 text-gray-500 border-2 border-gray-200'
-                }
-              `}>
-                {step.isCompleted ? '✓' : step.step}
-              </div>
-              <div className="flex-1">
-                <p className={`font-medium ${
-                  step.isActive ? 'text-gray-900' : 'text-gray-500'
-                }`}>
-                  {step.label}
-                </p>
-                {step.isCurrent && (
-                  <p className="text-sm text-blue-600">Current step</p>
+        <ol className="relative">
+          {steps.map((step, index) => {
+            const Icon = ORDER_STATUS_CONFIG[step.status].icon;
+            const reachedAt = statusDates[step.status];
+
+            return (
+              <li key={step.status} className="relative flex gap-3 pb-5 last:pb-0">
+                {index < steps.length - 1 && (
+                  <span className={`absolute left-4 top-8 -ml-px h-full w-0.5 ${
+                    step.isCompleted ? 'bg-green-300' : 'bg-gray-200'
+                  }`} />
                 )}
-              </div>
-              {index < steps.length - 1 && (
-                <div className={`w-px h-6 ml-4 ${
-                  step.isCompleted ? 'bg-green-300' : 'bg-gray-200'
-                }`} />
-              )}
+                <div className={`
+                  relative z-10 w-8 h-8 rounded-full flex items-center justify-center border-2 transition-colors
+                  ${step.isCompleted
+                    ? 'bg-green-100 text-green-800 border-green-300'
+                    : step.isCurrent
+                      ? 'bg-blue-100 text-blue-800 border-blue-300'
+                      : 'bg-gray-100 text-gray-500 border-gray-200'
+                  }
+                `}>
+                  <Icon className="h-4 w-4" />
+                </div>
+                <div className="flex-1 pt-1">
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-2">
+                    <p className={`font-medium ${
+                      step.isActive ? 'text-gray-900' : 'text-gray-500'
+                    }`}>
+                      {step.label}
+                    </p>
+                    {step.isActive && reachedAt && (
+                      <span className="text-xs text-gray-500">{formatEventDate(reachedAt)}</span>
+                    )}
+                  </div>
+                  {step.isCurrent && (
+                    <p className="text-sm text-blue-600">Current step</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      {shipment && (status === 'shipped' || status === 'delivered') && (
+        <ShipmentTracking shipment={shipment} className="border-t pt-4" />
+      )}
+
+      {/* Recorded history, oldest first */}
+      {orderId && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">History</h4>
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2].map(i => (
+                <div key={i} className="h-4 bg-gray-200 rounded animate-pulse" />
+              ))}
             </div>
-          ))}
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500">No history recorded for this order yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {events.map(event => (
+                <li key={event.id} className="flex justify-between gap-4 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-800">{getOrderEventLabel(event)}</p>
+                    {event.note && <p className="text-gray-600">{event.note}</p>}
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{formatEventDate(event.createdAt)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
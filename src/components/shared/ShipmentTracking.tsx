@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ExternalLink, RefreshCw, Truck } from "lucide-react";
+import {
+  canPollTracking,
+  getTrackingEvents,
+  Shipment,
+  TrackingEvent,
+  TRACKING_STATUS_LABELS
+} from "@/lib/courier-service";
+
+interface ShipmentTrackingProps {
+  shipment: Shipment;
+  className?: string;
+}
+
+const POLL_INTERVAL = 5 * 60 * 1000;
+
+// Courier, AWB and the courier's tracking events, polled while the panel is open
+const ShipmentTracking = ({ shipment, className = "" }: ShipmentTrackingProps) => {
+  const [events, setEvents] = useState<TrackingEvent[]>([]);
+  const [loading, setLoading] = useState(canPollTracking(shipment));
+  const [error, setError] = useState<string | null>(null);
+  const [polledAt, setPolledAt] = useState<Date | null>(null);
+
+  const pollable = canPollTracking(shipment);
+  const delivered = events.some(event => event.status === 'delivered');
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    const result = await getTrackingEvents(shipment);
+    if (result.success) {
+      setEvents(result.events);
+      setError(null);
+    } else {
+      setError(result.message || "Couldn't fetch tracking events");
+    }
+    setPolledAt(new Date());
+    setLoading(false);
+  }, [shipment]);
+
+  // Stops polling once the courier reports the delivery
+  useEffect(() => {
+    if (!pollable || delivered) return;
+
+    fetchEvents();
+    const timer = setInterval(fetchEvents, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [fetchEvents, pollable, delivered]);
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium text-gray-900 flex items-center gap-2">
+          <Truck className="h-4 w-4" />
+          Shipment
+        </h4>
+        {pollable && (
+          <Button variant="ghost" size="sm" onClick={fetchEvents} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <div>
+          <dt className="text-gray-500">Courier</dt>
+          <dd className="font-medium">{shipment.carrierLabel}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">AWB Number</dt>
+          <dd className="font-mono">
+            {shipment.trackingUrl ? (
+              <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline inline-flex items-center gap-1">
+                {shipment.awb}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            ) : shipment.awb}
+          </dd>
+        </div>
+        {shipment.eta && (
+          <div>
+            <dt className="text-gray-500">Expected Delivery</dt>
+            <dd className="font-medium">{format(new Date(`${shipment.eta}T00:00:00`), "dd MMM yyyy")}</dd>
+          </div>
+        )}
+      </dl>
+
+      {!pollable ? (
+        <p className="text-sm text-gray-500">
+          Shipped {format(shipment.shippedAt.toDate(), "dd MMM yyyy")}. Use the AWB number to follow the parcel on the courier's website.
+        </p>
+      ) : loading && events.length === 0 ? (
+        <div className="space-y-2">
+          {[1, 2].map(i => (
+            <div key={i} className="h-4 bg-gray-200 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : error && events.length === 0 ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">The courier hasn't scanned the parcel yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {events.map((event, index) => (
+            <li key={`${event.status}-${event.at.getTime()}`} className="flex justify-between gap-4 text-sm">
+              <div>
+                <p className={`font-medium ${index === 0 ? 'text-gray-900' : 'text-gray-600'}`}>
+                  {TRACKING_STATUS_LABELS[event.status]}
+                </p>
+                <p className="text-gray-600">
+                  {event.description}{event.location ? ` · ${event.location}` : ''}
+                </p>
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{format(event.at, "dd MMM yyyy, h:mm a")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pollable && polledAt && (
+        <p className="text-xs text-gray-400">Last checked {format(polledAt, "h:mm a")}</p>
+      )}
+    </div>
+  );
+};
+
+export default ShipmentTracking;
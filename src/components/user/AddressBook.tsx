@@ -0,0 +1,172 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { MapPin, Plus, Pencil, Trash2 } from "lucide-react";
+import AddressDialog from "@/components/user/AddressDialog";
+import {
+  getAddresses,
+  deleteAddress,
+  setDefaultAddress,
+  formatAddress,
+  toOrderAddress,
+  Address,
+  AddressDefaults,
+  AddressKind
+} from "@/lib/address-service";
+
+interface AddressBookProps {
+  userId: string;
+  defaults: AddressDefaults;
+  onDefaultsChange: (defaults: AddressDefaults) => void;
+}
+
+const AddressBook = ({ userId, defaults, onDefaultsChange }: AddressBookProps) => {
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [editing, setEditing] = useState<Address | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchAddresses = useCallback(async () => {
+    setLoading(true);
+    setAddresses(await getAddresses(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchAddresses();
+  }, [fetchAddresses]);
+
+  const openDialog = (address: Address | null) => {
+    setEditing(address);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (address: Address, nextDefaults: AddressDefaults) => {
+    setAddresses(prev =>
+      prev.some(item => item.id === address.id)
+        ? prev.map(item => (item.id === address.id ? { ...item, ...address } : item))
+        : [...prev, address]
+    );
+    onDefaultsChange(nextDefaults);
+  };
+
+  const handleDelete = async (address: Address) => {
+    if (!confirm(`Delete ${address.label} from your address book?`)) return;
+
+    setSaving(true);
+    const result = await deleteAddress(userId, address.id, addresses, defaults);
+    setSaving(false);
+
+    if (result.success && result.defaults) {
+      setAddresses(prev => prev.filter(item => item.id !== address.id));
+      onDefaultsChange(result.defaults);
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to delete the address",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetDefault = async (kind: AddressKind, address: Address) => {
+    setSaving(true);
+    const result = await setDefaultAddress(userId, kind, address.id, defaults);
+    setSaving(false);
+
+    if (result.success && result.defaults) {
+      onDefaultsChange(result.defaults);
+      toast({
+        title: "Default Updated",
+        description: `${address.label} is now your default ${kind} address.`,
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to update the default address",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Address Book
+            </CardTitle>
+            <CardDescription>Pick these when ordering; invoices use the billing address</CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Address
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[1, 2].map(i => (
+              <div key={i} className="h-32 bg-gray-200 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : addresses.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved addresses yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {addresses.map(address => (
+              <div key={address.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{address.label}</span>
+                    {defaults.shipping === address.id && <Badge variant="secondary">Default shipping</Badge>}
+                    {defaults.billing === address.id && <Badge variant="secondary">Default billing</Badge>}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(address)} disabled={saving}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(address)} disabled={saving}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600">{formatAddress(toOrderAddress(address))}</p>
+                <div className="flex flex-wrap gap-2">
+                  {defaults.shipping !== address.id && (
+                    <Button variant="outline" size="sm" onClick={() => handleSetDefault('shipping', address)} disabled={saving}>
+                      Use for shipping
+                    </Button>
+                  )}
+                  {defaults.billing !== address.id && (
+                    <Button variant="outline" size="sm" onClick={() => handleSetDefault('billing', address)} disabled={saving}>
+                      Use for billing
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AddressDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        userId={userId}
+        address={editing}
+        defaults={defaults}
+        onSaved={handleSaved}
+      />
+    </Card>
+  );
+};
+
+export default AddressBook;
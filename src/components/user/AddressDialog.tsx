@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { GST_STATE_CODES } from "@/lib/tax-service";
+import {
+  saveAddress,
+  validateAddress,
+  getStatesForPincode,
+  getPincodeWarning,
+  toOrderAddress,
+  EMPTY_ADDRESS,
+  Address,
+  AddressDefaults,
+  AddressInput
+} from "@/lib/address-service";
+
+interface AddressDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  address: Address | null; // null adds a new address
+  defaults: AddressDefaults;
+  onSaved: (address: Address, defaults: AddressDefaults) => void;
+}
+
+const STATE_OPTIONS = Object.entries(GST_STATE_CODES).sort(([, a], [, b]) => a.localeCompare(b));
+
+// Add or edit an address in the customer's address book
+const AddressDialog = ({ open, onOpenChange, userId, address, defaults, onSaved }: AddressDialogProps) => {
+  const [form, setForm] = useState<AddressInput>(EMPTY_ADDRESS);
+  const [errors, setErrors] = useState<Partial<Record<keyof AddressInput, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setForm(address ? toOrderAddress(address) : EMPTY_ADDRESS);
+      setErrors({});
+    }
+  }, [open, address]);
+
+  const setField = (field: keyof AddressInput, value: string) => {
+    setForm(prev => {
+      const next = { ...prev, [field]: value };
+      // A PIN code that only one state uses fills in the state
+      if (field === 'pincode' && !prev.state) {
+        const states = getStatesForPincode(value);
+        if (states.length === 1) next.state = states[0];
+      }
+      return next;
+    });
+    // A PIN code refused for its state may be fine once the state changes
+    setErrors(prev => ({ ...prev, [field]: undefined, ...(field === 'state' ? { pincode: undefined } : {}) }));
+  };
+
+  const pincodeWarning = getPincodeWarning(form);
+
+  const handleSave = async () => {
+    const validationErrors = validateAddress(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setSaving(true);
+    const result = await saveAddress(userId, form, address?.id || null, defaults);
+    setSaving(false);
+
+    if (result.success && result.address && result.defaults) {
+      toast({
+        title: "Address Saved",
+        description: `${result.address.label} is in your address book.`,
+      });
+      onSaved(result.address, result.defaults);
+      onOpenChange(false);
+    } else {
+      toast({
+        title: "Error",
+        description: result.message || "Failed to save the address",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderField = (field: keyof AddressInput, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div className="space-y-2">
+      <Label htmlFor={`address-${field}`}>{label}</Label>
+      <Input
+        id={`address-${field}`}
+        value={form[field] || ""}
+        onChange={(e) => setField(field, e.target.value)}
+        disabled={saving}
+        {...props}
+      />
+      {errors[field] && <p className="text-xs text-red-600">{errors[field]}</p>}
+      {field === 'pincode' && !errors.pincode && pincodeWarning && (
+        <p className="text-xs text-amber-700">{pincodeWarning}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{address ? "Edit Address" : "Add Address"}</DialogTitle>
+          <DialogDescription>
+            The state decides whether GST is charged as CGST + SGST or IGST.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderField('label', "Address Name", { placeholder: "e.g. Head office" })}
+            {renderField('name', "Recipient Name")}
+          </div>
+          {renderField('line1', "Address Line 1", { placeholder: "Building, street" })}
+          {renderField('line2', "Address Line 2 (optional)", { placeholder: "Area, landmark" })}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {renderField('city', "City")}
+            {renderField('pincode', "PIN Code", { inputMode: "numeric", maxLength: 6 })}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="address-state">State</Label>
+              <Select value={form.state} onValueChange={(value) => setField('state', value)} disabled={saving}>
+                <SelectTrigger id="address-state">
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATE_OPTIONS.map(([code, name]) => (
+                    <SelectItem key={code} value={code}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.state && <p className="text-xs text-red-600">{errors.state}</p>}
+            </div>
+            {renderField('phone', "Phone", { type: "tel", placeholder: "10-digit number" })}
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} className="flex-1" disabled={saving}>
+              {saving ? "Saving..." : "Save Address"}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddressDialog;
@@ -4,7 +4,9 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar, Package, MapPin, FileText } from "lucide-react";
 import { SimpleOrderData } from "@/lib/invoice-service";
-import { getOrderStatusBadge, getPaymentStatusBadge, OrderStatus, PaymentStatus } from "@/lib/order-status-utils";
+import { describeOrderProducts } from "@/lib/pricing-service";
+import { getOrderStatusBadge, getPaymentStatusBadge, PaymentStatus } from "@/lib/order-status-utils";
+import { resolveOrderStatus } from "@/lib/order-lifecycle";
 import OrderJourney from "@/components/shared/OrderJourney";
 
 interface OrderCardProps {
@@ -13,7 +15,7 @@ interface OrderCardProps {
 }
 
 const OrderCard = ({ order, onViewDetails }: OrderCardProps) => {
-  const orderStatus = (order.status || 'pending') as OrderStatus;
+  const orderStatus = resolveOrderStatus(order);
   const paymentStatus = (order.paymentStatus || 'pending') as PaymentStatus;
   
   const statusInfo = getOrderStatusBadge(orderStatus);
@@ -37,7 +39,7 @@ const OrderCard = ({ order, onViewDetails }: OrderCardProps) => {
         <div className="flex justify-between items-start">
           <div>
             <CardTitle className="text-lg">Order #{order.id?.substring(0, 8)}...</CardTitle>
-            <p className="text-sm text-gray-600 mt-1">{order.productType}</p>
+            <p className="text-sm text-gray-600 mt-1">{describeOrderProducts(order)}</p>
           </div>
           <div className="text-right space-y-1">
             {statusInfo.component}
@@ -71,7 +73,7 @@ const OrderCard = ({ order, onViewDetails }: OrderCardProps) => {
         )}
 
         {/* Order Journey */}
-        <OrderJourney status={orderStatus} showProgress={true} />
+        <OrderJourney status={orderStatus} shipment={order.shipment} showProgress={true} />
 
         <div className="flex justify-between items-center pt-3 border-t">
           <div>
@@ -0,0 +1,113 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ProductSpec, SpecField, SpecValue } from "@/lib/product-specs";
+
+interface SpecificationFormProps {
+  fields: SpecField[];
+  value: ProductSpec;
+  errors: Record<string, string>;
+  onChange: (spec: ProductSpec) => void;
+  disabled?: boolean;
+}
+
+// Renders a product's spec schema (src/lib/product-specs.ts); validation stays with the caller
+const SpecificationForm = ({ fields, value, errors, onChange, disabled }: SpecificationFormProps) => {
+  const setField = (key: string, fieldValue: SpecValue) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const renderInput = (field: SpecField) => {
+    const id = `spec-${field.key}`;
+    const current = value[field.key];
+
+    switch (field.type) {
+      case 'number':
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              id={id}
+              type="number"
+              value={current === undefined ? "" : String(current)}
+              onChange={(e) => setField(field.key, e.target.value === "" ? "" : Number(e.target.value))}
+              min={field.min}
+              max={field.max}
+              step={field.integer ? 1 : "any"}
+              disabled={disabled}
+            />
+            {field.unit && <span className="text-sm text-gray-500">{field.unit}</span>}
+          </div>
+        );
+      case 'select':
+        return (
+          <Select value={typeof current === 'string' ? current : ""} onValueChange={(v) => setField(field.key, v)} disabled={disabled}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'text':
+        return field.maxLength && field.maxLength > 100 ? (
+          <Textarea
+            id={id}
+            value={typeof current === 'string' ? current : ""}
+            onChange={(e) => setField(field.key, e.target.value)}
+            maxLength={field.maxLength}
+            rows={3}
+            disabled={disabled}
+          />
+        ) : (
+          <Input
+            id={id}
+            value={typeof current === 'string' ? current : ""}
+            onChange={(e) => setField(field.key, e.target.value)}
+            maxLength={field.maxLength}
+            disabled={disabled}
+          />
+        );
+      case 'boolean':
+        return null;
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field.key} className={field.type === 'text' && (field.maxLength ?? 0) > 100 ? "space-y-2 sm:col-span-2" : "space-y-2"}>
+          {field.type === 'boolean' ? (
+            <div className="flex items-center space-x-2 pt-6">
+              <Checkbox
+                id={`spec-${field.key}`}
+                checked={value[field.key] === true}
+                onCheckedChange={(checked) => setField(field.key, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`spec-${field.key}`}>{field.label}</Label>
+            </div>
+          ) : (
+            <>
+              <Label htmlFor={`spec-${field.key}`}>
+                {field.label}
+                {!field.required && <span className="text-gray-400 font-normal"> (optional)</span>}
+              </Label>
+              {renderInput(field)}
+            </>
+          )}
+          {field.help && <p className="text-xs text-gray-500">{field.help}</p>}
+          {errors[field.key] && <p className="text-xs text-red-600">{errors[field.key]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SpecificationForm;
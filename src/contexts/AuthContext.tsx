@@ -10,6 +10,9 @@ import {
 } from "firebase/auth";
 import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
+import type { NotificationPreferences } from "@/lib/notification-service";
+import type { AddressDefaults } from "@/lib/address-service";
+import { AdminRole, isAdminRole } from "@/lib/admin-roles";
 
 type UserData = {
   uid: string;
@@ -18,18 +21,25 @@ type UserData = {
   phone: string;
   gstNumber: string;
   createdAt: any;
-  address?: string; // Add address as an optional property
+  address?: string; // free text from before the address book
+  addressDefaults?: AddressDefaults; // see src/lib/address-service.ts
+  notificationPreferences?: NotificationPreferences;
 }
 
 interface AuthContextProps {
   user: User | null;
   userData: UserData | null;
+  isAdmin: boolean; // `admin` custom claim on the ID token, see functions/src/admin
+  adminRole: AdminRole | null;
+  // End of the admin session started by the authenticator check, if this sign-in has one
+  adminSessionExpiresAt: Date | null;
   loading: boolean;
   signup: (email: string, password: string, userData: Omit<UserData, 'uid' | 'createdAt'>) => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   googleSignIn: () => Promise<void>;
   updateUserProfile: (updatedData: UserData) => void;
+  refreshAdminClaim: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextProps | undefined>(undefined);
@@ -37,10 +47,46 @@ const AuthContext = createContext<AuthContextProps | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [userData, setUserData] = useState<UserData | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [adminRole, setAdminRole] = useState<AdminRole | null>(null);
+  const [adminSessionExpiresAt, setAdminSessionExpiresAt] = useState<Date | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const readAdminClaim = async (currentUser: User, forceRefresh = false) => {
+    const tokenResult = await currentUser.getIdTokenResult(forceRefresh);
+    const admin = tokenResult.claims.admin === true;
+    setIsAdmin(admin);
+    // Admins granted before roles existed have no role claim and get no permissions
+    setAdminRole(admin && isAdminRole(tokenResult.claims.role) ? tokenResult.claims.role : null);
+    // Same check as hasAdminSession in firestore.rules
+    const { mfaAuthTime, mfaExpiresAt, auth_time } = tokenResult.claims;
+    setAdminSessionExpiresAt(
+      admin && mfaAuthTime === Number(auth_time) && typeof mfaExpiresAt === 'number'
+        ? new Date(mfaExpiresAt * 1000)
+        : null
+    );
+    return admin;
+  };
+
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      // Read the claim before publishing the user, so AdminRoute never sees an
+      // admin who is signed in but not yet marked as one
+      if (currentUser) {
+        try {
+          await readAdminClaim(currentUser);
+        } catch (error) {
+          console.error("Error reading admin claim:", error);
+          setIsAdmin(false);
+          setAdminRole(null);
+          setAdminSessionExpiresAt(null);
+        }
+      } else {
+        setIsAdmin(false);
+        setAdminRole(null);
+        setAdminSessionExpiresAt(null);
+      }
+
       setUser(currentUser);
       
       if (currentUser) {
@@ -125,15 +171,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUserData(updatedData);
   };
 
+  // Claims granted after sign-in only show up once the ID token is refreshed
+  const refreshAdminClaim = async (): Promise<boolean> => {
+    if (!auth.currentUser) return false;
+    return readAdminClaim(auth.currentUser, true);
+  };
+
   const value = {
     user,
     userData,
+    isAdmin,
+    adminRole,
+    adminSessionExpiresAt,
     loading,
     signup,
     login,
     logout,
     googleSignIn,
-    updateUserProfile
+    updateUserProfile,
+    refreshAdminClaim
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AddressInput, getPincodeWarning, getStatesForPincode, validateAddress } from './address-service';
+
+vi.mock('./firebase', () => ({ auth: {}, db: {} }));
+
+const address = (overrides: Partial<AddressInput> = {}): AddressInput => ({
+  label: 'Office',
+  name: 'Asha Rao',
+  line1: '12 Park Street',
+  city: 'Mumbai',
+  state: '27',
+  pincode: '400001',
+  phone: '98765 43210',
+  ...overrides,
+});
+
+describe('validateAddress', () => {
+  it('accepts a complete address', () => {
+    expect(validateAddress(address())).toEqual({});
+  });
+
+  it('accepts either state of a sorting district that straddles a border', () => {
+    expect(validateAddress(address({ state: '04', pincode: '160017' }))).toEqual({});
+    expect(validateAddress(address({ state: '03', pincode: '160062' }))).toEqual({});
+  });
+
+  it('refuses a PIN code from another state', () => {
+    expect(validateAddress(address({ state: '07' }))).toEqual({
+      pincode: 'PIN code 400001 is in Maharashtra, not Delhi, please check the state',
+    });
+  });
+
+  it('accepts a PIN code outside the known sorting districts', () => {
+    expect(validateAddress(address({ pincode: '899999' }))).toEqual({});
+  });
+
+  it('reports the missing state rather than a mismatch', () => {
+    expect(validateAddress(address({ state: '' }))).toEqual({ state: 'Choose a state' });
+  });
+
+  it('reports malformed PIN codes and phone numbers', () => {
+    expect(validateAddress(address({ pincode: '012345', phone: '12345' }))).toEqual({
+      pincode: 'PIN code must be 6 digits',
+      phone: 'Enter a 10-digit phone number',
+    });
+  });
+});
+
+describe('getPincodeWarning', () => {
+  it('warns only about PIN codes outside the known sorting districts', () => {
+    expect(getPincodeWarning({ pincode: '899999' })).toMatch(/don't recognise/);
+    expect(getPincodeWarning({ pincode: '400001' })).toBeNull();
+    expect(getPincodeWarning({ pincode: '4000' })).toBeNull();
+  });
+});
+
+describe('getStatesForPincode', () => {
+  it('lists the states a sorting district delivers to', () => {
+    expect(getStatesForPincode('160017')).toEqual(['04', '03']);
+    expect(getStatesForPincode('899999')).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import { db } from './firebase';
+import { collection, doc, getDocs, orderBy, query, Timestamp, updateDoc, writeBatch } from 'firebase/firestore';
+import { GST_STATE_CODES } from './tax-service';
+import { getPincodeStateError, getStatesForPincode, PINCODE_PATTERN } from '@shared/pincodes';
+
+export { getStatesForPincode } from '@shared/pincodes';
+
+// users/{userId}/addresses/{addressId}. `state` is the GST state code, so a
+// picked address can decide the place of supply directly.
+export interface Address {
+  id: string;
+  label: string; // "Head office", "Warehouse"...
+  name: string; // recipient
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  pincode: string;
+  phone: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type AddressInput = Omit<Address, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Copy kept on the order, so editing the address book never rewrites past orders
+export type OrderAddress = AddressInput;
+
+// Stored on users/{userId} as `addressDefaults`
+export interface AddressDefaults {
+  shipping?: string;
+  billing?: string;
+}
+
+export type AddressKind = keyof AddressDefaults;
+
+export const EMPTY_ADDRESS: AddressInput = {
+  label: '',
+  name: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  pincode: '',
+  phone: '',
+};
+
+// Indian mobile or landline with STD code, optionally prefixed with +91 or 0
+const PHONE_PATTERN = /^(?:\+91|0)?[1-9]\d{9}$/;
+
+// Field -> message, empty when the address is valid
+export const validateAddress = (address: AddressInput): Partial<Record<keyof AddressInput, string>> => {
+  const errors: Partial<Record<keyof AddressInput, string>> = {};
+
+  if (!address.label.trim()) errors.label = "Give this address a name";
+  if (!address.name.trim()) errors.name = "Enter the recipient's name";
+  if (!address.line1.trim()) errors.line1 = "Enter the street address";
+  if (!address.city.trim()) errors.city = "Enter the city";
+  if (!GST_STATE_CODES[address.state]) errors.state = "Choose a state";
+
+  // createRazorpayOrder checks the order's copy of the address the same way
+  if (!PINCODE_PATTERN.test(address.pincode)) errors.pincode = "PIN code must be 6 digits";
+  else if (!errors.state) {
+    const mismatch = getPincodeStateError(address.pincode, address.state);
+    if (mismatch) errors.pincode = `${mismatch}, please check the state`;
+  }
+
+  if (!PHONE_PATTERN.test(address.phone.replace(/[\s-]/g, ''))) errors.phone = "Enter a 10-digit phone number";
+
+  return errors;
+};
+
+// Hint shown under a PIN code the sorting districts don't cover. It never
+// refuses the address: the list is approximate and misses some valid PIN codes.
+export const getPincodeWarning = (address: Pick<AddressInput, 'pincode'>): string | null => {
+  if (!PINCODE_PATTERN.test(address.pincode)) return null;
+  return getStatesForPincode(address.pincode).length === 0 ? "We don't recognise this PIN code, please check it" : null;
+};
+
+// Single line for order lists, invoices and emails
+export const formatAddress = (address: OrderAddress): string =>
+  [
+    address.name,
+    address.line1,
+    address.line2,
+    `${address.city}, ${GST_STATE_CODES[address.state] || address.state} - ${address.pincode}`,
+    `Phone: ${address.phone}`,
+  ].filter(Boolean).join(', ');
+
+// Firestore rejects undefined fields, so unset defaults are left out
+const compactDefaults = (defaults: AddressDefaults): AddressDefaults =>
+  Object.fromEntries(Object.entries(defaults).filter(([, id]) => id));
+
+export const toOrderAddress = ({ id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...address }: Address): OrderAddress => address;
+
+const cleanAddress = (address: AddressInput): AddressInput => ({
+  label: address.label.trim(),
+  name: address.name.trim(),
+  line1: address.line1.trim(),
+  line2: address.line2?.trim() || '',
+  city: address.city.trim(),
+  state: address.state,
+  pincode: address.pincode.trim(),
+  phone: address.phone.replace(/[\s-]/g, ''),
+});
+
+export const getAddresses = async (userId: string): Promise<Address[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'users', userId, 'addresses'), orderBy('createdAt')));
+    return snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as Address);
+  } catch (error) {
+    console.error("❌ Error fetching addresses:", error);
+    return [];
+  }
+};
+
+// Adds the address when `addressId` is missing. The first address saved becomes
+// the default for both shipping and billing.
+export const saveAddress = async (
+  userId: string,
+  address: AddressInput,
+  addressId: string | null,
+  defaults: AddressDefaults
+): Promise<{ success: boolean; address?: Address; defaults?: AddressDefaults; message?: string }> => {
+  const errors = validateAddress(address);
+  if (Object.keys(errors).length > 0) {
+    return { success: false, message: Object.values(errors)[0] };
+  }
+
+  try {
+    const addressRef = addressId
+      ? doc(db, 'users', userId, 'addresses', addressId)
+      : doc(collection(db, 'users', userId, 'addresses'));
+    const now = Timestamp.now();
+    const data = { ...cleanAddress(address), updatedAt: now, ...(addressId ? {} : { createdAt: now }) };
+    const nextDefaults = {
+      shipping: defaults.shipping || addressRef.id,
+      billing: defaults.billing || addressRef.id,
+    };
+
+    console.log("🔄 Saving address:", addressRef.id);
+    const batch = writeBatch(db);
+    batch.set(addressRef, data, { merge: true });
+    if (nextDefaults.shipping !== defaults.shipping || nextDefaults.billing !== defaults.billing) {
+      batch.update(doc(db, 'users', userId), { addressDefaults: nextDefaults });
+    }
+    await batch.commit();
+    console.log("✅ Address saved");
+
+    return { success: true, address: { ...data, id: addressRef.id } as Address, defaults: nextDefaults };
+  } catch (error) {
+    console.error("❌ Error saving address:", error);
+    return { success: false, message: "Failed to save the address" };
+  }
+};
+
+// A deleted default falls back to the first remaining address
+export const deleteAddress = async (
+  userId: string,
+  addressId: string,
+  addresses: Address[],
+  defaults: AddressDefaults
+): Promise<{ success: boolean; defaults?: AddressDefaults; message?: string }> => {
+  try {
+    const fallback = addresses.find(address => address.id !== addressId)?.id;
+    const nextDefaults = compactDefaults({
+      shipping: defaults.shipping === addressId ? fallback : defaults.shipping,
+      billing: defaults.billing === addressId ? fallback : defaults.billing,
+    });
+
+    console.log("🔄 Deleting address:", addressId);
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'users', userId, 'addresses', addressId));
+    batch.update(doc(db, 'users', userId), { addressDefaults: nextDefaults });
+    await batch.commit();
+    console.log("✅ Address deleted");
+
+    return { success: true, defaults: nextDefaults };
+  } catch (error) {
+    console.error("❌ Error deleting address:", error);
+    return { success: false, message: "Failed to delete the address" };
+  }
+};
+
+export const setDefaultAddress = async (
+  userId: string,
+  kind: AddressKind,
+  addressId: string,
+  defaults: AddressDefaults
+): Promise<{ success: boolean; defaults?: AddressDefaults; message?: string }> => {
+  try {
+    const nextDefaults = compactDefaults({ ...defaults, [kind]: addressId });
+    await updateDoc(doc(db, 'users', userId), { addressDefaults: nextDefaults });
+    console.log("✅ Default", kind, "address set:", addressId);
+    return { success: true, defaults: nextDefaults };
+  } catch (error) {
+    console.error("❌ Error setting default address:", error);
+    return { success: false, message: "Failed to update the default address" };
+  }
+};
@@ -0,0 +1,81 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "./firebase";
+
+// Admin second factor (functions/src/admin/mfa.ts). Secrets and recovery
+// codes never leave the functions; a successful check adds session claims
+// to the ID token, so callers must refresh the token afterwards
+// (refreshAdminClaim in AuthContext).
+
+export interface AdminMfaStatus {
+  enrolled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const getAdminMfaStatus = async (): Promise<AdminMfaStatus | null> => {
+  try {
+    const getStatus = httpsCallable<void, AdminMfaStatus>(functions, 'getAdminMfaStatus');
+    const { data } = await getStatus();
+    return data;
+  } catch (error) {
+    console.error("❌ Error fetching two-factor status:", error);
+    return null;
+  }
+};
+
+export const startTotpEnrollment = async (): Promise<{ success: boolean; enrollment?: TotpEnrollment; message?: string }> => {
+  try {
+    const start = httpsCallable<void, TotpEnrollment>(functions, 'startTotpEnrollment');
+    const { data } = await start();
+    return { success: true, enrollment: data };
+  } catch (error) {
+    console.error("❌ Error starting authenticator setup:", error);
+    return { success: false, message: errorMessage(error, "Failed to start authenticator setup") };
+  }
+};
+
+export const confirmTotpEnrollment = async (code: string): Promise<{ success: boolean; recoveryCodes?: string[]; message?: string }> => {
+  try {
+    const confirm = httpsCallable<{ code: string }, { success: boolean; recoveryCodes: string[] }>(functions, 'confirmTotpEnrollment');
+    const { data } = await confirm({ code });
+    console.log("✅ Authenticator enrolled");
+    return { success: data.success, recoveryCodes: data.recoveryCodes };
+  } catch (error) {
+    console.error("❌ Error confirming authenticator:", error);
+    return { success: false, message: errorMessage(error, "Failed to confirm authenticator") };
+  }
+};
+
+// Pass either a six digit authenticator code or a recovery code
+export const verifyAdminSecondFactor = async (
+  input: { code: string } | { recoveryCode: string }
+): Promise<{ success: boolean; recoveryCodesRemaining?: number; message?: string }> => {
+  try {
+    const verify = httpsCallable<{ code?: string; recoveryCode?: string }, { success: boolean; recoveryCodesRemaining: number }>(functions, 'verifyAdminSecondFactor');
+    const { data } = await verify(input);
+    return { success: data.success, recoveryCodesRemaining: data.recoveryCodesRemaining };
+  } catch (error) {
+    console.error("❌ Error verifying second factor:", error);
+    return { success: false, message: errorMessage(error, "Failed to verify code") };
+  }
+};
+
+// Owner only: the admin sets up a new authenticator at their next sign-in
+export const resetAdminMfa = async (email: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const reset = httpsCallable<{ email: string }, { success: boolean }>(functions, 'resetAdminMfa');
+    const { data } = await reset({ email });
+    console.log("✅ Two-factor authentication reset for:", email);
+    return { success: data.success };
+  } catch (error) {
+    console.error("❌ Error resetting two-factor authentication:", error);
+    return { success: false, message: errorMessage(error, "Failed to reset two-factor authentication") };
+  }
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { isAdminRole } from './admin-roles';
+
+describe('isAdminRole', () => {
+  it('accepts the four roles', () => {
+    expect(['owner', 'operations', 'finance', 'support'].every(isAdminRole)).toBe(true);
+  });
+
+  it('refuses other strings, including inherited object keys', () => {
+    expect(isAdminRole('admin')).toBe(false);
+    expect(isAdminRole('constructor')).toBe(false);
+    expect(isAdminRole('toString')).toBe(false);
+    expect(isAdminRole(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+// Admin roles travel as the `role` custom claim next to `admin` (functions/src/admin).
+// Keep the permission table in sync with functions/src/admin/roles.ts and the
+// role checks in firestore.rules.
+export type AdminRole = 'owner' | 'operations' | 'finance' | 'support';
+
+export type AdminTab = 'orders' | 'users' | 'payments' | 'pricing' | 'admins' | 'analytics' | 'audit' | 'catalog';
+
+export type AdminPermission =
+  | 'orders.status' // move orders through the lifecycle
+  | 'orders.delete'
+  | 'payments.status' // change payment status by hand
+  | 'payments.refund'
+  | 'payments.reconcile' // import Razorpay reports and resolve mismatches
+  | 'invoicing.edit'
+  | 'pricing.edit'
+  | 'catalog.edit' // products, categories and images shown on the site
+  | 'admins.manage';
+
+export interface AdminRoleConfig {
+  label: string;
+  description: string;
+  tabs: AdminTab[];
+  permissions: AdminPermission[];
+}
+
+export const ADMIN_ROLES: Record<AdminRole, AdminRoleConfig> = {
+  owner: {
+    label: 'Owner',
+    description: 'Full access, including pricing, the catalog, admin users and the audit log',
+    tabs: ['orders', 'users', 'payments', 'pricing', 'catalog', 'admins', 'analytics', 'audit'],
+    permissions: ['orders.status', 'orders.delete', 'payments.status', 'payments.refund', 'payments.reconcile', 'invoicing.edit', 'pricing.edit', 'catalog.edit', 'admins.manage'],
+  },
+  operations: {
+    label: 'Operations',
+    description: 'Moves orders through production; no payment changes or refunds',
+    tabs: ['orders', 'users', 'payments', 'analytics'],
+    permissions: ['orders.status'],
+  },
+  finance: {
+    label: 'Finance',
+    description: 'Payment status, refunds and invoicing; cannot change production status',
+    tabs: ['orders', 'users', 'payments', 'analytics'],
+    permissions: ['payments.status', 'payments.refund', 'payments.reconcile', 'invoicing.edit'],
+  },
+  support: {
+    label: 'Support',
+    description: 'Read-only access to orders, customers and payments',
+    tabs: ['orders', 'users', 'payments'],
+    permissions: [],
+  },
+};
+
+export const ADMIN_ROLE_OPTIONS = Object.keys(ADMIN_ROLES) as AdminRole[];
+
+export const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === 'string' && (ADMIN_ROLE_OPTIONS as string[]).includes(value);
+
+export const hasPermission = (role: AdminRole | null, permission: AdminPermission): boolean =>
+  !!role && ADMIN_ROLES[role].permissions.includes(permission);
+
+export const canViewTab = (role: AdminRole | null, tab: AdminTab): boolean =>
+  !!role && ADMIN_ROLES[role].tabs.includes(tab);
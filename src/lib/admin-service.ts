@@ -1,7 +1,12 @@
-import { db } from './firebase';
-import { collection, getDocs, query, orderBy, where, doc, updateDoc, Timestamp, getDoc } from 'firebase/firestore';
+import { auth, db, functions } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { sendEmailVerification } from 'firebase/auth';
+import { collection, getDocs, query, orderBy, where, doc, Timestamp, updateDoc } from 'firebase/firestore';
 import { SimpleOrderData } from './invoice-service';
-import { OrderStatus, PaymentStatus } from './order-status-utils';
+import { PaymentStatus } from './order-status-utils';
+import { OrderStatus, resolveOrderStatus } from './order-lifecycle';
+import type { AdminRole } from './admin-roles';
+import { ShipmentInput, validateShipment } from './courier-service';
 
 export interface AdminStats {
   totalOrders: number;
@@ -11,6 +16,54 @@ export interface AdminStats {
   completedOrders: number;
 }
 
+// admins/{uid}, kept in step with the `admin` and `role` claims by functions/src/admin
+export interface AdminUser {
+  uid: string;
+  email: string;
+  role: AdminRole | null;
+  addedBy: string;
+  addedAt: Date;
+  lastLogin?: Date;
+  mfaEnabled: boolean; // authenticator set up, see admin-mfa-service.ts
+}
+
+export type AdminInviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  role: AdminRole;
+  status: AdminInviteStatus;
+  invitedBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedAt?: Date;
+}
+
+// payments/{razorpayPaymentId}: one per payment attempt, written by the
+// functions (functions/src/payments/attempts.ts). Amounts are in rupees.
+export interface PaymentAttempt {
+  id: string; // the Razorpay payment ID
+  orderId: string;
+  userId: string | null;
+  customerName: string;
+  customerEmail: string;
+  razorpayPaymentId: string;
+  razorpayOrderId: string | null;
+  attemptNumber: number;
+  amount: number;
+  currency: string;
+  method: string | null; // upi, card, netbanking, wallet...
+  methodDetail: string | null; // VPA, bank, wallet or card network and last 4 digits
+  fee: number | null; // Razorpay's fee including its GST, known once captured
+  feeTax: number | null;
+  status: 'authorized' | 'captured' | 'failed' | 'refunded';
+  failureReason: string | null;
+  errorCode: string | null;
+  refundedAmount?: number;
+  createdAt: Date;
+}
+
 export interface UserProfile {
   id: string;
   name: string;
@@ -33,7 +86,8 @@ export const getAdminStats = async (): Promise<AdminStats> => {
     
     const orders = ordersSnapshot.docs.map(doc => ({
       id: doc.id,
-      ...doc.data()
+      ...doc.data(),
+      status: resolveOrderStatus(doc.data())
     })) as SimpleOrderData[];
 
     // Calculate stats
@@ -42,11 +96,12 @@ export const getAdminStats = async (): Promise<AdminStats> => {
       .filter(order => order.paymentStatus === 'paid')
       .reduce((sum, order) => sum + (order.totalAmount || 0), 0);
     
-    // Count pending orders (pending_payment, received, processing)
+    // Count pending orders (pending_payment, received, processing, quality_check)
     const pendingOrders = orders.filter(order => 
       order.status === 'pending_payment' || 
       order.status === 'received' || 
-      order.status === 'processing'
+      order.status === 'processing' ||
+      order.status === 'quality_check'
     ).length;
     
     // Count completed orders (shipped, delivered)
@@ -169,10 +224,15 @@ export const getRecentOrders = async (limit: number = 10): Promise<SimpleOrderDa
   }
 };
 
+// Status changes go through the updateOrderStatus function (functions/src/admin/orders.ts),
+// which checks the transition against the lifecycle (functions/src/shared/order-lifecycle.ts) and
+// writes the order, its history and the audit entry in one transaction
 export const updateOrderStatus = async (
   orderId: string, 
   newStatus: OrderStatus, 
-  paymentStatus?: PaymentStatus
+  paymentStatus?: PaymentStatus,
+  note?: string,
+  shipment?: ShipmentInput // required when moving to shipped
 ): Promise<{ success: boolean; message?: string }> => {
   try {
     console.log("🔄 [ADMIN-SERVICE] Starting order status update:", { orderId, newStatus, paymentStatus });
@@ -182,77 +242,198 @@ export const updateOrderStatus = async (
       return { success: false, message: "Missing order ID or status" };
     }
 
-    // First, verify the order exists
-    const orderRef = doc(db, "orders", orderId);
-    const orderSnapshot = await getDoc(orderRef);
-    
-    if (!orderSnapshot.exists()) {
-      console.error("❌ Order does not exist:", orderId);
-      return { success: false, message: "Order not found" };
-    }
-
-    console.log("✅ Order exists, current data:", orderSnapshot.data());
-
-    const updateData: any = {
-      status: newStatus,
-      lastUpdated: Timestamp.now()
-    };
-    
-    if (paymentStatus) {
-      updateData.paymentStatus = paymentStatus;
-      console.log("🔄 Including payment status update:", paymentStatus);
+    const shipmentError = shipment ? validateShipment(shipment) : null;
+    if (shipmentError) {
+      return { success: false, message: shipmentError };
     }
 
-    console.log("📝 Final update data:", updateData);
-    
-    // Perform the update with proper error handling
-    await updateDoc(orderRef, updateData);
-    
-    console.log("✅ [ADMIN-SERVICE] Firestore update completed successfully");
-    
-    // Force a small delay to ensure Firestore consistency
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Verify the update by reading the document again
-    const verificationSnapshot = await getDoc(orderRef);
-    if (verificationSnapshot.exists()) {
-      const updatedData = verificationSnapshot.data();
-      console.log("✅ [VERIFICATION] Updated order confirmed:", {
-        id: orderId,
-        status: updatedData.status,
-        paymentStatus: updatedData.paymentStatus,
-        lastUpdated: updatedData.lastUpdated
-      });
-      
-      // Double-check that the status actually changed
-      if (updatedData.status === newStatus) {
-        console.log("🎉 [SUCCESS] Status change confirmed in database");
-        
-        // If payment status was also updated, verify it
-        if (paymentStatus && updatedData.paymentStatus === paymentStatus) {
-          console.log("🎉 [SUCCESS] Payment status change also confirmed in database");
-        }
-      } else {
-        console.error("❌ [ERROR] Status change not reflected in database");
-        return { success: false, message: "Status update not reflected in database" };
-      }
-    } else {
-      console.error("❌ [ERROR] Could not verify update - document disappeared");
-      return { success: false, message: "Could not verify update" };
-    }
+    const updateStatus = httpsCallable<
+      { orderId: string; status: OrderStatus; paymentStatus?: PaymentStatus; note?: string; shipment?: ShipmentInput },
+      { success: boolean }
+    >(functions, 'updateOrderStatus');
+    await updateStatus({ orderId, status: newStatus, paymentStatus, note, shipment });
     
+    console.log("✅ [ADMIN-SERVICE] Order status updated");
     return { success: true, message: `Order ${newStatus}${paymentStatus ? ` and payment ${paymentStatus}` : ''}` };
     
   } catch (error) {
     console.error("❌ [ADMIN-SERVICE] Error updating order status:", error);
-    console.error("❌ Error details:", {
-      code: (error as any)?.code,
-      message: (error as any)?.message,
-      stack: (error as any)?.stack
-    });
     return { 
       success: false, 
       message: error instanceof Error ? error.message : "Failed to update order status" 
     };
   }
 };
+
+// Payment-only change for the Payments tab, so finance admins never touch the
+// production status (functions/src/admin/orders.ts enforces the same split)
+export const updatePaymentStatus = async (
+  orderId: string,
+  paymentStatus: PaymentStatus,
+  note?: string
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    console.log("🔄 [ADMIN-SERVICE] Updating payment status:", { orderId, paymentStatus });
+
+    const updateStatus = httpsCallable<{ orderId: string; paymentStatus: PaymentStatus; note?: string }, { success: boolean }>(
+      functions,
+      'updatePaymentStatus'
+    );
+    await updateStatus({ orderId, paymentStatus, note });
+
+    console.log("✅ [ADMIN-SERVICE] Payment status updated");
+    return { success: true };
+  } catch (error) {
+    console.error("❌ [ADMIN-SERVICE] Error updating payment status:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to update payment status" };
+  }
+};
+
+export const getPaymentAttempts = async (): Promise<PaymentAttempt[]> => {
+  try {
+    console.log("🔄 Fetching payment attempts...");
+    const paymentsSnapshot = await getDocs(query(collection(db, "payments"), orderBy("createdAt", "desc")));
+
+    const payments = paymentsSnapshot.docs.map(d => {
+      const data = d.data();
+      return {
+        ...data,
+        id: d.id,
+        createdAt: data.createdAt?.toDate() || new Date(),
+      } as PaymentAttempt;
+    });
+
+    console.log(`✅ Fetched ${payments.length} payment attempts`);
+    return payments;
+  } catch (error) {
+    console.error("❌ Error fetching payment attempts:", error);
+    return [];
+  }
+};
+
+export const getAdminUsers = async (): Promise<AdminUser[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'admins'), orderBy('addedAt', 'asc')));
+    return snapshot.docs.map(adminDoc => {
+      const data = adminDoc.data();
+      return {
+        uid: adminDoc.id,
+        email: data.email,
+        role: data.role || null,
+        addedBy: data.addedBy || 'System',
+        addedAt: data.addedAt?.toDate() || new Date(),
+        lastLogin: data.lastLogin?.toDate(),
+        mfaEnabled: data.mfaEnabled === true,
+      };
+    });
+  } catch (error) {
+    console.error("❌ Error fetching admin users:", error);
+    return [];
+  }
+};
+
+export const getAdminInvites = async (): Promise<AdminInvite[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'adminInvites'), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(inviteDoc => {
+      const data = inviteDoc.data();
+      const expiresAt: Date = data.expiresAt.toDate();
+      return {
+        id: inviteDoc.id,
+        email: data.email,
+        role: data.role,
+        // Expiry is only written back when someone tries the link, so work it out here too
+        status: data.status === 'pending' && expiresAt < new Date() ? 'expired' : data.status,
+        invitedBy: data.invitedBy,
+        createdAt: data.createdAt.toDate(),
+        expiresAt,
+        acceptedAt: data.acceptedAt?.toDate(),
+      };
+    });
+  } catch (error) {
+    console.error("❌ Error fetching admin invites:", error);
+    return [];
+  }
+};
+
+export const inviteAdmin = async (
+  email: string,
+  role: AdminRole
+): Promise<{ success: boolean; emailed?: boolean; message?: string }> => {
+  try {
+    const sendInvite = httpsCallable<{ email: string; role: AdminRole }, { success: boolean; emailed: boolean }>(functions, 'inviteAdmin');
+    const { data } = await sendInvite({ email: email.trim().toLowerCase(), role });
+    console.log("✅ Admin invite created for:", email);
+    return { success: data.success, emailed: data.emailed };
+  } catch (error) {
+    console.error("❌ Error inviting admin:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to send invitation" };
+  }
+};
+
+export const revokeAdminInvite = async (inviteId: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const revoke = httpsCallable<{ inviteId: string }, { success: boolean }>(functions, 'revokeAdminInvite');
+    const { data } = await revoke({ inviteId });
+    return { success: data.success };
+  } catch (error) {
+    console.error("❌ Error revoking admin invite:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to revoke invitation" };
+  }
+};
+
+// `invite` is the `<inviteId>.<token>` value from the emailed /admin?invite= link
+// The function only accepts verified email addresses. An unverified account is
+// sent a verification link that leads back to the invitation.
+export const acceptAdminInvite = async (invite: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const user = auth.currentUser;
+    if (user) {
+      await user.reload();
+      if (!user.emailVerified) {
+        await sendEmailVerification(user, { url: window.location.href });
+        return {
+          success: false,
+          message: `We've emailed a verification link to ${user.email}. Open it, then come back to this invitation.`,
+        };
+      }
+      // The ID token has to carry the verified address
+      await user.getIdToken(true);
+    }
+
+    const accept = httpsCallable<{ invite: string }, { success: boolean }>(functions, 'acceptAdminInvite');
+    const { data } = await accept({ invite });
+    console.log("✅ Admin invitation accepted");
+    return { success: data.success };
+  } catch (error) {
+    console.error("❌ Error accepting admin invite:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to accept invitation" };
+  }
+};
+
+// Stores the Firebase Auth sign-in time, so repeated portal visits within one
+// session don't move it
+export const recordAdminLogin = async (uid: string, signedInAt: Date): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'admins', uid), { lastLogin: Timestamp.fromDate(signedInAt) });
+  } catch (error) {
+    console.error("❌ Error recording admin login:", error);
+  }
+};
+
+// Changes an existing admin's role, or removes admin access when role is null.
+// Only owners may call it; new admins join through inviteAdmin.
+export const setAdminAccess = async (
+  email: string,
+  role: AdminRole | null
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const updateAccess = httpsCallable<{ email: string; role: AdminRole | null }, { success: boolean }>(functions, 'setAdminAccess');
+    const { data } = await updateAccess({ email: email.trim().toLowerCase(), role });
+    console.log("✅ Admin access updated:", email, role || "removed");
+    return { success: data.success };
+  } catch (error) {
+    console.error("❌ Error updating admin access:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to update admin access" };
+  }
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+import { auditDiff, auditLogToCsv, AuditEntry } from './audit-service';
+
+vi.mock('./firebase', () => ({ auth: {}, db: {} }));
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  id: 'entry_1',
+  action: 'order.delete',
+  targetType: 'order',
+  targetId: 'order_1',
+  before: null,
+  after: null,
+  note: '',
+  actorUid: 'uid_1',
+  actorEmail: 'owner@example.com',
+  createdAt: new Date('2026-10-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('auditLogToCsv', () => {
+  it('quotes cells that a spreadsheet would run as formulas', () => {
+    const [, row] = auditLogToCsv([entry({ note: '=HYPERLINK("http://evil.example")', targetId: '+91', actorEmail: '@admin' })]).split('\r\n');
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil.example"")"`);
+    expect(row).toContain(",'+91,");
+    expect(row).toContain(",'@admin,");
+  });
+
+  it('leaves ordinary cells alone', () => {
+    const [, row] = auditLogToCsv([entry({ note: 'Duplicate order' })]).split('\r\n');
+
+    expect(row).toBe('2026-10-01T10:00:00.000Z,owner@example.com,order.delete,order,order_1,,,,Duplicate order');
+  });
+});
+
+describe('auditDiff', () => {
+  it('keeps only the fields that changed', () => {
+    expect(auditDiff({ status: 'received', note: 'a' }, { status: 'shipped', note: 'a' })).toEqual({
+      before: { status: 'received' },
+      after: { status: 'shipped' },
+    });
+  });
+});
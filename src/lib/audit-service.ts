@@ -0,0 +1,212 @@
+import { auth, db } from './firebase';
+import { collection, doc, getDocs, query, orderBy, where, limit, serverTimestamp, setDoc, Timestamp, QueryConstraint } from 'firebase/firestore';
+
+// auditLog/{entryId} is append-only: every privileged admin action adds one
+// entry, written in the same transaction or batch as the change where there
+// is one. firestore.rules refuses the browser's changes without their entry.
+// Actions taken through the functions (order status, refunds, admin users,
+// invites, 2FA resets) are recorded there, see functions/src/admin/audit.ts.
+export type AuditAction =
+  | 'order.status'
+  | 'order.payment_status'
+  | 'order.delete'
+  | 'order.refund'
+  | 'payment.reconcile_import'
+  | 'payment.reconcile_resolve'
+  | 'pricing.update'
+  | 'invoicing.update'
+  | 'catalog.publish'
+  | 'catalog.product_save'
+  | 'catalog.category_save'
+  | 'catalog.category_delete'
+  | 'admin.invite'
+  | 'admin.invite_revoke'
+  | 'admin.invite_accept'
+  | 'admin.role_change'
+  | 'admin.remove'
+  | 'admin.mfa_reset';
+
+export type AuditTargetType = 'order' | 'admin' | 'invite' | 'settings' | 'reconciliation' | 'catalog';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'order.status': 'Order status changed',
+  'order.payment_status': 'Payment status changed',
+  'order.delete': 'Order deleted',
+  'order.refund': 'Payment refunded',
+  'payment.reconcile_import': 'Reconciliation imported',
+  'payment.reconcile_resolve': 'Reconciliation mismatch resolved',
+  'pricing.update': 'Pricing updated',
+  'invoicing.update': 'Invoice settings updated',
+  'catalog.publish': 'Catalog published',
+  'catalog.product_save': 'Catalog product saved',
+  'catalog.category_save': 'Catalog category saved',
+  'catalog.category_delete': 'Catalog category deleted',
+  'admin.invite': 'Admin invited',
+  'admin.invite_revoke': 'Invitation revoked',
+  'admin.invite_accept': 'Invitation accepted',
+  'admin.role_change': 'Admin role changed',
+  'admin.remove': 'Admin removed',
+  'admin.mfa_reset': 'Two-factor reset',
+};
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  order: 'Order',
+  admin: 'Admin',
+  invite: 'Invitation',
+  settings: 'Settings',
+  reconciliation: 'Reconciliation',
+  catalog: 'Catalog',
+};
+
+export type AuditValues = Record<string, unknown>;
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+  note?: string;
+}
+
+export interface AuditEntry extends Required<Omit<AuditEntryInput, 'note'>> {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  note: string;
+  createdAt: Date;
+}
+
+export interface AuditLogFilters {
+  from?: Date;
+  to?: Date;
+  max?: number;
+}
+
+// Nested objects (e.g. rate cards) become dotted paths so the diff shows the
+// exact fields that moved
+const flatten = (values: AuditValues, prefix = ''): AuditValues =>
+  Object.entries(values).reduce<AuditValues>((flat, [key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Timestamp) && !(value instanceof Date)) {
+      Object.assign(flat, flatten(value as AuditValues, path));
+    } else {
+      flat[path] = value ?? null;
+    }
+    return flat;
+  }, {});
+
+// Keeps only the fields that differ between the two snapshots
+export const auditDiff = (before: AuditValues | null, after: AuditValues | null) => {
+  const flatBefore = flatten(before || {});
+  const flatAfter = flatten(after || {});
+  const changed = [...new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])]
+    .filter(path => JSON.stringify(flatBefore[path] ?? null) !== JSON.stringify(flatAfter[path] ?? null));
+
+  return {
+    before: before ? Object.fromEntries(changed.map(path => [path, flatBefore[path] ?? null])) : null,
+    after: after ? Object.fromEntries(changed.map(path => [path, flatAfter[path] ?? null])) : null,
+  };
+};
+
+// firestore.rules requires the actor to be the signed-in admin and the
+// timestamp to be the server's
+export const auditEntryData = (entry: AuditEntryInput) => ({
+  action: entry.action,
+  targetType: entry.targetType,
+  targetId: entry.targetId,
+  before: entry.before ?? null,
+  after: entry.after ?? null,
+  note: entry.note?.trim() || '',
+  actorUid: auth.currentUser?.uid || '',
+  actorEmail: auth.currentUser?.email || '',
+  createdAt: serverTimestamp(),
+});
+
+// A fresh entry reference, so callers can write it in the same batch or
+// transaction as the change it records. The changed document stores its ID as
+// `auditId`, which is how firestore.rules finds the entry.
+export const newAuditEntryRef = () => doc(collection(db, 'auditLog'));
+
+// A deleted document can't name its entry, so the rules expect this ID instead.
+// `version` is the deleted document's current `auditId`, for IDs that can be reused.
+export const deletionAuditEntryRef = (targetType: 'order' | 'category', targetId: string, version?: string) =>
+  doc(db, 'auditLog', [targetType, 'delete', targetId, ...(version !== undefined ? [version] : [])].join('-'));
+
+export const recordAuditEntry = async (entry: AuditEntryInput): Promise<void> => {
+  try {
+    await setDoc(newAuditEntryRef(), auditEntryData(entry));
+  } catch (error) {
+    console.error("❌ Error writing audit entry:", entry.action, error);
+  }
+};
+
+// Newest first. Only the date range runs in Firestore; the tab filters the
+// rest in the browser, which avoids a composite index per filter combination.
+export const getAuditLog = async ({ from, to, max = 500 }: AuditLogFilters = {}): Promise<AuditEntry[]> => {
+  try {
+    const constraints: QueryConstraint[] = [];
+    if (from) constraints.push(where('createdAt', '>=', Timestamp.fromDate(from)));
+    if (to) constraints.push(where('createdAt', '<=', Timestamp.fromDate(to)));
+
+    const snapshot = await getDocs(
+      query(collection(db, 'auditLog'), ...constraints, orderBy('createdAt', 'desc'), limit(max))
+    );
+
+    return snapshot.docs.map(entryDoc => {
+      const data = entryDoc.data();
+      return {
+        id: entryDoc.id,
+        action: data.action,
+        targetType: data.targetType,
+        targetId: data.targetId,
+        before: data.before ?? null,
+        after: data.after ?? null,
+        note: data.note || '',
+        actorUid: data.actorUid,
+        actorEmail: data.actorEmail,
+        createdAt: data.createdAt?.toDate() || new Date(),
+      };
+    });
+  } catch (error) {
+    console.error("❌ Error fetching audit log:", error);
+    return [];
+  }
+};
+
+const formatAuditValue = (value: unknown): string => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// "field: before → after" per changed field
+export const describeAuditChanges = (entry: Pick<AuditEntry, 'before' | 'after'>): string[] => {
+  const fields = [...new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})])];
+  return fields.map(field =>
+    `${field}: ${formatAuditValue(entry.before?.[field]) || '—'} → ${formatAuditValue(entry.after?.[field]) || '—'}`
+  );
+};
+
+// Spreadsheets run cells starting with = + - @ as formulas, so those get a leading quote
+const csvCell = (cell: string) => {
+  const value = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const auditLogToCsv = (entries: AuditEntry[]): string => {
+  const header = ['Timestamp', 'Actor', 'Action', 'Target Type', 'Target ID', 'Changes', 'Before', 'After', 'Note'];
+  const rows = entries.map(entry => [
+    entry.createdAt.toISOString(),
+    entry.actorEmail,
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    describeAuditChanges(entry).join('; '),
+    entry.before ? JSON.stringify(entry.before) : '',
+    entry.after ? JSON.stringify(entry.after) : '',
+    entry.note,
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
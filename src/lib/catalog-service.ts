@@ -0,0 +1,251 @@
+import { db } from './firebase';
+import { collection, doc, getDocs, query, runTransaction, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { auditDiff, auditEntryData, deletionAuditEntryRef, newAuditEntryRef } from './audit-service';
+import { getHsnCode } from './tax-service';
+import type { ProductSpec } from './product-specs';
+import uvPrinting from '../assets/uvprinting.jpg';
+import tags from '../assets/tags.jpg';
+import medicineBoxes from '../assets/medicinebox.jpg';
+import digital from '../assets/digital.jpg';
+import factory from '../assets/factoryprinting.jpeg';
+
+// catalog/{productId} and catalogCategories/{categoryId}. Visitors read the
+// active products (home page, portfolio, order form); owners edit both from the
+// admin Catalog tab. `productType` picks the rate card and spec schema.
+export interface CatalogCategory {
+  id: string;
+  name: string;
+  sortOrder: number;
+  auditId?: string; // entry of the last change (audit-service)
+}
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  productType: string; // sticker, tag, box, medicine_box or custom
+  description: string;
+  categoryIds: string[];
+  images: string[]; // download URLs; the first one is the cover
+  hsnCode: string;
+  defaultSpec: ProductSpec; // pre-filled in the order form
+  active: boolean;
+  featured: boolean; // shown on the home page
+  sortOrder: number;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+  auditId?: string; // entry of the last change (audit-service)
+}
+
+export interface Catalog {
+  categories: CatalogCategory[];
+  products: CatalogProduct[];
+  // 'default' until an owner publishes the catalog to Firestore
+  source: 'firestore' | 'default';
+}
+
+export const HSN_CODE_PATTERN = /^\d{4}(\d{2}){0,2}$/;
+
+// Bundled pictures for products without uploaded images. Kept out of Firestore
+// because the built asset URLs change with every deploy.
+const FALLBACK_IMAGES: Record<string, string> = {
+  sticker: uvPrinting,
+  tag: tags,
+  box: digital,
+  medicine_box: medicineBoxes,
+  custom: factory,
+};
+
+export const getProductImage = (product: Pick<CatalogProduct, 'images' | 'productType'>): string =>
+  product.images[0] || FALLBACK_IMAGES[product.productType] || '/placeholder.svg';
+
+const defaultProduct = (
+  productType: string,
+  name: string,
+  description: string,
+  categoryIds: string[],
+  sortOrder: number,
+  featured: boolean
+): CatalogProduct => ({
+  id: productType,
+  name,
+  productType,
+  description,
+  categoryIds,
+  images: [],
+  hsnCode: getHsnCode(productType),
+  defaultSpec: {},
+  active: true,
+  featured,
+  sortOrder,
+});
+
+// What the site offered before the catalog moved to Firestore
+export const DEFAULT_CATALOG: Catalog = {
+  source: 'default',
+  categories: [
+    { id: 'labels', name: 'Labels & Stickers', sortOrder: 1 },
+    { id: 'boxes', name: 'Boxes & Cartons', sortOrder: 2 },
+    { id: 'pharma', name: 'Pharmaceutical', sortOrder: 3 },
+    { id: 'retail', name: 'Retail & Branding', sortOrder: 4 },
+  ],
+  products: [
+    defaultProduct('sticker', 'Stickers & Labels', 'Durable, weather-resistant UV printed labels and stickers with vibrant colours.', ['labels', 'retail'], 1, true),
+    defaultProduct('tag', 'Tags & Cards', 'Branded tags for product identification and information.', ['labels', 'retail'], 2, true),
+    defaultProduct('box', 'Boxes & Cartons', 'Custom printed packaging with premium finishes for consumer and industrial products.', ['boxes'], 3, true),
+    defaultProduct('medicine_box', 'Medicine Boxes', 'Precisely printed pharmaceutical packaging that meets regulatory standards.', ['boxes', 'pharma'], 4, true),
+    defaultProduct('custom', 'Custom Packaging', 'Tell us what you need and we will print and make it to your specification.', ['boxes', 'retail'], 5, false),
+  ],
+};
+
+const bySortOrder = <T extends { sortOrder: number; name: string }>(a: T, b: T) =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+// Visitors may only read active products (firestore.rules), so the public query filters on it
+export const getCatalog = async ({ includeInactive = false } = {}): Promise<Catalog> => {
+  try {
+    const productsQuery = includeInactive
+      ? collection(db, 'catalog')
+      : query(collection(db, 'catalog'), where('active', '==', true));
+    const [productsSnapshot, categoriesSnapshot] = await Promise.all([
+      getDocs(productsQuery),
+      getDocs(collection(db, 'catalogCategories')),
+    ]);
+
+    if (productsSnapshot.empty && categoriesSnapshot.empty) {
+      return DEFAULT_CATALOG;
+    }
+
+    return {
+      source: 'firestore',
+      categories: categoriesSnapshot.docs.map(d => ({ ...d.data(), id: d.id }) as CatalogCategory).sort(bySortOrder),
+      products: productsSnapshot.docs.map(d => ({ ...d.data(), id: d.id }) as CatalogProduct).sort(bySortOrder),
+    };
+  } catch (error) {
+    console.error("❌ Error loading catalog, using defaults:", error);
+    return DEFAULT_CATALOG;
+  }
+};
+
+export const newCatalogProductId = (): string => doc(collection(db, 'catalog')).id;
+
+const productData = (product: CatalogProduct, adminEmail: string, auditId: string) => {
+  const { id: _id, ...data } = product;
+  return { ...data, updatedAt: Timestamp.now(), updatedBy: adminEmail, auditId };
+};
+
+const auditedFields = ({ updatedAt: _updatedAt, updatedBy: _updatedBy, auditId: _auditId, ...fields }: Partial<CatalogProduct>) => fields;
+
+const auditedCategoryFields = ({ id: _id, auditId: _auditId, ...fields }: Partial<CatalogCategory>) => fields;
+
+// Writes the built-in catalog to Firestore so owners can start editing it
+export const publishDefaultCatalog = async (adminEmail: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const auditRef = newAuditEntryRef();
+    const batch = writeBatch(db);
+    DEFAULT_CATALOG.categories.forEach(({ id, ...category }) =>
+      batch.set(doc(db, 'catalogCategories', id), { ...category, auditId: auditRef.id }));
+    DEFAULT_CATALOG.products.forEach(product =>
+      batch.set(doc(db, 'catalog', product.id), productData(product, adminEmail, auditRef.id)));
+    batch.set(auditRef, auditEntryData({
+      action: 'catalog.publish',
+      targetType: 'catalog',
+      targetId: 'catalog',
+      after: { products: DEFAULT_CATALOG.products.length, categories: DEFAULT_CATALOG.categories.length },
+    }));
+    await batch.commit();
+
+    console.log("✅ Default catalog published");
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error publishing catalog:", error);
+    return { success: false, message: "Failed to publish the catalog" };
+  }
+};
+
+export const saveCatalogProduct = async (
+  product: CatalogProduct,
+  adminEmail: string
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const productRef = doc(db, 'catalog', product.id);
+
+    await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(productRef);
+      const auditRef = newAuditEntryRef();
+      transaction.set(productRef, productData(product, adminEmail, auditRef.id));
+      transaction.set(auditRef, auditEntryData({
+        action: 'catalog.product_save',
+        targetType: 'catalog',
+        targetId: `product/${product.id}`,
+        ...auditDiff(
+          existing.exists() ? auditedFields(existing.data() as CatalogProduct) : null,
+          auditedFields(product)
+        ),
+      }));
+    });
+
+    console.log("✅ Catalog product saved:", product.id);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error saving catalog product:", error);
+    return { success: false, message: "Failed to save the product" };
+  }
+};
+
+export const saveCatalogCategory = async (category: CatalogCategory): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { id } = category;
+    const data = auditedCategoryFields(category);
+    const categoryRef = doc(db, 'catalogCategories', id);
+
+    await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(categoryRef);
+      const auditRef = newAuditEntryRef();
+      transaction.set(categoryRef, { ...data, auditId: auditRef.id });
+      transaction.set(auditRef, auditEntryData({
+        action: 'catalog.category_save',
+        targetType: 'catalog',
+        targetId: `category/${id}`,
+        ...auditDiff(existing.exists() ? auditedCategoryFields(existing.data() as CatalogCategory) : null, data),
+      }));
+    });
+
+    console.log("✅ Catalog category saved:", id);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error saving catalog category:", error);
+    return { success: false, message: "Failed to save the category" };
+  }
+};
+
+// Products keep their other categories; the caller checks the category is unused
+export const deleteCatalogCategory = async (category: CatalogCategory): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { id } = category;
+    const categoryRef = doc(db, 'catalogCategories', id);
+
+    await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(categoryRef);
+      if (!existing.exists()) return;
+
+      const current = existing.data() as CatalogCategory;
+      transaction.delete(categoryRef);
+      transaction.set(deletionAuditEntryRef('category', id, current.auditId || 'initial'), auditEntryData({
+        action: 'catalog.category_delete',
+        targetType: 'catalog',
+        targetId: `category/${id}`,
+        before: auditedCategoryFields(current),
+      }));
+    });
+
+    console.log("✅ Catalog category deleted:", id);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error deleting catalog category:", error);
+    return { success: false, message: "Failed to delete the category" };
+  }
+};
+
+// "Labels & Stickers" style slugs for new category IDs
+export const toCategoryId = (name: string): string =>
+  name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
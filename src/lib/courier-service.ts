@@ -0,0 +1,105 @@
+import { Timestamp } from 'firebase/firestore';
+import { COURIERS, Courier, ShipmentInput, validateShipment } from '@shared/couriers';
+
+export { validateShipment };
+export type { ShipmentInput };
+
+export type TrackingStatus = 'picked_up' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception';
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location?: string;
+  at: Date;
+}
+
+// Recorded on the order when it moves to shipped. The carrier label and tracking
+// URL are copied in so emails and old orders don't depend on the adapter list.
+export interface Shipment {
+  carrier: string; // CourierAdapter id
+  carrierLabel: string;
+  awb: string;
+  trackingUrl?: string;
+  eta?: string; // yyyy-MM-dd
+  shippedAt: Timestamp;
+  shippedBy?: string | null;
+}
+
+// One per courier (functions/src/shared/couriers.ts, so the backend validates the
+// same AWBs). Adapters without `fetchTracking` only link to the carrier's own
+// tracking page. Adapters for courier APIs (Shiprocket, Delhivery) need
+// credentials, so their `fetchTracking` should go through a Cloud Function.
+export interface CourierAdapter extends Courier {
+  fetchTracking?: (shipment: Shipment) => Promise<TrackingEvent[]>;
+}
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  picked_up: 'Picked up',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+};
+
+const FAKE_HUBS = ['Bhiwandi', 'Gurugram', 'Bengaluru', 'Kolkata', 'Hyderabad', 'Ahmedabad'];
+const HOUR = 60 * 60 * 1000;
+
+const atHour = (date: Date, hour: number) => {
+  const result = new Date(date);
+  result.setHours(hour, 0, 0, 0);
+  return result;
+};
+
+// Stand-in courier for development: a deterministic timeline worked out from the
+// AWB, ship date and ETA, revealed as time passes so polling shows progress
+const fetchLocalTestTracking = async (shipment: Shipment): Promise<TrackingEvent[]> => {
+  const shippedAt = shipment.shippedAt.toDate();
+  const hub = FAKE_HUBS[[...shipment.awb].reduce((sum, char) => sum + char.charCodeAt(0), 0) % FAKE_HUBS.length];
+  const deliveryDay = shipment.eta
+    ? new Date(`${shipment.eta}T00:00:00`)
+    : new Date(shippedAt.getTime() + 3 * 24 * HOUR);
+
+  const timeline: TrackingEvent[] = [
+    { status: 'picked_up', description: 'Shipment picked up', location: 'Origin facility', at: new Date(shippedAt.getTime() + HOUR) },
+    { status: 'in_transit', description: 'Departed origin facility', location: 'Origin facility', at: new Date(shippedAt.getTime() + 8 * HOUR) },
+    { status: 'in_transit', description: 'Arrived at sorting hub', location: hub, at: new Date(shippedAt.getTime() + 24 * HOUR) },
+    { status: 'out_for_delivery', description: 'Out for delivery', location: 'Destination facility', at: atHour(deliveryDay, 9) },
+    { status: 'delivered', description: 'Delivered to the recipient', location: 'Destination', at: atHour(deliveryDay, 15) },
+  ];
+
+  const now = Date.now();
+  return timeline.filter(event => event.at.getTime() <= now).reverse();
+};
+
+export const COURIER_ADAPTERS: CourierAdapter[] = COURIERS.map(courier =>
+  courier.id === 'local_test' ? { ...courier, fetchTracking: fetchLocalTestTracking } : courier
+);
+
+// Couriers an admin can pick; the test courier only outside production builds
+export const getSelectableCouriers = (): CourierAdapter[] =>
+  COURIER_ADAPTERS.filter(adapter => !adapter.devOnly || import.meta.env.DEV);
+
+export const getCourier = (id: string): CourierAdapter | undefined =>
+  COURIER_ADAPTERS.find(adapter => adapter.id === id);
+
+export const canPollTracking = (shipment: Shipment) => !!getCourier(shipment.carrier)?.fetchTracking;
+
+// Latest tracking events, newest first
+export const getTrackingEvents = async (
+  shipment: Shipment
+): Promise<{ success: boolean; events: TrackingEvent[]; message?: string }> => {
+  const courier = getCourier(shipment.carrier);
+  if (!courier?.fetchTracking) {
+    return { success: false, events: [], message: "Live tracking isn't available for this courier" };
+  }
+
+  try {
+    console.log("🔄 Polling tracking:", courier.id, shipment.awb);
+    const events = await courier.fetchTracking(shipment);
+    console.log(`✅ ${events.length} tracking events`);
+    return { success: true, events };
+  } catch (error) {
+    console.error("❌ Error fetching tracking events:", error);
+    return { success: false, events: [], message: "Couldn't reach the courier, try again later" };
+  }
+};
@@ -1,45 +1,33 @@
 // src/lib/email-service.ts
-import { InvoiceData } from './invoice-generator';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
 
-export const sendInvoiceEmail = async (
-  invoiceData: InvoiceData,
-  pdfBlob: Blob,
-  sendToOwner: boolean = true
+// Mail is sent by the backend over SMTP (functions/src/mail); the owner and BCC
+// copies are configured server-side. Invoices are emailed by the backend as soon
+// as the payment is confirmed (functions/src/invoice-delivery.ts).
+
+// Only finance admins can call this; the credit note PDF must already be stored (see issueCreditNote)
+export const sendCreditNoteEmail = async (
+  refundId: string
 ): Promise<{success: boolean; message: string}> => {
   try {
-    console.log('=== EMAIL SIMULATION ===');
-    console.log('Sending invoice email to:', invoiceData.customerEmail);
-    if (sendToOwner) {
-      console.log('Sending copy to owner:', 'laxmankamboj@gmail.com');
-    }
-    console.log('Invoice ID:', invoiceData.invoiceId);
-    console.log('Order ID:', invoiceData.orderId);
-    console.log('Customer:', invoiceData.customerName);
-    console.log('Total Amount:', invoiceData.totalAmount);
-    
-    // Check if the PDF blob is valid
-    if (!pdfBlob || pdfBlob.size === 0) {
-      console.warn('Warning: PDF blob is empty or invalid');
-    } else {
-      console.log('PDF size:', pdfBlob.size, 'bytes');
-    }
-    
-    console.log('=== END EMAIL SIMULATION ===');
-    
-    // Simulate successful email sending for demo purposes
-    // Shorter timeout to avoid long waits
-    await new Promise(resolve => setTimeout(resolve, 300));
-    
+    console.log('📧 Requesting credit note email for refund:', refundId);
+
+    const sendEmail = httpsCallable<{ refundId: string }, { success: boolean; alreadySent?: boolean }>(
+      functions,
+      'sendCreditNoteEmail'
+    );
+    const { data } = await sendEmail({ refundId });
+
     return {
-      success: true,
-      message: 'Invoice email sent successfully (simulated)'
+      success: data.success,
+      message: data.alreadySent ? 'Credit note email was already sent' : 'Credit note email sent successfully'
     };
   } catch (error) {
-    console.error('Error sending invoice email:', error);
-    // Don't let this failure block the entire process
+    console.error('Error sending credit note email:', error);
     return {
       success: false,
-      message: `Failed to send invoice email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      message: `Failed to send credit note email: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
-};
\ No newline at end of file
+};
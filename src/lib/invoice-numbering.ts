@@ -0,0 +1,79 @@
+import { db } from './firebase';
+import { doc, getDoc, writeBatch, Timestamp } from 'firebase/firestore';
+import { auditEntryData, newAuditEntryRef } from './audit-service';
+import { DEFAULT_INVOICE_SERIES_PREFIX, getFinancialYear, isValidSeriesPrefix } from '@shared/invoice-numbering';
+
+// Numbers themselves are allocated by the backend when a payment is verified
+// (allocateInvoiceNumber in functions/src/invoices.ts)
+export {
+  DEFAULT_INVOICE_SERIES_PREFIX,
+  formatInvoiceNumber,
+  getFinancialYear,
+  isValidSeriesPrefix,
+} from '@shared/invoice-numbering';
+
+export interface InvoiceSettings {
+  seriesPrefix: string;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+export const getInvoiceSettings = async (): Promise<InvoiceSettings> => {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'settings', 'invoicing'));
+    const settings = settingsDoc.exists() ? (settingsDoc.data() as InvoiceSettings) : null;
+
+    return settings && isValidSeriesPrefix(settings.seriesPrefix || '')
+      ? settings
+      : { seriesPrefix: DEFAULT_INVOICE_SERIES_PREFIX };
+  } catch (error) {
+    console.error("❌ Error loading invoice settings, using defaults:", error);
+    return { seriesPrefix: DEFAULT_INVOICE_SERIES_PREFIX };
+  }
+};
+
+// Last number issued in a series, 0 if the series hasn't started yet
+export const getLastInvoiceSequence = async (prefix: string, financialYear: string = getFinancialYear()): Promise<number> => {
+  const counterDoc = await getDoc(doc(db, 'invoiceCounters', `${prefix}_${financialYear}`));
+  return counterDoc.exists() ? counterDoc.data().lastNumber || 0 : 0;
+};
+
+export const saveInvoiceSeriesPrefix = async (
+  seriesPrefix: string,
+  adminEmail: string
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const prefix = seriesPrefix.trim().toUpperCase();
+
+    if (!isValidSeriesPrefix(prefix)) {
+      return { success: false, message: "Prefix must be 1-8 characters: A-Z, 0-9 or '-', and can't end in -CN" };
+    }
+
+    const settingsRef = doc(db, 'settings', 'invoicing');
+    const previous = await getDoc(settingsRef);
+    const previousPrefix = previous.exists() ? previous.data().seriesPrefix || DEFAULT_INVOICE_SERIES_PREFIX : DEFAULT_INVOICE_SERIES_PREFIX;
+
+    const auditRef = newAuditEntryRef();
+    const batch = writeBatch(db);
+    batch.set(settingsRef, {
+      seriesPrefix: prefix,
+      updatedAt: Timestamp.now(),
+      updatedBy: adminEmail,
+      auditId: auditRef.id,
+    }, { merge: true });
+    batch.set(auditRef, auditEntryData({
+      action: 'invoicing.update',
+      targetType: 'settings',
+      targetId: 'invoicing',
+      before: { seriesPrefix: previousPrefix },
+      after: { seriesPrefix: prefix },
+    }));
+    await batch.commit();
+
+    console.log("✅ Invoice series prefix saved:", prefix);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error saving invoice settings:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to save invoice settings" };
+  }
+};
@@ -1,40 +1,106 @@
 
-import { db } from './firebase';
-import { collection, addDoc, doc, updateDoc, getDoc, Timestamp, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
+import { db, functions } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import type { PriceQuote, PricingOptions } from './pricing-service';
+import type { ProductSpec } from './product-specs';
+import type { OrderAddress } from './address-service';
+import type { Shipment } from './courier-service';
+import { getOrderTaxBreakdown, TaxBreakdown } from './tax-service';
+import { OrderStatus, resolveOrderStatus } from './order-lifecycle';
+import { generateInvoicePDF, InvoiceData } from './invoice-generator';
+import { uploadInvoicePdf, getStoredFileUrl } from './storage-service';
+import { newOrderEventRef, orderEventData } from './order-history-service';
+import { collection, doc, updateDoc, getDoc, Timestamp, FieldValue, query, where, getDocs, orderBy, writeBatch } from 'firebase/firestore';
+
+// One product of a cart order, with its own artwork and price
+export interface OrderLineItem {
+  productId?: string; // catalog/{productId} (src/lib/catalog-service.ts)
+  productName?: string; // catalog name when ordered, falls back to the rate card label
+  productType: string;
+  quantity: number;
+  spec?: ProductSpec; // structured specification (src/lib/product-specs.ts)
+  specifications?: string; // free-text notes
+  fileUrl: string;
+  filePath?: string;
+  fileName: string;
+  hsnCode: string;
+  pricingOptions?: PricingOptions;
+  priceBreakdown?: PriceQuote;
+  subtotal: number; // taxable value of this line
+  taxBreakdown?: TaxBreakdown;
+}
 
 export interface SimpleOrderData {
   id?: string;
   userId: string;
+  // Orders placed before the cart have a single product and no lineItems. Cart
+  // orders keep the first line's product, file and HSN code in the top-level
+  // fields, with `quantity` the total units, for the screens that show one product.
+  lineItems?: OrderLineItem[];
   productType: string;
   quantity: number;
   specifications?: string;
-  deliveryAddress: string;
+  deliveryAddress: string; // the shipping address as one line
+  deliveryState?: string; // GST state code, decides place of supply when there's no GSTIN
+  // Picked from the address book (src/lib/address-service.ts); older orders only have deliveryAddress
+  shippingAddress?: OrderAddress;
+  billingAddress?: OrderAddress;
   gstNumber?: string;
   fileUrl: string;
+  filePath?: string; // Firebase Storage path of the uploaded design file
   fileName: string;
-  totalAmount: number;
+  subtotal?: number; // taxable value before GST
+  taxBreakdown?: TaxBreakdown;
+  totalAmount: number; // grand total including GST, the amount charged
+  // Rate card version and breakdown the customer was quoted (src/lib/pricing-service.ts)
+  pricingVersion?: number;
+  pricingOptions?: PricingOptions;
+  priceBreakdown?: PriceQuote;
   customerName: string;
   customerEmail: string;
   hsnCode: string;
   trackingId: string;
-  status: 'pending_payment' | 'received' | 'processing' | 'printed' | 'shipped' | 'delivered';
-  paymentStatus: 'pending' | 'paid' | 'failed';
-  // New execution status system
-  executionStatus: 'order_created' | 'processing' | 'quality_check' | 'shipped' | 'delivered';
-  executionProgress: number; // 0-100 percentage
+  status: OrderStatus; // see src/lib/order-lifecycle.ts for the allowed transitions
+  shipment?: Shipment; // courier and AWB, recorded when the order moves to shipped
+  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded' | 'partial_refund';
   timestamp: any;
   razorpayPaymentId?: string;
+  razorpayOrderId?: string;
   paymentCompletedAt?: any;
+  lastPaymentFailure?: { razorpayPaymentId: string; reason: string; at: Timestamp };
+  refundedAmount?: number;
+  refundPendingAmount?: number; // reserved while a refund is with Razorpay (functions/src/payments/refunds.ts)
   invoiceId?: string;
   lastUpdated?: any;
 }
 
+// The order's products, one line per cart item
+export const getOrderLines = (order: SimpleOrderData): OrderLineItem[] => {
+  if (order.lineItems?.length) {
+    return order.lineItems;
+  }
+
+  return [{
+    productType: order.productType,
+    quantity: order.quantity,
+    specifications: order.specifications,
+    fileUrl: order.fileUrl,
+    filePath: order.filePath,
+    fileName: order.fileName,
+    hsnCode: order.hsnCode,
+    pricingOptions: order.pricingOptions,
+    priceBreakdown: order.priceBreakdown,
+    subtotal: order.subtotal ?? order.taxBreakdown?.taxableAmount ?? order.totalAmount,
+    taxBreakdown: order.taxBreakdown,
+  }];
+};
+
 export const testDatabaseConnection = async (): Promise<boolean> => {
   try {
     console.log("🧪 Testing database connection...");
     
-    const testQuery = query(collection(db, 'orders'), limit(1));
-    await getDocs(testQuery);
+    // Any signed-in user may read settings (firestore.rules), unlike other users' orders
+    await getDoc(doc(db, 'settings', 'pricing'));
     
     console.log("✅ Database connection successful");
     return true;
@@ -44,7 +110,7 @@ export const testDatabaseConnection = async (): Promise<boolean> => {
   }
 };
 
-export const createOrder = async (orderData: Omit<SimpleOrderData, 'id' | 'status' | 'paymentStatus' | 'timestamp' | 'lastUpdated' | 'executionStatus' | 'executionProgress'>): Promise<{ success: boolean; orderId?: string; message?: string }> => {
+export const createOrder = async (orderData: Omit<SimpleOrderData, 'id' | 'status' | 'paymentStatus' | 'timestamp' | 'lastUpdated'>): Promise<{ success: boolean; orderId?: string; message?: string }> => {
   try {
     console.log("🔄 Creating order...");
     
@@ -56,14 +122,23 @@ export const createOrder = async (orderData: Omit<SimpleOrderData, 'id' | 'statu
       ...orderData,
       status: 'pending_payment',
       paymentStatus: 'pending',
-      executionStatus: 'order_created',
-      executionProgress: 0,
       timestamp: Timestamp.now(),
       lastUpdated: Timestamp.now()
     };
 
     console.log("📤 Adding order to Firestore...");
-    const docRef = await addDoc(collection(db, 'orders'), orderWithDefaults);
+    const docRef = doc(collection(db, 'orders'));
+    const batch = writeBatch(db);
+    batch.set(docRef, orderWithDefaults);
+    batch.set(newOrderEventRef(docRef), orderEventData({
+      type: 'status',
+      from: null,
+      to: 'pending_payment',
+      actorEmail: orderData.customerEmail,
+      source: 'customer',
+      note: 'Order placed'
+    }));
+    await batch.commit();
     console.log("✅ Order created with ID:", docRef.id);
     
     return {
@@ -80,124 +155,150 @@ export const createOrder = async (orderData: Omit<SimpleOrderData, 'id' | 'statu
   }
 };
 
-export const updateOrderAfterPayment = async (orderId: string, razorpayPaymentId: string): Promise<{ success: boolean; message?: string }> => {
+export interface PaymentVerification {
+  razorpayOrderId: string;
+  razorpayPaymentId: string;
+  razorpaySignature: string;
+}
+
+// Marking an order as paid happens on the backend, which checks the Razorpay
+// signature first (functions/src/payments). The browser can't do it directly.
+export const updateOrderAfterPayment = async (orderId: string, payment: PaymentVerification): Promise<{ success: boolean; invoiceId?: string; message?: string }> => {
   try {
-    console.log("🔄 Updating order after payment:", orderId);
-    
-    const orderRef = doc(db, 'orders', orderId);
-    const orderDoc = await getDoc(orderRef);
+    console.log("🔄 Verifying payment for order:", orderId);
     
-    if (!orderDoc.exists()) {
-      return { success: false, message: "Order not found" };
-    }
-    
-    const orderData = orderDoc.data() as SimpleOrderData;
-    const invoiceId = `INV-${orderData.trackingId}-${Date.now().toString().slice(-6)}`;
-    
-    const updateData = {
-      status: 'received',
-      paymentStatus: 'paid',
-      executionStatus: 'order_created',
-      executionProgress: 20,
-      razorpayPaymentId: razorpayPaymentId,
-      paymentCompletedAt: Timestamp.now(),
-      invoiceId: invoiceId,
-      lastUpdated: Timestamp.now()
-    };
-    
-    await updateDoc(orderRef, updateData);
-    console.log("✅ Order updated successfully");
+    const verifyPayment = httpsCallable<PaymentVerification & { orderId: string }, { success: boolean; invoiceId?: string }>(
+      functions,
+      'verifyRazorpayPayment'
+    );
+    const { data } = await verifyPayment({ orderId, ...payment });
+    console.log("✅ Payment verified and order updated");
     
-    return { success: true };
+    return { success: data.success, invoiceId: data.invoiceId };
     
   } catch (error) {
-    console.error("❌ Error updating order:", error);
-    return { success: false, message: "Failed to update order" };
+    console.error("❌ Error verifying payment:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to verify payment" };
   }
 };
 
-export const updateOrderExecutionStatus = async (orderId: string, executionStatus: SimpleOrderData['executionStatus']): Promise<{ success: boolean; message?: string }> => {
+export interface InvoiceLineItem {
+  name: string;
+  hsnCode: string;
+  quantity: number;
+  price: number; // taxable unit price
+  amount: number;
+}
+
+// invoices/{orderId}, written by the backend when a payment is verified (functions/src/invoices.ts)
+export interface InvoiceRecord {
+  id?: string; // same as the order ID
+  invoiceNumber: string;
+  orderId: string;
+  userId: string;
+  trackingId: string;
+  customerName: string;
+  customerEmail: string;
+  customerAddress: string;
+  deliveryState?: string | null;
+  gstNumber?: string;
+  lineItems: InvoiceLineItem[];
+  taxBreakdown: TaxBreakdown | null; // null for orders placed before GST was itemised
+  subtotal: number;
+  totalAmount: number;
+  status: 'paid' | 'partially_refunded' | 'refunded';
+  refundedAmount?: number;
+  pdfPath: string | null; // Firebase Storage path once the PDF has been rendered
+  razorpayPaymentId?: string;
+  createdAt: Timestamp | FieldValue;
+}
+
+export const toInvoiceData = (invoice: InvoiceRecord): InvoiceData => {
+  const [firstLine] = invoice.lineItems;
+  const taxBreakdown = getOrderTaxBreakdown({
+    taxBreakdown: invoice.taxBreakdown || undefined,
+    totalAmount: invoice.totalAmount,
+    hsnCode: firstLine?.hsnCode || "4911",
+    gstNumber: invoice.gstNumber,
+    deliveryState: invoice.deliveryState || undefined,
+  });
+
+  // Legacy single-line invoices stored a tax-inclusive price, so take the unit price from the split amount
+  const products = invoice.taxBreakdown
+    ? invoice.lineItems.map(({ name, hsnCode, quantity, price }) => ({ name, hsnCode, quantity, price }))
+    : invoice.lineItems.map(({ name, hsnCode, quantity }) => ({
+        name,
+        hsnCode,
+        quantity,
+        price: Math.round((taxBreakdown.taxableAmount / quantity) * 100) / 100,
+      }));
+
+  return {
+    invoiceId: invoice.invoiceNumber,
+    orderId: invoice.orderId,
+    orderDate: invoice.createdAt instanceof Timestamp ? invoice.createdAt.toDate() : new Date(),
+    customerName: invoice.customerName,
+    customerEmail: invoice.customerEmail,
+    customerAddress: invoice.customerAddress,
+    products,
+    totalAmount: taxBreakdown.total,
+    taxBreakdown,
+    gstNumber: invoice.gstNumber,
+    hsnCode: firstLine?.hsnCode,
+    trackingId: invoice.trackingId,
+  };
+};
+
+export const getInvoice = async (orderId: string): Promise<InvoiceRecord | null> => {
+  const invoiceDoc = await getDoc(doc(db, 'invoices', orderId));
+  return invoiceDoc.exists() ? ({ id: invoiceDoc.id, ...invoiceDoc.data() } as InvoiceRecord) : null;
+};
+
+export const getUserInvoices = async (userId: string): Promise<InvoiceRecord[]> => {
   try {
-    console.log("🔄 Updating order execution status:", orderId, executionStatus);
-    
-    const orderRef = doc(db, 'orders', orderId);
-    
-    // Calculate progress based on status
-    let executionProgress = 0;
-    switch (executionStatus) {
-      case 'order_created':
-        executionProgress = 20;
-        break;
-      case 'processing':
-        executionProgress = 40;
-        break;
-      case 'quality_check':
-        executionProgress = 60;
-        break;
-      case 'shipped':
-        executionProgress = 80;
-        break;
-      case 'delivered':
-        executionProgress = 100;
-        break;
-    }
-    
-    const updateData: {
-      executionStatus: SimpleOrderData['executionStatus'];
-      executionProgress: number;
-      lastUpdated: Timestamp;
-      status?: SimpleOrderData['status'];
-    } = {
-      executionStatus,
-      executionProgress,
-      lastUpdated: Timestamp.now()
-    };
-    
-    // Update main status for delivered orders
-    if (executionStatus === 'delivered') {
-      updateData.status = 'delivered';
+    console.log("🔄 Fetching invoices for user:", userId);
+
+    if (!userId) {
+      return [];
     }
-    
-    await updateDoc(orderRef, updateData);
-    console.log("✅ Order execution status updated successfully");
-    
-    return { success: true };
-    
+
+    const invoicesSnapshot = await getDocs(
+      query(collection(db, 'invoices'), where('userId', '==', userId))
+    );
+
+    const invoices = invoicesSnapshot.docs.map(d => ({ id: d.id, ...d.data() })) as InvoiceRecord[];
+
+    // Sorted here rather than with orderBy so no composite index is needed
+    const issuedSeconds = (invoice: InvoiceRecord) => invoice.createdAt instanceof Timestamp ? invoice.createdAt.seconds : 0;
+    invoices.sort((a, b) => issuedSeconds(b) - issuedSeconds(a));
+
+    console.log(`✅ Returning ${invoices.length} invoices for user`);
+    return invoices;
   } catch (error) {
-    console.error("❌ Error updating order execution status:", error);
-    return { success: false, message: "Failed to update execution status" };
+    console.error("❌ Error fetching user invoices:", error);
+    return [];
   }
 };
 
-export const createAndSendInvoice = async (orderData: SimpleOrderData): Promise<{ success: boolean; invoiceId?: string; message?: string }> => {
-  try {
-    console.log("🔄 Creating invoice for order:", orderData.id);
-    
-    const invoiceId = orderData.invoiceId || `INV-${orderData.trackingId}-${Date.now().toString().slice(-6)}`;
-    
-    if (orderData.id && !orderData.invoiceId) {
-      try {
-        await updateDoc(doc(db, 'orders', orderData.id), {
-          invoiceId,
-          lastUpdated: Timestamp.now()
-        });
-      } catch (updateError) {
-        console.error("❌ Error updating invoice ID:", updateError);
-      }
-    }
-    
-    return {
-      success: true,
-      invoiceId
-    };
-    
-  } catch (error) {
-    console.error("❌ Error creating invoice:", error);
-    return {
-      success: false,
-      message: "Failed to create invoice"
-    };
+// Invoices issued before GST was itemised have no PDF from the backend (onInvoiceIssued in
+// functions/src/invoice-delivery.ts), so render those once here and record the path on the invoice
+const storeInvoicePdf = async (invoice: InvoiceRecord): Promise<string> => {
+  const invoiceId = invoice.id || invoice.orderId;
+  const { blob, url: objectUrl } = await generateInvoicePDF(toInvoiceData(invoice));
+  URL.revokeObjectURL(objectUrl);
+
+  const { url, path } = await uploadInvoicePdf(blob, invoice.userId, invoiceId);
+  await updateDoc(doc(db, 'invoices', invoiceId), { pdfPath: path });
+
+  return url;
+};
+
+export const getInvoicePdfUrl = async (invoice: InvoiceRecord): Promise<string> => {
+  if (invoice.pdfPath) {
+    return getStoredFileUrl(invoice.pdfPath);
   }
+
+  return storeInvoicePdf(invoice);
 };
 
 export const getUserOrders = async (userId: string): Promise<SimpleOrderData[]> => {
@@ -227,9 +328,8 @@ export const getUserOrders = async (userId: string): Promise<SimpleOrderData[]>
       return {
         id: doc.id,
         ...data,
-        // Ensure backward compatibility
-        executionStatus: data.executionStatus || 'order_created',
-        executionProgress: data.executionProgress || 20
+        // Orders not yet migrated may still carry the old status fields
+        status: resolveOrderStatus(data)
       };
     }) as SimpleOrderData[];
     
@@ -0,0 +1,108 @@
+import { db } from './firebase';
+import {
+  collection,
+  doc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  writeBatch,
+  Timestamp,
+  Unsubscribe
+} from 'firebase/firestore';
+
+// Channels a customer can be notified on when their order status changes.
+// Dispatch happens on the backend (functions/src/notifications.ts).
+export interface NotificationPreferences {
+  email: boolean;
+  inApp: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = { email: true, inApp: true };
+
+export const getNotificationPreferences = (
+  preferences?: Partial<NotificationPreferences>
+): NotificationPreferences => ({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...(preferences || {}) });
+
+export const updateNotificationPreferences = async (
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    await updateDoc(doc(db, 'users', userId), { notificationPreferences: preferences });
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error updating notification preferences:", error);
+    return { success: false, message: "Failed to update notification preferences" };
+  }
+};
+
+// notifications/{id}, written by the backend when an order status changes
+export interface AppNotification {
+  id: string;
+  userId: string;
+  orderId: string;
+  trackingId: string;
+  type: 'order_status';
+  status: string;
+  title: string;
+  message: string;
+  read: boolean;
+  readAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+// Live feed of a user's most recent notifications. Returns the unsubscribe function.
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notifications: AppNotification[]) => void,
+  max: number = 20
+): Unsubscribe => {
+  const notificationsQuery = query(
+    collection(db, 'notifications'),
+    where('userId', '==', userId),
+    orderBy('createdAt', 'desc'),
+    limit(max)
+  );
+
+  return onSnapshot(
+    notificationsQuery,
+    (snapshot) => {
+      onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as AppNotification));
+    },
+    (error) => {
+      console.error("❌ Error listening to notifications:", error);
+    }
+  );
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    await updateDoc(doc(db, 'notifications', notificationId), { read: true, readAt: Timestamp.now() });
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error marking notification as read:", error);
+    return { success: false, message: "Failed to mark notification as read" };
+  }
+};
+
+export const markAllNotificationsRead = async (notifications: AppNotification[]): Promise<{ success: boolean; message?: string }> => {
+  const unread = notifications.filter(notification => !notification.read);
+  if (unread.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const batch = writeBatch(db);
+    unread.forEach(notification => {
+      batch.update(doc(db, 'notifications', notification.id), { read: true, readAt: Timestamp.now() });
+    });
+    await batch.commit();
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error marking notifications as read:", error);
+    return { success: false, message: "Failed to mark notifications as read" };
+  }
+};
@@ -0,0 +1,73 @@
+import { db } from './firebase';
+import { collection, doc, getDocs, query, orderBy, Timestamp, DocumentReference } from 'firebase/firestore';
+import { isOrderStatus } from './order-lifecycle';
+import { ORDER_STATUS_CONFIG, PAYMENT_STATUS_CONFIG, PaymentStatus } from './order-status-utils';
+
+// orders/{orderId}/events is append-only: every status or payment change adds
+// one entry. The backend writes the same shape (functions/src/orders.ts).
+export type OrderEventType = 'status' | 'payment';
+export type OrderEventSource = 'admin' | 'customer' | 'payment';
+
+export interface OrderEventInput {
+  type: OrderEventType;
+  from: string | null;
+  to: string;
+  actorEmail: string | null;
+  source: OrderEventSource;
+  note?: string;
+}
+
+export interface OrderEvent extends OrderEventInput {
+  id: string;
+  note: string;
+  createdAt: Date;
+}
+
+export const orderEventData = (event: OrderEventInput) => ({
+  ...event,
+  note: event.note?.trim() || '',
+  createdAt: Timestamp.now(),
+});
+
+// A fresh event reference, so callers can write it in the same batch or
+// transaction as the change it records
+export const newOrderEventRef = (orderRef: DocumentReference) => doc(collection(orderRef, 'events'));
+
+export const getOrderEvents = async (orderId: string): Promise<OrderEvent[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'orders', orderId, 'events'), orderBy('createdAt', 'asc'))
+    );
+
+    return snapshot.docs.map(eventDoc => {
+      const data = eventDoc.data();
+      return {
+        id: eventDoc.id,
+        type: data.type,
+        from: data.from ?? null,
+        to: data.to,
+        actorEmail: data.actorEmail ?? null,
+        source: data.source,
+        note: data.note || '',
+        createdAt: data.createdAt?.toDate() || new Date(),
+      };
+    });
+  } catch (error) {
+    console.error("❌ Error fetching order history:", error);
+    return [];
+  }
+};
+
+// When each lifecycle status was last reached, for dating the journey steps
+export const getStatusDates = (events: OrderEvent[]): Record<string, Date> => {
+  return events
+    .filter(event => event.type === 'status')
+    .reduce<Record<string, Date>>((dates, event) => ({ ...dates, [event.to]: event.createdAt }), {});
+};
+
+export const getOrderEventLabel = (event: Pick<OrderEventInput, 'type' | 'to'>): string => {
+  if (event.type === 'payment') {
+    return PAYMENT_STATUS_CONFIG[event.to as PaymentStatus]?.label || event.to;
+  }
+  return isOrderStatus(event.to) ? ORDER_STATUS_CONFIG[event.to].label : event.to;
+};
@@ -0,0 +1,2 @@
+// The order lifecycle is shared with the functions (functions/src/shared/order-lifecycle.ts)
+export * from '@shared/order-lifecycle';
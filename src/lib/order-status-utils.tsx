@@ -1,23 +1,16 @@
 
 import { Badge } from "@/components/ui/badge";
-import { Package, AlertCircle, Truck, CheckCircle, XCircle, Clock, CreditCard } from "lucide-react";
+import { Package, Truck, CheckCircle, XCircle, Clock, CreditCard, ClipboardCheck } from "lucide-react";
+import { OrderStatus, ORDER_JOURNEY, normalizeOrderStatus, getOrderProgressPercentage } from "./order-lifecycle";
 
-export type OrderStatus = 
-  | 'pending' 
-  | 'pending_payment' 
-  | 'received' 
-  | 'processing' 
-  | 'shipped' 
-  | 'delivered' 
-  | 'completed' 
-  | 'cancelled' 
-  | 'failed';
+export type { OrderStatus };
 
 export type PaymentStatus = 
   | 'pending' 
   | 'paid' 
   | 'failed' 
-  | 'refunded';
+  | 'refunded'
+  | 'partial_refund';
 
 export interface OrderStatusConfig {
   label: string;
@@ -28,32 +21,32 @@ export interface OrderStatusConfig {
 }
 
 export const ORDER_STATUS_CONFIG: Record<OrderStatus, OrderStatusConfig> = {
-  pending: {
-    label: "Order Placed",
-    color: "bg-yellow-100 text-yellow-800 border-yellow-200",
-    icon: AlertCircle,
-    description: "Your order has been placed and is awaiting confirmation",
-    step: 1
-  },
   pending_payment: {
     label: "Payment Pending",
     color: "bg-orange-100 text-orange-800 border-orange-200",
     icon: CreditCard,
     description: "Waiting for payment confirmation",
-    step: 1
+    step: 0
   },
   received: {
     label: "Order Received",
     color: "bg-blue-100 text-blue-800 border-blue-200",
     icon: Package,
     description: "We have received your order and it's being reviewed",
-    step: 2
+    step: 1
   },
   processing: {
     label: "Processing",
     color: "bg-purple-100 text-purple-800 border-purple-200",
     icon: Clock,
-    description: "Your order is being prepared for shipment",
+    description: "Your order is being designed and printed",
+    step: 2
+  },
+  quality_check: {
+    label: "Quality Check",
+    color: "bg-yellow-100 text-yellow-800 border-yellow-200",
+    icon: ClipboardCheck,
+    description: "Your prints are being checked and packed",
     step: 3
   },
   shipped: {
@@ -70,29 +63,20 @@ export const ORDER_STATUS_CONFIG: Record<OrderStatus, OrderStatusConfig> = {
     description: "Your order has been delivered successfully",
     step: 5
   },
-  completed: {
-    label: "Completed",
-    color: "bg-green-100 text-green-800 border-green-200",
-    icon: CheckCircle,
-    description: "Order completed successfully",
-    step: 5
-  },
   cancelled: {
     label: "Cancelled",
     color: "bg-red-100 text-red-800 border-red-200",
     icon: XCircle,
     description: "This order has been cancelled",
     step: 0
-  },
-  failed: {
-    label: "Failed",
-    color: "bg-red-100 text-red-800 border-red-200",
-    icon: XCircle,
-    description: "This order has failed",
-    step: 0
   }
 };
 
+// "paid" comes only from a verified or reconciled Razorpay payment and the
+// refund statuses only from refunds, so admins may only move an unpaid order
+// between these (enforced by functions/src/admin/orders.ts)
+export const MANUAL_PAYMENT_STATUSES: PaymentStatus[] = ['pending', 'failed'];
+
 export const PAYMENT_STATUS_CONFIG: Record<PaymentStatus, OrderStatusConfig> = {
   pending: {
     label: "Payment Pending",
@@ -121,11 +105,18 @@ export const PAYMENT_STATUS_CONFIG: Record<PaymentStatus, OrderStatusConfig> = {
     icon: XCircle,
     description: "Payment has been refunded",
     step: 0
+  },
+  partial_refund: {
+    label: "Partially Refunded",
+    color: "bg-gray-100 text-gray-800 border-gray-200",
+    icon: XCircle,
+    description: "Part of the payment has been refunded",
+    step: 1
   }
 };
 
-export const getOrderStatusBadge = (status: OrderStatus) => {
-  const config = ORDER_STATUS_CONFIG[status] || ORDER_STATUS_CONFIG.pending;
+export const getOrderStatusBadge = (status: OrderStatus | string) => {
+  const config = ORDER_STATUS_CONFIG[normalizeOrderStatus(status)];
   const Icon = config.icon;
 
   return {
@@ -155,34 +146,25 @@ export const getPaymentStatusBadge = (status: PaymentStatus) => {
 };
 
 export const getOrderProgress = (status: OrderStatus): { current: number; total: number; percentage: number } => {
-  const config = ORDER_STATUS_CONFIG[status];
-  const maxStep = Math.max(...Object.values(ORDER_STATUS_CONFIG).map(c => c.step));
-  const currentStep = config.step;
-  const percentage = (currentStep / maxStep) * 100;
-  
   return {
-    current: currentStep,
-    total: maxStep,
-    percentage: Math.max(0, percentage)
+    current: ORDER_STATUS_CONFIG[status].step,
+    total: ORDER_JOURNEY.length,
+    percentage: getOrderProgressPercentage(status)
   };
 };
 
 export const getOrderJourneySteps = (currentStatus: OrderStatus) => {
-  const steps = [
-    { status: 'pending' as OrderStatus, label: 'Order Placed', step: 1 },
-    { status: 'received' as OrderStatus, label: 'Order Received', step: 2 },
-    { status: 'processing' as OrderStatus, label: 'Processing', step: 3 },
-    { status: 'shipped' as OrderStatus, label: 'Shipped', step: 4 },
-    { status: 'delivered' as OrderStatus, label: 'Delivered', step: 5 }
-  ];
-
-  const currentConfig = ORDER_STATUS_CONFIG[currentStatus];
-  const currentStep = currentConfig.step;
+  const currentStep = ORDER_STATUS_CONFIG[currentStatus].step;
 
-  return steps.map(step => ({
-    ...step,
-    isActive: step.step <= currentStep,
-    isCurrent: step.step === currentStep,
-    isCompleted: step.step < currentStep
-  }));
+  return ORDER_JOURNEY.map(status => {
+    const step = ORDER_STATUS_CONFIG[status].step;
+    return {
+      status,
+      label: ORDER_STATUS_CONFIG[status].label,
+      step,
+      isActive: step <= currentStep,
+      isCurrent: step === currentStep,
+      isCompleted: step < currentStep
+    };
+  });
 };
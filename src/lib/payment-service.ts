@@ -1,10 +1,20 @@
 
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+
 interface RazorpayResponse {
   razorpay_payment_id: string;
   razorpay_order_id: string;
   razorpay_signature: string;
 }
 
+interface RazorpayOrderResponse {
+  razorpayOrderId: string;
+  amount: number; // in paise
+  currency: string;
+  keyId: string;
+}
+
 export interface PaymentDetails {
   id: string;
   amount: number;
@@ -12,6 +22,8 @@ export interface PaymentDetails {
   status: 'pending' | 'completed' | 'failed';
   timestamp: Date;
   paymentId?: string;
+  signature?: string;
+  keyId?: string;
   method?: string;
   userId?: string;
   customerName?: string;
@@ -51,46 +63,28 @@ export const initializeRazorpay = (): Promise<boolean> => {
   });
 };
 
-export const createRazorpayOrder = async (
-  orderId: string, 
-  amount: number, 
-  customerName: string, 
-  customerEmail: string
-): Promise<PaymentDetails> => {
-  console.log("💳 Creating Razorpay order for orderId:", orderId, "amount:", amount);
+export const createRazorpayOrder = async (orderId: string): Promise<PaymentDetails> => {
+  console.log("💳 Creating Razorpay order for orderId:", orderId);
   
   try {
-    // Since we don't have backend API access, we'll create a valid test order
-    // In production, this would call your backend which would call Razorpay API
-    const orderData = {
-      amount: amount * 100, // Convert to paise
-      currency: 'INR',
-      receipt: `receipt_${orderId}`,
-      notes: {
-        customer_name: customerName,
-        customer_email: customerEmail,
-        internal_order_id: orderId
-      }
-    };
-
-    console.log("📦 Creating Razorpay order with data:", orderData);
-
-    // For testing without backend, we'll skip actual API call and use the internal order ID
-    // This allows the payment gateway to work with the order flow
-    const razorpayOrderId = orderId; // Use our internal order ID directly
+    // The backend reads the amount from the stored order and creates the
+    // Razorpay order with our secret key (functions/src/payments)
+    const createOrder = httpsCallable<{ orderId: string }, RazorpayOrderResponse>(functions, 'createRazorpayOrder');
+    const { data } = await createOrder({ orderId });
     
-    console.log("✅ Using order ID for Razorpay:", razorpayOrderId);
+    console.log("✅ Razorpay order ready:", data.razorpayOrderId);
     
     return {
-      id: razorpayOrderId,
-      amount,
-      currency: 'INR',
+      id: data.razorpayOrderId,
+      amount: data.amount / 100, // Convert from paise
+      currency: data.currency,
       status: 'pending',
-      timestamp: new Date()
+      timestamp: new Date(),
+      keyId: data.keyId
     };
   } catch (error) {
     console.error("❌ Error creating Razorpay order:", error);
-    throw new Error("Failed to create payment order");
+    throw new Error(error instanceof Error ? error.message : "Failed to create payment order");
   }
 };
 
@@ -98,6 +92,7 @@ export const processPayment = (
   orderDetails: {
     orderId: string;
     razorpayOrderId: string;
+    keyId?: string;
     amount: number;
     currency: string;
     customerName: string;
@@ -120,9 +115,10 @@ export const processPayment = (
     }
 
     const options = {
-      key: RAZORPAY_KEY_ID,
-      amount: orderDetails.amount * 100, // Convert to paise
+      key: orderDetails.keyId || RAZORPAY_KEY_ID,
+      amount: Math.round(orderDetails.amount * 100), // Convert to paise
       currency: orderDetails.currency,
+      order_id: orderDetails.razorpayOrderId,
       name: 'Micro UV Printers',
       description: orderDetails.description,
       image: '/logo.png',
@@ -146,6 +142,7 @@ export const processPayment = (
           status: 'completed',
           timestamp: new Date(),
           paymentId: response.razorpay_payment_id,
+          signature: response.razorpay_signature,
           method: 'Razorpay',
           userId: orderDetails.userId,
           customerName: orderDetails.customerName,
@@ -0,0 +1,140 @@
+import { db } from './firebase';
+import { doc, getDoc, collection, getDocs, query, orderBy, limit, runTransaction, Timestamp } from 'firebase/firestore';
+import { getOrderLines } from './invoice-service';
+import type { SimpleOrderData } from './invoice-service';
+import { auditDiff, auditEntryData, newAuditEntryRef } from './audit-service';
+import { DEFAULT_PRICING, getLineLabel, PricingRates, RateCard } from '@shared/pricing';
+
+// Rate cards and quoting are shared with the functions, which quote every order
+// again before charging it (functions/src/shared/pricing.ts)
+export * from '@shared/pricing';
+
+export interface PricingVersion extends PricingRates {
+  createdAt?: Timestamp;
+  createdBy?: string;
+  note?: string;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// "Stickers & Labels", or "Stickers & Labels + 2 more" for a cart order
+export const describeOrderProducts = (order: SimpleOrderData): string => {
+  const [first, ...rest] = getOrderLines(order);
+  const label = getLineLabel(first);
+  return rest.length ? `${label} + ${rest.length} more` : label;
+};
+
+// Invoice lines for an order. Uses the taxable amounts stored on the order so an
+// old order keeps its price even after the rate cards change. `taxableAmount`
+// overrides the total of a pre-cart order, whose stored amount includes GST.
+export const getOrderLineItems = (
+  order: SimpleOrderData,
+  taxableAmount: number = order.subtotal ?? order.totalAmount
+) => {
+  const lines = order.lineItems?.length
+    ? order.lineItems
+    : getOrderLines(order).map(line => ({ ...line, subtotal: taxableAmount }));
+
+  return lines.map(line => {
+    const quantity = line.quantity || 1;
+    return {
+      name: `${getLineLabel(line)} Printing (${quantity} units)`,
+      hsnCode: line.hsnCode || "4911",
+      quantity,
+      price: roundCurrency(line.subtotal / quantity),
+    };
+  });
+};
+
+export const getLineAmount = (item: { quantity: number; price: number }): number => {
+  return roundCurrency(item.quantity * item.price);
+};
+
+export const getCurrentPricing = async (): Promise<PricingVersion> => {
+  try {
+    const settingsDoc = await getDoc(doc(db, 'settings', 'pricing'));
+    const currentVersion = settingsDoc.exists() ? settingsDoc.data().currentVersion : 0;
+
+    if (!currentVersion) {
+      return DEFAULT_PRICING;
+    }
+
+    return (await getPricingVersion(currentVersion)) || DEFAULT_PRICING;
+  } catch (error) {
+    console.error("❌ Error loading pricing, using defaults:", error);
+    return DEFAULT_PRICING;
+  }
+};
+
+export const getPricingVersion = async (version: number): Promise<PricingVersion | null> => {
+  if (version === 0) return DEFAULT_PRICING;
+
+  const versionDoc = await getDoc(doc(db, 'pricingVersions', String(version)));
+  return versionDoc.exists() ? (versionDoc.data() as PricingVersion) : null;
+};
+
+export const getPricingHistory = async (max: number = 20): Promise<PricingVersion[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'pricingVersions'), orderBy('version', 'desc'), limit(max))
+    );
+    return snapshot.docs.map(d => d.data() as PricingVersion);
+  } catch (error) {
+    console.error("❌ Error fetching pricing history:", error);
+    return [];
+  }
+};
+
+// Rate cards are never edited in place: every save creates a new immutable version
+export const savePricingVersion = async (
+  rateCards: Record<string, RateCard>,
+  adminEmail: string,
+  note?: string
+): Promise<{ success: boolean; version?: number; message?: string }> => {
+  try {
+    const settingsRef = doc(db, 'settings', 'pricing');
+
+    const version = await runTransaction(db, async (transaction) => {
+      const settingsDoc = await transaction.get(settingsRef);
+      const currentVersion: number = settingsDoc.exists() ? settingsDoc.data().currentVersion || 0 : 0;
+      const nextVersion = currentVersion + 1;
+      const previousDoc = currentVersion > 0
+        ? await transaction.get(doc(db, 'pricingVersions', String(currentVersion)))
+        : null;
+      const auditRef = newAuditEntryRef();
+
+      transaction.set(doc(db, 'pricingVersions', String(nextVersion)), {
+        version: nextVersion,
+        rateCards,
+        createdAt: Timestamp.now(),
+        createdBy: adminEmail,
+        note: note || '',
+        auditId: auditRef.id,
+      });
+      transaction.set(settingsRef, {
+        currentVersion: nextVersion,
+        updatedAt: Timestamp.now(),
+        updatedBy: adminEmail,
+        auditId: auditRef.id,
+      }, { merge: true });
+      transaction.set(auditRef, auditEntryData({
+        action: 'pricing.update',
+        targetType: 'settings',
+        targetId: 'pricing',
+        ...auditDiff(
+          { version: currentVersion, rateCards: previousDoc?.data()?.rateCards || {} },
+          { version: nextVersion, rateCards }
+        ),
+        note,
+      }));
+
+      return nextVersion;
+    });
+
+    console.log("✅ Pricing version saved:", version);
+    return { success: true, version };
+  } catch (error) {
+    console.error("❌ Error saving pricing:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to save pricing" };
+  }
+};
@@ -0,0 +1,2 @@
+// The spec schemas are shared with the functions (functions/src/shared/product-specs.ts)
+export * from '@shared/product-specs';
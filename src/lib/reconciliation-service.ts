@@ -0,0 +1,214 @@
+import { db, functions } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, limit, orderBy, query } from 'firebase/firestore';
+
+// Matching runs in functions/src/payments/reconciliation.ts; the browser only
+// reads the Razorpay CSV and shows the result.
+export type MismatchType = 'gateway_paid_db_pending' | 'amount_mismatch' | 'orphan';
+
+export const MISMATCH_LABELS: Record<MismatchType, string> = {
+  gateway_paid_db_pending: 'Paid in Razorpay, pending here',
+  amount_mismatch: 'Amount differs',
+  orphan: 'Orphan payment',
+};
+
+export interface ReconciliationRow {
+  paymentId: string;
+  razorpayOrderId: string | null;
+  amount: number; // rupees
+  status: string | null;
+  method: string | null;
+  createdAt: string | null;
+}
+
+export interface ReconciliationRun {
+  id: string;
+  fileName: string;
+  importedBy: string;
+  createdAt: Date;
+  rowCount: number;
+  checkedCount: number;
+  skippedCount: number;
+  matchedCount: number;
+  mismatchCounts: Record<MismatchType, number>;
+  openCount: number;
+}
+
+export interface ReconciliationItem {
+  paymentId: string;
+  type: MismatchType;
+  detail: string;
+  razorpayOrderId: string | null;
+  gatewayAmount: number;
+  gatewayStatus: string;
+  method: string | null;
+  paidAt: string | null;
+  orderId: string | null;
+  orderAmount: number | null;
+  orderPaymentStatus: string | null;
+  status: 'open' | 'resolved';
+  resolution: {
+    action: 'mark_paid' | 'dismiss';
+    orderId: string | null;
+    note: string;
+    by: string;
+    at: Date;
+  } | null;
+}
+
+// RFC 4180: quoted fields may contain commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Accepts the dashboard's Payments export (id, amount, status, order_id...) and
+// the settlement reconciliation report (entity_id, type, amount...). Amounts are
+// in rupees in both. Refund and adjustment rows of a settlement report are skipped.
+export const parseRazorpayReport = (text: string): { rows: ReconciliationRow[]; skipped: number; error?: string } => {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map(name => name.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+
+  const idColumn = column('id', 'payment_id', 'entity_id');
+  const amountColumn = column('amount', 'credit');
+  if (idColumn < 0 || amountColumn < 0) {
+    return { rows: [], skipped: 0, error: "This doesn't look like a Razorpay payments or settlement export" };
+  }
+
+  const typeColumn = column('type', 'entity_type');
+  const statusColumn = column('status');
+  const orderColumn = column('order_id');
+  const methodColumn = column('method', 'payment_method');
+  const createdColumn = column('created_at');
+  const cell = (cells: string[], index: number) => (index >= 0 ? (cells[index] || '').trim() || null : null);
+
+  const rows: ReconciliationRow[] = [];
+  let skipped = 0;
+
+  for (const cells of lines) {
+    const paymentId = cell(cells, idColumn);
+    const type = cell(cells, typeColumn);
+    const amount = Number((cell(cells, amountColumn) || '').replace(/[₹,\s]/g, ''));
+
+    if (!paymentId?.startsWith('pay_') || (type && type.toLowerCase() !== 'payment') || !Number.isFinite(amount)) {
+      skipped++;
+      continue;
+    }
+
+    rows.push({
+      paymentId,
+      razorpayOrderId: cell(cells, orderColumn),
+      amount,
+      status: cell(cells, statusColumn),
+      method: cell(cells, methodColumn),
+      createdAt: cell(cells, createdColumn),
+    });
+  }
+
+  return { rows, skipped };
+};
+
+export const importReconciliation = async (
+  fileName: string,
+  rows: ReconciliationRow[]
+): Promise<{ success: boolean; runId?: string; matchedCount?: number; openCount?: number; skippedCount?: number; message?: string }> => {
+  try {
+    console.log("🔄 Importing Razorpay report:", fileName, rows.length, "rows");
+    const importReport = httpsCallable<
+      { fileName: string; rows: ReconciliationRow[] },
+      { success: boolean; runId: string; matchedCount: number; openCount: number; skippedCount: number }
+    >(functions, 'importPaymentReconciliation');
+    const { data } = await importReport({ fileName, rows });
+    console.log("✅ Reconciliation imported:", data.runId);
+    return data;
+  } catch (error) {
+    console.error("❌ Error importing reconciliation:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to import report" };
+  }
+};
+
+export const getReconciliationRuns = async (): Promise<ReconciliationRun[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'reconciliations'), orderBy('createdAt', 'desc'), limit(20)));
+    return snapshot.docs.map(d => {
+      const data = d.data();
+      return { ...data, id: d.id, createdAt: data.createdAt?.toDate() || new Date() } as ReconciliationRun;
+    });
+  } catch (error) {
+    console.error("❌ Error fetching reconciliations:", error);
+    return [];
+  }
+};
+
+export const getReconciliationItems = async (runId: string): Promise<ReconciliationItem[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, 'reconciliations', runId, 'items'));
+    return snapshot.docs.map(d => {
+      const data = d.data();
+      return {
+        ...data,
+        resolution: data.resolution ? { ...data.resolution, at: data.resolution.at?.toDate() || new Date() } : null,
+      } as ReconciliationItem;
+    });
+  } catch (error) {
+    console.error("❌ Error fetching reconciliation items:", error);
+    return [];
+  }
+};
+
+// `mark_paid` confirms the order as paid by this payment (for orphans, the
+// order named in `orderId`); `dismiss` closes the mismatch with a note
+export const resolveReconciliationItem = async (
+  runId: string,
+  paymentId: string,
+  action: 'mark_paid' | 'dismiss',
+  details: { orderId?: string; note?: string }
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const resolve = httpsCallable<
+      { runId: string; paymentId: string; action: 'mark_paid' | 'dismiss'; orderId?: string; note?: string },
+      { success: boolean }
+    >(functions, 'resolveReconciliationItem');
+    const { data } = await resolve({ runId, paymentId, action, ...details });
+    return { success: data.success };
+  } catch (error) {
+    console.error("❌ Error resolving reconciliation item:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to resolve mismatch" };
+  }
+};
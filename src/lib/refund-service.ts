@@ -0,0 +1,166 @@
+import { db, functions } from './firebase';
+import { httpsCallable } from 'firebase/functions';
+import { collection, doc, getDoc, getDocs, query, Timestamp, updateDoc, where } from 'firebase/firestore';
+import { generateInvoicePDF, InvoiceData } from './invoice-generator';
+import { InvoiceLineItem } from './invoice-service';
+import { getOrderTaxBreakdown, TaxBreakdown } from './tax-service';
+import { sendCreditNoteEmail } from './email-service';
+import { uploadCreditNotePdf, getStoredFileUrl } from './storage-service';
+import { PaymentStatus } from './order-status-utils';
+
+// GST credit note issued with a refund, numbered from its own series
+// (functions/src/invoices.ts)
+export interface CreditNoteRecord {
+  number: string;
+  invoiceNumber: string;
+  invoiceDate: Timestamp;
+  customerName: string;
+  customerEmail: string;
+  customerAddress: string;
+  deliveryState?: string | null;
+  gstNumber?: string;
+  lineItems: InvoiceLineItem[];
+  taxBreakdown: TaxBreakdown | null; // null when the invoice predates itemised GST
+  totalAmount: number;
+  reason: string;
+  pdfPath: string | null;
+  issuedAt: Timestamp;
+  emailedAt?: Timestamp;
+}
+
+// refunds/{refundId}, written by the refundOrderPayment function (functions/src/payments/refunds.ts)
+export interface RefundRecord {
+  id: string;
+  orderId: string;
+  userId: string;
+  razorpayPaymentId: string;
+  razorpayRefundId?: string;
+  amount: number; // rupees, including GST
+  reason: string;
+  status: 'creating' | 'pending' | 'processed' | 'failed';
+  failureReason?: string;
+  requestedBy: string;
+  createdAt: Timestamp;
+  processedAt?: Timestamp;
+  creditNote?: CreditNoteRecord | null;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  razorpayRefundId?: string;
+  paymentStatus?: PaymentStatus;
+  refundedAmount?: number;
+  creditNoteNumber?: string | null;
+  message?: string;
+}
+
+// `amount` is in rupees and may be less than the amount paid for a partial refund
+export const refundOrderPayment = async (orderId: string, amount: number, reason: string): Promise<RefundResult> => {
+  try {
+    console.log("💸 Requesting refund:", { orderId, amount });
+    const refund = httpsCallable<{ orderId: string; amount: number; reason: string }, Omit<RefundResult, 'message'>>(
+      functions,
+      'refundOrderPayment'
+    );
+    const { data } = await refund({ orderId, amount, reason });
+    console.log("✅ Refund issued:", data.razorpayRefundId);
+    return data;
+  } catch (error) {
+    console.error("❌ Error refunding payment:", error);
+    return { success: false, message: error instanceof Error ? error.message : "Failed to refund payment" };
+  }
+};
+
+export const getOrderRefunds = async (orderId: string): Promise<RefundRecord[]> => {
+  try {
+    const refundsSnapshot = await getDocs(query(collection(db, 'refunds'), where('orderId', '==', orderId)));
+    const refunds = refundsSnapshot.docs.map(d => ({ id: d.id, ...d.data() })) as RefundRecord[];
+
+    // Sorted here rather than with orderBy so no composite index is needed
+    refunds.sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+    return refunds;
+  } catch (error) {
+    console.error("❌ Error fetching refunds:", error);
+    return [];
+  }
+};
+
+export const toCreditNoteData = (refund: RefundRecord & { creditNote: CreditNoteRecord }): InvoiceData => {
+  const { creditNote } = refund;
+  const [line] = creditNote.lineItems;
+  const taxBreakdown = getOrderTaxBreakdown({
+    taxBreakdown: creditNote.taxBreakdown || undefined,
+    totalAmount: creditNote.totalAmount,
+    hsnCode: line?.hsnCode || "4911",
+    gstNumber: creditNote.gstNumber,
+    deliveryState: creditNote.deliveryState || undefined,
+  });
+
+  return {
+    invoiceId: creditNote.number,
+    orderId: refund.orderId,
+    orderDate: creditNote.issuedAt?.toDate() || new Date(),
+    customerName: creditNote.customerName,
+    customerEmail: creditNote.customerEmail,
+    customerAddress: creditNote.customerAddress,
+    products: [{ name: line?.name || "Refund", quantity: 1, price: taxBreakdown.taxableAmount }],
+    totalAmount: taxBreakdown.total,
+    taxBreakdown,
+    gstNumber: creditNote.gstNumber,
+    hsnCode: line?.hsnCode,
+    creditNote: { invoiceId: creditNote.invoiceNumber, reason: creditNote.reason },
+  };
+};
+
+// Same as invoices: rendered once, stored, and the path recorded on the refund
+const storeCreditNotePdf = async (refund: RefundRecord & { creditNote: CreditNoteRecord }): Promise<string> => {
+  const { blob, url: objectUrl } = await generateInvoicePDF(toCreditNoteData(refund));
+  URL.revokeObjectURL(objectUrl);
+
+  const { url, path } = await uploadCreditNotePdf(blob, refund.userId, refund.id);
+  await updateDoc(doc(db, 'refunds', refund.id), { 'creditNote.pdfPath': path });
+
+  return url;
+};
+
+export const getCreditNotePdfUrl = async (refund: RefundRecord): Promise<string | null> => {
+  if (!refund.creditNote) {
+    return null;
+  }
+  if (refund.creditNote.pdfPath) {
+    return getStoredFileUrl(refund.creditNote.pdfPath);
+  }
+
+  return storeCreditNotePdf({ ...refund, creditNote: refund.creditNote });
+};
+
+// Called after refundOrderPayment: renders the credit note and emails it to the customer
+export const issueCreditNote = async (refundId: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const refundDoc = await getDoc(doc(db, 'refunds', refundId));
+    if (!refundDoc.exists()) {
+      return { success: false, message: "Refund not found" };
+    }
+
+    const refund = { id: refundDoc.id, ...refundDoc.data() } as RefundRecord;
+    if (!refund.creditNote) {
+      return { success: false, message: "No invoice was issued for this order, so there is no credit note" };
+    }
+
+    if (!refund.creditNote.pdfPath) {
+      await storeCreditNotePdf({ ...refund, creditNote: refund.creditNote });
+    }
+
+    const emailResult = await sendCreditNoteEmail(refundId);
+    if (!emailResult.success) {
+      return { success: false, message: emailResult.message };
+    }
+
+    console.log("✅ Credit note issued:", refund.creditNote.number);
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error issuing credit note:", error);
+    return { success: false, message: "Failed to issue credit note" };
+  }
+};
@@ -0,0 +1,160 @@
+import { storage } from './firebase';
+import { ref, uploadBytes, uploadBytesResumable, getDownloadURL, UploadTask } from 'firebase/storage';
+
+export const MAX_DESIGN_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Browsers often report an empty or generic MIME type for .ai/.eps files,
+// so the extension decides which types are acceptable for it.
+const ALLOWED_DESIGN_FILES: Record<string, string[]> = {
+  pdf: ['application/pdf'],
+  ai: ['application/postscript', 'application/illustrator', 'application/pdf', 'application/octet-stream', ''],
+  eps: ['application/postscript', 'application/eps', 'application/x-eps', 'image/eps', 'image/x-eps', 'application/octet-stream', ''],
+  png: ['image/png'],
+  tif: ['image/tiff'],
+  tiff: ['image/tiff'],
+};
+
+export const DESIGN_FILE_ACCEPT = Object.keys(ALLOWED_DESIGN_FILES).map(ext => `.${ext}`).join(',');
+
+export interface UploadedFile {
+  url: string;
+  path: string;
+  name: string;
+  size: number;
+  contentType: string;
+}
+
+export const validateDesignFile = (file: File): { valid: boolean; message?: string } => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const allowedTypes = ALLOWED_DESIGN_FILES[extension];
+
+  if (!allowedTypes) {
+    return { valid: false, message: "Unsupported file type. Please upload a PDF, AI, EPS, PNG or TIFF file." };
+  }
+
+  if (!allowedTypes.includes(file.type)) {
+    return { valid: false, message: `The file content (${file.type}) doesn't match its .${extension} extension.` };
+  }
+
+  if (file.size === 0) {
+    return { valid: false, message: "The selected file is empty." };
+  }
+
+  if (file.size > MAX_DESIGN_FILE_SIZE) {
+    return { valid: false, message: "File is too large. Maximum size is 20MB." };
+  }
+
+  return { valid: true };
+};
+
+const contentTypeFor = (file: File): string => {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return extension === 'pdf' ? 'application/pdf' : 'application/postscript';
+};
+
+// Starts a resumable upload of a customer's artwork. The returned task can be
+// paused, resumed or cancelled; `done` resolves once the download URL is known.
+export const uploadDesignFile = (
+  file: File,
+  userId: string,
+  onProgress?: (percentage: number) => void
+): { task: UploadTask; done: Promise<UploadedFile> } => {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const path = `design-files/${userId}/${Date.now()}_${safeName}`;
+  const contentType = contentTypeFor(file);
+
+  console.log("📁 Uploading design file to:", path);
+
+  const task = uploadBytesResumable(ref(storage, path), file, {
+    contentType,
+    customMetadata: { originalName: file.name },
+  });
+
+  const done = new Promise<UploadedFile>((resolve, reject) => {
+    task.on(
+      'state_changed',
+      (snapshot) => {
+        const percentage = snapshot.totalBytes > 0
+          ? Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100)
+          : 0;
+        onProgress?.(percentage);
+      },
+      (error) => {
+        console.error("❌ Design file upload failed:", error);
+        reject(error);
+      },
+      async () => {
+        try {
+          const url = await getDownloadURL(task.snapshot.ref);
+          console.log("✅ Design file uploaded:", path);
+          resolve({ url, path, name: file.name, size: file.size, contentType });
+        } catch (error) {
+          reject(error);
+        }
+      }
+    );
+  });
+
+  return { task, done };
+};
+
+// Issued invoices are rendered once and kept, so a re-download always returns the same document
+export const uploadInvoicePdf = async (
+  pdfBlob: Blob,
+  userId: string,
+  orderId: string
+): Promise<{ url: string; path: string }> => {
+  const path = `invoices/${userId}/${orderId}.pdf`;
+
+  console.log("📁 Storing invoice PDF at:", path);
+  const snapshot = await uploadBytes(ref(storage, path), pdfBlob, { contentType: 'application/pdf' });
+  const url = await getDownloadURL(snapshot.ref);
+  console.log("✅ Invoice PDF stored:", path);
+
+  return { url, path };
+};
+
+export const uploadCreditNotePdf = async (
+  pdfBlob: Blob,
+  userId: string,
+  refundId: string
+): Promise<{ url: string; path: string }> => {
+  const path = `credit-notes/${userId}/${refundId}.pdf`;
+
+  console.log("📁 Storing credit note PDF at:", path);
+  const snapshot = await uploadBytes(ref(storage, path), pdfBlob, { contentType: 'application/pdf' });
+  const url = await getDownloadURL(snapshot.ref);
+  console.log("✅ Credit note PDF stored:", path);
+
+  return { url, path };
+};
+
+export const getStoredFileUrl = (path: string): Promise<string> => getDownloadURL(ref(storage, path));
+
+export const MAX_CATALOG_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+export const CATALOG_IMAGE_ACCEPT = 'image/png,image/jpeg,image/webp';
+
+export const validateCatalogImage = (file: File): { valid: boolean; message?: string } => {
+  if (!CATALOG_IMAGE_ACCEPT.split(',').includes(file.type)) {
+    return { valid: false, message: "Please upload a PNG, JPEG or WebP image." };
+  }
+
+  if (file.size > MAX_CATALOG_IMAGE_SIZE) {
+    return { valid: false, message: "Image is too large. Maximum size is 5MB." };
+  }
+
+  return { valid: true };
+};
+
+// Catalog photos are public; each upload gets its own name so cached copies never go stale
+export const uploadCatalogImage = async (file: File, productId: string): Promise<string> => {
+  const path = `catalog/${productId}/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+
+  console.log("📁 Uploading catalog image to:", path);
+  const snapshot = await uploadBytes(ref(storage, path), file, { contentType: file.type });
+  const url = await getDownloadURL(snapshot.ref);
+  console.log("✅ Catalog image uploaded:", path);
+
+  return url;
+};
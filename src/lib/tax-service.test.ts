@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTax, calculateTaxFromInclusive, combineTaxBreakdowns, getPlaceOfSupply } from './tax-service';
+
+describe('calculateTax', () => {
+  it('splits GST into CGST and SGST within Delhi', () => {
+    expect(calculateTax(1000, '4821', '07')).toEqual({
+      hsnCode: '4821',
+      rate: 18,
+      supplyType: 'intra',
+      placeOfSupply: '07',
+      taxableAmount: 1000,
+      cgst: 90,
+      sgst: 90,
+      igst: 0,
+      totalTax: 180,
+      total: 1180,
+    });
+  });
+
+  it('charges IGST to other states', () => {
+    expect(calculateTax(1000, '4911', '27')).toMatchObject({ supplyType: 'inter', rate: 12, cgst: 0, sgst: 0, igst: 120, total: 1120 });
+  });
+
+  it('rounds to the paisa without losing the odd paisa between CGST and SGST', () => {
+    const tax = calculateTax(100.05, '4821', '07');
+
+    expect(tax.totalTax).toBe(18.01);
+    expect(tax.cgst + tax.sgst).toBeCloseTo(18.01, 2);
+  });
+
+  it('uses the default rate for unknown HSN codes', () => {
+    expect(calculateTax(100, '9999', '07').rate).toBe(18);
+  });
+});
+
+describe('calculateTaxFromInclusive', () => {
+  it('recovers the taxable value of a GST-inclusive amount', () => {
+    expect(calculateTaxFromInclusive(1180, '4821', '27')).toMatchObject({ taxableAmount: 1000, igst: 180, total: 1180 });
+  });
+});
+
+describe('combineTaxBreakdowns', () => {
+  it('adds up cart lines per HSN code', () => {
+    const combined = combineTaxBreakdowns([
+      calculateTax(1000, '4821', '07'),
+      calculateTax(500, '4821', '07'),
+      calculateTax(200, '4911', '07'),
+    ]);
+
+    expect(combined).toMatchObject({ taxableAmount: 1700, totalTax: 294, total: 1994 });
+    expect(combined.rates).toEqual([
+      { hsnCode: '4821', rate: 18, taxableAmount: 1500, cgst: 135, sgst: 135, igst: 0, totalTax: 270 },
+      { hsnCode: '4911', rate: 12, taxableAmount: 200, cgst: 12, sgst: 12, igst: 0, totalTax: 24 },
+    ]);
+  });
+});
+
+describe('getPlaceOfSupply', () => {
+  it("prefers the buyer's GSTIN over the delivery state", () => {
+    expect(getPlaceOfSupply({ gstNumber: '27AAPFU0939F1ZV', deliveryState: '07' })).toBe('27');
+    expect(getPlaceOfSupply({ deliveryState: 'Karnataka' })).toBe('29');
+    expect(getPlaceOfSupply({})).toBe('07');
+  });
+});
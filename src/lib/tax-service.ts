@@ -0,0 +1,19 @@
+import type { SimpleOrderData } from './invoice-service';
+import { calculateTaxFromInclusive, getPlaceOfSupply, TaxBreakdown } from '@shared/tax';
+
+// The GST rules are shared with the functions, which recompute the tax before
+// charging and invoicing (functions/src/shared/tax.ts)
+export * from '@shared/tax';
+
+// Orders placed before tax was itemised only stored the amount Razorpay charged,
+// so treat that amount as tax-inclusive to keep the invoice total identical.
+export const getOrderTaxBreakdown = (
+  order: Pick<SimpleOrderData, 'taxBreakdown' | 'totalAmount' | 'hsnCode' | 'gstNumber' | 'deliveryState'>
+): TaxBreakdown => {
+  if (order.taxBreakdown) {
+    return order.taxBreakdown;
+  }
+
+  const placeOfSupply = getPlaceOfSupply({ gstNumber: order.gstNumber, deliveryState: order.deliveryState });
+  return calculateTaxFromInclusive(order.totalAmount || 0, order.hsnCode || "4911", placeOfSupply);
+};
@@ -33,11 +33,8 @@ export function truncateText(text: string, maxLength: number): string {
   return `${text.slice(0, maxLength)}...`;
 }
 
-// Validate GST number format (basic validation)
-export function isValidGSTIN(gstin: string): boolean {
-  const regex = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/;
-  return regex.test(gstin);
-}
+// Validate GST number format (basic validation), shared with the functions
+export { isValidGSTIN } from "@shared/tax";
 
 // Generate random ID
 export function generateId(length: number = 8): string {
@@ -1,25 +1,31 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { Navigate } from "react-router-dom";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Package, Users, IndianRupee, TrendingUp, Shield, LogOut } from "lucide-react";
-import AdminAuth from "@/components/admin/AdminAuth";
+import { Package, Users, IndianRupee, TrendingUp, Shield, LogOut, Calculator, ScrollText, BookOpen } from "lucide-react";
 import AdminUserManager from "@/components/admin/AdminUserManager";
 import OrderManagement from "@/components/admin/OrderManagement";
 import UserManagement from "@/components/admin/UserManagement";
 import PaymentManagement from "@/components/admin/PaymentManagement";
+import PaymentReconciliation from "@/components/admin/PaymentReconciliation";
 import AdminStats from "@/components/admin/AdminStats";
-import { getAdminStats, AdminStats as AdminStatsType } from "@/lib/admin-service";
+import PricingManagement from "@/components/admin/PricingManagement";
+import CatalogManagement from "@/components/admin/CatalogManagement";
+import InvoiceSettings from "@/components/admin/InvoiceSettings";
+import AuditLog from "@/components/admin/AuditLog";
+import { getAdminStats, getAdminUsers, recordAdminLogin, AdminStats as AdminStatsType } from "@/lib/admin-service";
+import { ADMIN_ROLES, AdminTab, canViewTab, hasPermission } from "@/lib/admin-roles";
 
+// Rendered inside AdminRoute, so the signed-in user always has the admin claim
 const Admin = () => {
-  const { user, userData } = useAuth();
+  const { user, adminRole, logout } = useAuth();
   const { toast } = useToast();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [adminEmail, setAdminEmail] = useState('');
-  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const adminEmail = user?.email || '';
+  const visibleTabs: AdminTab[] = adminRole ? ADMIN_ROLES[adminRole].tabs : [];
   const [quickStats, setQuickStats] = useState<AdminStatsType>({
     totalOrders: 0,
     totalUsers: 0,
@@ -27,80 +33,33 @@ const Admin = () => {
     pendingOrders: 0,
     completedOrders: 0
   });
-
-  // Check if user is authorized admin
-  const getAuthorizedEmails = (): string[] => {
-    const storedAdmins = localStorage.getItem('admin_users');
-    if (storedAdmins) {
-      const adminUsers = JSON.parse(storedAdmins);
-      return adminUsers.map((admin: any) => admin.email);
-    }
-    return [
-      "help@microuvprinters.com",
-      "laxmankamboj@gmail.com", 
-      "vinayakkamboj01@gmail.com"
-    ];
-  };
+  const [adminCount, setAdminCount] = useState(0);
 
   useEffect(() => {
-    checkAuthStatus();
+    fetchQuickStats();
   }, []);
 
   useEffect(() => {
-    if (isAuthenticated) {
-      fetchQuickStats();
+    if (user?.metadata.lastSignInTime) {
+      recordAdminLogin(user.uid, new Date(user.metadata.lastSignInTime));
     }
-  }, [isAuthenticated]);
+  }, [user]);
 
   const fetchQuickStats = async () => {
     try {
       console.log("🔄 Fetching quick stats for header cards...");
-      const stats = await getAdminStats();
+      const [stats, admins] = await Promise.all([getAdminStats(), getAdminUsers()]);
       setQuickStats(stats);
+      setAdminCount(admins.length);
       console.log("✅ Quick stats loaded:", stats);
     } catch (error) {
       console.error("❌ Error fetching quick stats:", error);
     }
   };
 
-  const checkAuthStatus = () => {
-    const authenticated = sessionStorage.getItem('admin_authenticated');
-    const sessionEmail = sessionStorage.getItem('admin_session_email');
-    const sessionStart = sessionStorage.getItem('admin_session_start');
-
-    if (authenticated === 'true' && sessionEmail && sessionStart) {
-      // Check if session is still valid (24 hours)
-      const sessionAge = Date.now() - parseInt(sessionStart);
-      const maxSessionAge = 24 * 60 * 60 * 1000; // 24 hours
-
-      if (sessionAge < maxSessionAge) {
-        const authorizedEmails = getAuthorizedEmails();
-        if (authorizedEmails.includes(sessionEmail)) {
-          setIsAuthenticated(true);
-          setAdminEmail(sessionEmail);
-        } else {
-          handleLogout();
-        }
-      } else {
-        handleLogout();
-      }
-    }
-    setLoading(false);
-  };
-
-  const handleAuthenticated = (email: string) => {
-    setIsAuthenticated(true);
-    setAdminEmail(email);
-  };
-
-  const handleLogout = () => {
-    sessionStorage.removeItem('admin_authenticated');
-    sessionStorage.removeItem('admin_session_email');
-    sessionStorage.removeItem('admin_session_start');
-    sessionStorage.removeItem('admin_otp');
-    sessionStorage.removeItem('admin_email');
-    setIsAuthenticated(false);
-    setAdminEmail('');
+  const handleLogout = async () => {
+    await logout();
+    navigate('/');
     
     toast({
       title: "Logged Out",
@@ -108,18 +67,6 @@ const Admin = () => {
     });
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return <AdminAuth onAuthenticated={handleAuthenticated} />;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 p-4 lg:p-6">
       <div className="max-w-7xl mx-auto">
@@ -128,7 +75,7 @@ const Admin = () => {
           <div>
             <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">Admin Portal</h1>
             <p className="text-gray-600 mt-2 text-sm lg:text-base">
-              Welcome, {adminEmail} | Manage orders, users, and business operations
+              Welcome, {adminEmail} ({adminRole ? ADMIN_ROLES[adminRole].label : 'No role assigned'}) | Manage orders, users, and business operations
             </p>
           </div>
           <Button variant="outline" onClick={handleLogout} className="w-full sm:w-auto">
@@ -189,7 +136,7 @@ const Admin = () => {
                 </div>
                 <div className="min-w-0">
                   <p className="text-xs lg:text-sm font-medium text-orange-800 truncate">Admin Users</p>
-                  <p className="text-lg lg:text-2xl font-bold text-orange-900">{getAuthorizedEmails().length}</p>
+                  <p className="text-lg lg:text-2xl font-bold text-orange-900">{adminCount}</p>
                 </div>
               </div>
             </CardContent>
@@ -202,62 +149,131 @@ const Admin = () => {
         </div>
 
         {/* Main Content Tabs */}
-        <Tabs defaultValue="orders" className="w-full">
+        {visibleTabs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              Your account has no admin role yet. Ask an owner to assign one in the Admin Users tab.
+            </CardContent>
+          </Card>
+        ) : (
+        <Tabs defaultValue={visibleTabs[0]} className="w-full">
           <div className="overflow-x-auto">
-            <TabsList className="grid w-full grid-cols-5 min-w-[600px] lg:min-w-full">
-              <TabsTrigger value="orders" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
-                <Package className="h-3 w-3 lg:h-4 lg:w-4" />
-                <span className="hidden sm:inline">Orders</span>
-              </TabsTrigger>
-              <TabsTrigger value="users" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
-                <Users className="h-3 w-3 lg:h-4 lg:w-4" />
-                <span className="hidden sm:inline">Users</span>
-              </TabsTrigger>
-              <TabsTrigger value="payments" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
-                <IndianRupee className="h-3 w-3 lg:h-4 lg:w-4" />
-                <span className="hidden sm:inline">Payments</span>
-              </TabsTrigger>
-              <TabsTrigger value="admins" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
-                <Shield className="h-3 w-3 lg:h-4 lg:w-4" />
-                <span className="hidden sm:inline">Admin Users</span>
-              </TabsTrigger>
-              <TabsTrigger value="analytics" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
-                <TrendingUp className="h-3 w-3 lg:h-4 lg:w-4" />
-                <span className="hidden sm:inline">Analytics</span>
-              </TabsTrigger>
+            <TabsList
+              className="grid w-full min-w-[720px] lg:min-w-full"
+              style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}
+            >
+              {canViewTab(adminRole, 'orders') && (
+                <TabsTrigger value="orders" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <Package className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Orders</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'users') && (
+                <TabsTrigger value="users" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <Users className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Users</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'payments') && (
+                <TabsTrigger value="payments" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <IndianRupee className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Payments</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'pricing') && (
+                <TabsTrigger value="pricing" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <Calculator className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Pricing</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'catalog') && (
+                <TabsTrigger value="catalog" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <BookOpen className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Catalog</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'admins') && (
+                <TabsTrigger value="admins" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <Shield className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Admin Users</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'analytics') && (
+                <TabsTrigger value="analytics" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <TrendingUp className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Analytics</span>
+                </TabsTrigger>
+              )}
+              {canViewTab(adminRole, 'audit') && (
+                <TabsTrigger value="audit" className="flex items-center gap-1 lg:gap-2 text-xs lg:text-sm">
+                  <ScrollText className="h-3 w-3 lg:h-4 lg:w-4" />
+                  <span className="hidden sm:inline">Audit Log</span>
+                </TabsTrigger>
+              )}
             </TabsList>
           </div>
 
-          <TabsContent value="orders" className="mt-6">
-            <OrderManagement />
-          </TabsContent>
+          {canViewTab(adminRole, 'orders') && (
+            <TabsContent value="orders" className="mt-6">
+              <OrderManagement />
+            </TabsContent>
+          )}
 
-          <TabsContent value="users" className="mt-6">
-            <UserManagement />
-          </TabsContent>
+          {canViewTab(adminRole, 'users') && (
+            <TabsContent value="users" className="mt-6">
+              <UserManagement />
+            </TabsContent>
+          )}
 
-          <TabsContent value="payments" className="mt-6">
-            <PaymentManagement />
-          </TabsContent>
+          {canViewTab(adminRole, 'payments') && (
+            <TabsContent value="payments" className="mt-6 space-y-6">
+              {hasPermission(adminRole, 'invoicing.edit') && <InvoiceSettings currentAdminEmail={adminEmail} />}
+              <PaymentManagement />
+              {hasPermission(adminRole, 'payments.reconcile') && <PaymentReconciliation />}
+            </TabsContent>
+          )}
 
-          <TabsContent value="admins" className="mt-6">
-            <AdminUserManager currentAdminEmail={adminEmail} />
-          </TabsContent>
+          {canViewTab(adminRole, 'pricing') && (
+            <TabsContent value="pricing" className="mt-6">
+              <PricingManagement currentAdminEmail={adminEmail} />
+            </TabsContent>
+          )}
 
-          <TabsContent value="analytics" className="mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Business Analytics</CardTitle>
-                <CardDescription>Revenue trends and business insights</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12 text-gray-500">
-                  Analytics dashboard coming soon...
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
+          {canViewTab(adminRole, 'catalog') && (
+            <TabsContent value="catalog" className="mt-6">
+              <CatalogManagement currentAdminEmail={adminEmail} />
+            </TabsContent>
+          )}
+
+          {canViewTab(adminRole, 'admins') && (
+            <TabsContent value="admins" className="mt-6">
+              <AdminUserManager currentAdminEmail={adminEmail} />
+            </TabsContent>
+          )}
+
+          {canViewTab(adminRole, 'analytics') && (
+            <TabsContent value="analytics" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Business Analytics</CardTitle>
+                  <CardDescription>Revenue trends and business insights</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-center py-12 text-gray-500">
+                    Analytics dashboard coming soon...
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {canViewTab(adminRole, 'audit') && (
+            <TabsContent value="audit" className="mt-6">
+              <AuditLog />
+            </TabsContent>
+          )}
         </Tabs>
+        )}
       </div>
     </div>
   );
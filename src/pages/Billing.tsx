@@ -1,84 +1,36 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { collection, query, where, getDocs, orderBy } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
 import { formatDate, formatCurrency } from "@/lib/utils";
+import { getUserInvoices, getInvoicePdfUrl, InvoiceRecord } from "@/lib/invoice-service";
 import { FileText, Download, Search } from "lucide-react";
+import { Timestamp } from "firebase/firestore";
 
-interface Invoice {
-  id: string;
-  orderId: string;
-  orderName: string;
-  createdAt: any;
-  dueDate: any;
-  totalAmount: number;
-  paidAmount: number;
-  status: "paid" | "pending" | "overdue";
-  pdfUrl: string;
-}
+const statusLabels: Record<InvoiceRecord["status"], string> = {
+  paid: "Paid",
+  partially_refunded: "Partially Refunded",
+  refunded: "Refunded",
+};
 
 export default function Billing() {
-  const { user, userData } = useAuth();
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchInvoices = async () => {
       if (!user?.uid) return;
 
       try {
-        const invoicesQuery = query(
-          collection(db, "invoices"),
-          where("userId", "==", user.uid),
-          orderBy("createdAt", "desc")
-        );
-        
-        // This is just simulated data for demonstration
-        // In a real app, we would fetch from Firestore
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Simulate invoices data
-        const mockInvoices: Invoice[] = [
-          {
-            id: "INV20230001",
-            orderId: "ORD20230001",
-            orderName: "Medicine Box Printing",
-            createdAt: new Date(2023, 10, 5),
-            dueDate: new Date(2023, 10, 19),
-            totalAmount: 12500,
-            paidAmount: 12500,
-            status: "paid",
-            pdfUrl: "/invoices/invoice-1.pdf"
-          },
-          {
-            id: "INV20230002",
-            orderId: "ORD20230002",
-            orderName: "Product Labels (500 pcs)",
-            createdAt: new Date(2023, 10, 12),
-            dueDate: new Date(2023, 10, 26),
-            totalAmount: 8500,
-            paidAmount: 8500,
-            status: "paid",
-            pdfUrl: "/invoices/invoice-2.pdf"
-          },
-          {
-            id: "INV20230003",
-            orderId: "ORD20230003",
-            orderName: "Packaging Cartons",
-            createdAt: new Date(2023, 11, 18),
-            dueDate: new Date(2024, 0, 1),
-            totalAmount: 22000,
-            paidAmount: 0,
-            status: "pending",
-            pdfUrl: "/invoices/invoice-3.pdf"
-          }
-        ];
-        
-        setInvoices(mockInvoices);
+        setInvoices(await getUserInvoices(user.uid));
       } catch (error) {
         console.error("Error fetching invoices:", error);
       } finally {
@@ -89,22 +41,67 @@ export default function Billing() {
     fetchInvoices();
   }, [user]);
   
-  // Filter invoices based on search term
-  const filteredInvoices = invoices.filter(
-    invoice => 
-      invoice.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      invoice.orderId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      invoice.orderName.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const getInvoiceDate = (invoice: InvoiceRecord): Date | null => {
+    return invoice.createdAt instanceof Timestamp ? invoice.createdAt.toDate() : null;
+  };
+  
+  const getDescription = (invoice: InvoiceRecord) => invoice.lineItems.map(item => item.name).join(", ");
+  
+  // Filter invoices by search term and issue date range (date inputs are yyyy-mm-dd, local time)
+  const filteredInvoices = invoices.filter(invoice => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      invoice.invoiceNumber.toLowerCase().includes(term) ||
+      invoice.trackingId.toLowerCase().includes(term) ||
+      getDescription(invoice).toLowerCase().includes(term);
+    
+    const issuedAt = getInvoiceDate(invoice);
+    const matchesFrom = !fromDate || (issuedAt !== null && issuedAt >= new Date(`${fromDate}T00:00:00`));
+    const matchesTo = !toDate || (issuedAt !== null && issuedAt <= new Date(`${toDate}T23:59:59.999`));
+    
+    return matchesSearch && matchesFrom && matchesTo;
+  });
+  
+  const hasFilters = Boolean(searchTerm || fromDate || toDate);
+  
+  const clearFilters = () => {
+    setSearchTerm("");
+    setFromDate("");
+    setToDate("");
+  };
+  
+  const handleDownload = async (invoice: InvoiceRecord) => {
+    if (!invoice.id) return;
+    
+    try {
+      setDownloadingId(invoice.id);
+      const url = await getInvoicePdfUrl(invoice);
+      window.open(url, "_blank", "noopener,noreferrer");
+      
+      if (!invoice.pdfPath) {
+        // The PDF was rendered just now; reload so the stored path is picked up
+        setInvoices(await getUserInvoices(invoice.userId));
+      }
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      toast({
+        title: "Download Failed",
+        description: "We couldn't fetch this invoice. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
   
   // Get status color
   const getStatusColor = (status: string) => {
     switch (status) {
       case "paid":
         return "bg-green-100 text-green-700";
-      case "pending":
+      case "partially_refunded":
         return "bg-yellow-100 text-yellow-700";
-      case "overdue":
+      case "refunded":
         return "bg-red-100 text-red-700";
       default:
         return "bg-gray-100 text-gray-700";
@@ -118,18 +115,42 @@ export default function Billing() {
         Manage and download your invoices for all print orders.
       </p>
       
-      {/* Search */}
-      <div className="relative max-w-md mb-6">
-        <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-          <Search className="h-5 w-5 text-gray-400" />
+      {/* Search and date filters */}
+      <div className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+        <div className="relative w-full max-w-md">
+          <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-primary focus:border-primary block w-full pl-10 p-2.5"
+            placeholder="Search by invoice number, tracking ID or product..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-4">
+          <label className="text-sm text-gray-500">
+            From
+            <input
+              type="date"
+              className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5 mt-1"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </label>
+          <label className="text-sm text-gray-500">
+            To
+            <input
+              type="date"
+              className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-primary focus:border-primary block w-full p-2.5 mt-1"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </label>
         </div>
-        <input
-          type="text"
-          className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-primary focus:border-primary block w-full pl-10 p-2.5"
-          placeholder="Search invoices by ID, order number or name..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-        />
       </div>
       
       {/* Invoices List */}
@@ -141,30 +162,30 @@ export default function Billing() {
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {filteredInvoices.map((invoice) => (
             <Card key={invoice.id} className="overflow-hidden">
-              <div className={`h-2 ${invoice.status === 'paid' ? 'bg-green-500' : invoice.status === 'pending' ? 'bg-yellow-500' : 'bg-red-500'}`}></div>
+              <div className={`h-2 ${invoice.status === 'paid' ? 'bg-green-500' : invoice.status === 'partially_refunded' ? 'bg-yellow-500' : 'bg-red-500'}`}></div>
               <CardHeader className="pb-2">
-                <CardTitle className="flex justify-between items-center">
-                  <span className="font-mono text-lg">{invoice.id}</span>
-                  <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full ${getStatusColor(invoice.status)}`}>
-                    {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                <CardTitle className="flex justify-between items-center gap-2">
+                  <span className="font-mono text-lg break-all">{invoice.invoiceNumber}</span>
+                  <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full whitespace-nowrap ${getStatusColor(invoice.status)}`}>
+                    {statusLabels[invoice.status] || invoice.status}
                   </span>
                 </CardTitle>
-                <CardDescription>Order: {invoice.orderId}</CardDescription>
+                <CardDescription>Tracking ID: {invoice.trackingId}</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <div className="text-sm text-gray-500">Order Name</div>
-                  <div className="font-medium">{invoice.orderName}</div>
+                  <div className="text-sm text-gray-500">Description</div>
+                  <div className="font-medium">{getDescription(invoice)}</div>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <div className="text-sm text-gray-500">Issue Date</div>
-                    <div>{formatDate(invoice.createdAt)}</div>
+                    <div>{getInvoiceDate(invoice) ? formatDate(getInvoiceDate(invoice)!) : "—"}</div>
                   </div>
                   <div>
-                    <div className="text-sm text-gray-500">Due Date</div>
-                    <div>{formatDate(invoice.dueDate)}</div>
+                    <div className="text-sm text-gray-500">GST</div>
+                    <div>{invoice.taxBreakdown ? formatCurrency(invoice.taxBreakdown.totalTax) : "Included"}</div>
                   </div>
                 </div>
                 
@@ -176,27 +197,27 @@ export default function Billing() {
                         {formatCurrency(invoice.totalAmount)}
                       </div>
                     </div>
-                    <div className="text-right">
-                      <div className="text-sm text-gray-500">Paid</div>
-                      <div className={invoice.status === 'paid' ? 'text-green-600 font-semibold' : 'text-gray-600'}>
-                        {formatCurrency(invoice.paidAmount)}
+                    {invoice.refundedAmount ? (
+                      <div className="text-right">
+                        <div className="text-sm text-gray-500">Refunded</div>
+                        <div className="text-red-600 font-semibold">
+                          {formatCurrency(invoice.refundedAmount)}
+                        </div>
                       </div>
-                    </div>
+                    ) : null}
                   </div>
                 </div>
               </CardContent>
               <CardFooter>
-                <a
-                  href={invoice.pdfUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
+                <Button
+                  variant="outline"
                   className="w-full"
+                  onClick={() => handleDownload(invoice)}
+                  disabled={downloadingId === invoice.id}
                 >
-                  <Button variant="outline" className="w-full">
-                    <Download className="h-4 w-4 mr-2" />
-                    Download Invoice
-                  </Button>
-                </a>
+                  <Download className="h-4 w-4 mr-2" />
+                  {downloadingId === invoice.id ? "Preparing..." : "Download Invoice"}
+                </Button>
               </CardFooter>
             </Card>
           ))}
@@ -206,14 +227,14 @@ export default function Billing() {
           <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium mb-2">No Invoices Found</h3>
           <p className="text-gray-500 mb-6">
-            {searchTerm ? `No results for "${searchTerm}"` : "You don't have any invoices yet."}
+            {hasFilters ? "No invoices match your filters." : "You don't have any invoices yet."}
           </p>
-          {searchTerm && (
+          {hasFilters && (
             <Button
               variant="outline"
-              onClick={() => setSearchTerm("")}
+              onClick={clearFilters}
             >
-              Clear Search
+              Clear Filters
             </Button>
           )}
         </div>
@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { updatePassword, reauthenticateWithCredential, EmailAuthProvider } from "firebase/auth";
 import { doc, updateDoc } from "firebase/firestore";
@@ -12,13 +12,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Switch } from "@/components/ui/switch";
 import { formatDate, formatCurrency, isValidGSTIN } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { ShoppingBag, FileText, Settings, Clock, Package, CheckCircle, Truck, CreditCard, Download, AlertCircle, Play, ChevronDown, ChevronUp, Eye, MapPin, Phone, Mail, Calendar, Hash } from "lucide-react";
-import { getUserOrders, SimpleOrderData, testDatabaseConnection } from "@/lib/invoice-service";
+import { getUserOrders, getOrderLines, SimpleOrderData, testDatabaseConnection } from "@/lib/invoice-service";
 import { initializeRazorpay, createRazorpayOrder, processPayment } from "@/lib/payment-service";
-import { updateOrderAfterPayment } from "@/lib/invoice-service";
+import { updateOrderAfterPayment, getInvoice, getInvoicePdfUrl } from "@/lib/invoice-service";
 import { downloadInvoice } from "@/lib/invoice-generator";
+import { getOrderLineItems, describeOrderProducts, getLineLabel } from "@/lib/pricing-service";
+import { formatSpec } from "@/lib/product-specs";
+import { getOrderTaxBreakdown } from "@/lib/tax-service";
+import { ORDER_JOURNEY } from "@/lib/order-lifecycle";
+import { ORDER_STATUS_CONFIG } from "@/lib/order-status-utils";
+import OrderJourney from "@/components/shared/OrderJourney";
+import AddressBook from "@/components/user/AddressBook";
+import { formatAddress } from "@/lib/address-service";
+import { getNotificationPreferences, updateNotificationPreferences, NotificationPreferences } from "@/lib/notification-service";
 
 export default function Dashboard() {
   const { userData, user, updateUserProfile } = useAuth();
@@ -28,12 +38,20 @@ export default function Dashboard() {
   const [processingPayment, setProcessingPayment] = useState(false);
   const [dbStatus, setDbStatus] = useState<'checking' | 'connected' | 'failed'>('checking');
   const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set());
+  const [searchParams] = useSearchParams();
+  const focusedOrderId = searchParams.get("order");
   const navigate = useNavigate();
 
   const [name, setName] = useState(userData?.name || "");
   const [phone, setPhone] = useState(userData?.phone || "");
   const [gstNumber, setGstNumber] = useState(userData?.gstNumber || "");
   const [updatingProfile, setUpdatingProfile] = useState(false);
+  
+  // Notification preferences
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(
+    getNotificationPreferences(userData?.notificationPreferences)
+  );
+  const [savingPreferences, setSavingPreferences] = useState(false);
 
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
@@ -45,6 +63,7 @@ export default function Dashboard() {
     if (userData?.name) setName(userData.name);
     if (userData?.phone) setPhone(userData.phone);
     if (userData?.gstNumber) setGstNumber(userData.gstNumber);
+    setNotificationPreferences(getNotificationPreferences(userData?.notificationPreferences));
   }, [userData]);
 
   const fetchUserOrders = async () => {
@@ -129,40 +148,6 @@ export default function Dashboard() {
     }
   }, [userData, user]);
 
-  const getExecutionStatusLabel = (status: string) => {
-    switch (status) {
-      case 'order_created':
-        return 'Order Created';
-      case 'processing':
-        return 'Processing';
-      case 'quality_check':
-        return 'Quality Check';
-      case 'shipped':
-        return 'Shipped';
-      case 'delivered':
-        return 'Delivered';
-      default:
-        return 'Order Created';
-    }
-  };
-
-  const getExecutionStatusColor = (status: string) => {
-    switch (status) {
-      case 'order_created':
-        return 'bg-blue-100 text-blue-700';
-      case 'processing':
-        return 'bg-yellow-100 text-yellow-700';
-      case 'quality_check':
-        return 'bg-purple-100 text-purple-700';
-      case 'shipped':
-        return 'bg-indigo-100 text-indigo-700';
-      case 'delivered':
-        return 'bg-green-100 text-green-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
-    }
-  };
-
   const getPaymentStatusColor = (status: string) => {
     switch (status) {
       case 'paid':
@@ -178,23 +163,13 @@ export default function Dashboard() {
     }
   };
 
-  const getProgressSteps = (currentStatus: string) => {
-    const steps = [
-      { key: 'order_created', label: 'Order Created', icon: CheckCircle, description: 'Payment Confirmed' },
-      { key: 'processing', label: 'Processing', icon: Package, description: 'Design & Print' },
-      { key: 'quality_check', label: 'Quality Check', icon: FileText, description: 'Review & Pack' },
-      { key: 'shipped', label: 'Shipped', icon: Truck, description: 'On the way' },
-      { key: 'delivered', label: 'Delivered', icon: CheckCircle, description: 'Complete' }
-    ];
+  // Deep links from notifications and emails (/dashboard?order=<id>) open that order
+  useEffect(() => {
+    if (!focusedOrderId || !orders.some(order => order.id === focusedOrderId)) return;
     
-    const currentIndex = steps.findIndex(step => step.key === currentStatus);
-    return steps.map((step, index) => ({
-      ...step,
-      isActive: index <= currentIndex,
-      isCompleted: index < currentIndex,
-      isCurrent: index === currentIndex
-    }));
-  };
+    setExpandedOrders(prev => new Set(prev).add(focusedOrderId));
+    document.getElementById(`order-${focusedOrderId}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [focusedOrderId, orders]);
 
   const toggleOrderExpansion = (orderId: string) => {
     const newExpanded = new Set(expandedOrders);
@@ -206,7 +181,7 @@ export default function Dashboard() {
     setExpandedOrders(newExpanded);
   };
 
-  const handleDownloadInvoice = (order: SimpleOrderData) => {
+  const handleDownloadInvoice = async (order: SimpleOrderData) => {
     if (!order.id || order.paymentStatus !== 'paid') {
       toast({
         title: "Invoice Not Available",
@@ -216,19 +191,28 @@ export default function Dashboard() {
       return;
     }
 
+    try {
+      const invoice = await getInvoice(order.id);
+      if (invoice) {
+        window.open(await getInvoicePdfUrl(invoice), '_blank', 'noopener,noreferrer');
+        return;
+      }
+    } catch (error) {
+      console.error("❌ Error opening stored invoice:", error);
+    }
+
+    // Orders paid before invoices were stored have no invoice document; render one on the fly
+    const taxBreakdown = getOrderTaxBreakdown(order);
     const invoiceData = {
-      invoiceId: order.invoiceId || `INV-${order.trackingId}-${Date.now().toString().slice(-6)}`,
+      invoiceId: order.invoiceId || order.trackingId,
       orderId: order.id,
       orderDate: order.timestamp?.toDate ? order.timestamp.toDate() : new Date(),
       customerName: order.customerName,
       customerEmail: order.customerEmail,
-      customerAddress: order.deliveryAddress,
-      products: [{
-        name: `${order.productType} Printing (${order.quantity} units)`,
-        quantity: order.quantity,
-        price: order.totalAmount
-      }],
-      totalAmount: order.totalAmount,
+      customerAddress: order.billingAddress ? formatAddress(order.billingAddress) : order.deliveryAddress,
+      products: getOrderLineItems(order, taxBreakdown.taxableAmount),
+      totalAmount: taxBreakdown.total,
+      taxBreakdown,
       gstNumber: order.gstNumber,
       hsnCode: order.hsnCode,
       trackingId: order.trackingId
@@ -255,21 +239,17 @@ export default function Dashboard() {
       
       await initializeRazorpay();
       
-      const razorpayOrderData = await createRazorpayOrder(
-        order.id,
-        order.totalAmount,
-        order.customerName,
-        order.customerEmail
-      );
+      const razorpayOrderData = await createRazorpayOrder(order.id);
       
       const paymentResult = await processPayment({
         orderId: order.id,
         razorpayOrderId: razorpayOrderData.id,
-        amount: order.totalAmount,
+        keyId: razorpayOrderData.keyId,
+        amount: razorpayOrderData.amount,
         currency: 'INR',
         customerName: order.customerName,
         customerEmail: order.customerEmail,
-        description: `Order #${order.trackingId} - ${order.productType} (${order.quantity} qty)`,
+        description: `Order #${order.trackingId} - ${describeOrderProducts(order)} (${order.quantity} qty)`,
         userId: userData.uid,
         productType: order.productType,
         quantity: order.quantity,
@@ -277,7 +257,20 @@ export default function Dashboard() {
       });
       
       if (paymentResult.status === 'completed' && paymentResult.paymentId) {
-        await updateOrderAfterPayment(order.id, paymentResult.paymentId);
+        const updateResult = await updateOrderAfterPayment(order.id, {
+          razorpayOrderId: razorpayOrderData.id,
+          razorpayPaymentId: paymentResult.paymentId,
+          razorpaySignature: paymentResult.signature || ""
+        });
+        
+        if (!updateResult.success) {
+          toast({
+            title: "Payment Verification Failed",
+            description: "We couldn't verify your payment. If you were charged, please contact support.",
+            variant: "destructive",
+          });
+          return;
+        }
         
         toast({
           title: "Payment Successful",
@@ -352,6 +345,33 @@ export default function Dashboard() {
     }
   };
 
+  const handleToggleNotification = async (channel: keyof NotificationPreferences, enabled: boolean) => {
+    if (!user) return;
+    
+    const previous = notificationPreferences;
+    const updated = { ...notificationPreferences, [channel]: enabled };
+    setNotificationPreferences(updated);
+    setSavingPreferences(true);
+    
+    const result = await updateNotificationPreferences(user.uid, updated);
+    setSavingPreferences(false);
+    
+    if (result.success) {
+      updateUserProfile({ ...userData!, notificationPreferences: updated });
+      toast({
+        title: "Preferences Saved",
+        description: "Your notification preferences have been updated.",
+      });
+    } else {
+      setNotificationPreferences(previous);
+      toast({
+        title: "Update Failed",
+        description: result.message || "Could not save your notification preferences.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -423,7 +443,8 @@ export default function Dashboard() {
   };
 
   const getPendingOrders = () => {
-    return orders.filter(order => order.paymentStatus === "pending");
+    // Failed attempts can be retried against the same order
+    return orders.filter(order => order.paymentStatus === "pending" || order.paymentStatus === "failed");
   };
 
   const getExecutedOrders = () => {
@@ -431,80 +452,7 @@ export default function Dashboard() {
   };
 
   const getCompletedOrders = () => {
-    return orders.filter(order => order.executionStatus === "delivered");
-  };
-
-  const OrderFlowChart = ({ currentStatus }: { currentStatus: string }) => {
-    const steps = getProgressSteps(currentStatus);
-    
-    return (
-      <div className="bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg p-4 md:p-6 border">
-        <h4 className="text-sm md:text-base font-semibold mb-4 text-center text-gray-800">Order Journey</h4>
-        
-        {/* Desktop/Tablet Horizontal Layout */}
-        <div className="hidden sm:flex items-center justify-between">
-          {steps.map((step, index) => {
-            const Icon = step.icon;
-            return (
-              <div key={step.key} className="flex items-center flex-1">
-                <div className="flex flex-col items-center text-center">
-                  <div className={`w-8 h-8 md:w-10 md:h-10 rounded-full flex items-center justify-center mb-2 border-2 transition-all duration-300 ${
-                    step.isCompleted || step.isCurrent 
-                      ? 'bg-green-500 border-green-500 text-white' 
-                      : 'bg-white border-gray-300 text-gray-400'
-                  }`}>
-                    <Icon className="h-3 w-3 md:h-4 md:w-4" />
-                  </div>
-                  <span className={`text-xs md:text-sm font-medium ${
-                    step.isCompleted || step.isCurrent ? 'text-green-600' : 'text-gray-500'
-                  }`}>
-                    {step.label}
-                  </span>
-                  <span className="text-xs text-gray-400 mt-1">{step.description}</span>
-                </div>
-                
-                {index < steps.length - 1 && (
-                  <div className={`flex-1 h-1 mx-2 md:mx-4 rounded transition-all duration-300 ${
-                    step.isCompleted ? 'bg-green-500' : 'bg-gray-300'
-                  }`}></div>
-                )}
-              </div>
-            );
-          })}
-        </div>
-
-        {/* Mobile Vertical Layout */}
-        <div className="flex sm:hidden flex-col space-y-4">
-          {steps.map((step, index) => {
-            const Icon = step.icon;
-            return (
-              <div key={step.key} className="flex items-center">
-                <div className={`w-8 h-8 rounded-full flex items-center justify-center border-2 transition-all duration-300 ${
-                  step.isCompleted || step.isCurrent 
-                    ? 'bg-green-500 border-green-500 text-white' 
-                    : 'bg-white border-gray-300 text-gray-400'
-                }`}>
-                  <Icon className="h-4 w-4" />
-                </div>
-                
-                <div className="ml-4 flex-1">
-                  <div className={`font-medium text-sm ${
-                    step.isCompleted || step.isCurrent ? 'text-green-600' : 'text-gray-500'
-                  }`}>
-                    {step.label}
-                  </div>
-                  <div className="text-xs text-gray-400">{step.description}</div>
-                </div>
-                
-                {step.isCurrent && (
-                  <Badge className="bg-blue-100 text-blue-700 text-xs">Current</Badge>
-                )}
-              </div>
-            );
-          })}
-        </div>
-      </div>
-    );
+    return orders.filter(order => order.status === "delivered");
   };
 
   return (
@@ -648,7 +596,11 @@ export default function Dashboard() {
               ) : orders.length > 0 ? (
                 <div className="space-y-4">
                   {orders.map((order) => (
-                    <Card key={order.id} className="border-l-4 border-l-blue-500">
+                    <Card
+                      key={order.id}
+                      id={`order-${order.id}`}
+                      className={`border-l-4 border-l-blue-500 scroll-mt-24 ${order.id === focusedOrderId ? 'ring-2 ring-blue-300' : ''}`}
+                    >
                       <Collapsible
                         open={expandedOrders.has(order.id!)}
                         onOpenChange={() => toggleOrderExpansion(order.id!)}
@@ -663,9 +615,9 @@ export default function Dashboard() {
                                     <Badge className={getPaymentStatusColor(order.paymentStatus || 'pending')}>
                                       {order.paymentStatus || 'pending'}
                                     </Badge>
-                                    {order.paymentStatus === 'paid' && (
-                                      <Badge className={getExecutionStatusColor(order.executionStatus || 'order_created')}>
-                                        {getExecutionStatusLabel(order.executionStatus || 'order_created')}
+                                    {order.status !== 'pending_payment' && (
+                                      <Badge className={ORDER_STATUS_CONFIG[order.status].color}>
+                                        {ORDER_STATUS_CONFIG[order.status].label}
                                       </Badge>
                                     )}
                                   </div>
@@ -674,7 +626,7 @@ export default function Dashboard() {
                                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                                   <div>
                                     <span className="text-gray-500">Product:</span>
-                                    <p className="font-medium">{order.productType}</p>
+                                    <p className="font-medium">{describeOrderProducts(order)}</p>
                                   </div>
                                   <div>
                                     <span className="text-gray-500">Quantity:</span>
@@ -708,7 +660,7 @@ export default function Dashboard() {
                                   </Button>
                                 )}
                                 
-                                {order.paymentStatus === 'pending' && (
+                                {(order.paymentStatus === 'pending' || order.paymentStatus === 'failed') && (
                                   <Button 
                                     size="sm" 
                                     onClick={(e) => {
@@ -744,10 +696,10 @@ export default function Dashboard() {
                         <CollapsibleContent>
                           <CardContent className="pt-0">
                             <div className="border-t pt-6">
-                              {/* Order Flow Chart */}
-                              {order.paymentStatus === 'paid' && (
-                                <div className="mb-6">
-                                  <OrderFlowChart currentStatus={order.executionStatus || 'order_created'} />
+                              {/* Dated order journey and history */}
+                              {ORDER_JOURNEY.includes(order.status) && (
+                                <div className="mb-6 bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg p-4 md:p-6 border">
+                                  <OrderJourney status={order.status} orderId={order.id} shipment={order.shipment} />
                                 </div>
                               )}
                               
@@ -774,10 +726,6 @@ export default function Dashboard() {
                                         <span className="font-mono">{order.invoiceId}</span>
                                       </div>
                                     )}
-                                    <div className="flex justify-between">
-                                      <span className="text-gray-500">HSN Code:</span>
-                                      <span className="font-medium">{order.hsnCode}</span>
-                                    </div>
                                     {order.gstNumber && (
                                       <div className="flex justify-between">
                                         <span className="text-gray-500">GST Number:</span>
@@ -803,24 +751,52 @@ export default function Dashboard() {
                                       <span className="font-medium">{order.customerEmail}</span>
                                     </div>
                                     <div>
-                                      <span className="text-gray-500 block">Address:</span>
+                                      <span className="text-gray-500 block">{order.billingAddress ? "Ship to:" : "Address:"}</span>
                                       <span className="font-medium">{order.deliveryAddress}</span>
                                     </div>
+                                    {order.billingAddress && (
+                                      <div>
+                                        <span className="text-gray-500 block">Bill to:</span>
+                                        <span className="font-medium">{formatAddress(order.billingAddress)}</span>
+                                      </div>
+                                    )}
                                   </div>
                                 </div>
                               </div>
                               
-                              {order.specifications && (
-                                <div className="mt-6">
-                                  <h4 className="font-semibold text-gray-900 mb-2 flex items-center">
-                                    <FileText className="h-4 w-4 mr-2" />
-                                    Specifications
-                                  </h4>
-                                  <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded-lg">
-                                    {order.specifications}
-                                  </p>
+                              <div className="mt-6">
+                                <h4 className="font-semibold text-gray-900 mb-2 flex items-center">
+                                  <FileText className="h-4 w-4 mr-2" />
+                                  Items
+                                </h4>
+                                <div className="space-y-2">
+                                  {getOrderLines(order).map((line, index) => (
+                                    <div key={index} className="text-sm bg-gray-50 p-3 rounded-lg space-y-1">
+                                      <div className="flex justify-between gap-2">
+                                        <span className="font-medium">
+                                          {getLineLabel(line)} × {line.quantity}
+                                        </span>
+                                        {line.priceBreakdown && (
+                                          <span className="font-medium">
+                                            {formatCurrency(line.priceBreakdown.total)}
+                                            {line.priceBreakdown.minimumApplied && " (minimum order)"}
+                                            <span className="text-gray-400 text-xs ml-1">rate card v{line.priceBreakdown.pricingVersion}</span>
+                                          </span>
+                                        )}
+                                      </div>
+                                      <p className="text-gray-500">HSN {line.hsnCode}</p>
+                                      {formatSpec(line.productType, line.spec).length > 0 && (
+                                        <p className="text-gray-700">
+                                          {formatSpec(line.productType, line.spec).map(([label, value]) => `${label}: ${value}`).join(" · ")}
+                                        </p>
+                                      )}
+                                      {line.specifications && (
+                                        <p className="text-gray-700">{line.specifications}</p>
+                                      )}
+                                    </div>
+                                  ))}
                                 </div>
-                              )}
+                              </div>
                             </div>
                           </CardContent>
                         </CollapsibleContent>
@@ -868,14 +844,18 @@ export default function Dashboard() {
                               <h3 className="font-semibold">Order #{order.trackingId}</h3>
                               <Badge className="bg-yellow-100 text-yellow-800">
                                 <AlertCircle className="h-3 w-3 mr-1" />
-                                Payment Pending
+                                {order.paymentStatus === 'failed' ? 'Payment Failed' : 'Payment Pending'}
                               </Badge>
                             </div>
                             
+                            {order.lastPaymentFailure?.reason && (
+                              <p className="text-sm text-red-600 mb-2">{order.lastPaymentFailure.reason}</p>
+                            )}
+                            
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                               <div>
                                 <span className="text-gray-500">Product:</span>
-                                <p className="font-medium">{order.productType}</p>
+                                <p className="font-medium">{describeOrderProducts(order)}</p>
                               </div>
                               <div>
                                 <span className="text-gray-500">Quantity:</span>
@@ -1060,6 +1040,50 @@ export default function Dashboard() {
               </form>
             </Card>
             
+            {user && (
+              <AddressBook
+                userId={user.uid}
+                defaults={userData?.addressDefaults || {}}
+                onDefaultsChange={(addressDefaults) => updateUserProfile({ ...userData!, addressDefaults })}
+              />
+            )}
+            
+            <Card className="md:col-span-2">
+              <CardHeader>
+                <CardTitle>Order Notifications</CardTitle>
+                <CardDescription>Choose how we tell you when your order status changes</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="notifyEmail">Email</Label>
+                    <p className="text-sm text-gray-500">Status updates sent to {userData?.email || 'your email address'}</p>
+                  </div>
+                  <Switch
+                    id="notifyEmail"
+                    checked={notificationPreferences.email}
+                    disabled={savingPreferences}
+                    onCheckedChange={(checked) => handleToggleNotification('email', checked)}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="notifyInApp">In-app</Label>
+                    <p className="text-sm text-gray-500">Notifications shown on the website</p>
+                  </div>
+                  <Switch
+                    id="notifyInApp"
+                    checked={notificationPreferences.inApp}
+                    disabled={savingPreferences}
+                    onCheckedChange={(checked) => handleToggleNotification('inApp', checked)}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Payment confirmations and invoices are always emailed.
+                </p>
+              </CardContent>
+            </Card>
+            
             <Card className="md:col-span-2">
               <CardHeader>
                 <CardTitle>Account Actions</CardTitle>
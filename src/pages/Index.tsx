@@ -3,14 +3,24 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowRight, Printer, Package, Truck, CheckCircle, Building, BookOpen, School, Clock } from "lucide-react";
 import printerImg from '../assets/factoryprinting.jpeg';
-import uvPrinting from '../assets/uvprinting.jpg';
-import tags from '../assets/tags.jpg';
-import medicineBoxes from '../assets/medicinebox.jpg';
-import digital from '../assets/digital.jpg';
 import { motion } from "framer-motion";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { getCatalog, getProductImage, CatalogProduct } from "@/lib/catalog-service";
 
 export default function Index() {
+  const [featuredProducts, setFeaturedProducts] = useState<CatalogProduct[]>([]);
+  const [productsLoading, setProductsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchFeaturedProducts();
+  }, []);
+
+  const fetchFeaturedProducts = async () => {
+    const catalog = await getCatalog();
+    setFeaturedProducts(catalog.products.filter(product => product.featured));
+    setProductsLoading(false);
+  };
+
   return (
     <div className="animate-fade-in">
 
@@ -139,30 +149,19 @@ export default function Index() {
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {[
-              {
-                name: "UV Printing Services",
-                image: uvPrinting,
-                description: "High-quality UV printing for vibrant colors and durability"
-              },
-              {
-                name: "Custom Tags",
-                image: tags,
-                description: "Branded tags for product identification and information"
-              },
-              {
-                name: "Medicine Boxes",
-                image: medicineBoxes,
-                description: "Precisely printed packaging for pharmaceutical products"
-              },
-              {
-                name: "Digital & Offset Printing",
-                image: digital,
-                description: "Versatile printing solutions for all your business needs"
-              }
-            ].map((product, index) => (
+            {productsLoading && [...Array(4)].map((_, index) => (
+              <div key={index} className="rounded-lg shadow-md overflow-hidden animate-pulse">
+                <div className="h-52 bg-gray-200"></div>
+                <div className="p-4 space-y-3">
+                  <div className="h-6 bg-gray-200 rounded w-2/3"></div>
+                  <div className="h-4 bg-gray-100 rounded"></div>
+                  <div className="h-4 bg-gray-100 rounded w-1/2"></div>
+                </div>
+              </div>
+            ))}
+            {featuredProducts.map((product, index) => (
               <motion.div 
-                key={index} 
+                key={product.id} 
                 className="group"
                 initial={{ opacity: 0, y: 30 }}
                 whileInView={{ opacity: 1, y: 0 }}
@@ -171,14 +170,14 @@ export default function Index() {
               >
                 <div className="overflow-hidden rounded-lg shadow-md group-hover:shadow-lg transition-shadow duration-300">
                   <img 
-                    src={product.image} 
+                    src={getProductImage(product)} 
                     alt={product.name}
                     className="w-full h-52 object-cover transition-transform duration-300 group-hover:scale-105" 
                   />
                   <div className="p-4">
                     <h3 className="text-xl font-semibold mb-2">{product.name}</h3>
                     <p className="text-gray-600 mb-4">{product.description}</p>
-                    <Link to="/order" className="text-primary font-medium flex items-center">
+                    <Link to={`/order?product=${product.id}`} className="text-primary font-medium flex items-center">
                       Order Now <ArrowRight className="ml-1 h-4 w-4" />
                     </Link>
                   </div>
@@ -1,10 +1,12 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -21,39 +23,66 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { generateId, isValidGSTIN } from "@/lib/utils";
-import { AlertCircle, Upload } from "lucide-react";
+import { generateId, isValidGSTIN, formatFileSize } from "@/lib/utils";
+import { AlertCircle, Upload, Pause, Play, RotateCcw, CheckCircle, Plus, Pencil, Trash2 } from "lucide-react";
 import { createOrder, updateOrderAfterPayment, testDatabaseConnection } from "@/lib/invoice-service";
 import { initializeRazorpay, createRazorpayOrder, processPayment } from "@/lib/payment-service";
+import { uploadDesignFile, validateDesignFile, DESIGN_FILE_ACCEPT, UploadedFile } from "@/lib/storage-service";
+import { calculateTax, getHsnCode, combineTaxBreakdowns, getPlaceOfSupply, getTaxLines, GST_STATE_CODES } from "@/lib/tax-service";
+import { getCurrentPricing, calculatePrice, DEFAULT_PRICING, PricingVersion, PriceQuote, getLineLabel } from "@/lib/pricing-service";
+import { getCatalog, CatalogProduct } from "@/lib/catalog-service";
+import { getSpecFields, validateSpec, cleanSpec, getSpecPricingOptions, ProductSpec } from "@/lib/product-specs";
+import { getAddresses, formatAddress, toOrderAddress, Address, AddressDefaults, AddressKind } from "@/lib/address-service";
+import SpecificationForm from "@/components/user/SpecificationForm";
+import AddressDialog from "@/components/user/AddressDialog";
+import type { UploadTask } from "firebase/storage";
+
+// A product in the cart. Its design file uploads in the background, tracked in
+// `uploads` under the same ID, so the customer can keep adding products.
+interface CartLine {
+  id: string;
+  productId: string;
+  productName: string;
+  productType: string;
+  hsnCode: string;
+  quantity: number;
+  spec: ProductSpec;
+  specifications: string;
+}
 
-const productTypes = [
-  { value: "sticker", label: "Stickers & Labels" },
-  { value: "tag", label: "Tags & Cards" },
-  { value: "box", label: "Boxes & Cartons" },
-  { value: "medicine_box", label: "Medicine Boxes" },
-  { value: "custom", label: "Custom Packaging" },
-];
-
-const hsnCodes = {
-  sticker: "4821",
-  tag: "4821",
-  box: "4819",
-  medicine_box: "4819",
-  custom: "4911",
-};
+interface LineUpload {
+  file: File;
+  progress: number;
+  state: 'uploading' | 'paused' | 'done' | 'error';
+  uploaded: UploadedFile | null;
+}
 
 export default function Order() {
-  const { user, userData } = useAuth();
+  const { user, userData, updateUserProfile } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const requestedProductRef = useRef(searchParams.get("product"));
   const { toast } = useToast();
 
-  const [productType, setProductType] = useState("");
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [lineId, setLineId] = useState(() => generateId(8));
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [productId, setProductId] = useState("");
   const [quantity, setQuantity] = useState("");
+  const [spec, setSpec] = useState<ProductSpec>({});
+  const [specErrors, setSpecErrors] = useState<Record<string, string>>({});
+  const [pricing, setPricing] = useState<PricingVersion>(DEFAULT_PRICING);
   const [specifications, setSpecifications] = useState("");
-  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [shippingAddressId, setShippingAddressId] = useState("");
+  const [billingAddressId, setBillingAddressId] = useState("");
+  const [billingSameAsShipping, setBillingSameAsShipping] = useState(true);
+  const [addressDialogFor, setAddressDialogFor] = useState<AddressKind | null>(null);
   const [gstNumber, setGstNumber] = useState(userData?.gstNumber || "");
-  const [file, setFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<Record<string, LineUpload>>({});
+  const uploadTasksRef = useRef<Record<string, UploadTask>>({});
+  const addressesPreselectedRef = useRef(false);
   const [loading, setLoading] = useState(false);
   const [processingStep, setProcessingStep] = useState("");
 
@@ -61,9 +90,6 @@ export default function Order() {
     if (userData?.gstNumber) {
       setGstNumber(userData.gstNumber);
     }
-    if (userData?.address) {
-      setDeliveryAddress(userData.address);
-    }
   }, [userData]);
 
   useEffect(() => {
@@ -87,6 +113,16 @@ export default function Order() {
         });
       }
       
+      // Load the current rate cards, the products on offer and the saved addresses
+      const [currentPricing, catalog, savedAddresses] = await Promise.all([
+        getCurrentPricing(),
+        getCatalog(),
+        getAddresses(user.uid),
+      ]);
+      setPricing(currentPricing);
+      setProducts(catalog.products);
+      setAddresses(savedAddresses);
+      
       // Initialize Razorpay
       await initializeRazorpay();
     };
@@ -96,12 +132,81 @@ export default function Order() {
     }
   }, [toast, user, navigate]);
 
+  // Cancel any in-flight uploads when leaving the page
+  useEffect(() => {
+    const tasks = uploadTasksRef.current;
+    return () => {
+      Object.values(tasks).forEach(task => task.cancel());
+    };
+  }, []);
+
+  const updateUpload = (id: string, changes: Partial<LineUpload>) => {
+    setUploads(prev => (prev[id] ? { ...prev, [id]: { ...prev[id], ...changes } } : prev));
+  };
+
+  const startUpload = (id: string, selectedFile: File) => {
+    if (!user) return;
+
+    uploadTasksRef.current[id]?.cancel();
+    setUploads(prev => ({ ...prev, [id]: { file: selectedFile, progress: 0, state: 'uploading', uploaded: null } }));
+
+    const { task, done } = uploadDesignFile(selectedFile, user.uid, (progress) => updateUpload(id, { progress }));
+    uploadTasksRef.current[id] = task;
+
+    done
+      .then((result) => {
+        if (uploadTasksRef.current[id] !== task) return;
+        updateUpload(id, { uploaded: result, state: 'done' });
+      })
+      .catch((error) => {
+        if (uploadTasksRef.current[id] !== task || error?.code === 'storage/canceled') return;
+        updateUpload(id, { state: 'error' });
+        toast({
+          title: "Upload Failed",
+          description: `We couldn't upload ${selectedFile.name}. Please retry.`,
+          variant: "destructive",
+        });
+      });
+  };
+
+  const togglePauseUpload = (id: string) => {
+    const task = uploadTasksRef.current[id];
+    const upload = uploads[id];
+    if (!task || !upload) return;
+
+    if (upload.state === 'uploading' && task.pause()) {
+      updateUpload(id, { state: 'paused' });
+    } else if (upload.state === 'paused' && task.resume()) {
+      updateUpload(id, { state: 'uploading' });
+    }
+  };
+
+  const discardUpload = (id: string) => {
+    uploadTasksRef.current[id]?.cancel();
+    delete uploadTasksRef.current[id];
+    setUploads(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
-      setFile(selectedFile);
       
-      if (selectedFile.type.startsWith('image/')) {
+      const validation = validateDesignFile(selectedFile);
+      if (!validation.valid) {
+        toast({
+          title: "Invalid File",
+          description: validation.message,
+          variant: "destructive",
+        });
+        e.target.value = "";
+        return;
+      }
+      
+      if (selectedFile.type === 'image/png') {
         const reader = new FileReader();
         reader.onload = (event) => {
           setFilePreview(event.target?.result as string);
@@ -110,35 +215,168 @@ export default function Order() {
       } else {
         setFilePreview(null);
       }
+      
+      startUpload(lineId, selectedFile);
+      e.target.value = "";
     }
   };
 
-  const calculateEstimatedPrice = () => {
-    if (!productType || !quantity) return 0;
-    const basePrice = {
-      sticker: 500,
-      tag: 800,
-      box: 1500,
-      medicine_box: 2000,
-      custom: 3000,
-    }[productType] || 0;
-    const qty = parseInt(quantity) || 0;
-    if (qty <= 100) return basePrice;
-    if (qty <= 500) return basePrice * 1.5;
-    if (qty <= 1000) return basePrice * 2;
-    return basePrice * 3;
+  // The saved defaults pre-select the addresses once they have loaded
+  useEffect(() => {
+    if (addressesPreselectedRef.current || addresses.length === 0) return;
+    addressesPreselectedRef.current = true;
+
+    const addressDefaults = userData?.addressDefaults || {};
+    const has = (id?: string) => !!id && addresses.some(address => address.id === id);
+    const shipping = has(addressDefaults.shipping) ? addressDefaults.shipping! : addresses[0].id;
+    const billing = has(addressDefaults.billing) ? addressDefaults.billing! : shipping;
+    setShippingAddressId(current => current || shipping);
+    setBillingAddressId(current => current || billing);
+    setBillingSameAsShipping(billing === shipping);
+  }, [addresses, userData?.addressDefaults]);
+
+  const shippingAddress = addresses.find(address => address.id === shippingAddressId);
+  const billingAddress = billingSameAsShipping
+    ? shippingAddress
+    : addresses.find(address => address.id === billingAddressId);
+  // The shipping state decides CGST + SGST or IGST for buyers without a GSTIN
+  const deliveryState = shippingAddress?.state || "";
+
+  const handleAddressSaved = (address: Address, defaults: AddressDefaults) => {
+    setAddresses(prev =>
+      prev.some(item => item.id === address.id) ? prev.map(item => (item.id === address.id ? address : item)) : [...prev, address]
+    );
+    if (userData) updateUserProfile({ ...userData, addressDefaults: defaults });
+    if (addressDialogFor === 'billing') {
+      setBillingAddressId(address.id);
+    } else {
+      setShippingAddressId(address.id);
+    }
   };
 
-  const mockFileUpload = async (file: File, userId: string): Promise<string> => {
-    console.log("📁 Mock file upload...");
-    setProcessingStep("Processing design file...");
-    
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const mockFileUrl = `https://storage.googleapis.com/mock-uploads/${userId}/${Date.now()}_${file.name}`;
-    console.log("✅ Mock file uploaded:", mockFileUrl);
-    
-    return mockFileUrl;
+  const selectedProduct = products.find(product => product.id === productId);
+  const productType = selectedProduct?.productType || "";
+
+  const getLineSpecFields = (type: string) => getSpecFields(type, pricing.rateCards[type]);
+  const specFields = productType ? getLineSpecFields(productType) : [];
+
+  // Each product has its own spec schema, so start over from its defaults on product change
+  const handleProductChange = (value: string) => {
+    setProductId(value);
+    setSpec({ ...products.find(product => product.id === value)?.defaultSpec });
+    setSpecErrors({});
+  };
+
+  // "Order now" links from the home page and portfolio pass ?product=<catalog id>
+  useEffect(() => {
+    const requested = products.find(product => product.id === requestedProductRef.current);
+    if (requested) {
+      requestedProductRef.current = null;
+      setProductId(requested.id);
+      setSpec({ ...requested.defaultSpec });
+    }
+  }, [products]);
+
+  const handleSpecChange = (next: ProductSpec) => {
+    setSpec(next);
+    setSpecErrors({});
+  };
+
+  // The spec's size band, material and lamination pick the rate card modifiers
+  const getPriceQuote = (line: CartLine): PriceQuote | null => {
+    return calculatePrice(pricing, line.productType, getSpecPricingOptions(line.productType, line.spec, line.quantity));
+  };
+
+  // The product being edited, or null while the editor is empty
+  const getDraftLine = (): CartLine | null => {
+    if (!productId && !quantity && !uploads[lineId]) return null;
+    return {
+      id: lineId,
+      productId,
+      productName: selectedProduct?.name || "",
+      productType,
+      hsnCode: selectedProduct?.hsnCode || "",
+      quantity: parseInt(quantity) || 0,
+      spec,
+      specifications,
+    };
+  };
+
+  const resetEditor = () => {
+    setLineId(generateId(8));
+    setProductId("");
+    setQuantity("");
+    setSpec({});
+    setSpecErrors({});
+    setSpecifications("");
+    setFilePreview(null);
+  };
+
+  const validateLine = (line: CartLine): string | null => {
+    if (!line.productType || line.quantity <= 0) return "Choose a product and quantity.";
+    if (Object.keys(validateSpec(getLineSpecFields(line.productType), line.spec)).length > 0) {
+      return `Complete the specification for ${getLineLabel(line)}.`;
+    }
+    if (!uploads[line.id]) return "Upload a design file for this product.";
+    if (!getPriceQuote(line)) return "This product is not available for ordering right now.";
+    return null;
+  };
+
+  const handleAddToCart = () => {
+    const draft = getDraftLine();
+    const error = draft ? validateLine(draft) : "Choose a product and quantity.";
+    if (draft) {
+      setSpecErrors(validateSpec(specFields, spec));
+    }
+    if (!draft || error) {
+      toast({
+        title: "Validation Error",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCart(prev => [...prev, draft]);
+    resetEditor();
+  };
+
+  // Moves a cart line back into the editor; its upload carries on under the same ID
+  const handleEditLine = (line: CartLine) => {
+    const draft = getDraftLine();
+    if (draft) {
+      toast({
+        title: "Finish This Product First",
+        description: "Add the product you're editing to the cart, or clear it, before editing another.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCart(prev => prev.filter(item => item.id !== line.id));
+    setLineId(line.id);
+    setProductId(line.productId);
+    setQuantity(String(line.quantity));
+    setSpec(line.spec);
+    setSpecErrors({});
+    setSpecifications(line.specifications);
+    setFilePreview(null);
+  };
+
+  const handleRemoveLine = (id: string) => {
+    setCart(prev => prev.filter(item => item.id !== id));
+    discardUpload(id);
+  };
+
+  const handleClearEditor = () => {
+    discardUpload(lineId);
+    resetEditor();
+  };
+
+  // A product still in the editor is ordered too, so a single product needs no "Add to cart"
+  const getOrderLines = (): CartLine[] => {
+    const draft = getDraftLine();
+    return draft ? [...cart, draft] : cart;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -162,10 +400,21 @@ export default function Order() {
       return;
     }
 
-    if (!productType || !quantity || !deliveryAddress || !file) {
+    const lines = getOrderLines();
+    if (lines.length === 0 || !shippingAddress || !billingAddress) {
       toast({
         title: "Validation Error",
-        description: "Please fill in all required fields.",
+        description: lines.length === 0 ? "Add at least one product to your order." : "Choose a shipping and billing address.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const lineError = lines.map(validateLine).find(Boolean);
+    if (lineError) {
+      toast({
+        title: "Validation Error",
+        description: lineError,
         variant: "destructive",
       });
       return;
@@ -180,32 +429,71 @@ export default function Order() {
       return;
     }
 
+    if (lines.some(line => uploads[line.id]?.state !== 'done')) {
+      toast({
+        title: "Upload In Progress",
+        description: "Please wait for all design files to finish uploading.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const estimatedPrice = calculateEstimatedPrice();
       const customerTrackingId = `TRK-${user.uid.substring(0, 6)}-${generateId(8).toUpperCase()}`;
-      const hsnCode = hsnCodes[productType as keyof typeof hsnCodes] || "4911";
-
-      // Step 1: Upload file
-      setProcessingStep("Uploading design file...");
-      const fileUrl = await mockFileUpload(file, user.uid);
+      const placeOfSupply = getPlaceOfSupply({ gstNumber, deliveryState });
+
+      // GST is added on top of each line's quoted price; the grand total is what Razorpay charges
+      const lineItems = lines.map(line => {
+        const priceQuote = getPriceQuote(line) as PriceQuote;
+        const uploadedFile = uploads[line.id].uploaded as UploadedFile;
+        const hsnCode = line.hsnCode || getHsnCode(line.productType);
+        const taxBreakdown = calculateTax(priceQuote.total, hsnCode, placeOfSupply);
+
+        return {
+          productId: line.productId,
+          productName: line.productName,
+          productType: line.productType,
+          quantity: line.quantity,
+          spec: cleanSpec(getLineSpecFields(line.productType), line.spec),
+          specifications: line.specifications,
+          fileUrl: uploadedFile.url,
+          filePath: uploadedFile.path,
+          fileName: uploadedFile.name,
+          hsnCode,
+          pricingOptions: getSpecPricingOptions(line.productType, line.spec, line.quantity),
+          priceBreakdown: priceQuote,
+          subtotal: taxBreakdown.taxableAmount,
+          taxBreakdown,
+        };
+      });
+      const taxBreakdown = combineTaxBreakdowns(lineItems.map(line => line.taxBreakdown));
+      const [firstLine] = lineItems;
 
-      // Step 2: Create order
+      // Step 1: Create order (the design files were uploaded when they were selected)
       setProcessingStep("Creating order...");
       const orderData = {
         userId: user.uid,
-        productType,
-        quantity: parseInt(quantity),
-        specifications,
-        deliveryAddress,
+        lineItems,
+        productType: firstLine.productType,
+        quantity: lineItems.reduce((total, line) => total + line.quantity, 0),
+        specifications: firstLine.specifications,
+        deliveryAddress: formatAddress(toOrderAddress(shippingAddress)),
+        deliveryState,
+        shippingAddress: toOrderAddress(shippingAddress),
+        billingAddress: toOrderAddress(billingAddress),
         gstNumber,
-        fileUrl,
-        fileName: file.name,
-        totalAmount: estimatedPrice,
+        fileUrl: firstLine.fileUrl,
+        filePath: firstLine.filePath,
+        fileName: firstLine.fileName,
+        subtotal: taxBreakdown.taxableAmount,
+        taxBreakdown,
+        totalAmount: taxBreakdown.total,
+        pricingVersion: pricing.version,
         customerName: userData?.name || user?.displayName || "Customer",
         customerEmail: userData?.email || user?.email || "customer@example.com",
-        hsnCode,
+        hsnCode: firstLine.hsnCode,
         trackingId: customerTrackingId,
       };
 
@@ -215,33 +503,31 @@ export default function Order() {
         throw new Error(orderResult.message || "Failed to create order");
       }
 
-      // Step 3: Initialize payment
+      // Step 2: Initialize payment
       setProcessingStep("Initializing payment gateway...");
       const razorpayLoaded = await initializeRazorpay();
       if (!razorpayLoaded) {
         throw new Error("Failed to load payment gateway");
       }
 
-      // Step 4: Create Razorpay order
+      // Step 3: Create Razorpay order
       setProcessingStep("Creating payment order...");
-      const razorpayOrder = await createRazorpayOrder(
-        orderResult.orderId,
-        estimatedPrice,
-        orderData.customerName,
-        orderData.customerEmail
-      );
-
-      // Step 5: Process payment with better error handling
+      const razorpayOrder = await createRazorpayOrder(orderResult.orderId);
+
+      // Step 4: Process payment with better error handling
       setProcessingStep("Opening payment gateway...");
       try {
         const paymentResult = await processPayment({
           orderId: orderResult.orderId,
           razorpayOrderId: razorpayOrder.id,
-          amount: estimatedPrice,
+          keyId: razorpayOrder.keyId,
+          amount: razorpayOrder.amount,
           currency: "INR",
           customerName: orderData.customerName,
           customerEmail: orderData.customerEmail,
-          description: `Order for ${orderData.productType} Printing - Qty: ${orderData.quantity}`,
+          description: lineItems.length > 1
+            ? `Order for ${lineItems.length} printing items - Qty: ${orderData.quantity}`
+            : `Order for ${orderData.productType} Printing - Qty: ${orderData.quantity}`,
           userId: orderData.userId,
           productType: orderData.productType,
           quantity: orderData.quantity,
@@ -249,9 +535,13 @@ export default function Order() {
         });
 
         if (paymentResult.status === 'completed' && paymentResult.paymentId) {
-          setProcessingStep("Payment successful! Finalizing order...");
+          setProcessingStep("Payment successful! Verifying payment...");
           
-          const updateResult = await updateOrderAfterPayment(orderResult.orderId, paymentResult.paymentId);
+          const updateResult = await updateOrderAfterPayment(orderResult.orderId, {
+            razorpayOrderId: razorpayOrder.id,
+            razorpayPaymentId: paymentResult.paymentId,
+            razorpaySignature: paymentResult.signature || ""
+          });
           
           if (updateResult.success) {
             toast({
@@ -305,7 +595,79 @@ export default function Order() {
     }
   };
 
-  const estimatedPrice = calculateEstimatedPrice();
+  const placeOfSupply = getPlaceOfSupply({ gstNumber, deliveryState });
+  const linePreviews = getOrderLines().map(line => {
+    const priceQuote = line.productType && line.quantity > 0 ? getPriceQuote(line) : null;
+    return {
+      line,
+      priceQuote,
+      tax: priceQuote ? calculateTax(priceQuote.total, line.hsnCode || getHsnCode(line.productType), placeOfSupply) : null,
+    };
+  });
+  const lineTaxes = linePreviews.flatMap(preview => (preview.tax ? [preview.tax] : []));
+  const taxPreview = lineTaxes.length ? combineTaxBreakdowns(lineTaxes) : null;
+  const estimatedPrice = taxPreview?.total || 0;
+  const draftUpload = uploads[lineId];
+
+  const renderAddressSelect = (id: string, value: string, onChange: (addressId: string) => void) => {
+    if (addresses.length === 0) {
+      return <p className="text-sm text-gray-500">Add an address to continue.</p>;
+    }
+    const selected = addresses.find(address => address.id === value);
+
+    return (
+      <>
+        <Select value={value} onValueChange={onChange} disabled={loading}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select address" />
+          </SelectTrigger>
+          <SelectContent>
+            {addresses.map(address => (
+              <SelectItem key={address.id} value={address.id}>
+                {address.label} — {address.city}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && <p className="text-xs text-gray-500">{formatAddress(toOrderAddress(selected))}</p>}
+      </>
+    );
+  };
+
+  const renderUploadStatus = (id: string) => {
+    const upload = uploads[id];
+    if (!upload) return null;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {upload.state === 'done' && (
+              <span className="flex items-center text-green-600">
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Uploaded ({formatFileSize(upload.file.size)})
+              </span>
+            )}
+            {upload.state === 'uploading' && `Uploading... ${upload.progress}%`}
+            {upload.state === 'paused' && `Paused at ${upload.progress}%`}
+            {upload.state === 'error' && <span className="text-red-600">Upload failed</span>}
+          </span>
+          {(upload.state === 'uploading' || upload.state === 'paused') && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => togglePauseUpload(id)} disabled={loading}>
+              {upload.state === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            </Button>
+          )}
+          {upload.state === 'error' && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => startUpload(id, upload.file)} disabled={loading}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          )}
+        </div>
+        <Progress value={upload.progress} className="h-2" />
+      </div>
+    );
+  };
   
   if (!user) {
     return (
@@ -354,80 +716,136 @@ export default function Order() {
                     </div>
                   )}
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="productType">Product Type</Label>
-                    <Select
-                      value={productType}
-                      onValueChange={setProductType}
-                      disabled={loading}
-                      required
-                    >
-                      <SelectTrigger id="productType">
-                        <SelectValue placeholder="Select product type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {productTypes.map((type) => (
-                          <SelectItem key={type.value} value={type.value}>
-                            {type.label}
-                          </SelectItem>
+                  {cart.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Cart</Label>
+                      <div className="border rounded-lg divide-y">
+                        {cart.map((line) => (
+                          <div key={line.id} className="p-3 space-y-2">
+                            <div className="flex items-start justify-between gap-2">
+                              <div className="min-w-0">
+                                <p className="font-medium">{getLineLabel(line)}</p>
+                                <p className="text-sm text-gray-500 truncate">
+                                  Qty: {line.quantity} · {uploads[line.id]?.file.name}
+                                </p>
+                              </div>
+                              <div className="flex gap-1">
+                                <Button type="button" variant="ghost" size="sm" onClick={() => handleEditLine(line)} disabled={loading}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveLine(line.id)} disabled={loading}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                            {uploads[line.id]?.state !== 'done' && renderUploadStatus(line.id)}
+                          </div>
                         ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                      </div>
+                    </div>
+                  )}
 
-                  <div className="space-y-2">
-                    <Label htmlFor="quantity">Quantity</Label>
-                    <Input
-                      id="quantity"
-                      type="number"
-                      placeholder="Enter quantity"
-                      value={quantity}
-                      onChange={(e) => setQuantity(e.target.value)}
-                      min="1"
-                      disabled={loading}
-                      required
-                    />
-                  </div>
+                  <div className="space-y-6 border rounded-lg p-4">
+                    <p className="font-medium">{cart.length > 0 ? "Add Another Product" : "Product"}</p>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="productType">Product</Label>
+                      <Select
+                        value={productId}
+                        onValueChange={handleProductChange}
+                        disabled={loading}
+                      >
+                        <SelectTrigger id="productType">
+                          <SelectValue placeholder="Select product" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {products.map((product) => (
+                            <SelectItem key={product.id} value={product.id}>
+                              {product.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedProduct?.description && (
+                        <p className="text-xs text-gray-500">{selectedProduct.description}</p>
+                      )}
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="specifications">Specifications</Label>
-                    <Textarea
-                      id="specifications"
-                      placeholder="Enter details about size, colors, material, etc."
-                      value={specifications}
-                      onChange={(e) => setSpecifications(e.target.value)}
-                      rows={4}
-                      disabled={loading}
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quantity">Quantity</Label>
+                      <Input
+                        id="quantity"
+                        type="number"
+                        placeholder="Enter quantity"
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                        min="1"
+                        disabled={loading}
+                      />
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="file">Upload Design File</Label>
-                    <div className={`flex items-center justify-center border-2 border-dashed ${loading ? 'border-gray-200 bg-gray-50' : 'border-gray-300'} rounded-lg p-6`}>
-                      <label className={`w-full ${loading ? '' : 'cursor-pointer'}`}>
-                        <div className="flex flex-col items-center">
-                          {filePreview ? (
-                            <img src={filePreview} alt="Preview" className="h-24 object-contain mb-2" />
-                          ) : (
-                            <Upload className="h-10 w-10 text-gray-400 mb-2" />
-                          )}
-                          <span className="text-gray-600 mb-1 text-center">
-                            {file ? file.name : "Click to upload or drag and drop"}
-                          </span>
-                          <span className="text-xs text-gray-500">
-                            PDF, PNG, JPG or AI (Max 20MB)
-                          </span>
-                        </div>
-                        <Input
-                          id="file"
-                          type="file"
-                          accept=".pdf,.png,.jpg,.jpeg,.ai"
-                          onChange={handleFileChange}
-                          className="hidden"
-                          disabled={loading}
-                          required
-                        />
-                      </label>
+                    {specFields.length > 0 && (
+                      <SpecificationForm
+                        fields={specFields}
+                        value={spec}
+                        errors={specErrors}
+                        onChange={handleSpecChange}
+                        disabled={loading}
+                      />
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor="specifications">Additional Notes</Label>
+                      <Textarea
+                        id="specifications"
+                        placeholder="Anything else we should know, e.g. Pantone references or packing instructions"
+                        value={specifications}
+                        onChange={(e) => setSpecifications(e.target.value)}
+                        rows={4}
+                        disabled={loading}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="file">Upload Design File</Label>
+                      <div className={`flex items-center justify-center border-2 border-dashed ${loading ? 'border-gray-200 bg-gray-50' : 'border-gray-300'} rounded-lg p-6`}>
+                        <label className={`w-full ${loading ? '' : 'cursor-pointer'}`}>
+                          <div className="flex flex-col items-center">
+                            {filePreview ? (
+                              <img src={filePreview} alt="Preview" className="h-24 object-contain mb-2" />
+                            ) : (
+                              <Upload className="h-10 w-10 text-gray-400 mb-2" />
+                            )}
+                            <span className="text-gray-600 mb-1 text-center">
+                              {draftUpload ? draftUpload.file.name : "Click to upload or drag and drop"}
+                            </span>
+                            <span className="text-xs text-gray-500">
+                              PDF, AI, EPS, PNG or TIFF (Max 20MB)
+                            </span>
+                          </div>
+                          <Input
+                            id="file"
+                            type="file"
+                            accept={DESIGN_FILE_ACCEPT}
+                            onChange={handleFileChange}
+                            className="hidden"
+                            disabled={loading}
+                          />
+                        </label>
+                      </div>
+                      {draftUpload && renderUploadStatus(lineId)}
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      {getDraftLine() && (
+                        <Button type="button" variant="ghost" onClick={handleClearEditor} disabled={loading}>
+                          Clear
+                        </Button>
+                      )}
+                      <Button type="button" variant="outline" onClick={handleAddToCart} disabled={loading}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add to Cart
+                      </Button>
                     </div>
                   </div>
 
@@ -443,16 +861,41 @@ export default function Order() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="deliveryAddress">Delivery Address</Label>
-                    <Textarea
-                      id="deliveryAddress"
-                      placeholder="Enter full delivery address"
-                      value={deliveryAddress}
-                      onChange={(e) => setDeliveryAddress(e.target.value)}
-                      rows={3}
-                      disabled={loading}
-                      required
-                    />
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="shippingAddress">Shipping Address</Label>
+                      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setAddressDialogFor('shipping')} disabled={loading}>
+                        <Plus className="h-3 w-3 mr-1" />
+                        New address
+                      </Button>
+                    </div>
+                    {renderAddressSelect('shippingAddress', shippingAddressId, setShippingAddressId)}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="billingSameAsShipping"
+                        checked={billingSameAsShipping}
+                        onCheckedChange={(checked) => {
+                          setBillingSameAsShipping(checked === true);
+                          if (!billingAddressId) setBillingAddressId(shippingAddressId);
+                        }}
+                        disabled={loading}
+                      />
+                      <Label htmlFor="billingSameAsShipping" className="font-normal">Bill to the shipping address</Label>
+                    </div>
+                    {!billingSameAsShipping && (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="billingAddress">Billing Address</Label>
+                          <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setAddressDialogFor('billing')} disabled={loading}>
+                            <Plus className="h-3 w-3 mr-1" />
+                            New address
+                          </Button>
+                        </div>
+                        {renderAddressSelect('billingAddress', billingAddressId, setBillingAddressId)}
+                      </>
+                    )}
                   </div>
                 </CardContent>
                 <CardFooter className="flex justify-between">
@@ -480,22 +923,47 @@ export default function Order() {
                 <CardTitle>Order Summary</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div>
-                  <div className="text-sm text-gray-500">Product Type</div>
-                  <div className="font-medium">
-                    {productType
-                      ? productTypes.find((p) => p.value === productType)?.label
-                      : "Not selected"}
+                {linePreviews.length === 0 ? (
+                  <div className="text-sm text-gray-500">No products selected</div>
+                ) : (
+                  <div className="space-y-3">
+                    {linePreviews.map(({ line, priceQuote }) => (
+                      <div key={line.id} className="flex justify-between gap-2 text-sm">
+                        <div>
+                          <div className="font-medium">
+                            {line.productType ? getLineLabel(line) : "Not selected"}
+                          </div>
+                          <div className="text-gray-500">Qty: {line.quantity || 0}</div>
+                          {priceQuote?.minimumApplied && (
+                            <div className="text-xs text-orange-600">Minimum order value applied</div>
+                          )}
+                        </div>
+                        <span>{priceQuote ? `₹${priceQuote.total.toLocaleString()}` : "—"}</span>
+                      </div>
+                    ))}
                   </div>
-                </div>
+                )}
 
-                <div>
-                  <div className="text-sm text-gray-500">Quantity</div>
-                  <div className="font-medium">{quantity || "0"}</div>
-                </div>
+                {taxPreview && (
+                  <div className="pt-4 border-t space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Subtotal</span>
+                      <span>₹{taxPreview.taxableAmount.toLocaleString()}</span>
+                    </div>
+                    {getTaxLines(taxPreview).map(([label, amount]) => (
+                      <div key={label} className="flex justify-between">
+                        <span className="text-gray-500">{label}</span>
+                        <span>₹{amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    <div className="text-xs text-gray-500 pt-1">
+                      Place of supply: {GST_STATE_CODES[placeOfSupply]}
+                    </div>
+                  </div>
+                )}
 
                 <div className="pt-4 border-t">
-                  <div className="text-sm text-gray-500">Estimated Price</div>
+                  <div className="text-sm text-gray-500">Estimated Price (incl. GST)</div>
                   <div className="text-xl font-bold text-primary">
                     ₹{estimatedPrice.toLocaleString()}
                   </div>
@@ -518,6 +986,17 @@ export default function Order() {
           </div>
         </div>
       </div>
+
+      {user && (
+        <AddressDialog
+          open={addressDialogFor !== null}
+          onOpenChange={(open) => !open && setAddressDialogFor(null)}
+          userId={user.uid}
+          address={null}
+          defaults={userData?.addressDefaults || {}}
+          onSaved={handleAddressSaved}
+        />
+      )}
     </div>
   );
 }
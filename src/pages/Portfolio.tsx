@@ -1,91 +1,29 @@
-
 import { useEffect, useState } from "react";
-
-// Sample portfolio data
-const portfolioItems = [
-  {
-    id: 1,
-    title: "Premium Medicine Boxes",
-    category: "pharma",
-    type: "boxes",
-    client: "Leading Pharmaceutical Company",
-    description: "Custom designed medicine boxes with anti-counterfeiting features and vibrant UV printing for brand recognition.",
-    image: "/placeholder.svg"
-  },
-  {
-    id: 2,
-    title: "Automobile Parts Labels",
-    category: "automobile",
-    type: "labels",
-    client: "Auto Components Manufacturer",
-    description: "Durable, weather-resistant labels for automobile parts with scannable QR codes for inventory tracking.",
-    image: "/placeholder.svg"
-  },
-  {
-    id: 3,
-    title: "Product Packaging for Electronics",
-    category: "manufacturing",
-    type: "boxes",
-    client: "Electronics Manufacturer",
-    description: "Innovative packaging solution for consumer electronics with premium finish and multi-color UV printing.",
-    image: "/placeholder.svg"
-  },
-  {
-    id: 4,
-    title: "Premium Stickers Collection",
-    category: "retail",
-    type: "stickers",
-    client: "Retail Chain",
-    description: "High-quality promotional stickers with special effects UV printing for retail marketing campaign.",
-    image: "/placeholder.svg"
-  },
-  {
-    id: 5,
-    title: "Logistics Shipping Labels",
-    category: "logistics",
-    type: "labels",
-    client: "Logistics Service Provider",
-    description: "Weather-resistant shipping labels with barcode integration for nationwide logistics operations.",
-    image: "/placeholder.svg"
-  },
-  {
-    id: 6,
-    title: "Food Product Packaging",
-    category: "food",
-    type: "boxes",
-    client: "Food Processing Company",
-    description: "Food-grade packaging with vibrant colors and protective coatings for extended shelf life.",
-    image: "/placeholder.svg"
-  }
-];
-
-// Filter categories
-const categories = [
-  { id: "all", name: "All" },
-  { id: "boxes", name: "Boxes & Cartons" },
-  { id: "labels", name: "Labels" },
-  { id: "stickers", name: "Stickers" },
-  { id: "pharma", name: "Pharmaceutical" }
-];
+import { Link } from "react-router-dom";
+import { getCatalog, getProductImage, Catalog } from "@/lib/catalog-service";
 
 export default function Portfolio() {
   const [activeFilter, setActiveFilter] = useState("all");
-  const [filteredItems, setFilteredItems] = useState(portfolioItems);
-  
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+
   useEffect(() => {
     document.title = "Portfolio | Micro UV Printers";
-    
-    // Filter items based on active filter
-    if (activeFilter === "all") {
-      setFilteredItems(portfolioItems);
-    } else {
-      setFilteredItems(
-        portfolioItems.filter(
-          item => item.category === activeFilter || item.type === activeFilter
-        )
-      );
-    }
-  }, [activeFilter]);
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    setCatalog(await getCatalog());
+  };
+
+  // Only categories with at least one product on show become filters
+  const categories = [
+    { id: "all", name: "All" },
+    ...(catalog?.categories.filter(category => catalog.products.some(p => p.categoryIds.includes(category.id))) || []),
+  ];
+  const filteredItems = (catalog?.products || []).filter(
+    item => activeFilter === "all" || item.categoryIds.includes(activeFilter)
+  );
+  const categoryName = (id: string) => catalog?.categories.find(category => category.id === id)?.name;
 
   return (
     <div className="container-custom py-12 fade-in">
@@ -115,6 +53,16 @@ export default function Portfolio() {
       
       {/* Portfolio grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {!catalog && [...Array(6)].map((_, index) => (
+          <div key={index} className="bg-white rounded-lg shadow-md overflow-hidden animate-pulse">
+            <div className="h-64 bg-gray-200"></div>
+            <div className="p-6 space-y-3">
+              <div className="h-6 bg-gray-200 rounded w-2/3"></div>
+              <div className="h-4 bg-gray-100 rounded"></div>
+              <div className="h-4 bg-gray-100 rounded w-1/2"></div>
+            </div>
+          </div>
+        ))}
         {filteredItems.map((item, index) => (
           <div 
             key={item.id} 
@@ -123,24 +71,25 @@ export default function Portfolio() {
           >
             <div className="h-64 bg-gray-200 overflow-hidden">
               <img 
-                src={item.image} 
-                alt={item.title} 
+                src={getProductImage(item)} 
+                alt={item.name} 
                 className="w-full h-full object-cover transition-transform duration-300 hover:scale-105"
                 loading="lazy"
               />
             </div>
             <div className="p-6">
-              <h3 className="text-xl font-semibold mb-2">{item.title}</h3>
-              <p className="text-sm text-gray-500 mb-3">Client: {item.client}</p>
+              <h3 className="text-xl font-semibold mb-2">{item.name}</h3>
               <p className="text-gray-700 mb-4">{item.description}</p>
-              <div className="flex flex-wrap gap-2">
-                <span className="text-xs bg-gray-100 px-2 py-1 rounded-full text-gray-700 hover-scale">
-                  {item.category}
-                </span>
-                <span className="text-xs bg-gray-100 px-2 py-1 rounded-full text-gray-700 hover-scale">
-                  {item.type}
-                </span>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {item.categoryIds.filter(categoryName).map(id => (
+                  <span key={id} className="text-xs bg-gray-100 px-2 py-1 rounded-full text-gray-700 hover-scale">
+                    {categoryName(id)}
+                  </span>
+                ))}
               </div>
+              <Link to={`/order?product=${item.id}`} className="text-primary font-medium hover:underline">
+                Order this product
+              </Link>
             </div>
           </div>
         ))}
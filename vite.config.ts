@@ -17,6 +17,10 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Pure modules used by both the app and Cloud Functions
+      "@shared": path.resolve(__dirname, "./functions/src/shared"),
     },
+    // Shared modules import these too; bundle the app's copies
+    dedupe: ["jspdf", "jspdf-autotable"],
   },
 }));